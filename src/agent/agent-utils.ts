@@ -171,3 +171,122 @@ Do NOT continue with the same approach.`;
 
   return { isStuck: false, reason: null, reflection: null };
 }
+
+/**
+ * Minimal message shape used by the context compaction helpers
+ */
+export interface CompactableMessage {
+  role: string;
+  content?: unknown;
+  tool_calls?: unknown[];
+}
+
+/**
+ * Truncates oversized tool results in messages[start, end)
+ * Keeps the head and tail of each result so paths and errors survive
+ * Returns the number of messages truncated
+ */
+export function truncateToolResults(
+  messages: CompactableMessage[],
+  start: number,
+  end: number,
+  maxTokens: number,
+  countTokens: (text: string) => number
+): number {
+  let truncated = 0;
+
+  for (let i = start; i < end; i++) {
+    const message = messages[i];
+    if (message.role !== 'tool' || typeof message.content !== 'string') {
+      continue;
+    }
+
+    const tokens = countTokens(message.content);
+    if (tokens <= maxTokens) {
+      continue;
+    }
+
+    // Approximate characters to keep from the token budget (~4 chars per token)
+    const keepChars = Math.floor((maxTokens * 4) / 2);
+    const head = message.content.slice(0, keepChars);
+    const tail = message.content.slice(-keepChars);
+    messages[i] = {
+      ...message,
+      content: `${head}\n\n[... ${tokens - maxTokens} tokens of tool output truncated ...]\n\n${tail}`,
+    };
+    truncated++;
+  }
+
+  return truncated;
+}
+
+/**
+ * Finds the index where the recent, verbatim part of the conversation starts
+ * Walks back from the end until the token budget is spent, keeping at least
+ * minKeep messages and never separating tool results from their tool call
+ */
+export function findRecentWindowStart(
+  messages: CompactableMessage[],
+  minIndex: number,
+  tokenBudget: number,
+  countMessageTokens: (message: CompactableMessage) => number,
+  minKeep: number = 4
+): number {
+  let start = messages.length;
+  let used = 0;
+
+  while (start > minIndex) {
+    const cost = countMessageTokens(messages[start - 1]);
+    const kept = messages.length - start;
+    if (kept >= minKeep && used + cost > tokenBudget) {
+      break;
+    }
+    used += cost;
+    start--;
+  }
+
+  // Tool results must stay with the assistant message that requested them
+  while (start > minIndex && messages[start]?.role === 'tool') {
+    start--;
+  }
+
+  return start;
+}
+
+/**
+ * Tools that may run at the same time as each other: they don't change the
+ * working tree, except launch_agent, whose agents the task orchestrator throttles
+ */
+export const CONCURRENT_TOOLS = new Set(['view_file', 'search', 'bash_output', 'web_search', 'launch_agent']);
+
+/**
+ * Tools that change files, after which diagnostics are checked
+ */
+export const EDIT_TOOLS = new Set(['create_file', 'str_replace_editor', 'edit_file', 'batch_edit', 'apply_patch']);
+
+/**
+ * Splits one round of tool calls into batches that run one after another
+ * Consecutive concurrent tools share a batch; any other tool runs alone, so
+ * a read never overtakes an edit the model requested before it
+ */
+export function groupToolCalls<T extends { function: { name: string } }>(toolCalls: T[]): T[][] {
+  const batches: T[][] = [];
+  let concurrent: T[] = [];
+
+  for (const toolCall of toolCalls) {
+    if (CONCURRENT_TOOLS.has(toolCall.function.name)) {
+      concurrent.push(toolCall);
+      continue;
+    }
+    if (concurrent.length > 0) {
+      batches.push(concurrent);
+      concurrent = [];
+    }
+    batches.push([toolCall]);
+  }
+
+  if (concurrent.length > 0) {
+    batches.push(concurrent);
+  }
+  return batches;
+}
@@ -0,0 +1,247 @@
+import * as fs from "fs";
+import * as path from "path";
+import { BackupManager } from "../utils/backup-manager.js";
+import type { ZaiMessage } from "../zai/client.js";
+import type { ChatEntry } from "./zai-agent.js";
+
+/**
+ * State of a file before the first change made after a checkpoint
+ */
+interface FileSnapshot {
+  existed: boolean;
+  backupTimestamp?: number; // BackupManager backup holding the old content
+}
+
+/**
+ * A file's content at some point, stored in session transcripts so branches can be switched
+ */
+export interface FileState extends FileSnapshot {
+  path: string;
+}
+
+/**
+ * File states recorded by a session branch
+ */
+export interface BranchFiles {
+  base: FileState[]; // Each file before the branch first changed it
+  head: FileState[]; // Each file as the branch last left it
+}
+
+interface Checkpoint {
+  id: number;
+  prompt: string;
+  timestamp: Date;
+  userMessage: ZaiMessage; // Marks the conversation position (survives index shifts)
+  userEntry: ChatEntry;
+  files: Map<string, FileSnapshot>;
+}
+
+/**
+ * Public view of a checkpoint
+ */
+export interface CheckpointInfo {
+  id: number;
+  prompt: string;
+  timestamp: Date;
+  files: string[]; // Files changed during this turn
+}
+
+export interface FileRestoreResult {
+  restored: string[]; // Files written back from a backup
+  deleted: string[]; // Files that didn't exist at the checkpoint
+  failed: string[]; // Files whose backup was missing or invalid
+}
+
+export interface RewindResult {
+  checkpoint: CheckpointInfo;
+  files: FileRestoreResult;
+  conversationRestored: boolean; // False if the turn was already compacted away
+}
+
+/**
+ * Takes a checkpoint at every user turn and records the state of each file
+ * before it is first modified, so code and conversation can be rewound together.
+ *
+ * Only changes made through the file editing tools are tracked; files changed
+ * by bash commands are not.
+ */
+export class CheckpointManager {
+  private checkpoints: Checkpoint[] = [];
+  private nextId = 1;
+  private touchedFiles = new Set<string>(); // Kept across clear() so branches can be switched
+
+  constructor(private backupManager: BackupManager = BackupManager.getInstance()) {}
+
+  /**
+   * Take a checkpoint for a user turn
+   */
+  create(prompt: string, userMessage: ZaiMessage, userEntry: ChatEntry): CheckpointInfo {
+    const checkpoint: Checkpoint = {
+      id: this.nextId++,
+      prompt,
+      timestamp: new Date(),
+      userMessage,
+      userEntry,
+      files: new Map(),
+    };
+    this.checkpoints.push(checkpoint);
+    return this.toInfo(checkpoint);
+  }
+
+  /**
+   * Record the current state of files that are about to be modified
+   * Files already recorded in the latest checkpoint are skipped
+   */
+  async recordFiles(filePaths: string[]): Promise<void> {
+    const current = this.checkpoints[this.checkpoints.length - 1];
+    if (!current) {
+      return;
+    }
+
+    for (const filePath of filePaths) {
+      const resolvedPath = path.resolve(filePath);
+      if (current.files.has(resolvedPath)) {
+        continue;
+      }
+      this.touchedFiles.add(resolvedPath);
+
+      if (!fs.existsSync(resolvedPath)) {
+        current.files.set(resolvedPath, { existed: false });
+        continue;
+      }
+      const backup = await this.backupManager.createBackup(resolvedPath);
+      current.files.set(resolvedPath, { existed: true, backupTimestamp: backup?.timestamp });
+    }
+  }
+
+  /**
+   * Checkpoints, oldest first
+   */
+  list(): CheckpointInfo[] {
+    return this.checkpoints.map((checkpoint) => this.toInfo(checkpoint));
+  }
+
+  /**
+   * Conversation markers of a checkpoint, used to truncate history on rewind
+   */
+  getPosition(id: number): { userMessage: ZaiMessage; userEntry: ChatEntry } | null {
+    const checkpoint = this.checkpoints.find((c) => c.id === id);
+    return checkpoint ? { userMessage: checkpoint.userMessage, userEntry: checkpoint.userEntry } : null;
+  }
+
+  /**
+   * Put every file changed since a checkpoint back the way it was, and drop
+   * that checkpoint and all later ones
+   */
+  async restoreFiles(id: number): Promise<FileRestoreResult | null> {
+    const index = this.checkpoints.findIndex((c) => c.id === id);
+    if (index === -1) {
+      return null;
+    }
+
+    // The earliest snapshot at or after the checkpoint holds the state at that point
+    const targets = new Map<string, FileSnapshot>();
+    for (const checkpoint of this.checkpoints.slice(index)) {
+      for (const [filePath, snapshot] of checkpoint.files) {
+        if (!targets.has(filePath)) {
+          targets.set(filePath, snapshot);
+        }
+      }
+    }
+
+    const result = await this.restoreStates(
+      [...targets].map(([filePath, snapshot]) => ({ path: filePath, ...snapshot }))
+    );
+    this.checkpoints = this.checkpoints.slice(0, index);
+    return result;
+  }
+
+  /**
+   * State of the files changed in the latest turn, from before the turn changed them
+   */
+  getLatestTurnFiles(): FileState[] {
+    const current = this.checkpoints[this.checkpoints.length - 1];
+    return current ? [...current.files].map(([filePath, snapshot]) => ({ path: filePath, ...snapshot })) : [];
+  }
+
+  /**
+   * Every file changed through the editing tools, including before the last clear()
+   */
+  getTouchedFiles(): string[] {
+    return [...this.touchedFiles];
+  }
+
+  /**
+   * Back up the current content of files so it can be restored later
+   */
+  async snapshotFiles(filePaths: string[]): Promise<FileState[]> {
+    const states: FileState[] = [];
+    for (const filePath of filePaths) {
+      const resolvedPath = path.resolve(filePath);
+      if (!fs.existsSync(resolvedPath)) {
+        states.push({ path: resolvedPath, existed: false });
+        continue;
+      }
+      const backup = await this.backupManager.createBackup(resolvedPath);
+      states.push({ path: resolvedPath, existed: true, backupTimestamp: backup?.timestamp });
+    }
+    return states;
+  }
+
+  /**
+   * Write files back to recorded states, deleting those that didn't exist
+   */
+  async restoreStates(states: FileState[]): Promise<FileRestoreResult> {
+    const result: FileRestoreResult = { restored: [], deleted: [], failed: [] };
+    for (const state of states) {
+      this.touchedFiles.add(state.path);
+      if (!state.existed) {
+        try {
+          if (fs.existsSync(state.path)) {
+            fs.unlinkSync(state.path);
+          }
+          result.deleted.push(state.path);
+        } catch {
+          result.failed.push(state.path);
+        }
+        continue;
+      }
+
+      const restored =
+        state.backupTimestamp !== undefined &&
+        (await this.backupManager.restoreBackup(state.path, state.backupTimestamp));
+      (restored ? result.restored : result.failed).push(state.path);
+    }
+    return result;
+  }
+
+  clear(): void {
+    this.checkpoints = [];
+  }
+
+  private toInfo(checkpoint: Checkpoint): CheckpointInfo {
+    return {
+      id: checkpoint.id,
+      prompt: checkpoint.prompt,
+      timestamp: checkpoint.timestamp,
+      files: [...checkpoint.files.keys()],
+    };
+  }
+}
+
+/**
+ * File states that move the working tree from one branch to another
+ *
+ * Files the target branch changed go to its head state; files only the
+ * current branch changed go back to how they were before it changed them.
+ */
+export function getBranchSwitchStates(current: BranchFiles | undefined, target: BranchFiles | undefined): FileState[] {
+  const states = new Map<string, FileState>();
+  for (const state of current?.base || []) {
+    states.set(state.path, state);
+  }
+  for (const state of target?.head || []) {
+    states.set(state.path, state);
+  }
+  return [...states.values()];
+}
@@ -8,6 +8,9 @@
  * 1. Process ENTIRE stream before returning control
  * 2. Separate thinking, content, and tool calls
  * 3. Enable sequential tool execution before final response
+ *
+ * For live output, `iterate()` yields deltas as they arrive and returns
+ * the same ProcessorResult once the stream is exhausted.
  */
 
 import type { ZaiToolCall } from "../zai/client.js";
@@ -38,11 +41,22 @@ export interface ProcessorResult {
   message: AccumulatedMessage;
 }
 
+/**
+ * Incremental delta emitted while iterating a stream
+ */
+export interface ProcessorDelta {
+  type: "thinking" | "content" | "tool_call_start" | "restart";
+  /** Text delta (thinking/content) */
+  content?: string;
+}
+
 /**
  * Stream chunk from OpenAI API
  */
-interface StreamChunk {
+export interface StreamChunk {
   id?: string;
+  /** Set by ZaiClient.chatStream when a dropped stream is sent again */
+  restart?: boolean;
   choices?: Array<{
     delta?: {
       role?: string;
@@ -87,27 +101,53 @@ export class StreamProcessor {
   async process(
     stream: AsyncIterable<StreamChunk>
   ): Promise<ProcessorResult> {
-    // Reset state
-    this.thinking = [];
-    this.content = [];
-    this.accumulatedMessage = {};
-    this.finishReason = "";
+    const iterator = this.iterate(stream);
+    let next = await iterator.next();
+    while (!next.done) {
+      next = await iterator.next();
+    }
+    return next.value;
+  }
+
+  /**
+   * Process stream while yielding deltas as they arrive
+   *
+   * Yields a single `tool_call_start` delta the first time a tool call
+   * appears, so callers can treat already-emitted content as provisional.
+   * Yields `restart` when the request was retried after the stream dropped;
+   * everything emitted before it has been discarded.
+   *
+   * @param stream - AsyncIterable stream from OpenAI API
+   * @returns Complete processing result once the stream ends
+   */
+  async *iterate(
+    stream: AsyncIterable<StreamChunk>
+  ): AsyncGenerator<ProcessorDelta, ProcessorResult> {
+    this.reset();
 
     // Process entire stream
     for await (const chunk of stream) {
+      if (chunk.restart) {
+        this.reset();
+        yield { type: "restart" };
+        continue;
+      }
       if (!chunk.choices?.[0]) continue;
 
       const delta = chunk.choices[0].delta;
       const finishReason = chunk.choices[0].finish_reason;
+      const hadToolCalls = !!this.accumulatedMessage.tool_calls;
 
       // Accumulate reasoning/thinking
       if (delta?.reasoning_content) {
         this.thinking.push(delta.reasoning_content);
+        yield { type: "thinking", content: delta.reasoning_content };
       }
 
       // Accumulate text content
       if (delta?.content) {
         this.content.push(delta.content);
+        yield { type: "content", content: delta.content };
       }
 
       // Accumulate message using reducer
@@ -116,6 +156,10 @@ export class StreamProcessor {
         chunk
       );
 
+      if (!hadToolCalls && this.accumulatedMessage.tool_calls) {
+        yield { type: "tool_call_start" };
+      }
+
       // Capture finish reason
       if (finishReason) {
         this.finishReason = finishReason;
@@ -131,6 +175,13 @@ export class StreamProcessor {
     };
   }
 
+  private reset(): void {
+    this.thinking = [];
+    this.content = [];
+    this.accumulatedMessage = {};
+    this.finishReason = "";
+  }
+
   /**
    * Check if stream processing resulted in tool calls
    */
@@ -1,7 +1,10 @@
-import { ZaiClient, ZaiMessage, ZaiToolCall } from "../zai/client.js";
+import { ZaiClient, ZaiMessage, ZaiResponse, ZaiTool, ZaiToolCall } from "../zai/client.js";
+import { DEFAULT_PROVIDER, getProvider } from "../zai/providers.js";
+import { isModelUnavailable, type RetryInfo } from "../zai/retry.js";
 import {
   ZAI_TOOLS,
   addMCPToolsToZaiTools,
+  filterZaiTools,
   getAllZaiTools,
   getMCPManager,
   initializeMCPServers,
@@ -15,24 +18,80 @@ import {
   ConfirmationTool,
   SearchTool,
   BatchEditorTool,
+  ApplyPatchTool,
 } from "../tools/index.js";
 import { WebSearchTool } from "../tools/web-search.js";
 import { ToolResult } from "../types/index.js";
+import type { TodoItem } from "../tools/todo-tool.js";
+import type { SessionTranscript } from "../utils/session-transcript.js";
+import { getSessionManager, type SessionData, type SessionMetadata } from "../utils/session-manager.js";
+import { BackupManager } from "../utils/backup-manager.js";
+import {
+  CheckpointManager,
+  getBranchSwitchStates,
+  type CheckpointInfo,
+  type FileRestoreResult,
+  type FileState,
+  type RewindResult,
+} from "./checkpoint-manager.js";
 import { EventEmitter } from "events";
 import { createTokenCounter, TokenCounter } from "../utils/token-counter.js";
 import { loadCustomInstructions } from "../utils/custom-instructions.js";
 import { getSettingsManager } from "../utils/settings-manager.js";
 import { getMetricsCollector } from "../utils/metrics.js";
 import { ErrorHandler } from "../utils/error-handler.js";
-import { ToolExecutionError, APIError } from "../errors/index.js";
-import { StreamProcessor } from "./stream-processor.js";
+import { ToolExecutionError, APIError, PermissionDeniedError, HookBlockedError } from "../errors/index.js";
+import { ConfirmationService } from "../utils/confirmation-service.js";
+import {
+  getPermissionManager,
+  getPermissionRequests,
+} from "../utils/permission-manager.js";
+import { HookManager, type HookEvent, type HookOutcome } from "../utils/hook-manager.js";
+import {
+  StreamProcessor,
+  type ProcessorDelta,
+  type ProcessorResult,
+  type StreamChunk,
+} from "./stream-processor.js";
 import { createChatStateMachine, type ChatState } from "./chat-state-machine.js";
 import {
   extractCriticalInfo as extractCriticalInfoUtil,
   detectStuckPattern as detectStuckPatternUtil,
   findMostCommonTool,
+  findRecentWindowStart,
+  groupToolCalls,
+  EDIT_TOOLS,
+  truncateToolResults,
   type ToolResult as AgentToolResult
 } from "./agent-utils.js";
+import {
+  formatModelOption,
+  getCompactionThreshold,
+  getFallbackModels,
+  getModelContextWindow,
+  getRoutedModel,
+  resolveModelOption,
+  type ModelOption,
+} from "../utils/model-config.js";
+import { createDiagnosticsMonitor, type DiagnosticsMonitor } from "../utils/diagnostics.js";
+
+/**
+ * Model-facing conversation state, persisted with saved sessions
+ */
+export interface AgentSessionState {
+  messages: ZaiMessage[]; // Everything sent to the API, including tool calls and results
+  contextSummary: string;
+  todos: TodoItem[];
+}
+
+/**
+ * Result of forking a session into a new branch
+ */
+export interface ForkResult {
+  parent: SessionMetadata;
+  branch: SessionMetadata;
+  rewind: RewindResult | null; // Set when the fork starts from an earlier checkpoint
+}
 
 export interface ChatEntry {
   type: "user" | "assistant" | "tool_result" | "tool_call" | "agent_activity";
@@ -42,6 +101,8 @@ export interface ChatEntry {
   toolCall?: ZaiToolCall;
   toolResult?: { success: boolean; output?: string; error?: string };
   isStreaming?: boolean;
+  thinking?: string; // Model reasoning behind an assistant response
+  usage?: { inputTokens: number; outputTokens: number }; // Tokens for the API call behind an assistant response
   agentInfo?: {
     type: string;
     name: string;
@@ -53,16 +114,51 @@ export interface ChatEntry {
 }
 
 export interface StreamingChunk {
-  type: "content" | "tool_calls" | "tool_result" | "done" | "token_count" | "thinking";
-  content?: string;
+  type:
+    | "content"
+    | "content_retract"
+    | "tool_calls"
+    | "tool_result"
+    | "done"
+    | "token_count"
+    | "thinking"
+    | "thinking_retract"
+    | "error";
+  content?: string; // For thinking_retract, the thinking being withdrawn
   toolCalls?: ZaiToolCall[];
   toolCall?: ZaiToolCall;
   toolResult?: ToolResult;
   tokenCount?: number;
 }
 
+/**
+ * Announced when a request moves down the model fallback chain
+ */
+export interface ModelFallbackInfo {
+  from: string;
+  to: string;
+  error: Error;
+  sessionWide: boolean; // The agent itself switched models, not just one request
+}
+
+/**
+ * Edits in one round of tool calls; diagnostics are reported after the last one
+ */
+interface EditRound {
+  lastEditId: string;
+  files: string[];
+}
+
+export interface CompactionResult {
+  tokensBefore: number;
+  tokensAfter: number;
+  truncatedToolResults: number;
+  summarizedMessages: number;
+}
+
 export class ZaiAgent extends EventEmitter {
   private zaiClient: ZaiClient;
+  private providerClients = new Map<string, ZaiClient>(); // For routed and fallback models served elsewhere
   private textEditor: TextEditorTool;
   private morphEditor: MorphEditorTool | null;
   private bash: BashTool;
@@ -70,6 +166,8 @@ export class ZaiAgent extends EventEmitter {
   private confirmationTool: ConfirmationTool;
   private search: SearchTool;
   private batchEditor: BatchEditorTool;
+  private patchTool: ApplyPatchTool;
+  private hooks: HookManager;
   private webSearchTool: WebSearchTool;
   private chatHistory: ChatEntry[] = [];
   private messages: ZaiMessage[] = [];
@@ -78,11 +176,17 @@ export class ZaiAgent extends EventEmitter {
   private mcpInitialized: boolean = false;
   private maxToolRounds: number;
   private systemInstructions: string = ""; // Store instructions to prepend to first user message
+  private allowedTools: Set<string> | null = null; // Tool allowlist (null = all tools)
+  private liveStreaming: boolean = false; // Stream content deltas as they arrive
 
   // Context management constants and state
-  private readonly MAX_MESSAGES = 50; // Adjust based on average token count
-  private readonly KEEP_RECENT_MESSAGES = 20; // Always keep recent context
+  private preconversationMessages = 0; // Guideline and project-instruction exchange that is never compacted
+  private readonly TOOL_RESULT_MAX_TOKENS = 2000; // Old tool results are truncated to this size
+  private readonly RECENT_CONTEXT_RATIO = 0.3; // Share of the window kept verbatim when summarizing
   private contextSummary: string = "";
+  private transcript: SessionTranscript | null = null; // Autosave target for this session
+  private checkpoints = new CheckpointManager(); // One per interactive user turn, for /rewind
+  private diagnostics: DiagnosticsMonitor | null; // Checks edited files when configured
 
   // Loop detection and recovery state
   private readonly MAX_CONSECUTIVE_FAILURES = 3; // Max failures before injecting reflection
@@ -95,21 +199,38 @@ export class ZaiAgent extends EventEmitter {
     apiKey: string,
     baseURL?: string,
     model?: string,
-    maxToolRounds?: number
+    maxToolRounds?: number,
+    allowedTools?: string[],
+    workingDirectory?: string // Root for file and shell tools (defaults to the process cwd)
   ) {
     super();
     const manager = getSettingsManager();
     const savedModel = manager.getCurrentModel();
     const modelToUse = model || savedModel || "glm-4.7"; // Utiliser glm-4.7 par défaut
     this.maxToolRounds = maxToolRounds || 400;
-    this.zaiClient = new ZaiClient(apiKey, modelToUse, baseURL);
-    this.textEditor = new TextEditorTool();
-    this.morphEditor = process.env.MORPH_API_KEY ? new MorphEditorTool() : null;
-    this.bash = new BashTool();
+    this.allowedTools = allowedTools ? new Set(allowedTools) : null;
+    this.liveStreaming = manager.getUserSetting("liveStreaming") ?? false;
+    // The default Z.ai provider honours the explicit key/URL; other profiles bring their own
+    const provider = getProvider(manager.getCurrentProvider());
+    const useProfile = provider.name !== DEFAULT_PROVIDER;
+    this.zaiClient = new ZaiClient(
+      useProfile ? provider.resolveApiKey() || apiKey : apiKey,
+      modelToUse,
+      useProfile ? provider.baseURL : baseURL,
+      provider
+    );
+    // Let the UI (or the orchestrator, for sub-agents) show "retrying in Ns"
+    this.zaiClient.on("retry", (info: RetryInfo) => this.emit("retry", info));
+    this.textEditor = new TextEditorTool(workingDirectory);
+    this.morphEditor = process.env.MORPH_API_KEY ? new MorphEditorTool(undefined, workingDirectory) : null;
+    this.bash = new BashTool(workingDirectory);
     this.todoTool = new TodoTool();
     this.confirmationTool = new ConfirmationTool();
-    this.search = new SearchTool();
-    this.batchEditor = new BatchEditorTool();
+    this.search = new SearchTool(workingDirectory);
+    this.batchEditor = new BatchEditorTool(workingDirectory);
+    this.patchTool = new ApplyPatchTool(workingDirectory);
+    this.hooks = new HookManager(workingDirectory);
+    this.diagnostics = createDiagnosticsMonitor(workingDirectory || process.cwd());
     this.webSearchTool = new WebSearchTool(apiKey, baseURL);
     this.tokenCounter = createTokenCounter(modelToUse);
 
@@ -197,6 +318,7 @@ Ready to help! What would you like to work on?`
 I'm ready to help with this project. What would you like me to do?`
       });
     }
+    this.preconversationMessages = this.messages.length;
 
     // Store full instructions for reference (not sent to API)
     this.systemInstructions = `<role>
@@ -204,7 +326,7 @@ You are ZAI CLI, an AI assistant powered by Z.ai GLM models that helps with file
 </role>${customInstructions ? `\n\n<custom_instructions>\n${customInstructions}\n</custom_instructions>` : ''}
 
 <context>
-Current working directory: ${process.cwd()}
+Current working directory: ${workingDirectory || process.cwd()}
 </context>
 
 <tools>
@@ -219,6 +341,7 @@ Available tools for your use:
 - bash: Execute bash commands for system operations, navigation, and file discovery
 - search: Unified search tool for finding text content or files (similar to Cursor's search functionality)
 - batch_edit: Apply the same edit to multiple files simultaneously (for refactoring, renaming, project-wide changes)
+- apply_patch: Apply a unified diff or multi-file patch (add, update, delete and move files in one reviewed step)
 - create_todo_list: Create a visual todo list for planning and tracking tasks
 - update_todo_list: Update existing todos in your todo list
 
@@ -382,6 +505,95 @@ USER REQUEST:
     return extractCriticalInfoUtil(contents);
   }
 
+  /**
+   * Send a chat request, moving down the model fallback chain while models
+   * are unavailable. Without an explicit model the agent's own model is
+   * used, and a fallback replaces it for the rest of the session.
+   * Each model is sent to the provider that serves it.
+   */
+  private async chatWithFallback(
+    messages: ZaiMessage[],
+    tools: ZaiTool[],
+    model?: string,
+    signal?: AbortSignal
+  ): Promise<ZaiResponse> {
+    const providerName = this.zaiClient.getProvider().name;
+    let current: ModelOption = model
+      ? resolveModelOption(model, providerName)
+      : { model: this.zaiClient.getCurrentModel(), provider: providerName };
+    const fallbacks = getFallbackModels(current.model, current.provider);
+    for (;;) {
+      try {
+        return await this.clientFor(current.provider).chat(messages, tools, current.model, signal, fallbacks.length > 0);
+      } catch (error: any) {
+        const next = fallbacks.shift();
+        if (!next || !isModelUnavailable(error) || signal?.aborted) {
+          throw error;
+        }
+        this.fallBack(current.model, next, error, !model);
+        current = next;
+      }
+    }
+  }
+
+  /**
+   * Client for a provider, reusing the agent's own when it is the same one
+   */
+  private clientFor(providerName?: string): ZaiClient {
+    if (!providerName || providerName === this.zaiClient.getProvider().name) {
+      return this.zaiClient;
+    }
+    let client = this.providerClients.get(providerName);
+    if (!client) {
+      const provider = getProvider(providerName);
+      client = new ZaiClient(provider.resolveApiKey() || this.zaiClient.apiKey, undefined, provider.baseURL, provider);
+      client.on("retry", (info: RetryInfo) => this.emit("retry", info));
+      this.providerClients.set(providerName, client);
+    }
+    return client;
+  }
+
+  /**
+   * Streaming counterpart of chatWithFallback for the agent's own model
+   * Only falls back if the stream fails before its first chunk.
+   */
+  private async *chatStreamWithFallback(
+    messages: ZaiMessage[],
+    tools: ZaiTool[],
+    signal?: AbortSignal
+  ): AsyncGenerator<StreamChunk, void, unknown> {
+    let current = this.zaiClient.getCurrentModel();
+    const fallbacks = getFallbackModels(current, this.zaiClient.getProvider().name);
+    for (;;) {
+      let received = false;
+      try {
+        // A fallback switches the agent's client to the fallback's provider
+        const stream = this.zaiClient.chatStream(messages, tools, current, signal, fallbacks.length > 0);
+        for await (const chunk of stream) {
+          received = true;
+          yield chunk;
+        }
+        return;
+      } catch (error) {
+        const next = fallbacks.shift();
+        if (received || !next || !isModelUnavailable(error) || signal?.aborted) {
+          throw error;
+        }
+        this.fallBack(current, next, error, true);
+        current = next.model;
+      }
+    }
+  }
+
+  private fallBack(from: string, to: ModelOption, error: Error, sessionWide: boolean): void {
+    if (sessionWide) {
+      // Only for this session - the saved model is left alone
+      this.setModel(to.model, to.provider);
+    }
+    const info: ModelFallbackInfo = { from, to: formatModelOption(to), error, sessionWide };
+    this.emit("model_fallback", info);
+  }
+
   /**
    * Summarizes a range of conversation messages into a concise summary
    * Focuses on key decisions, file modifications, findings, and state
@@ -420,7 +632,7 @@ ${JSON.stringify(messages, null, 2)}`;
         }
       ];
 
-      const response = await this.zaiClient.chat(summaryMessages, []);
+      const response = await this.chatWithFallback(summaryMessages, [], getRoutedModel("summarize"));
       const summary = response.choices[0]?.message?.content || "Unable to generate summary.";
 
       return summary + criticalSection;
@@ -436,51 +648,88 @@ ${JSON.stringify(messages, null, 2)}`;
   }
 
   /**
-   * Manages context by compressing old messages when limit is reached
-   * Preserves system message, creates summary of old context, keeps recent messages
+   * Counts the tokens currently held in the conversation
+   */
+  private countContextTokens(): number {
+    return this.tokenCounter.countMessageTokens(this.messages);
+  }
+
+  /**
+   * Manages context by compacting old messages once the token high-water mark is reached
+   * First truncates large old tool results, then summarizes old messages if still needed.
+   * Keeps the pre-conversation guidelines and a recent window verbatim.
    */
-  private async manageContext(): Promise<void> {
-    if (this.messages.length <= this.MAX_MESSAGES) {
-      return; // No need to compress yet
+  private async manageContext(force: boolean = false): Promise<CompactionResult | null> {
+    const tokensBefore = this.countContextTokens();
+    const contextWindow = getModelContextWindow(this.zaiClient.getCurrentModel());
+    const highWaterMark = Math.floor(contextWindow * getCompactionThreshold());
+
+    if (!force && tokensBefore <= highWaterMark) {
+      return null; // No need to compress yet
     }
 
     try {
-      // Calculate range of messages to summarize
-      const systemMessage = this.messages[0]; // Always keep system message
-      const recentMessages = this.messages.slice(-this.KEEP_RECENT_MESSAGES);
-      const oldMessages = this.messages.slice(1, -this.KEEP_RECENT_MESSAGES);
+      const recentStart = findRecentWindowStart(
+        this.messages,
+        this.preconversationMessages,
+        Math.floor(contextWindow * this.RECENT_CONTEXT_RATIO),
+        (message) => this.tokenCounter.countMessageTokens([message])
+      );
 
-      // Only summarize if there are old messages to compress
-      if (oldMessages.length === 0) {
-        return;
-      }
+      // Cheap step first: cut down large tool results outside the recent window
+      const truncatedToolResults = truncateToolResults(
+        this.messages,
+        this.preconversationMessages,
+        recentStart,
+        this.TOOL_RESULT_MAX_TOKENS,
+        (text) => this.tokenCounter.countTokens(text)
+      );
 
-      // Summarize old messages
-      const summary = await this.summarizeContext(oldMessages);
+      let summarizedMessages = 0;
+      const oldMessages = this.messages.slice(this.preconversationMessages, recentStart);
 
-      // Rebuild messages array with summary
-      this.messages = [
-        systemMessage,
-        {
-          role: "system",
-          content: `<context_summary>
+      // Only summarize if still over the mark and there are old messages to compress
+      if ((force || this.countContextTokens() > highWaterMark) && oldMessages.length > 0) {
+        const summary = await this.summarizeContext(oldMessages);
+
+        // Rebuild messages array with summary
+        this.messages = [
+          ...this.messages.slice(0, this.preconversationMessages),
+          {
+            role: "system",
+            content: `<context_summary>
 Previous conversation summary:
 ${summary}
 </context_summary>`
-        },
-        ...recentMessages
-      ];
+          },
+          ...this.messages.slice(recentStart)
+        ];
 
-      // Store summary for reference
-      this.contextSummary = summary;
+        // Store summary for reference
+        this.contextSummary = summary;
+        summarizedMessages = oldMessages.length;
+      }
 
-      console.log(`Context compressed: ${oldMessages.length} messages summarized, ${recentMessages.length} recent messages kept.`);
+      return {
+        tokensBefore,
+        tokensAfter: this.countContextTokens(),
+        truncatedToolResults,
+        summarizedMessages,
+      };
     } catch (error: any) {
       console.warn("Context management failed:", error.message);
       // If context management fails, continue without compression
+      return null;
     }
   }
 
+  /**
+   * Compacts the conversation immediately, regardless of the high-water mark
+   */
+  async compactContext(): Promise<CompactionResult | null> {
+    return this.manageContext(true);
+  }
+
   /**
    * Records a tool result for stuck detection
    */
@@ -521,6 +770,35 @@ ${summary}
     this.reflectionCount = 0;
   }
 
+  /**
+   * Returns the tool schemas sent to the model, restricted to the allowlist if one is set
+   */
+  private async getAvailableTools(): Promise<ZaiTool[]> {
+    const tools = await getAllZaiTools();
+    return filterZaiTools(tools, this.getAllowedTools());
+  }
+
+  /**
+   * Checks whether a tool may be executed by this agent
+   */
+  isToolAllowed(toolName: string): boolean {
+    return !this.allowedTools || this.allowedTools.has(toolName);
+  }
+
+  /**
+   * Returns the tool allowlist, or null if all tools are available
+   */
+  getAllowedTools(): string[] | null {
+    return this.allowedTools ? [...this.allowedTools] : null;
+  }
+
+  /**
+   * Replaces the tool allowlist (null = all tools)
+   */
+  setAllowedTools(allowedTools: string[] | null): void {
+    this.allowedTools = allowedTools ? new Set(allowedTools) : null;
+  }
+
   private async initializeMCP(): Promise<void> {
     // Initialize MCP in the background without blocking
     Promise.resolve().then(async () => {
@@ -537,38 +815,80 @@ ${summary}
     });
   }
 
-  async processUserMessage(message: string): Promise<ChatEntry[]> {
+  /**
+   * Run a prompt to completion and return the entries it added
+   * Emits "entry" as each entry is added or updated, so the caller can
+   * follow along (used to stream sub-agent transcripts). Aborting signal
+   * stops the run like abortCurrentOperation does.
+   */
+  async processUserMessage(message: string, signal?: AbortSignal): Promise<ChatEntry[]> {
     // Start metrics tracking
     const metrics = getMetricsCollector();
     const taskId = metrics.startTask(message);
 
-    // Manage context before adding new message
-    await this.manageContext();
+    // Set up cancellation before the first await so an early abort isn't lost
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    if (signal?.aborted) {
+      abortController.abort();
+    }
+    const onAbort = () => abortController.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
 
-    // Add user message to conversation
     const userEntry: ChatEntry = {
       type: "user",
       content: message,
       timestamp: new Date(),
     };
+
+    // UserPromptSubmit hooks can block the prompt or add context
+    const promptHook = await this.hooks.run("UserPromptSubmit", { prompt: message });
+    if (promptHook.blocked) {
+      metrics.endTask(false);
+      const blockedEntry: ChatEntry = {
+        type: "assistant",
+        content: this.hookBlocked("UserPromptSubmit", promptHook.reason!).error!,
+        timestamp: new Date(),
+      };
+      this.emit("entry", userEntry);
+      this.emit("entry", blockedEntry);
+      signal?.removeEventListener("abort", onAbort);
+      this.abortController = null;
+      return [userEntry, blockedEntry];
+    }
+
+    // Manage context before adding new message
+    await this.manageContext();
+
+    // Add user message to conversation
     this.chatHistory.push(userEntry);
+    this.emit("entry", userEntry);
     this.messages.push({ role: "user", content: message });
+    this.addPromptHookContext(promptHook);
+    this.syncTranscript();
 
     const newEntries: ChatEntry[] = [userEntry];
     const maxToolRounds = this.maxToolRounds; // Prevent infinite loops
     let toolRounds = 0;
+    let stopHookActive = false;
     let totalInputTokens = 0;
     let totalOutputTokens = 0;
 
     try {
-      const tools = await getAllZaiTools();
-      let currentResponse = await this.zaiClient.chat(
+      const tools = await this.getAvailableTools();
+      let currentResponse = await this.chatWithFallback(
         this.messages,
-        tools
+        tools,
+        undefined,
+        abortController.signal
       );
 
       // Agent loop - continue until no more tool calls or max rounds reached
       while (toolRounds < maxToolRounds) {
+        if (abortController.signal.aborted) {
+          throw new Error("Operation cancelled");
+        }
+
         const assistantMessage = currentResponse.choices[0]?.message;
 
         if (!assistantMessage) {
@@ -589,9 +909,11 @@ ${summary}
             content: assistantMessage.content || "Using tools to help you...",
             timestamp: new Date(),
             toolCalls: assistantMessage.tool_calls,
+            usage: this.responseUsage(currentResponse),
           };
           this.chatHistory.push(assistantEntry);
           newEntries.push(assistantEntry);
+          this.emit("entry", assistantEntry);
 
           // Add assistant message to conversation
           this.messages.push({
@@ -610,57 +932,69 @@ ${summary}
             };
             this.chatHistory.push(toolCallEntry);
             newEntries.push(toolCallEntry);
+            this.emit("entry", toolCallEntry);
           });
 
           // Execute tool calls and update the entries
-          for (const toolCall of assistantMessage.tool_calls) {
-            const result = await this.executeTool(toolCall);
-
-            // Record tool call metrics
-            metrics.recordToolCall(toolCall.function.name, result.success);
+          // Calls in a batch run concurrently; results are still handled in call order
+          const editRound = await this.startEditRound(assistantMessage.tool_calls);
+          for (const batch of groupToolCalls(assistantMessage.tool_calls)) {
+            const pending = batch.map((toolCall) => this.executeTool(toolCall));
+            // Observe every rejection now: an earlier failure or an abort can leave later calls unawaited
+            pending.forEach((promise) => promise.catch(() => undefined));
+            for (const [index, toolCall] of batch.entries()) {
+              const result = await this.finishEdit(editRound, toolCall, await pending[index]);
+
+              // Record tool call metrics
+              metrics.recordToolCall(toolCall.function.name, result.success);
+
+              // Update the existing tool_call entry with the result
+              const entryIndex = this.chatHistory.findIndex(
+                (entry) =>
+                  entry.type === "tool_call" && entry.toolCall?.id === toolCall.id
+              );
 
-            // Update the existing tool_call entry with the result
-            const entryIndex = this.chatHistory.findIndex(
-              (entry) =>
-                entry.type === "tool_call" && entry.toolCall?.id === toolCall.id
-            );
+              if (entryIndex !== -1) {
+                const updatedEntry: ChatEntry = {
+                  ...this.chatHistory[entryIndex],
+                  type: "tool_result",
+                  content: result.success
+                    ? result.output || "Success"
+                    : result.error || "Error occurred",
+                  toolResult: result,
+                };
+                this.chatHistory[entryIndex] = updatedEntry;
+
+                // Also update in newEntries for return value
+                const newEntryIndex = newEntries.findIndex(
+                  (entry) =>
+                    entry.type === "tool_call" &&
+                    entry.toolCall?.id === toolCall.id
+                );
+                if (newEntryIndex !== -1) {
+                  newEntries[newEntryIndex] = updatedEntry;
+                }
+                this.emit("entry", updatedEntry);
+              }
 
-            if (entryIndex !== -1) {
-              const updatedEntry: ChatEntry = {
-                ...this.chatHistory[entryIndex],
-                type: "tool_result",
+              // Add tool result to messages with proper format (needed for AI context)
+              this.messages.push({
+                role: "tool",
                 content: result.success
                   ? result.output || "Success"
-                  : result.error || "Error occurred",
-                toolResult: result,
-              };
-              this.chatHistory[entryIndex] = updatedEntry;
-
-              // Also update in newEntries for return value
-              const newEntryIndex = newEntries.findIndex(
-                (entry) =>
-                  entry.type === "tool_call" &&
-                  entry.toolCall?.id === toolCall.id
-              );
-              if (newEntryIndex !== -1) {
-                newEntries[newEntryIndex] = updatedEntry;
-              }
+                  : result.error || "Error",
+                tool_call_id: toolCall.id,
+              });
             }
-
-            // Add tool result to messages with proper format (needed for AI context)
-            this.messages.push({
-              role: "tool",
-              content: result.success
-                ? result.output || "Success"
-                : result.error || "Error",
-              tool_call_id: toolCall.id,
-            });
           }
+          this.syncTranscript();
 
           // Get next response - this might contain more tool calls
-          currentResponse = await this.zaiClient.chat(
+          currentResponse = await this.chatWithFallback(
             this.messages,
-            tools
+            tools,
+            undefined,
+            abortController.signal
           );
         } else {
           // No more tool calls, add final response
@@ -670,6 +1004,7 @@ ${summary}
               assistantMessage.content ||
               "I understand, but I don't have a specific response.",
             timestamp: new Date(),
+            usage: this.responseUsage(currentResponse),
           };
           this.chatHistory.push(finalEntry);
           this.messages.push({
@@ -677,6 +1012,15 @@ ${summary}
             content: assistantMessage.content || "",
           });
           newEntries.push(finalEntry);
+          this.emit("entry", finalEntry);
+
+          // Stop hooks can send the agent back to work
+          if (toolRounds + 1 < maxToolRounds && (await this.runStopHook(stopHookActive))) {
+            stopHookActive = true;
+            toolRounds++;
+            currentResponse = await this.chatWithFallback(this.messages, tools, undefined, abortController.signal);
+            continue;
+          }
           break; // Exit the loop
         }
       }
@@ -690,15 +1034,29 @@ ${summary}
         };
         this.chatHistory.push(warningEntry);
         newEntries.push(warningEntry);
+        this.emit("entry", warningEntry);
       }
 
       // Calculate token usage
-      totalInputTokens = this.tokenCounter.countMessageTokens(this.messages as any);
+      totalInputTokens = this.tokenCounter.countMessageTokens(this.messages);
       metrics.recordTokens(totalInputTokens, totalOutputTokens);
       metrics.endTask(true);
 
       return newEntries;
     } catch (error: any) {
+      if (abortController.signal.aborted) {
+        const cancelledEntry: ChatEntry = {
+          type: "assistant",
+          content: "[Operation cancelled by user]",
+          timestamp: new Date(),
+        };
+        this.chatHistory.push(cancelledEntry);
+        newEntries.push(cancelledEntry);
+        this.emit("entry", cancelledEntry);
+        metrics.endTask(false);
+        return newEntries;
+      }
+
       const errorMessage = ErrorHandler.handle(error);
       const errorEntry: ChatEntry = {
         type: "assistant",
@@ -706,6 +1064,7 @@ ${summary}
         timestamp: new Date(),
       };
       this.chatHistory.push(errorEntry);
+      this.emit("entry", errorEntry);
 
       // Log error for debugging
       ErrorHandler.log(error);
@@ -714,6 +1073,12 @@ ${summary}
       metrics.endTask(false);
 
       return [userEntry, errorEntry];
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      if (this.abortController === abortController) {
+        this.abortController = null;
+      }
+      this.syncTranscript();
     }
   }
 
@@ -757,6 +1122,18 @@ ${summary}
     // Clear tool result tracking for new conversation turn
     this.clearToolResultTracking();
 
+    // UserPromptSubmit hooks can block the prompt or add context
+    const promptHook = await this.hooks.run("UserPromptSubmit", { prompt: message });
+    if (promptHook.blocked) {
+      yield {
+        type: "content",
+        content: this.hookBlocked("UserPromptSubmit", promptHook.reason!).error!,
+      };
+      yield { type: "done" };
+      metrics.endTask(false);
+      return;
+    }
+
     // Manage context before adding new message
     await this.manageContext();
 
@@ -772,12 +1149,14 @@ ${summary}
       timestamp: new Date(),
     };
     this.chatHistory.push(userEntry);
-    this.messages.push({ role: "user", content: message });
+    const userMessage: ZaiMessage = { role: "user", content: message };
+    this.messages.push(userMessage);
+    this.checkpoints.create(message, userMessage, userEntry);
+    this.addPromptHookContext(promptHook);
+    this.syncTranscript();
 
     // Calculate input tokens
-    let inputTokens = this.tokenCounter.countMessageTokens(
-      this.messages as any
-    );
+    let inputTokens = this.tokenCounter.countMessageTokens(this.messages);
     yield {
       type: "token_count",
       tokenCount: inputTokens,
@@ -787,6 +1166,7 @@ ${summary}
     let toolRounds = 0;
     let totalOutputTokens = 0;
     let lastTokenUpdate = 0;
+    let stopHookActive = false;
 
     try {
       // Create state machine for sequential flow control
@@ -809,12 +1189,58 @@ ${summary}
         stateMachine.transition("thinking");
 
         // Get tools and create stream
-        const tools = await getAllZaiTools();
-        const stream = this.zaiClient.chatStream(this.messages, tools);
+        const tools = await this.getAvailableTools();
+        const stream = this.chatStreamWithFallback(this.messages, tools, this.abortController?.signal);
 
-        // CRITICAL: Process ENTIRE stream before continuing
         const processor = new StreamProcessor();
-        const result = await processor.process(stream);
+        let result: ProcessorResult | undefined;
+        let contentStreamed = false;
+        let thinkingStreamed = "";
+
+        if (this.liveStreaming) {
+          // Live mode: forward deltas as they arrive. Content is provisional
+          // until the stream ends without tool calls - if a tool call shows
+          // up, the text streamed so far is retracted.
+          const iterator = processor.iterate(stream);
+          let toolCallSeen = false;
+          let next = await iterator.next();
+          while (!next.done) {
+            const delta = next.value as ProcessorDelta;
+            if (delta.type === "thinking") {
+              yield { type: "thinking", content: delta.content };
+              thinkingStreamed += delta.content || "";
+            } else if (delta.type === "restart") {
+              // The stream dropped and was sent again; start over
+              toolCallSeen = false;
+              if (thinkingStreamed) {
+                yield { type: "thinking_retract", content: thinkingStreamed };
+                thinkingStreamed = "";
+              }
+              if (contentStreamed) {
+                yield { type: "content_retract" };
+                contentStreamed = false;
+              }
+            } else if (delta.type === "tool_call_start") {
+              toolCallSeen = true;
+              if (contentStreamed) {
+                yield { type: "content_retract" };
+                contentStreamed = false;
+              }
+            } else if (delta.type === "content" && !toolCallSeen) {
+              yield { type: "content", content: delta.content };
+              contentStreamed = true;
+            }
+
+            if (this.abortController?.signal.aborted) {
+              break;
+            }
+            next = await iterator.next();
+          }
+          result = next.done ? next.value : undefined;
+        } else {
+          // CRITICAL: Process ENTIRE stream before continuing
+          result = await processor.process(stream);
+        }
 
         // Check for cancellation after stream completes
         if (this.abortController?.signal.aborted) {
@@ -826,9 +1252,13 @@ ${summary}
           yield { type: "done" };
           return;
         }
+        if (!result) {
+          // Only a cancellation stops reading the stream early
+          throw new Error("The response stream ended without a result");
+        }
 
         // Stream thinking content if available (o1-style reasoning)
-        if (result.thinking) {
+        if (result.thinking && !this.liveStreaming) {
           for (const char of result.thinking) {
             yield {
               type: "thinking",
@@ -857,6 +1287,8 @@ ${summary}
             content: result.content || "Using tools to help you...",
             timestamp: new Date(),
             toolCalls: result.toolCalls,
+            thinking: result.thinking || undefined,
+            usage: this.estimateUsage(inputTokens, result),
           };
           this.chatHistory.push(assistantEntry);
 
@@ -869,9 +1301,11 @@ ${summary}
           // Transition to executing tools
           stateMachine.transition("executing_tools");
 
-          // Execute tools sequentially
-          for (const toolCall of result.toolCalls) {
-            // Check for cancellation before each tool
+          // Execute tools in batches: calls in a batch run concurrently,
+          // but their results are reported in call order
+          const editRound = await this.startEditRound(result.toolCalls);
+          for (const batch of groupToolCalls(result.toolCalls)) {
+            // Check for cancellation before each batch
             if (this.abortController?.signal.aborted) {
               stateMachine.transition("error");
               yield {
@@ -883,49 +1317,53 @@ ${summary}
               return;
             }
 
-            const toolResult = await this.executeTool(toolCall);
+            const pending = batch.map((toolCall) => this.executeTool(toolCall));
+            // Observe every rejection now: an earlier failure or an abort can leave later calls unawaited
+            pending.forEach((promise) => promise.catch(() => undefined));
+            for (const [index, toolCall] of batch.entries()) {
+              const toolResult = await this.finishEdit(editRound, toolCall, await pending[index]);
 
-            // Record tool call metrics
-            metrics.recordToolCall(toolCall.function.name, toolResult.success);
+              // Record tool call metrics
+              metrics.recordToolCall(toolCall.function.name, toolResult.success);
 
-            // Record for stuck detection
-            this.recordToolResult(
-              toolCall.function.name,
-              toolResult.success,
-              toolResult.error
-            );
+              // Record for stuck detection
+              this.recordToolResult(
+                toolCall.function.name,
+                toolResult.success,
+                toolResult.error
+              );
 
-            const toolResultEntry: ChatEntry = {
-              type: "tool_result",
-              content: toolResult.success
-                ? toolResult.output || "Success"
-                : toolResult.error || "Error occurred",
-              timestamp: new Date(),
-              toolCall: toolCall,
-              toolResult: toolResult,
-            };
-            this.chatHistory.push(toolResultEntry);
+              const toolResultEntry: ChatEntry = {
+                type: "tool_result",
+                content: toolResult.success
+                  ? toolResult.output || "Success"
+                  : toolResult.error || "Error occurred",
+                timestamp: new Date(),
+                toolCall: toolCall,
+                toolResult: toolResult,
+              };
+              this.chatHistory.push(toolResultEntry);
 
-            yield {
-              type: "tool_result",
-              toolCall,
-              toolResult,
-            };
+              yield {
+                type: "tool_result",
+                toolCall,
+                toolResult,
+              };
 
-            // Add tool result to messages
-            this.messages.push({
-              role: "tool",
-              content: toolResult.success
-                ? toolResult.output || "Success"
-                : toolResult.error || "Error",
-              tool_call_id: toolCall.id,
-            });
+              // Add tool result to messages
+              this.messages.push({
+                role: "tool",
+                content: toolResult.success
+                  ? toolResult.output || "Success"
+                  : toolResult.error || "Error",
+                tool_call_id: toolCall.id,
+              });
+              this.syncTranscript();
+            }
           }
 
           // Update token count after tools
-          inputTokens = this.tokenCounter.countMessageTokens(
-            this.messages as any
-          );
+          inputTokens = this.tokenCounter.countMessageTokens(this.messages);
           totalOutputTokens = this.tokenCounter.countTokens(
             result.content || ""
           );
@@ -959,7 +1397,14 @@ ${summary}
         // No tool calls - stream final content
         stateMachine.transition("responding");
 
-        if (result.content) {
+        if (contentStreamed) {
+          // Already delivered live - just settle the token count
+          totalOutputTokens = this.tokenCounter.countTokens(result.content);
+          yield {
+            type: "token_count",
+            tokenCount: inputTokens + totalOutputTokens,
+          };
+        } else if (result.content) {
           // Stream content word by word for smooth UX
           const words = result.content.split(/(\s+)/);
           for (const word of words) {
@@ -1006,6 +1451,8 @@ ${summary}
           type: "assistant",
           content: result.content || "",
           timestamp: new Date(),
+          thinking: result.thinking || undefined,
+          usage: this.estimateUsage(inputTokens, result),
         };
         this.chatHistory.push(assistantEntry);
 
@@ -1017,6 +1464,19 @@ ${summary}
         // Transition to done
         stateMachine.transition("done");
 
+        // Stop hooks can send the agent back to work
+        const stopReason = toolRounds + 1 < maxToolRounds ? await this.runStopHook(stopHookActive) : null;
+        if (stopReason) {
+          stopHookActive = true;
+          toolRounds++;
+          stateMachine.transition("idle");
+          yield {
+            type: "content",
+            content: `\n\n---\n*[Stop hook: ${stopReason}]*\n---\n\n`,
+          };
+          continue;
+        }
+
         // Exit loop - no more tool calls
         break;
       }
@@ -1057,6 +1517,8 @@ ${summary}
         type: "content",
         content: errorEntry.content,
       };
+      // The apology above is for display; this marks the turn as failed
+      yield { type: "error", content: errorMessage };
 
       // Log error for debugging
       ErrorHandler.log(error);
@@ -1068,127 +1530,374 @@ ${summary}
     } finally {
       // Clean up abort controller
       this.abortController = null;
+      this.syncTranscript();
+      const turnFiles = this.checkpoints.getLatestTurnFiles();
+      await this.recordBranchFiles(turnFiles, turnFiles.map((file) => file.path));
     }
   }
 
   private async executeTool(toolCall: ZaiToolCall): Promise<ToolResult> {
+    // Enforce the allowlist even if the model calls a tool it wasn't offered
+    if (!this.isToolAllowed(toolCall.function.name)) {
+      return {
+        success: false,
+        error: `Tool '${toolCall.function.name}' is not available to this agent. Available tools: ${this.getAllowedTools()!.join(", ")}`,
+      };
+    }
+
     try {
-      const args = JSON.parse(toolCall.function.arguments);
+      let args = JSON.parse(toolCall.function.arguments);
+      const toolName = toolCall.function.name;
 
-      switch (toolCall.function.name) {
-        case "view_file":
-          const range: [number, number] | undefined =
-            args.start_line && args.end_line
-              ? [args.start_line, args.end_line]
-              : undefined;
-          return await this.textEditor.view(args.path, range);
-
-        case "create_file":
-          return await this.textEditor.create(args.path, args.content);
-
-        case "str_replace_editor":
-          return await this.textEditor.strReplace(
-            args.path,
-            args.old_str,
-            args.new_str,
-            args.replace_all
-          );
+      // PreToolUse hooks can block the call or rewrite its arguments
+      const pre = await this.hooks.run("PreToolUse", { tool_name: toolName, tool_input: args });
+      if (pre.blocked) {
+        return this.hookBlocked("PreToolUse", pre.reason!, toolName);
+      }
+      if (pre.toolInput) {
+        args = pre.toolInput;
+        toolCall = {
+          ...toolCall,
+          function: { ...toolCall.function, arguments: JSON.stringify(args) },
+        };
+      }
 
-        case "edit_file":
-          if (!this.morphEditor) {
-            return {
-              success: false,
-              error:
-                "Morph Fast Apply not available. Please set MORPH_API_KEY environment variable to use this feature.",
-            };
-          }
-          return await this.morphEditor.editFile(
-            args.target_file,
-            args.instructions,
-            args.code_edit
-          );
+      // Snapshot files before they change so /rewind can restore them
+      await this.checkpoints.recordFiles(
+        getPermissionRequests(toolName, args)
+          .filter((request) => request.kind === "edit")
+          .map((request) => request.target)
+      );
 
-        case "bash":
-          return await this.bash.execute(args.command);
-
-        case "create_todo_list":
-          return await this.todoTool.createTodoList(args.todos);
-
-        case "update_todo_list":
-          return await this.todoTool.updateTodoList(args.updates);
-
-        case "search":
-          return await this.search.search(args.query, {
-            searchType: args.search_type,
-            includePattern: args.include_pattern,
-            excludePattern: args.exclude_pattern,
-            caseSensitive: args.case_sensitive,
-            wholeWord: args.whole_word,
-            regex: args.regex,
-            maxResults: args.max_results,
-            fileTypes: args.file_types,
-            includeHidden: args.include_hidden,
-          });
+      const result = await this.runWithPermissions(toolCall, args);
 
-        case "batch_edit":
-          return await this.batchEditor.batchEdit({
-            type: args.type,
-            files: args.files,
-            pattern: args.pattern,
-            searchType: args.search_type,
-            includePattern: args.include_pattern,
-            excludePattern: args.exclude_pattern,
-            params: args.params,
-          });
+      const post = await this.hooks.run("PostToolUse", {
+        tool_name: toolName,
+        tool_input: args,
+        tool_result: { success: result.success, output: result.output, error: result.error },
+      });
+      const feedback = [...pre.context, ...post.context];
+      if (post.blocked) {
+        feedback.push(`PostToolUse hook: ${post.reason}`);
+      }
+      return this.withHookFeedback(result, feedback);
+    } catch (error) {
+      return this.toolExecutionFailed(toolCall, error);
+    }
+  }
 
-        case "launch_agent":
-          // Launch specialized agent for complex tasks
-          const { getTaskTool } = await import("../tools/task-tool.js");
-          const taskTool = getTaskTool();
-          taskTool.setParentAgent(this); // Pass reference to current agent
+  /**
+   * Applies permission rules, then runs the tool
+   */
+  private async runWithPermissions(toolCall: ZaiToolCall, args: Record<string, unknown>): Promise<ToolResult> {
+    try {
+      // Evaluate permission rules before any confirmation prompt
+      const permission = getPermissionManager().evaluateAll(
+        getPermissionRequests(toolCall.function.name, args)
+      );
+      if (permission.action === "default") {
+        return await this.runTool(toolCall);
+      }
 
-          return await taskTool.execute({
-            agent_type: args.agent_type,
-            task_description: args.task_description,
-            thoroughness: args.thoroughness,
-          });
+      const confirmationService = ConfirmationService.getInstance();
+      const { kind, target } = permission.request!;
 
-        case "web_search":
-          // Z.ai Web Search API
-          return await this.webSearchTool.search(args.query, {
-            search_engine: args.search_engine,
-            count: args.count,
-            search_domain_filter: args.search_domain_filter,
-            search_recency_filter: args.search_recency_filter,
-          });
+      if (permission.action === "deny") {
+        return this.permissionDenied(toolCall, target, `is blocked by rule 'deny: ${permission.rule}'`);
+      }
 
-        default:
-          // Check if this is an MCP tool
-          if (toolCall.function.name.startsWith("mcp__")) {
-            return await this.executeMCPTool(toolCall);
-          }
+      if (permission.action === "ask") {
+        if (!confirmationService.hasConfirmationHandler()) {
+          return this.permissionDenied(
+            toolCall,
+            target,
+            `requires confirmation (rule 'ask: ${permission.rule}') which is not available in headless mode`
+          );
+        }
 
+        const confirmation = await confirmationService.requestConfirmation(
+          {
+            operation: kind === "bash" ? "Run bash command" : "Edit file",
+            filename: target,
+            showVSCodeOpen: false,
+            content: `Matched permission rule 'ask: ${permission.rule}'`,
+          },
+          kind === "bash" ? "bash" : "file",
+          true
+        );
+        if (!confirmation.confirmed) {
           return {
             success: false,
-            error: `Unknown tool: ${toolCall.function.name}`,
+            error: confirmation.feedback || "Operation cancelled by user",
           };
+        }
       }
-    } catch (error: any) {
-      // Create a typed error for tool execution failures
-      const toolError = new ToolExecutionError(
-        toolCall.function.name,
-        error.message,
-        { arguments: toolCall.function.arguments },
-        error
-      );
 
-      // Log the error for debugging
-      ErrorHandler.log(toolError);
+      // Allowed by a rule or confirmed: skip the tool's own prompt
+      return await confirmationService.runPreApproved(() => this.runTool(toolCall));
+    } catch (error) {
+      return this.toolExecutionFailed(toolCall, error);
+    }
+  }
 
-      return {
-        success: false,
-        error: ErrorHandler.toSimpleMessage(toolError),
-      };
+  private toolExecutionFailed(toolCall: ZaiToolCall, error: unknown): ToolResult {
+    // Create a typed error for tool execution failures
+    const cause = error instanceof Error ? error : new Error(String(error));
+    const toolError = new ToolExecutionError(
+      toolCall.function.name,
+      cause.message,
+      { arguments: toolCall.function.arguments },
+      cause
+    );
+
+    // Log the error for debugging
+    ErrorHandler.log(toolError);
+
+    return {
+      success: false,
+      error: ErrorHandler.toSimpleMessage(toolError),
+    };
+  }
+
+  private hookBlocked(event: HookEvent, reason: string, toolName?: string): ToolResult {
+    const error = new HookBlockedError(event, reason, toolName);
+    return {
+      success: false,
+      error: ErrorHandler.toSimpleMessage(error),
+    };
+  }
+
+  /**
+   * Appends hook output to a tool result so the model sees it
+   */
+  private withHookFeedback(result: ToolResult, feedback: string[]): ToolResult {
+    if (feedback.length === 0) {
+      return result;
+    }
+    const text = feedback.join("\n");
+    return result.success
+      ? { ...result, output: `${result.output || "Success"}\n\n${text}` }
+      : { ...result, error: `${result.error || "Error"}\n\n${text}` };
+  }
+
+  /**
+   * Record the errors in the files a round of tool calls is about to edit
+   * Returns null when the round has no edits or no diagnostics are configured.
+   */
+  private async startEditRound(toolCalls: ZaiToolCall[]): Promise<EditRound | null> {
+    const edits = toolCalls.filter((toolCall) => EDIT_TOOLS.has(toolCall.function.name));
+    if (!this.diagnostics || edits.length === 0) {
+      return null;
+    }
+    await this.diagnostics.baseline(edits.flatMap((toolCall) => this.editTargets(toolCall)));
+    return { lastEditId: edits[edits.length - 1].id, files: [] };
+  }
+
+  /**
+   * After the round's last edit, append the errors its edits introduced
+   */
+  private async finishEdit(round: EditRound | null, toolCall: ZaiToolCall, result: ToolResult): Promise<ToolResult> {
+    if (!round || !EDIT_TOOLS.has(toolCall.function.name)) {
+      return result;
+    }
+    round.files.push(...this.editTargets(toolCall, result));
+    if (toolCall.id !== round.lastEditId) {
+      return result;
+    }
+
+    const report = await this.diagnostics!.report(round.files);
+    if (!report) {
+      return result;
+    }
+    return result.success
+      ? { ...result, output: `${result.output || "Success"}\n\n${report}` }
+      : { ...result, error: `${result.error || "Error"}\n\n${report}` };
+  }
+
+  /**
+   * Files an edit tool call changes: from its arguments, or for batch_edit
+   * with a search pattern and apply_patch, from its result
+   */
+  private editTargets(toolCall: ZaiToolCall, result?: ToolResult): string[] {
+    if (Array.isArray(result?.metadata?.files)) {
+      return result.metadata.files;
+    }
+    try {
+      return getPermissionRequests(toolCall.function.name, JSON.parse(toolCall.function.arguments))
+        .filter((request) => request.kind === "edit")
+        .map((request) => request.target);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Adds context printed by a UserPromptSubmit hook to the conversation
+   */
+  private addPromptHookContext(outcome: HookOutcome): void {
+    if (outcome.context.length > 0) {
+      this.messages.push({
+        role: "system",
+        content: `UserPromptSubmit hook context:\n${outcome.context.join("\n")}`,
+      });
+    }
+  }
+
+  /**
+   * Runs Stop hooks when the agent is about to finish its turn
+   * Returns the reason to keep going if a hook blocked the stop
+   */
+  private async runStopHook(stopHookActive: boolean): Promise<string | null> {
+    const outcome = await this.hooks.run("Stop", { stop_hook_active: stopHookActive });
+    if (!outcome.blocked) {
+      return null;
+    }
+    this.messages.push({
+      role: "system",
+      content: `Stop hook: ${outcome.reason}\nContinue working on the task.`,
+    });
+    return outcome.reason!;
+  }
+
+  private permissionDenied(toolCall: ZaiToolCall, target: string, reason: string): ToolResult {
+    const error = new PermissionDeniedError(toolCall.function.name, target, reason);
+    return {
+      success: false,
+      error: ErrorHandler.toSimpleMessage(error),
+    };
+  }
+
+  /**
+   * Dispatches a tool call to its implementation
+   * The call's arguments already include any PreToolUse rewrite.
+   */
+  private async runTool(toolCall: ZaiToolCall): Promise<ToolResult> {
+    const args = JSON.parse(toolCall.function.arguments);
+    switch (toolCall.function.name) {
+      case "view_file":
+        const range: [number, number] | undefined =
+          args.start_line && args.end_line
+            ? [args.start_line, args.end_line]
+            : undefined;
+        return await this.textEditor.view(args.path, range);
+
+      case "create_file":
+        return await this.textEditor.create(args.path, args.content);
+
+      case "str_replace_editor":
+        return await this.textEditor.strReplace(
+          args.path,
+          args.old_str,
+          args.new_str,
+          args.replace_all
+        );
+
+      case "edit_file":
+        if (!this.morphEditor) {
+          return {
+            success: false,
+            error:
+              "Morph Fast Apply not available. Please set MORPH_API_KEY environment variable to use this feature.",
+          };
+        }
+        return await this.morphEditor.editFile(
+          args.target_file,
+          args.instructions,
+          args.code_edit
+        );
+
+      case "bash":
+        if (args.run_in_background) {
+          return await this.bash.executeInBackground(args.command);
+        }
+        return await this.bash.execute(args.command);
+
+      case "bash_output":
+        return this.bash.readBackgroundOutput(args.id);
+
+      case "kill_bash":
+        return this.bash.killBackground(args.id);
+
+      case "create_todo_list":
+        return await this.todoTool.createTodoList(args.todos);
+
+      case "update_todo_list":
+        return await this.todoTool.updateTodoList(args.updates);
+
+      case "search":
+        return await this.search.search(args.query, {
+          searchType: args.search_type,
+          includePattern: args.include_pattern,
+          excludePattern: args.exclude_pattern,
+          caseSensitive: args.case_sensitive,
+          wholeWord: args.whole_word,
+          regex: args.regex,
+          maxResults: args.max_results,
+          fileTypes: args.file_types,
+          includeHidden: args.include_hidden,
+        });
+
+      case "batch_edit":
+        return await this.batchEditor.batchEdit({
+          type: args.type,
+          files: args.files,
+          pattern: args.pattern,
+          searchType: args.search_type,
+          includePattern: args.include_pattern,
+          excludePattern: args.exclude_pattern,
+          params: {
+            search: args.params?.search,
+            replace: args.params?.replace,
+            regex: args.params?.regex,
+            caseSensitive: args.params?.case_sensitive,
+            wholeWord: args.params?.whole_word,
+            content: args.params?.content,
+            position: args.params?.position,
+            startLine: args.params?.start_line,
+            endLine: args.params?.end_line,
+            oldName: args.params?.old_name,
+            newName: args.params?.new_name,
+            file: args.params?.file,
+            line: args.params?.line,
+          },
+        });
+
+      case "apply_patch":
+        return await this.patchTool.apply(args.patch);
+
+      case "launch_agent":
+        // Launch specialized agent for complex tasks
+        const { getTaskTool } = await import("../tools/task-tool.js");
+        const taskTool = getTaskTool();
+        taskTool.setParentAgent(this); // Pass reference to current agent
+
+        return await taskTool.execute({
+          agent_type: args.agent_type,
+          task_description: args.task_description,
+          thoroughness: args.thoroughness,
+          isolation: args.isolation,
+          tool_call_id: toolCall.id,
+        });
+
+      case "web_search":
+        // Z.ai Web Search API
+        return await this.webSearchTool.search(args.query, {
+          search_engine: args.search_engine,
+          count: args.count,
+          search_domain_filter: args.search_domain_filter,
+          search_recency_filter: args.search_recency_filter,
+        });
+
+      default:
+        // Check if this is an MCP tool
+        if (toolCall.function.name.startsWith("mcp__")) {
+          return await this.executeMCPTool(toolCall);
+        }
+
+        return {
+          success: false,
+          error: `Unknown tool: ${toolCall.function.name}`,
+        };
     }
   }
 
@@ -1222,10 +1931,10 @@ ${summary}
         success: true,
         output: output || "Success",
       };
-    } catch (error: any) {
+    } catch (error) {
       return {
         success: false,
-        error: `MCP tool execution error: ${error.message}`,
+        error: `MCP tool execution error: ${error instanceof Error ? error.message : String(error)}`,
       };
     }
   }
@@ -1267,6 +1976,27 @@ ${summary}
     return this.bash.getCurrentDirectory();
   }
 
+  /**
+   * Releases the agent's shell session (used for short-lived sub-agents)
+   */
+  dispose(): void {
+    this.bash.dispose();
+    this.diagnostics?.dispose();
+  }
+
+  /**
+   * Ask for a commit message outside the conversation, using the model
+   * routed for commits (or the current one)
+   */
+  async generateCommitMessage(prompt: string): Promise<string> {
+    const response = await this.chatWithFallback(
+      [{ role: "user", content: prompt }],
+      [],
+      getRoutedModel("commit")
+    );
+    return response.choices[0]?.message?.content?.trim() || "";
+  }
+
   async executeBashCommand(command: string): Promise<ToolResult> {
     return await this.bash.execute(command);
   }
@@ -1275,13 +2005,27 @@ ${summary}
     return this.zaiClient.getCurrentModel();
   }
 
-  setModel(model: string): void {
+  setModel(model: string, providerName?: string): void {
+    if (providerName && providerName !== this.zaiClient.getProvider().name) {
+      this.zaiClient.setProvider(getProvider(providerName));
+    }
     this.zaiClient.setModel(model);
     // Update token counter for new model
     this.tokenCounter.dispose();
     this.tokenCounter = createTokenCounter(model);
   }
 
+  /**
+   * Enable or disable live streaming of response content
+   */
+  setLiveStreaming(enabled: boolean): void {
+    this.liveStreaming = enabled;
+  }
+
+  isLiveStreaming(): boolean {
+    return this.liveStreaming;
+  }
+
   getClient(): ZaiClient {
     return this.zaiClient;
   }
@@ -1292,6 +2036,204 @@ ${summary}
     }
   }
 
+  /**
+   * Signal for the operation in progress, aborted by abortCurrentOperation
+   * Sub-agents started by a tool call follow it so Esc stops them too
+   */
+  getAbortSignal(): AbortSignal | undefined {
+    return this.abortController?.signal;
+  }
+
+  /**
+   * Snapshot of the conversation for saving a session
+   */
+  getSessionState(): AgentSessionState {
+    return {
+      messages: [...this.messages],
+      contextSummary: this.contextSummary,
+      todos: this.todoTool.getTodos(),
+    };
+  }
+
+  /**
+   * Rehydrate the agent from a saved session so the model remembers it
+   */
+  restoreSession(state: AgentSessionState, chatHistory: ChatEntry[] = []): void {
+    this.messages = [...state.messages];
+    this.contextSummary = state.contextSummary || "";
+    this.todoTool.setTodos(state.todos || []);
+    this.chatHistory = [...chatHistory];
+    this.clearToolResultTracking();
+    this.checkpoints.clear();
+    this.syncTranscript();
+  }
+
+  /**
+   * Checkpoints taken at each user turn, oldest first
+   */
+  getCheckpoints(): CheckpointInfo[] {
+    return this.checkpoints.list();
+  }
+
+  /**
+   * Restore files and conversation to just before a checkpoint's user turn
+   */
+  async rewindToCheckpoint(id: number): Promise<RewindResult | null> {
+    const checkpoint = this.checkpoints.list().find((c) => c.id === id);
+    const position = this.checkpoints.getPosition(id);
+    if (!checkpoint || !position) {
+      return null;
+    }
+
+    const files = await this.checkpoints.restoreFiles(id);
+
+    const messageIndex = this.messages.indexOf(position.userMessage);
+    const chatIndex = this.chatHistory.indexOf(position.userEntry);
+    const conversationRestored = messageIndex !== -1;
+
+    if (conversationRestored) {
+      this.messages = this.messages.slice(0, messageIndex);
+    } else {
+      // The turn was summarized by compaction - keep the history but tell the model
+      this.messages.push({
+        role: "system",
+        content: `The user rewound the code to before their request "${checkpoint.prompt}". Changes made since then have been undone.`,
+      });
+    }
+    if (chatIndex !== -1) {
+      this.chatHistory = this.chatHistory.slice(0, chatIndex);
+    }
+    this.clearToolResultTracking();
+    this.syncTranscript();
+    await this.recordBranchFiles([], [...files!.restored, ...files!.deleted]);
+
+    return { checkpoint, files: files!, conversationRestored };
+  }
+
+  /**
+   * Continue in a new branch of this session, leaving the current branch as it is
+   * With a checkpoint, the new branch starts from just before that turn
+   */
+  async forkSession(checkpointId?: number): Promise<ForkResult> {
+    const parent = this.transcript;
+    if (!parent) {
+      throw new Error("Forking needs session autosave; set autosaveSessions to true in ~/.zai/user-settings.json");
+    }
+    const sessionManager = getSessionManager();
+    const parentSession = sessionManager.listSessions().find((s) => s.id === parent.id);
+    if (!parentSession) {
+      throw new Error("Nothing to fork yet; send a message first");
+    }
+    if (checkpointId !== undefined && !this.checkpoints.getPosition(checkpointId)) {
+      throw new Error(`Unknown checkpoint: #${checkpointId}`);
+    }
+
+    let rewind: RewindResult | null = null;
+    if (checkpointId !== undefined) {
+      // Detach first so the parent keeps the whole conversation
+      this.transcript = null;
+      rewind = await this.rewindToCheckpoint(checkpointId);
+    }
+
+    const branchTranscript = sessionManager.forkSession(parentSession, this.chatHistory.length, this.getCurrentModel());
+    this.setTranscript(branchTranscript);
+    // The fork starts from the files as they are now
+    await this.recordBranchFiles([], this.checkpoints.getTouchedFiles());
+
+    const branch = sessionManager.listSessions().find((s) => s.id === branchTranscript.id);
+    if (!branch) {
+      throw new Error("Could not save the new branch");
+    }
+    return { parent: parentSession, branch, rewind };
+  }
+
+  /**
+   * Switch to another autosaved branch, restoring its conversation and files
+   */
+  async switchBranch(target: SessionData): Promise<FileRestoreResult | null> {
+    const sessionManager = getSessionManager();
+    const transcript = sessionManager.openTranscript(target.metadata.id);
+    if (!transcript || !target.agentState) {
+      throw new Error(`Not an autosaved session: ${target.metadata.name}`);
+    }
+    const current = this.transcript ? sessionManager.loadSession(this.transcript.id) : null;
+
+    // Detach first so the branch being left isn't overwritten with the target's history
+    this.transcript = null;
+    this.restoreSession(target.agentState, target.chatHistory);
+    this.setTranscript(transcript);
+
+    const states = getBranchSwitchStates(current?.files, target.files);
+    return states.length > 0 ? this.checkpoints.restoreStates(states) : null;
+  }
+
+  /**
+   * Token usage reported by the API for a non-streaming response
+   */
+  private responseUsage(response: ZaiResponse): ChatEntry["usage"] {
+    return response.usage
+      ? { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens }
+      : undefined;
+  }
+
+  /**
+   * Estimated token usage of a streamed response, which reports no usage
+   */
+  private estimateUsage(inputTokens: number, result: ProcessorResult): ChatEntry["usage"] {
+    const output = [result.thinking, result.content, result.toolCalls.length > 0 ? JSON.stringify(result.toolCalls) : ""];
+    return { inputTokens, outputTokens: this.tokenCounter.countTokens(output.join("")) };
+  }
+
+  /**
+   * Record the current content of files so the branch can be restored after switching away
+   */
+  private async recordBranchFiles(base: FileState[], filePaths: string[]): Promise<void> {
+    if (!this.transcript || filePaths.length === 0) {
+      return;
+    }
+    try {
+      this.transcript.recordFiles(base, await this.checkpoints.snapshotFiles(filePaths));
+    } catch (error) {
+      console.warn(`Could not record branch files: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Record the session to an append-only transcript from now on
+   */
+  setTranscript(transcript: SessionTranscript | null): void {
+    this.transcript = transcript;
+    this.syncTranscript();
+    // /undo only sees backups made on this branch and before it was forked
+    BackupManager.getInstance().setLineage(transcript ? getSessionManager().getLineage(transcript.id) : []);
+  }
+
+  getTranscript(): SessionTranscript | null {
+    return this.transcript;
+  }
+
+  /**
+   * Appends anything new to the session transcript; autosave must never break the conversation
+   */
+  private syncTranscript(): void {
+    if (!this.transcript) {
+      return;
+    }
+    try {
+      this.transcript.sync({
+        chatHistory: this.chatHistory,
+        messages: this.messages,
+        model: this.getCurrentModel(),
+        contextSummary: this.contextSummary,
+        todos: this.todoTool.getTodos(),
+      });
+    } catch (error) {
+      // Stop autosaving rather than failing on every turn (e.g. disk full)
+      console.warn(`Session autosave disabled: ${error instanceof Error ? error.message : String(error)}`);
+      this.transcript = null;
+    }
+  }
+
   /**
    * Returns the current context summary if context has been compressed
    */
@@ -3,7 +3,10 @@
  * Defines specialized agents for different tasks
  */
 
-export type AgentType =
+import type { ChatEntry } from '../agent/zai-agent.js';
+import type { WorktreeChanges } from './worktree-manager.js';
+
+export type BuiltInAgentType =
   | 'general-purpose'
   | 'code-reviewer'
   | 'test-writer'
@@ -15,6 +18,11 @@ export type AgentType =
   | 'explore'
   | 'plan';
 
+/**
+ * A built-in agent type, or a custom one defined in .zai/agents or ~/.zai/agents
+ */
+export type AgentType = BuiltInAgentType | (string & {});
+
 export interface AgentCapability {
   name: string;
   description: string;
@@ -22,6 +30,10 @@ export interface AgentCapability {
   model?: string; // Specific model (or inherit from parent)
   systemPrompt: string;
   maxRounds?: number;
+  timeoutMs?: number; // Default wall-clock limit for tasks of this type
+  maxTokens?: number; // Default token limit for tasks of this type
+  source?: 'project' | 'user'; // Set for custom agents
+  filePath?: string;
 }
 
 export interface AgentTask {
@@ -36,6 +48,10 @@ export interface AgentTask {
   startedAt?: Date;
   completedAt?: Date;
   parentTaskId?: string; // For sub-tasks
+  worktree?: WorktreeChanges; // Unapplied work of an isolated task
+  toolCallId?: string; // launch_agent call that started the task
+  transcript?: ChatEntry[]; // Everything the task's agent did, updated as it runs
+  tokensUsed?: number; // Input + output tokens across the task's model calls
 }
 
 export interface AgentResult {
@@ -50,20 +66,29 @@ export interface AgentResult {
   };
 }
 
+/**
+ * Where a task's agent works: the shared working directory, or its own
+ * git worktree on a temporary branch
+ */
+export type IsolationMode = 'none' | 'worktree';
+
 export interface AgentConfig {
   type: AgentType;
   model?: string;
   maxRounds?: number;
   tools?: string[];
   customSystemPrompt?: string;
+  isolation?: IsolationMode;
+  timeoutMs?: number; // Stop the task after this much wall-clock time
+  maxTokens?: number; // Stop the task once it has used this many tokens
 }
 
 // Agent capability definitions
-export const AGENT_CAPABILITIES: Record<AgentType, AgentCapability> = {
+export const AGENT_CAPABILITIES: Record<BuiltInAgentType, AgentCapability> = {
   'general-purpose': {
     name: 'General Purpose',
     description: 'Handles general coding tasks, file operations, and command execution',
-    tools: ['view_file', 'edit_file', 'str_replace', 'bash', 'search', 'batch_edit'],
+    tools: ['view_file', 'create_file', 'str_replace_editor', 'edit_file', 'bash', 'bash_output', 'kill_bash', 'search', 'batch_edit', 'apply_patch'],
     systemPrompt: `You are a general-purpose AI coding assistant. You can:
 - Read, edit, and create files
 - Execute bash commands
@@ -76,7 +101,7 @@ Help the user with their coding tasks efficiently.`,
   'code-reviewer': {
     name: 'Code Reviewer',
     description: 'Reviews code for quality, bugs, and best practices',
-    tools: ['view_file', 'search', 'bash'],
+    tools: ['view_file', 'search', 'bash', 'bash_output', 'kill_bash'],
     systemPrompt: `You are a meticulous code reviewer. Review code for:
 - Code quality and maintainability
 - Potential bugs and edge cases
@@ -91,7 +116,7 @@ Provide actionable feedback with specific line numbers and suggestions.`,
   'test-writer': {
     name: 'Test Writer',
     description: 'Writes comprehensive unit and integration tests',
-    tools: ['view_file', 'edit_file', 'str_replace', 'bash', 'search'],
+    tools: ['view_file', 'create_file', 'str_replace_editor', 'edit_file', 'bash', 'bash_output', 'kill_bash', 'search'],
     systemPrompt: `You are a test automation specialist. Write comprehensive tests that:
 - Cover edge cases and error scenarios
 - Follow testing best practices
@@ -105,7 +130,7 @@ Focus on high-quality, thorough test coverage.`,
   'documentation': {
     name: 'Documentation Writer',
     description: 'Creates and updates technical documentation',
-    tools: ['view_file', 'edit_file', 'str_replace', 'search'],
+    tools: ['view_file', 'create_file', 'str_replace_editor', 'edit_file', 'search'],
     systemPrompt: `You are a technical documentation specialist. Create clear, comprehensive documentation:
 - API documentation with examples
 - README files with usage instructions
@@ -119,7 +144,7 @@ Make documentation accessible to all skill levels.`,
   'refactoring': {
     name: 'Refactoring Expert',
     description: 'Refactors code for better structure and maintainability',
-    tools: ['view_file', 'edit_file', 'str_replace', 'batch_edit', 'search'],
+    tools: ['view_file', 'create_file', 'str_replace_editor', 'edit_file', 'batch_edit', 'apply_patch', 'search'],
     systemPrompt: `You are a refactoring expert. Improve code structure by:
 - Removing duplication
 - Improving naming
@@ -134,7 +159,7 @@ Make changes incrementally and safely.`,
   'debugging': {
     name: 'Debugger',
     description: 'Diagnoses and fixes bugs in code',
-    tools: ['view_file', 'edit_file', 'str_replace', 'bash', 'search'],
+    tools: ['view_file', 'create_file', 'str_replace_editor', 'edit_file', 'bash', 'bash_output', 'kill_bash', 'search'],
     systemPrompt: `You are a debugging specialist. When fixing bugs:
 - Analyze error messages and stack traces
 - Identify root causes, not just symptoms
@@ -149,7 +174,7 @@ Be methodical and thorough in your investigation.`,
   'security-audit': {
     name: 'Security Auditor',
     description: 'Audits code for security vulnerabilities',
-    tools: ['view_file', 'search', 'bash'],
+    tools: ['view_file', 'search'],
     systemPrompt: `You are a security auditor. Check for:
 - SQL injection vulnerabilities
 - XSS and CSRF risks
@@ -164,7 +189,7 @@ Provide severity ratings and remediation steps.`,
   'performance-optimizer': {
     name: 'Performance Optimizer',
     description: 'Analyzes and optimizes code performance',
-    tools: ['view_file', 'edit_file', 'str_replace', 'bash', 'search'],
+    tools: ['view_file', 'create_file', 'str_replace_editor', 'edit_file', 'bash', 'bash_output', 'kill_bash', 'search'],
     systemPrompt: `You are a performance optimization expert. Optimize for:
 - Time complexity (reduce O(n²) algorithms)
 - Memory usage
@@ -179,7 +204,7 @@ Measure before and after, provide benchmarks.`,
   'explore': {
     name: 'Codebase Explorer',
     description: 'Explores and understands codebases quickly',
-    tools: ['view_file', 'search', 'bash'],
+    tools: ['view_file', 'search'],
     systemPrompt: `You are a codebase explorer. Your goal is to understand:
 - Project structure and architecture
 - Key files and entry points
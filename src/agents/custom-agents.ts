@@ -0,0 +1,155 @@
+/**
+ * Custom Agents
+ * Agent types defined by markdown files, e.g. .zai/agents/migration-writer.md
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AGENT_CAPABILITIES, type AgentCapability, type AgentType } from './agent-types.js';
+import { parseFrontmatter, toList, toText } from '../utils/custom-commands.js';
+
+/**
+ * A custom agent and the agent type it is launched as
+ */
+export interface CustomAgent {
+  type: string;
+  capability: AgentCapability;
+  override: boolean; // Set with `override: true` to replace a built-in agent of the same type
+}
+
+// Agent types that map to files; anything else is ignored
+const AGENT_TYPE_PATTERN = /^[a-zA-Z0-9][\w-]*$/;
+
+// Agents that don't list their tools can look but not change anything
+const DEFAULT_TOOLS = ['view_file', 'search'];
+
+// Warnings already shown, so repeated lookups don't print them again
+const warned = new Set<string>();
+
+function warnOnce(message: string): void {
+  if (!warned.has(message)) {
+    warned.add(message);
+    console.warn(`⚠️  ${message}`);
+  }
+}
+
+/**
+ * Directories searched for agents; project agents override user agents
+ */
+export function getAgentDirectories(
+  workingDirectory: string = process.cwd(),
+  homeDirectory: string = os.homedir()
+): { dir: string; source: 'project' | 'user' }[] {
+  return [
+    { dir: path.join(homeDirectory, '.zai', 'agents'), source: 'user' },
+    { dir: path.join(workingDirectory, '.zai', 'agents'), source: 'project' },
+  ];
+}
+
+/**
+ * Build an agent from a markdown file's contents
+ * The frontmatter `name` is the agent type (defaulting to the file name) and
+ * the body is the system prompt. Without `tools` the agent is read-only.
+ * Returns null if the name isn't a valid type.
+ */
+export function parseCustomAgent(
+  fileName: string,
+  content: string,
+  source: 'project' | 'user',
+  filePath: string
+): CustomAgent | null {
+  const { attributes, body } = parseFrontmatter(content);
+  const type = toText(attributes['name']) || fileName;
+  if (!AGENT_TYPE_PATTERN.test(type)) {
+    return null;
+  }
+
+  const description = toText(attributes['description']) || `Custom agent from ${filePath}`;
+  const maxRounds = parseInt(toText(attributes['maxRounds']) || '', 10);
+  const timeout = parseFloat(toText(attributes['timeout']) || ''); // Seconds
+  const maxTokens = parseInt(toText(attributes['maxTokens']) || '', 10);
+  return {
+    type,
+    capability: {
+      name: type,
+      description,
+      tools: toList(attributes['tools']) || DEFAULT_TOOLS,
+      model: toText(attributes['model']),
+      systemPrompt: body.trim() || description,
+      maxRounds: maxRounds > 0 ? maxRounds : undefined,
+      timeoutMs: timeout > 0 ? timeout * 1000 : undefined,
+      maxTokens: maxTokens > 0 ? maxTokens : undefined,
+      source,
+      filePath,
+    },
+    override: toText(attributes['override']) === 'true',
+  };
+}
+
+/**
+ * Load custom agents from ~/.zai/agents and .zai/agents
+ */
+export function loadCustomAgents(
+  workingDirectory: string = process.cwd(),
+  homeDirectory: string = os.homedir()
+): CustomAgent[] {
+  const agents = new Map<string, CustomAgent>();
+
+  for (const { dir, source } of getAgentDirectories(workingDirectory, homeDirectory)) {
+    let files: string[];
+    try {
+      files = fs.readdirSync(dir);
+    } catch {
+      continue; // Directory doesn't exist
+    }
+
+    for (const file of files.sort()) {
+      if (!file.endsWith('.md')) {
+        continue;
+      }
+      try {
+        const filePath = path.join(dir, file);
+        const agent = parseCustomAgent(path.basename(file, '.md'), fs.readFileSync(filePath, 'utf-8'), source, filePath);
+        if (agent) {
+          agents.set(agent.type, agent);
+        }
+      } catch {
+        // Silently skip files that can't be read
+      }
+    }
+  }
+
+  return [...agents.values()];
+}
+
+/**
+ * Built-in and custom agents by type
+ * A custom agent replaces a built-in with the same type only if it sets
+ * `override: true`; either way a warning says so.
+ */
+export function getAgentCapabilities(
+  workingDirectory: string = process.cwd(),
+  homeDirectory: string = os.homedir()
+): Record<AgentType, AgentCapability> {
+  const capabilities: Record<string, AgentCapability> = { ...AGENT_CAPABILITIES };
+  for (const { type, capability, override } of loadCustomAgents(workingDirectory, homeDirectory)) {
+    if (Object.prototype.hasOwnProperty.call(AGENT_CAPABILITIES, type)) {
+      if (!override) {
+        warnOnce(`Ignoring ${capability.filePath}: ${type} is a built-in agent (set "override: true" to replace it)`);
+        continue;
+      }
+      warnOnce(`${capability.filePath} replaces the built-in ${type} agent`);
+    }
+    capabilities[type] = capability;
+  }
+  return capabilities;
+}
+
+/**
+ * Look up a built-in or custom agent
+ */
+export function getAgentCapability(type: AgentType): AgentCapability | undefined {
+  const capabilities = getAgentCapabilities();
+  return Object.prototype.hasOwnProperty.call(capabilities, type) ? capabilities[type] : undefined;
+}
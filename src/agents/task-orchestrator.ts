@@ -4,21 +4,49 @@
  */
 
 import { EventEmitter } from 'events';
-import { ZaiAgent } from '../agent/zai-agent.js';
+import type { ChatEntry } from '../agent/zai-agent.js';
 import {
   AgentType,
   AgentTask,
   AgentResult,
   AgentConfig,
-  AGENT_CAPABILITIES,
+  AgentCapability,
 } from './agent-types.js';
+import { getAgentCapability } from './custom-agents.js';
+import { TaskStoppedError } from '../errors/index.js';
+import { Semaphore } from '../utils/semaphore.js';
+import type { RetryInfo } from '../zai/retry.js';
+import {
+  WorktreeManager,
+  type Worktree,
+  type WorktreeChanges,
+  type WorktreeMergeResult,
+} from './worktree-manager.js';
 import { v4 as uuidv4 } from 'uuid';
 
+/**
+ * The part of a ZaiAgent that runs a task
+ */
+export interface TaskAgent {
+  on(event: 'entry', listener: (entry: ChatEntry) => void): unknown;
+  on(event: 'retry', listener: (info: RetryInfo) => void): unknown;
+  off(event: 'entry', listener: (entry: ChatEntry) => void): unknown;
+  off(event: 'retry', listener: (info: RetryInfo) => void): unknown;
+  processUserMessage(message: string, signal?: AbortSignal): Promise<ChatEntry[]>;
+  dispose(): void;
+}
+
+/**
+ * Creates a fresh agent for one task, rooted at workingDirectory when the task is isolated
+ */
+export type AgentFactory = (workingDirectory?: string) => TaskAgent;
+
 export class TaskOrchestrator extends EventEmitter {
   private static instance: TaskOrchestrator;
   private tasks: Map<string, AgentTask> = new Map();
-  private runningTasks: Set<string> = new Set();
-  private maxParallelTasks: number = 3;
+  private controllers: Map<string, AbortController> = new Map(); // Tasks waiting for a slot or running
+  private slots = new Semaphore(3); // Limits how many tasks run at once
+  private worktrees = new WorktreeManager();
 
   private constructor() {
     super();
@@ -33,12 +61,14 @@ export class TaskOrchestrator extends EventEmitter {
 
   /**
    * Create a new agent task
+   * toolCallId links the task to the launch_agent call that started it
    */
   createTask(
     type: AgentType,
     description: string,
     prompt: string,
-    config?: Partial<AgentConfig>
+    config?: Partial<AgentConfig>,
+    toolCallId?: string
   ): AgentTask {
     const task: AgentTask = {
       id: uuidv4(),
@@ -47,6 +77,8 @@ export class TaskOrchestrator extends EventEmitter {
       prompt,
       status: 'pending',
       createdAt: new Date(),
+      toolCallId,
+      transcript: [],
     };
 
     this.tasks.set(task.id, task);
@@ -56,11 +88,17 @@ export class TaskOrchestrator extends EventEmitter {
 
   /**
    * Execute a task with a specialized agent
+   *
+   * Pass an AgentFactory to give the task its own agent, which is disposed
+   * when the task ends. Worktree isolation requires a factory. The task is
+   * stopped when signal aborts (e.g. Esc in the agent that launched it),
+   * when it is cancelled, or when it exceeds config.timeoutMs or config.maxTokens.
    */
   async executeTask(
     taskId: string,
-    agent: ZaiAgent,
-    config?: Partial<AgentConfig>
+    agent: TaskAgent | AgentFactory,
+    config?: Partial<AgentConfig>,
+    signal?: AbortSignal
   ): Promise<AgentResult> {
     const task = this.tasks.get(taskId);
     if (!task) {
@@ -71,30 +109,69 @@ export class TaskOrchestrator extends EventEmitter {
       throw new Error(`Task ${taskId} is not in pending state`);
     }
 
-    // Wait if too many tasks are running
-    while (this.runningTasks.size >= this.maxParallelTasks) {
-      await new Promise((resolve) => setTimeout(resolve, 100));
+    const controller = new AbortController();
+    const stop = (reason: TaskStoppedError['reason'], detail: string) => {
+      if (!controller.signal.aborted) {
+        controller.abort(new TaskStoppedError(taskId, reason, detail));
+      }
+    };
+    const onParentAbort = () => stop('cancelled', 'was cancelled by user');
+    if (signal?.aborted) {
+      onParentAbort();
     }
+    signal?.addEventListener('abort', onParentAbort, { once: true });
+    this.controllers.set(taskId, controller);
 
-    task.status = 'running';
-    task.startedAt = new Date();
-    this.runningTasks.add(taskId);
-    this.emit('task:started', task);
-
+    let release: (() => void) | null = null;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    let worktree: Worktree | null = null;
     try {
-      const capability = AGENT_CAPABILITIES[task.type];
+      // Wait for a free slot if too many tasks are running
+      release = await this.slots.acquire(controller.signal);
+
+      task.status = 'running';
+      task.startedAt = new Date();
+      this.emit('task:started', task);
+
+      if (config?.timeoutMs) {
+        timeout = setTimeout(
+          () => stop('timeout', `timed out after ${(config.timeoutMs! / 1000).toFixed(0)}s`),
+          config.timeoutMs
+        );
+      }
+
+      const capability = getAgentCapability(task.type);
+      if (!capability) {
+        throw new Error(`Unknown agent type: ${task.type}`);
+      }
+
+      if (config?.isolation === 'worktree') {
+        if (typeof agent !== 'function') {
+          throw new Error('Worktree isolation needs an agent factory so the task gets its own agent');
+        }
+        worktree = await this.worktrees.create(task.id);
+      }
 
       // Build enhanced prompt with agent system prompt
       const enhancedPrompt = this.buildAgentPrompt(
         task.prompt,
         capability,
-        config
+        config,
+        worktree
       );
 
       // Execute with agent
       const startTime = Date.now();
-      const chatEntries = await agent.processUserMessage(enhancedPrompt);
+      const chatEntries = await this.runAgent(task, agent, enhancedPrompt, controller, config?.maxTokens, worktree?.path);
       const duration = Date.now() - startTime;
+      if (controller.signal.aborted) {
+        throw controller.signal.reason;
+      }
+
+      // Move the task's work onto its branch and free the checkout
+      const changes = worktree ? await this.worktrees.finish(worktree, `ZAI ${task.type}: ${task.description}`) : null;
+      worktree = null;
+      task.worktree = changes ?? undefined;
 
       // Extract result from chat entries
       const output = chatEntries
@@ -112,8 +189,13 @@ export class TaskOrchestrator extends EventEmitter {
         output,
         metadata: {
           duration,
+          tokensUsed: task.tokensUsed,
           toolsUsed: [...new Set(toolsUsed)],
-          // Could add more metadata here
+          ...(changes && {
+            filesModified: changes.files,
+            branch: changes.branch,
+            diff: changes.diff,
+          }),
         },
       };
 
@@ -124,33 +206,134 @@ export class TaskOrchestrator extends EventEmitter {
 
       return result;
     } catch (error: any) {
+      const stopReason = error instanceof TaskStoppedError ? error.reason : undefined;
       task.status = 'failed';
       task.error = error.message;
       task.completedAt = new Date();
-      this.emit('task:failed', task);
+      this.emit(stopReason === 'cancelled' ? 'task:cancelled' : 'task:failed', task);
 
       return {
         success: false,
         output: '',
-        metadata: { error: error.message },
+        metadata: { error: error.message, stopReason, tokensUsed: task.tokensUsed },
       };
     } finally {
-      this.runningTasks.delete(taskId);
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', onParentAbort);
+      if (worktree) {
+        // Keep partial work from a failed task on its branch
+        task.worktree = (await this.worktrees.finish(worktree).catch(() => null)) ?? undefined;
+      }
+      this.controllers.delete(taskId);
+      release?.();
+    }
+  }
+
+  private async runAgent(
+    task: AgentTask,
+    agent: TaskAgent | AgentFactory,
+    prompt: string,
+    controller: AbortController,
+    maxTokens?: number,
+    workingDirectory?: string
+  ) {
+    const taskAgent = typeof agent === 'function' ? agent(workingDirectory) : agent;
+    const onEntry = (entry: ChatEntry) => {
+      this.recordEntry(task, entry);
+      if (maxTokens && (task.tokensUsed || 0) > maxTokens && !controller.signal.aborted) {
+        controller.abort(
+          new TaskStoppedError(task.id, 'token_limit', `stopped after exceeding its limit of ${maxTokens.toLocaleString()} tokens`)
+        );
+      }
+    };
+    const onRetry = (info: RetryInfo) => this.emit('task:retry', task, info);
+    taskAgent.on('entry', onEntry);
+    taskAgent.on('retry', onRetry);
+    try {
+      return await taskAgent.processUserMessage(prompt, controller.signal);
+    } finally {
+      taskAgent.off('entry', onEntry);
+      taskAgent.off('retry', onRetry);
+      if (typeof agent === 'function') {
+        taskAgent.dispose();
+      }
+    }
+  }
+
+  /**
+   * Add an entry to a task's transcript; a tool result replaces its pending tool call
+   */
+  private recordEntry(task: AgentTask, entry: ChatEntry): void {
+    const transcript = task.transcript ?? (task.transcript = []);
+    const index = entry.type === 'tool_result'
+      ? transcript.findIndex((e) => e.type === 'tool_call' && e.toolCall?.id === entry.toolCall?.id)
+      : -1;
+    if (index !== -1) {
+      transcript[index] = entry;
+    } else {
+      transcript.push(entry);
+    }
+    if (entry.usage) {
+      task.tokensUsed = (task.tokensUsed || 0) + entry.usage.inputTokens + entry.usage.outputTokens;
+    }
+    this.emit('task:progress', task, entry);
+  }
+
+  /**
+   * Merge an isolated task's branch into the parent working tree
+   *
+   * Cleanly merged files are written; conflicting files are returned for
+   * review and left untouched. The task's branch is deleted only when
+   * nothing conflicts, so the merge can be inspected or redone until the
+   * conflicts are reviewed (then discardTaskChanges drops it).
+   */
+  async applyTaskChanges(taskId: string): Promise<WorktreeMergeResult> {
+    const changes = this.getTaskChanges(taskId);
+    const result = await this.worktrees.merge(changes);
+    if (result.conflicts.length === 0) {
+      await this.worktrees.discard(changes);
+      this.tasks.get(taskId)!.worktree = undefined;
     }
+    this.emit('task:applied', this.tasks.get(taskId));
+    return result;
+  }
+
+  /**
+   * Drop an isolated task's branch, instead of applying it or once its
+   * conflicts have been reviewed
+   */
+  async discardTaskChanges(taskId: string): Promise<WorktreeChanges> {
+    const changes = this.getTaskChanges(taskId);
+    await this.worktrees.discard(changes);
+    this.tasks.get(taskId)!.worktree = undefined;
+    return changes;
+  }
+
+  private getTaskChanges(taskId: string): WorktreeChanges {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      throw new Error(`Task not found: ${taskId}`);
+    }
+    if (!task.worktree) {
+      throw new Error(`Task ${taskId} has no isolated changes to apply`);
+    }
+    return task.worktree;
   }
 
   /**
    * Execute multiple tasks in parallel
+   * Use an AgentFactory with isolation 'worktree' so the agents don't edit the same files
    */
   async executeParallel(
     taskIds: string[],
-    agent: ZaiAgent,
-    config?: Partial<AgentConfig>
+    agent: TaskAgent | AgentFactory,
+    config?: Partial<AgentConfig>,
+    signal?: AbortSignal
   ): Promise<Map<string, AgentResult>> {
     const results = new Map<string, AgentResult>();
 
     const promises = taskIds.map(async (taskId) => {
-      const result = await this.executeTask(taskId, agent, config);
+      const result = await this.executeTask(taskId, agent, config, signal);
       results.set(taskId, result);
     });
 
@@ -163,13 +346,14 @@ export class TaskOrchestrator extends EventEmitter {
    */
   async executeSequential(
     taskIds: string[],
-    agent: ZaiAgent,
-    config?: Partial<AgentConfig>
+    agent: TaskAgent | AgentFactory,
+    config?: Partial<AgentConfig>,
+    signal?: AbortSignal
   ): Promise<Map<string, AgentResult>> {
     const results = new Map<string, AgentResult>();
 
     for (const taskId of taskIds) {
-      const result = await this.executeTask(taskId, agent, config);
+      const result = await this.executeTask(taskId, agent, config, signal);
       results.set(taskId, result);
 
       // Stop if a task fails
@@ -186,12 +370,16 @@ export class TaskOrchestrator extends EventEmitter {
    */
   private buildAgentPrompt(
     userPrompt: string,
-    capability: typeof AGENT_CAPABILITIES[AgentType],
-    config?: Partial<AgentConfig>
+    capability: AgentCapability,
+    config?: Partial<AgentConfig>,
+    worktree?: Worktree | null
   ): string {
     const systemPrompt = config?.customSystemPrompt || capability.systemPrompt;
+    const isolation = worktree
+      ? `\n\nYou are working in an isolated git worktree at ${worktree.path} on branch ${worktree.branch}. Keep all changes inside it; they will be merged back for the user to review. Do not push or switch branches.`
+      : '';
 
-    return `${systemPrompt}
+    return `${systemPrompt}${isolation}
 
 TASK:
 ${userPrompt}
@@ -201,6 +389,13 @@ Available tools: ${capability.tools.join(', ')}
 Please complete this task using the available tools. Be thorough and provide clear explanations.`;
   }
 
+  /**
+   * Get the task started by a launch_agent tool call
+   */
+  findTaskByToolCall(toolCallId: string): AgentTask | undefined {
+    return Array.from(this.tasks.values()).find((task) => task.toolCallId === toolCallId);
+  }
+
   /**
    * Get task by ID
    */
@@ -208,6 +403,18 @@ Please complete this task using the available tools. Be thorough and provide cle
     return this.tasks.get(taskId);
   }
 
+  /**
+   * Find a task by its ID or a unique ID prefix (as shown in /tasks)
+   */
+  findTask(idOrPrefix: string): AgentTask | undefined {
+    const exact = this.tasks.get(idOrPrefix);
+    if (exact || !idOrPrefix) {
+      return exact;
+    }
+    const matches = this.getAllTasks().filter((t) => t.id.startsWith(idOrPrefix));
+    return matches.length === 1 ? matches[0] : undefined;
+  }
+
   /**
    * Get all tasks
    */
@@ -230,10 +437,21 @@ Please complete this task using the available tools. Be thorough and provide cle
   }
 
   /**
-   * Cancel a pending task
+   * Cancel a pending or running task
+   * A running task's model request is aborted and its agent stops after the
+   * tool call in progress; the task is marked failed (emitting task:cancelled)
+   * once it has stopped
    */
   cancelTask(taskId: string): boolean {
     const task = this.tasks.get(taskId);
+    const controller = this.controllers.get(taskId);
+    if (task && controller) {
+      if (!controller.signal.aborted) {
+        controller.abort(new TaskStoppedError(taskId, 'cancelled', 'was cancelled by user'));
+      }
+      return true;
+    }
+
     if (!task || task.status !== 'pending') {
       return false;
     }
@@ -246,10 +464,10 @@ Please complete this task using the available tools. Be thorough and provide cle
   }
 
   /**
-   * Clear completed tasks
+   * Clear completed tasks (tasks with unapplied worktree changes are kept)
    */
   clearCompleted(): number {
-    const completed = this.getTasksByStatus('completed');
+    const completed = this.getTasksByStatus('completed').filter((task) => !task.worktree);
     completed.forEach((task) => this.tasks.delete(task.id));
     return completed.length;
   }
@@ -286,7 +504,7 @@ Please complete this task using the available tools. Be thorough and provide cle
    * Set max parallel tasks
    */
   setMaxParallelTasks(max: number): void {
-    this.maxParallelTasks = Math.max(1, Math.min(max, 10));
+    this.slots.setPermits(Math.max(1, Math.min(max, 10)));
   }
 }
 
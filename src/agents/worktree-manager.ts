@@ -0,0 +1,303 @@
+/**
+ * Worktree Manager
+ * Gives sub-agents their own git worktree so parallel edits don't collide,
+ * and merges their work back into the parent working tree
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WorktreeError } from '../errors/index.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * A checkout created for one task
+ */
+export interface Worktree {
+  path: string;
+  branch: string;
+  repoRoot: string;
+  baseCommit: string; // Commit the branch started from
+}
+
+/**
+ * Work a task left on its branch once its worktree is removed
+ */
+export interface WorktreeChanges {
+  branch: string;
+  repoRoot: string;
+  baseCommit: string;
+  files: string[]; // Paths relative to the repository root
+  diff: string;
+}
+
+/**
+ * One file's merge; binary files are Buffers, taken whole from the task
+ */
+export interface MergedFile {
+  path: string; // Absolute path in the parent working tree
+  current: string | Buffer | null; // Parent content (null if the file doesn't exist)
+  merged: string | Buffer | null; // Merge result, with conflict markers (null deletes the file)
+  conflict: boolean;
+  mode?: number; // Permissions the task gave the file
+}
+
+export interface WorktreeMergeResult {
+  applied: string[]; // Files written from a clean merge
+  deleted: string[]; // Files the task deleted
+  conflicts: MergedFile[]; // Files left for the user to review
+}
+
+/**
+ * A file the task changed, as reported by git diff --raw and --numstat
+ */
+interface ChangedFile {
+  file: string;
+  oldMode: string; // "000000" when added
+  newMode: string; // "000000" when deleted
+  binary: boolean;
+}
+
+/**
+ * What a failed promisified execFile rejects with
+ */
+interface GitFailure extends Error {
+  code?: number | string; // Exit code, or a system error code when git didn't run
+  stdout?: string;
+  stderr?: string;
+}
+
+function failureMessage(error: unknown): string {
+  const failure = error as GitFailure;
+  return failure.stderr?.trim() || failure.message || String(error);
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 50 * 1024 * 1024 });
+  return stdout;
+}
+
+async function gitBuffer(cwd: string, args: string[]): Promise<Buffer> {
+  const { stdout } = await execFileAsync('git', args, { cwd, encoding: 'buffer', maxBuffer: 50 * 1024 * 1024 });
+  return stdout;
+}
+
+function sameContent(a: string | Buffer | null, b: string | Buffer | null): boolean {
+  if (a === null || b === null) {
+    return a === b;
+  }
+  return Buffer.from(a).equals(Buffer.from(b));
+}
+
+export class WorktreeManager {
+  constructor(private rootDirectory: string = path.join(os.tmpdir(), 'zai-worktrees')) {}
+
+  /**
+   * Check out HEAD of the repository containing cwd on a new branch for a task
+   *
+   * Uncommitted changes in the parent are not copied; they are kept when
+   * the task's work is merged back.
+   */
+  async create(taskId: string, cwd: string = process.cwd()): Promise<Worktree> {
+    let repoRoot: string;
+    let baseCommit: string;
+    try {
+      repoRoot = (await git(cwd, ['rev-parse', '--show-toplevel'])).trim();
+    } catch {
+      throw new WorktreeError('create', `${cwd} is not inside a git repository`);
+    }
+    try {
+      baseCommit = (await git(repoRoot, ['rev-parse', 'HEAD'])).trim();
+    } catch {
+      throw new WorktreeError('create', 'the repository has no commits yet', repoRoot);
+    }
+
+    const id = taskId.substring(0, 8);
+    const branch = `zai/task-${id}`;
+    const worktreePath = path.join(this.rootDirectory, `${path.basename(repoRoot)}-${id}`);
+    fs.mkdirSync(this.rootDirectory, { recursive: true });
+    try {
+      await git(repoRoot, ['worktree', 'add', '-q', '-b', branch, worktreePath, baseCommit]);
+    } catch (error) {
+      throw new WorktreeError('create', failureMessage(error), repoRoot);
+    }
+
+    return { path: worktreePath, branch, repoRoot, baseCommit };
+  }
+
+  /**
+   * Commit everything the task changed, then remove its checkout
+   * The branch is kept until the changes are applied or discarded; returns
+   * null (and deletes the branch) when the task changed nothing
+   */
+  async finish(worktree: Worktree, message: string = `ZAI task on ${worktree.branch}`): Promise<WorktreeChanges | null> {
+    try {
+      await git(worktree.path, ['add', '-A']);
+      if ((await git(worktree.path, ['status', '--porcelain'])).trim()) {
+        await git(worktree.path, [
+          '-c', 'user.name=ZAI CLI',
+          '-c', 'user.email=zai-cli@localhost',
+          'commit', '-q', '--no-verify', '-m', message,
+        ]);
+      }
+
+      const range = [worktree.baseCommit, worktree.branch];
+      const files = (await git(worktree.repoRoot, ['diff', '--name-only', ...range]))
+        .split('\n')
+        .filter(Boolean);
+      const diff = files.length > 0 ? await git(worktree.repoRoot, ['diff', '--binary', ...range]) : '';
+
+      await git(worktree.repoRoot, ['worktree', 'remove', '--force', worktree.path]);
+      if (files.length === 0) {
+        await git(worktree.repoRoot, ['branch', '-D', worktree.branch]);
+        return null;
+      }
+
+      return {
+        branch: worktree.branch,
+        repoRoot: worktree.repoRoot,
+        baseCommit: worktree.baseCommit,
+        files,
+        diff,
+      };
+    } catch (error) {
+      throw new WorktreeError('finish', failureMessage(error), worktree.repoRoot);
+    }
+  }
+
+  /**
+   * Three-way merge a task's files into the parent working tree
+   *
+   * Clean merges are written immediately. Conflicting files are left
+   * untouched and returned so the user can review them. Binary files can't
+   * be merged: they are copied whole when the parent hasn't changed them,
+   * and are conflicts otherwise.
+   */
+  async merge(changes: WorktreeChanges): Promise<WorktreeMergeResult> {
+    const result: WorktreeMergeResult = { applied: [], deleted: [], conflicts: [] };
+
+    for (const change of await this.listChanges(changes)) {
+      const filePath = path.join(changes.repoRoot, change.file);
+      const exists = fs.existsSync(filePath);
+      const modeChanged = change.newMode !== change.oldMode && change.newMode !== '000000';
+      const mode = modeChanged && change.newMode.startsWith('100') ? parseInt(change.newMode.slice(-3), 8) : undefined;
+      const read = async (revision: string, present: boolean) => {
+        if (!present) {
+          return null;
+        }
+        const content = await gitBuffer(changes.repoRoot, ['show', `${revision}:${change.file}`]);
+        return change.binary ? content : content.toString('utf-8');
+      };
+      const base = await read(changes.baseCommit, change.oldMode !== '000000');
+      const theirs = await read(changes.branch, change.newMode !== '000000');
+      const current = exists ? (change.binary ? fs.readFileSync(filePath) : fs.readFileSync(filePath, 'utf-8')) : null;
+
+      if (sameContent(current, theirs) && !(modeChanged && exists)) {
+        continue;
+      }
+
+      let merged: MergedFile;
+      if (sameContent(current, base) || sameContent(current, theirs)) {
+        merged = { path: filePath, current, merged: theirs, conflict: false, mode };
+      } else if (typeof current === 'string' && typeof theirs === 'string') {
+        const content = await this.mergeContent(changes, current, typeof base === 'string' ? base : '', theirs);
+        merged = { path: filePath, current, ...content, mode };
+      } else {
+        // One side deleted the file the other side changed, or both changed a binary file
+        merged = { path: filePath, current, merged: theirs, conflict: true, mode };
+      }
+
+      if (merged.conflict) {
+        result.conflicts.push(merged);
+        continue;
+      }
+      writeMergedFile(merged);
+      (merged.merged === null ? result.deleted : result.applied).push(filePath);
+    }
+
+    return result;
+  }
+
+  /**
+   * Delete a task's branch
+   */
+  async discard(changes: WorktreeChanges): Promise<void> {
+    try {
+      await git(changes.repoRoot, ['branch', '-D', changes.branch]);
+    } catch (error) {
+      throw new WorktreeError('discard', failureMessage(error), changes.repoRoot);
+    }
+  }
+
+  /**
+   * Files the task's branch changed, with their modes and whether git sees them as binary
+   */
+  private async listChanges(changes: WorktreeChanges): Promise<ChangedFile[]> {
+    const range = [changes.baseCommit, changes.branch];
+    const raw = (await git(changes.repoRoot, ['diff', '--raw', '--no-renames', '-z', ...range])).split('\0');
+    const numstat = (await git(changes.repoRoot, ['diff', '--numstat', '--no-renames', '-z', ...range])).split('\0');
+    const binary = new Set(
+      numstat.filter((line) => line.startsWith('-\t-\t')).map((line) => line.slice(4))
+    );
+
+    const files: ChangedFile[] = [];
+    // -z --raw output alternates ":oldmode newmode oldsha newsha status" and the path
+    for (let i = 0; i + 1 < raw.length; i += 2) {
+      const [oldMode, newMode] = raw[i].slice(1).split(' ');
+      files.push({ file: raw[i + 1], oldMode, newMode, binary: binary.has(raw[i + 1]) });
+    }
+    return files;
+  }
+
+  private async mergeContent(
+    changes: WorktreeChanges,
+    current: string,
+    base: string,
+    theirs: string
+  ): Promise<{ merged: string; conflict: boolean }> {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'zai-merge-'));
+    const write = (name: string, content: string) => {
+      const filePath = path.join(tempDir, name);
+      fs.writeFileSync(filePath, content);
+      return filePath;
+    };
+
+    try {
+      const args = [
+        'merge-file', '-p',
+        '-L', 'current', '-L', 'base', '-L', changes.branch,
+        write('current', current), write('base', base), write('theirs', theirs),
+      ];
+      try {
+        return { merged: await git(changes.repoRoot, args), conflict: false };
+      } catch (error) {
+        // A positive exit code is the number of conflicts; stdout holds the marked-up file
+        const { code, stdout } = error as GitFailure;
+        if (typeof code === 'number' && code > 0 && code < 128) {
+          return { merged: stdout ?? '', conflict: true };
+        }
+        throw new WorktreeError('merge', failureMessage(error), changes.repoRoot);
+      }
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Write a merge result to the parent working tree, deleting the file if the merge removed it
+ */
+export function writeMergedFile(file: MergedFile): void {
+  if (file.merged === null) {
+    fs.rmSync(file.path, { force: true });
+    return;
+  }
+  fs.mkdirSync(path.dirname(file.path), { recursive: true });
+  fs.writeFileSync(file.path, file.merged);
+  if (file.mode !== undefined) {
+    fs.chmodSync(file.path, file.mode);
+  }
+}
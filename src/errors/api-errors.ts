@@ -43,8 +43,11 @@ export class APIError extends ZAIError {
       });
     }
 
+    // Timeouts, conflicts, rate limits and server errors are worth retrying
+    const retryable = statusCode === 408 || statusCode === 409 || statusCode === 429 || (statusCode ?? 0) >= 500;
+
     super(message, 'API_ERROR', {
-      recoverable: statusCode ? statusCode < 500 : false,
+      recoverable: retryable,
       suggestions,
       context: { statusCode, ...context },
     });
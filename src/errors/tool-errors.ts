@@ -113,6 +113,90 @@ export class ToolExecutionError extends ZAIError {
   }
 }
 
+export class PermissionDeniedError extends ZAIError {
+  constructor(toolName: string, target: string, reason: string) {
+    super(
+      `Permission denied: ${toolName} on '${target}' ${reason}`,
+      'PERMISSION_DENIED',
+      {
+        recoverable: true,
+        context: { tool: toolName, target },
+        suggestions: [
+          {
+            action: 'Try a different approach',
+            description: 'This operation is blocked by the permission rules in .zai/settings.json or ~/.zai/user-settings.json',
+          },
+        ],
+      }
+    );
+  }
+}
+
+export class HookBlockedError extends ZAIError {
+  constructor(event: string, reason: string, toolName?: string) {
+    super(
+      `Blocked by ${event} hook${toolName ? ` for ${toolName}` : ''}: ${reason}`,
+      'HOOK_BLOCKED',
+      {
+        recoverable: true,
+        context: { event, tool: toolName },
+        suggestions: [
+          {
+            action: 'Follow the hook feedback',
+            description: 'Hooks are configured under "hooks" in .zai/settings.json or ~/.zai/user-settings.json',
+          },
+        ],
+      }
+    );
+  }
+}
+
+export class WorktreeError extends ZAIError {
+  constructor(operation: string, detail: string, repoRoot?: string) {
+    super(
+      `Git worktree ${operation} failed: ${detail}`,
+      'WORKTREE_ERROR',
+      {
+        recoverable: true,
+        context: { operation, repoRoot },
+        suggestions: [
+          {
+            action: 'Run the agent without isolation',
+            description: 'Worktree isolation needs a git repository with at least one commit',
+          },
+        ],
+      }
+    );
+  }
+}
+
+/**
+ * Why a running agent task was stopped before it finished
+ */
+export type TaskStopReason = 'cancelled' | 'timeout' | 'token_limit';
+
+export class TaskStoppedError extends ZAIError {
+  public readonly reason: TaskStopReason;
+
+  constructor(taskId: string, reason: TaskStopReason, detail: string) {
+    super(
+      `Task ${taskId.substring(0, 8)} ${detail}`,
+      'TASK_STOPPED',
+      {
+        recoverable: true,
+        context: { taskId, reason },
+        suggestions: reason === 'cancelled' ? [] : [
+          {
+            action: 'Raise the agent\'s limits',
+            description: 'Set timeout (seconds) or maxTokens in the agent\'s frontmatter under .zai/agents',
+          },
+        ],
+      }
+    );
+    this.reason = reason;
+  }
+}
+
 export class BashCommandError extends ZAIError {
   constructor(
     command: string,
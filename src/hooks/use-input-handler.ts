@@ -5,9 +5,27 @@ import { ConfirmationService } from "../utils/confirmation-service.js";
 import { useEnhancedInput, Key } from "./use-enhanced-input.js";
 
 import { filterCommandSuggestions } from "../ui/components/command-suggestions.js";
-import { loadModelConfig, updateCurrentModel } from "../utils/model-config.js";
-import { getSessionManager } from "../utils/session-manager.js";
+import {
+  findModelOption,
+  formatModelOption,
+  loadModelConfig,
+  updateCurrentModel,
+  type ModelOption,
+} from "../utils/model-config.js";
+import { getSessionManager, type SessionBranch } from "../utils/session-manager.js";
 import { getFileWatcher } from "../utils/file-watcher.js";
+import { formatTokenCount } from "../utils/token-counter.js";
+import { getBackgroundProcessManager } from "../tools/background-processes.js";
+import type { CheckpointInfo, FileRestoreResult, RewindResult } from "../agent/checkpoint-manager.js";
+import { writeMergedFile, type MergedFile, type WorktreeMergeResult } from "../agents/worktree-manager.js";
+import { DiffGenerator } from "../utils/diff-generator.js";
+import { exportEntriesToMarkdown } from "../utils/session-export.js";
+import type { FileChange } from "../ui/components/interactive-diff-viewer.js";
+import {
+  expandCommandTemplate,
+  loadCustomCommands,
+  type CustomCommand,
+} from "../utils/custom-commands.js";
 
 interface UseInputHandlerProps {
   agent: ZaiAgent;
@@ -30,8 +48,63 @@ interface CommandSuggestion {
   description: string;
 }
 
-interface ModelOption {
-  model: string;
+/**
+ * Conflicts from applying an isolated task, reviewed file by file
+ */
+interface MergeReview {
+  taskId: string;
+  conflicts: MergedFile[];
+  changes: FileChange[]; // The same conflicts, as shown in the diff viewer
+  accepted: string[];
+  kept: string[];
+}
+
+function toFileChange(file: MergedFile): FileChange {
+  const describe = (content: string | Buffer | null) =>
+    typeof content === "string" ? content : content ? `(binary file, ${content.length} bytes)\n` : "";
+  const oldContent = describe(file.current);
+  const newContent = describe(file.merged);
+  return {
+    filePath: file.path,
+    oldContent,
+    newContent,
+    diff: DiffGenerator.generateDiff(oldContent, newContent, file.path),
+  };
+}
+
+function formatMerge(taskId: string, { applied, deleted, conflicts }: WorktreeMergeResult): string[] {
+  const lines = [`🔀 Applied changes from task ${taskId}`];
+  if (applied.length > 0) lines.push(`  Merged: ${applied.join(", ")}`);
+  if (deleted.length > 0) lines.push(`  Deleted: ${deleted.join(", ")}`);
+  if (conflicts.length > 0) {
+    lines.push(`  ⚠️ Conflicts: ${conflicts.map((c) => c.path).join(", ")}`);
+    lines.push("  Review each conflict: accept writes the merge with conflict markers, reject keeps your version");
+    lines.push("  The task branch is kept until every conflict is reviewed");
+  }
+  if (applied.length + deleted.length + conflicts.length === 0) {
+    lines.push("  The working tree already has these changes");
+  }
+  return lines;
+}
+
+function formatFileRestore({ restored, deleted, failed }: FileRestoreResult): string[] {
+  const lines: string[] = [];
+  if (restored.length > 0) lines.push(`  Restored: ${restored.join(", ")}`);
+  if (deleted.length > 0) lines.push(`  Deleted: ${deleted.join(", ")}`);
+  if (failed.length > 0) lines.push(`  ⚠️ Could not restore: ${failed.join(", ")}`);
+  return lines;
+}
+
+function formatRewind(result: RewindResult): string[] {
+  const { restored, deleted, failed } = result.files;
+  const lines = [`⏪ Rewound to before #${result.checkpoint.id}: "${result.checkpoint.prompt}"`];
+  lines.push(...formatFileRestore(result.files));
+  if (restored.length + deleted.length + failed.length === 0) lines.push("  No file changes to undo");
+  if (!result.conversationRestored) {
+    lines.push("  Conversation was already compacted past this point; only files were rewound");
+  }
+  lines.push("  Changes made with bash commands are not rewound");
+  return lines;
 }
 
 export function useInputHandler({
@@ -53,6 +126,12 @@ export function useInputHandler({
   const [selectedCommandIndex, setSelectedCommandIndex] = useState(0);
   const [showModelSelection, setShowModelSelection] = useState(false);
   const [selectedModelIndex, setSelectedModelIndex] = useState(0);
+  const [rewindCheckpoints, setRewindCheckpoints] = useState<CheckpointInfo[]>([]);
+  const [selectedCheckpointIndex, setSelectedCheckpointIndex] = useState(0);
+  const [sessionBranches, setSessionBranches] = useState<SessionBranch[]>([]);
+  const [selectedBranchIndex, setSelectedBranchIndex] = useState(0);
+  const [mergeReview, setMergeReview] = useState<MergeReview | null>(null);
+  const [expandAgentTranscripts, setExpandAgentTranscripts] = useState(false);
   const [waitingForClearConfirmation, setWaitingForClearConfirmation] = useState(false);
   const [showThinking, setShowThinkingState] = useState(() => {
     // Initialiser avec l'état actuel du client
@@ -66,8 +145,8 @@ export function useInputHandler({
   });
 
   const handleSpecialKey = (key: Key): boolean => {
-    // Don't handle input if confirmation dialog is active
-    if (isConfirmationActive) {
+    // Don't handle input if a confirmation dialog or the conflict viewer is active
+    if (isConfirmationActive || mergeReview) {
       return true; // Prevent default handling
     }
 
@@ -99,6 +178,16 @@ export function useInputHandler({
         setSelectedModelIndex(0);
         return true;
       }
+      if (rewindCheckpoints.length > 0) {
+        setRewindCheckpoints([]);
+        setSelectedCheckpointIndex(0);
+        return true;
+      }
+      if (sessionBranches.length > 0) {
+        setSessionBranches([]);
+        setSelectedBranchIndex(0);
+        return true;
+      }
       if (isProcessing || isStreaming) {
         agent.abortCurrentOperation();
         setIsProcessing(false);
@@ -165,11 +254,11 @@ export function useInputHandler({
       }
       if (key.tab || key.return) {
         const selectedModel = availableModels[selectedModelIndex];
-        agent.setModel(selectedModel.model);
-        updateCurrentModel(selectedModel.model);
+        agent.setModel(selectedModel.model, selectedModel.provider);
+        updateCurrentModel(selectedModel.model, selectedModel.provider);
         const confirmEntry: ChatEntry = {
           type: "assistant",
-          content: `✓ Switched to model: ${selectedModel.model}`,
+          content: `✓ Switched to model: ${formatModelOption(selectedModel)}`,
           timestamp: new Date(),
         };
         setChatHistory((prev) => [...prev, confirmEntry]);
@@ -179,6 +268,48 @@ export function useInputHandler({
       }
     }
 
+    // Handle rewind checkpoint selection
+    if (rewindCheckpoints.length > 0) {
+      if (key.upArrow) {
+        setSelectedCheckpointIndex((prev) =>
+          prev === 0 ? rewindCheckpoints.length - 1 : prev - 1
+        );
+        return true;
+      }
+      if (key.downArrow) {
+        setSelectedCheckpointIndex((prev) => (prev + 1) % rewindCheckpoints.length);
+        return true;
+      }
+      if (key.tab || key.return) {
+        const checkpoint = rewindCheckpoints[selectedCheckpointIndex];
+        setRewindCheckpoints([]);
+        setSelectedCheckpointIndex(0);
+        void rewindToCheckpoint(checkpoint.id);
+        return true;
+      }
+    }
+
+    // Handle session branch selection
+    if (sessionBranches.length > 0) {
+      if (key.upArrow) {
+        setSelectedBranchIndex((prev) =>
+          prev === 0 ? sessionBranches.length - 1 : prev - 1
+        );
+        return true;
+      }
+      if (key.downArrow) {
+        setSelectedBranchIndex((prev) => (prev + 1) % sessionBranches.length);
+        return true;
+      }
+      if (key.tab || key.return) {
+        const branch = sessionBranches[selectedBranchIndex];
+        setSessionBranches([]);
+        setSelectedBranchIndex(0);
+        void switchBranch(branch.session.id);
+        return true;
+      }
+    }
+
     return false; // Let default handling proceed
   };
 
@@ -404,7 +535,7 @@ export function useInputHandler({
   } = useEnhancedInput({
     onSubmit: handleInputSubmit,
     onSpecialKey: handleSpecialKey,
-    disabled: isConfirmationActive,
+    disabled: isConfirmationActive || !!mergeReview,
   });
 
   // Hook up the actual input handling
@@ -420,7 +551,8 @@ export function useInputHandler({
           workingDirectory: agent.getCurrentDirectory(),
           model: agent.getCurrentModel(),
         },
-        'Auto-saved session'
+        'Auto-saved session',
+        agent.getSessionState()
       );
 
       const saveEntry: ChatEntry = {
@@ -433,6 +565,12 @@ export function useInputHandler({
       return;
     }
 
+    // Handle Ctrl+O to expand or collapse sub-agent transcripts
+    if (inputChar === '\u000f') { // Ctrl+O
+      setExpandAgentTranscripts((prev) => !prev);
+      return;
+    }
+
     // Handle Ctrl+T to toggle thinking panel
     if (
       inputChar === '\u0014' && // Ctrl+T
@@ -473,7 +611,7 @@ export function useInputHandler({
     handleInputChange(input);
   }, [input]);
 
-  const commandSuggestions: CommandSuggestion[] = [
+  const builtInCommands: CommandSuggestion[] = [
     { command: "/help", description: "Show help information" },
     { command: "/clear", description: "Clear chat history" },
     { command: "/save", description: "Save current session" },
@@ -484,9 +622,28 @@ export function useInputHandler({
     { command: "/config", description: "Open settings panel" },
     { command: "/commit-and-push", description: "AI commit & push to remote" },
     { command: "/watch", description: "Toggle file watching on/off" },
+    { command: "/compact", description: "Compact conversation context" },
+    { command: "/jobs", description: "List background processes" },
+    { command: "/rewind", description: "Rewind code and conversation" },
+    { command: "/fork", description: "Fork the conversation into a new branch" },
     { command: "/exit", description: "Exit the application" },
   ];
 
+  // Reload custom commands whenever the suggestions open, so new files show up
+  const customCommands: CustomCommand[] = useMemo(() => {
+    return loadCustomCommands();
+  }, [showCommandSuggestions]);
+
+  const commandSuggestions: CommandSuggestion[] = [
+    ...builtInCommands,
+    ...customCommands
+      .filter((c) => !builtInCommands.some((b) => b.command === `/${c.name}`))
+      .map((c) => ({
+        command: `/${c.name}`,
+        description: c.description || `Custom command (${c.source})`,
+      })),
+  ];
+
   // Load models from configuration with fallback to defaults
   const availableModels: ModelOption[] = useMemo(() => {
     return loadModelConfig(); // Return directly, interface already matches
@@ -580,6 +737,9 @@ To see available backups for a file:
     }
 
     if (trimmedInput === "/help") {
+      const customCommandHelp = loadCustomCommands()
+        .map((c) => `  /${c.name}${c.argumentHint ? ` ${c.argumentHint}` : ""} - ${c.description || "No description"} (${c.source})`)
+        .join("\n");
       const helpEntry: ChatEntry = {
         type: "assistant",
         content: `ZAI CLI Help:
@@ -596,13 +756,27 @@ Built-in Commands:
   /settings   - Open settings panel (API key, base URL, model)
   /config     - Alias for /settings
   /watch      - Toggle file watching on/off
+  /compact    - Summarize old context to free up tokens
+  /jobs       - List background processes
+  /jobs kill <id> - Stop a background process
+  /rewind     - Restore code and conversation to an earlier turn
+  /rewind <n> - Rewind to checkpoint #n
+  /fork       - Fork the conversation into a new branch here
+  /fork <n>   - Fork from before checkpoint #n
   /exit       - Exit application
   exit, quit  - Exit application
 
+Custom Commands (.zai/commands/*.md, ~/.zai/commands/*.md):
+${customCommandHelp || "  None defined. Add a markdown prompt template; $ARGUMENTS is replaced with the command arguments."}
+
 Agent System:
   /agents              - List all available specialized agents
   /task <type> <desc>  - Create and execute an agent task
   /tasks               - View all agent tasks and their status
+  /tasks <id>          - Show everything a task's agent did
+  /tasks cancel <id>   - Stop a queued or running task
+  /tasks apply <id>    - Merge an isolated task's worktree branch
+  /tasks discard <id>  - Delete an isolated task's branch
 
   Available agent types:
     - code-reviewer: Review code for quality and bugs
@@ -614,11 +788,12 @@ Agent System:
     - performance-optimizer: Optimize code performance
     - explore: Explore and understand codebases
     - plan: Create detailed implementation plans
+    - custom agents from .zai/agents/*.md and ~/.zai/agents/*.md
 
 Session Management:
   /save <name> [description]  - Save current session
   /load <name>                - Load a saved session
-  /sessions                   - List all sessions
+  /sessions                   - List all sessions and switch branches
   Ctrl+S                      - Quick save session
 
 Git Commands:
@@ -642,6 +817,7 @@ Enhanced Input Features:
   Ctrl+U      - Delete to start of line
   Shift+Tab   - Toggle auto-edit mode (bypass confirmations)
   Ctrl+T      - Toggle thinking mode (show model reasoning)
+  Ctrl+O      - Expand/collapse sub-agent transcripts
 
 Direct Commands (executed immediately):
   ls [path]   - List directory contents
@@ -652,10 +828,15 @@ Direct Commands (executed immediately):
   touch <file>- Create empty file
 
 Model Configuration:
-  Edit ~/.zai/models.json to add custom models (Claude, GPT, Gemini, etc.)
+  Add provider profiles under "providers" in ~/.zai/user-settings.json
+  (OpenAI-compatible servers like vLLM/Ollama, or Anthropic), then use
+  /models <provider>/<model> to switch across providers
 
 CLI Commands:
-  zai sessions                - List all saved sessions
+  zai sessions                - List recent sessions in this directory
+  zai --continue              - Resume the latest session in this directory
+  zai rename-session <s> <n>  - Rename a session
+  zai prune-sessions          - Delete old autosaved sessions
   zai load-session <name>     - Load and start session
   zai delete-session <name>   - Delete a session
   zai export-session <name>   - Export session to markdown
@@ -674,15 +855,20 @@ Examples:
 
     // Agent system commands
     if (trimmedInput === "/agents") {
-      const { AGENT_CAPABILITIES } = await import("../agents/agent-types.js");
+      const { getAgentCapabilities } = await import("../agents/custom-agents.js");
 
       let agentsList = "🤖 Available Specialized Agents:\n\n";
-      Object.entries(AGENT_CAPABILITIES).forEach(([type, capability]) => {
-        agentsList += `**${capability.name}** (${type})\n`;
+      Object.entries(getAgentCapabilities()).forEach(([type, capability]) => {
+        agentsList += `**${capability.name}** (${type}${capability.source ? `, ${capability.source}` : ''})\n`;
         agentsList += `  ${capability.description}\n`;
-        agentsList += `  Tools: ${capability.tools.join(', ')}\n\n`;
+        agentsList += `  Tools: ${capability.tools.join(', ')}\n`;
+        if (capability.model) {
+          agentsList += `  Model: ${capability.model}\n`;
+        }
+        agentsList += "\n";
       });
 
+      agentsList += "Define your own agents in .zai/agents/*.md or ~/.zai/agents/*.md\n";
       agentsList += "\nUsage:\n";
       agentsList += "  /task <agent-type> <description>\n";
       agentsList += "  Example: /task code-reviewer Review the authentication module\n";
@@ -716,10 +902,11 @@ Examples:
 
       try {
         const { getTaskOrchestrator } = await import("../agents/task-orchestrator.js");
-        const { AGENT_CAPABILITIES } = await import("../agents/agent-types.js");
+        const { getAgentCapability } = await import("../agents/custom-agents.js");
 
         // Validate agent type
-        if (!AGENT_CAPABILITIES[agentType as keyof typeof AGENT_CAPABILITIES]) {
+        const capability = getAgentCapability(agentType);
+        if (!capability) {
           const errorEntry: ChatEntry = {
             type: "assistant",
             content: `❌ Unknown agent type: ${agentType}\n\nUse /agents to see available types.`,
@@ -732,14 +919,14 @@ Examples:
 
         const orchestrator = getTaskOrchestrator();
         const task = orchestrator.createTask(
-          agentType as any,
+          agentType,
           taskDescription,
           taskDescription
         );
 
         const statusEntry: ChatEntry = {
           type: "assistant",
-          content: `✅ Task created with ID: ${task.id}\n\nAgent: ${AGENT_CAPABILITIES[agentType as keyof typeof AGENT_CAPABILITIES].name}\nTask: ${taskDescription}\n\nExecuting...`,
+          content: `✅ Task created with ID: ${task.id}\n\nAgent: ${capability.name}\nTask: ${taskDescription}\n\nExecuting...`,
           timestamp: new Date(),
         };
         setChatHistory((prev) => [...prev, statusEntry]);
@@ -769,6 +956,57 @@ Examples:
       return true;
     }
 
+    if (trimmedInput.startsWith("/tasks ")) {
+      const [action, taskId] = trimmedInput.substring(7).trim().split(/\s+/);
+      const { getTaskOrchestrator } = await import("../agents/task-orchestrator.js");
+      const orchestrator = getTaskOrchestrator();
+      const task = taskId ? orchestrator.findTask(taskId) : undefined;
+
+      let content: string;
+      if (action === "cancel" && task) {
+        content = orchestrator.cancelTask(task.id)
+          ? `🛑 Cancelling ${task.type} task ${taskId}`
+          : `❌ Task ${taskId} is already ${task.status}`;
+      } else if (action !== "apply" && action !== "discard" && action !== "cancel" && !taskId) {
+        const shown = orchestrator.findTask(action);
+        content = shown
+          ? `📜 Transcript of ${shown.type} task ${shown.id.substring(0, 8)} [${shown.status}]: ${shown.description}\n\n` +
+            (exportEntriesToMarkdown(shown.transcript || []) || "No activity recorded yet.")
+          : `❌ No task matches ${action}. Use /tasks to see task IDs.`;
+      } else if ((action !== "apply" && action !== "discard" && action !== "cancel") || !taskId) {
+        content = "❌ Usage: /tasks <id> | /tasks cancel <id> | /tasks apply <id> | /tasks discard <id>";
+      } else if (!task) {
+        content = `❌ No task matches ${taskId}. Use /tasks to see task IDs.`;
+      } else if (!task.worktree) {
+        content = `❌ Task ${taskId} has no isolated changes to ${action}`;
+      } else {
+        try {
+          if (action === "discard") {
+            const changes = await orchestrator.discardTaskChanges(task.id);
+            content = `🗑️ Deleted branch ${changes.branch} (${changes.files.length} files not applied)`;
+          } else {
+            const result = await orchestrator.applyTaskChanges(task.id);
+            content = formatMerge(taskId, result).join("\n");
+            if (result.conflicts.length > 0) {
+              setMergeReview({
+                taskId,
+                conflicts: result.conflicts,
+                changes: result.conflicts.map(toFileChange),
+                accepted: [],
+                kept: [],
+              });
+            }
+          }
+        } catch (error: any) {
+          content = `❌ Failed to ${action} task ${taskId}: ${error.message}`;
+        }
+      }
+
+      setChatHistory((prev) => [...prev, { type: "assistant", content, timestamp: new Date() }]);
+      clearInput();
+      return true;
+    }
+
     if (trimmedInput === "/tasks") {
       try {
         const { getTaskOrchestrator } = await import("../agents/task-orchestrator.js");
@@ -792,7 +1030,11 @@ Examples:
               : 'N/A';
 
             tasksList += `[${task.status}] ${task.type}: ${task.description}\n`;
-            tasksList += `  ID: ${task.id.substring(0, 8)}... | Duration: ${duration}\n\n`;
+            tasksList += `  ID: ${task.id.substring(0, 8)}... | Duration: ${duration}\n`;
+            if (task.worktree) {
+              tasksList += `  Branch: ${task.worktree.branch} (${task.worktree.files.length} files) | /tasks apply ${task.id.substring(0, 8)}\n`;
+            }
+            tasksList += "\n";
           });
         }
 
@@ -855,14 +1097,15 @@ Quick commands from here:
 
     if (trimmedInput.startsWith("/models ")) {
       const modelArg = trimmedInput.split(" ")[1];
-      const modelNames = availableModels.map((m) => m.model);
+      const modelNames = availableModels.map(formatModelOption);
+      const selectedModel = findModelOption(availableModels, modelArg);
 
-      if (modelNames.includes(modelArg)) {
-        agent.setModel(modelArg);
-        updateCurrentModel(modelArg); // Update project current model
+      if (selectedModel) {
+        agent.setModel(selectedModel.model, selectedModel.provider);
+        updateCurrentModel(selectedModel.model, selectedModel.provider); // Update project current model
         const confirmEntry: ChatEntry = {
           type: "assistant",
-          content: `✓ Switched to model: ${modelArg}`,
+          content: `✓ Switched to model: ${formatModelOption(selectedModel)}`,
           timestamp: new Date(),
         };
         setChatHistory((prev) => [...prev, confirmEntry]);
@@ -907,6 +1150,113 @@ Available models: ${modelNames.join(", ")}`,
       return true;
     }
 
+    // Handle /compact command
+    if (trimmedInput === "/compact") {
+      clearInput();
+      setIsProcessing(true);
+
+      try {
+        const result = await agent.compactContext();
+        const entry: ChatEntry = {
+          type: "assistant",
+          content: result
+            ? `✅ Context compacted: ${formatTokenCount(result.tokensBefore)} → ${formatTokenCount(result.tokensAfter)} tokens (${result.summarizedMessages} messages summarized, ${result.truncatedToolResults} tool results truncated)`
+            : "❌ Context compaction failed",
+          timestamp: new Date(),
+        };
+        setChatHistory((prev) => [...prev, entry]);
+        if (result) {
+          setTokenCount(result.tokensAfter);
+        }
+      } finally {
+        setIsProcessing(false);
+      }
+
+      return true;
+    }
+
+    // Handle /jobs command
+    if (trimmedInput === "/jobs" || trimmedInput.startsWith("/jobs ")) {
+      const manager = getBackgroundProcessManager();
+      const [, subcommand, jobId] = trimmedInput.split(/\s+/);
+      let content: string;
+
+      if (subcommand === "kill" && jobId) {
+        content = manager.kill(jobId)
+          ? `✅ Killed background process ${jobId}`
+          : `❌ No running background process with id: ${jobId}`;
+      } else {
+        const jobs = manager.list();
+        if (jobs.length === 0) {
+          content = "No background processes.";
+        } else {
+          const lines = jobs.map((job) => {
+            const icon = job.status === "running" ? "🟢" : job.status === "killed" ? "🔴" : "⚪";
+            const exit = job.exitCode !== null ? ` (exit ${job.exitCode})` : "";
+            return `${icon} ${job.id}  ${job.status}${exit}  pid ${job.pid ?? "?"}  ${job.command}`;
+          });
+          content = `Background processes (${manager.getRunningCount()} running):\n\n${lines.join("\n")}\n\nUse /jobs kill <id> to stop one.`;
+        }
+      }
+
+      const entry: ChatEntry = {
+        type: "assistant",
+        content,
+        timestamp: new Date(),
+      };
+      setChatHistory((prev) => [...prev, entry]);
+      clearInput();
+      return true;
+    }
+
+    if (trimmedInput === "/rewind" || trimmedInput.startsWith("/rewind ")) {
+      const checkpoints = agent.getCheckpoints();
+      const idArg = trimmedInput.split(" ")[1];
+
+      if (checkpoints.length === 0) {
+        const entry: ChatEntry = {
+          type: "assistant",
+          content: "No checkpoints yet. A checkpoint is taken at every message you send.",
+          timestamp: new Date(),
+        };
+        setChatHistory((prev) => [...prev, entry]);
+      } else if (idArg) {
+        const id = parseInt(idArg.replace(/^#/, ""), 10);
+        if (checkpoints.some((c) => c.id === id)) {
+          clearInput();
+          await rewindToCheckpoint(id);
+          return true;
+        }
+        const entry: ChatEntry = {
+          type: "assistant",
+          content: `Unknown checkpoint: ${idArg}. Available: ${checkpoints.map((c) => `#${c.id}`).join(", ")}`,
+          timestamp: new Date(),
+        };
+        setChatHistory((prev) => [...prev, entry]);
+      } else {
+        setRewindCheckpoints([...checkpoints].reverse());
+        setSelectedCheckpointIndex(0);
+      }
+
+      clearInput();
+      return true;
+    }
+
+    if (trimmedInput === "/fork" || trimmedInput.startsWith("/fork ")) {
+      const idArg = trimmedInput.split(" ")[1];
+      const checkpointId = idArg ? parseInt(idArg.replace(/^#/, ""), 10) : undefined;
+      clearInput();
+      if (checkpointId !== undefined && isNaN(checkpointId)) {
+        setChatHistory((prev) => [
+          ...prev,
+          { type: "assistant", content: "Usage: /fork [checkpoint]", timestamp: new Date() },
+        ]);
+        return true;
+      }
+      await forkSession(checkpointId);
+      return true;
+    }
+
     // Handle /save command
     if (trimmedInput.startsWith("/save")) {
       const parts = trimmedInput.split(" ");
@@ -921,7 +1271,8 @@ Available models: ${modelNames.join(", ")}`,
           workingDirectory: agent.getCurrentDirectory(),
           model: agent.getCurrentModel(),
         },
-        description
+        description,
+        agent.getSessionState()
       );
 
       const saveEntry: ChatEntry = {
@@ -962,12 +1313,17 @@ Available models: ${modelNames.join(", ")}`,
         return true;
       }
 
-      // Load the session
+      // Load the session, including what the model remembers
       setChatHistory(sessionData.chatHistory);
+      if (sessionData.agentState) {
+        agent.restoreSession(sessionData.agentState, sessionData.chatHistory);
+      }
 
       const successEntry: ChatEntry = {
         type: "assistant",
-        content: `✅ Loaded session: ${sessionData.metadata.name} (${sessionData.metadata.messageCount} messages)`,
+        content: `✅ Loaded session: ${sessionData.metadata.name} (${sessionData.metadata.messageCount} messages)${
+          sessionData.agentState ? "" : "\n⚠️ This session was saved without model context; the assistant won't remember it."
+        }`,
         timestamp: new Date(),
       };
       setChatHistory((prev) => [...prev, successEntry]);
@@ -980,23 +1336,32 @@ Available models: ${modelNames.join(", ")}`,
     if (trimmedInput === "/sessions") {
       const sessionManager = getSessionManager();
       const sessions = sessionManager.listSessions();
+      const currentId = agent.getTranscript()?.id;
 
       let sessionsText = "Saved Sessions:\n\n";
       if (sessions.length === 0) {
         sessionsText += "No saved sessions found.\n";
       } else {
-        sessions.forEach((session) => {
-          sessionsText += `  ${session.name}\n`;
-          sessionsText += `    Created: ${session.created.toLocaleString()}\n`;
-          sessionsText += `    Messages: ${session.messageCount}\n`;
-          sessionsText += `    Model: ${session.model}\n`;
+        sessionManager.buildSessionTree(sessions).forEach(({ session, depth }) => {
+          const indent = "  ".repeat(depth + 1);
+          sessionsText += `${indent}${depth > 0 ? "⑂ " : ""}${session.name}${session.id === currentId ? " (current)" : ""}\n`;
+          sessionsText += `${indent}  Created: ${session.created.toLocaleString()}\n`;
+          sessionsText += `${indent}  Messages: ${session.messageCount}\n`;
+          sessionsText += `${indent}  Model: ${session.model}\n`;
           if (session.description) {
-            sessionsText += `    Description: ${session.description}\n`;
+            sessionsText += `${indent}  Description: ${session.description}\n`;
           }
           sessionsText += "\n";
         });
       }
 
+      // Offer the branches of the current session when it has been forked
+      const branches = currentId ? sessionManager.getSessionTree(currentId) : [];
+      if (branches.length > 1) {
+        setSessionBranches(branches);
+        setSelectedBranchIndex(Math.max(0, branches.findIndex((b) => b.session.id === currentId)));
+      }
+
       const listEntry: ChatEntry = {
         type: "assistant",
         content: sessionsText,
@@ -1090,53 +1455,21 @@ ${diffResult.output || "No staged changes shown"}
 Follow conventional commit format (feat:, fix:, docs:, etc.) and keep it under 72 characters.
 Respond with ONLY the commit message, no additional text.`;
 
-        let commitMessage = "";
-        let streamingEntry: ChatEntry | null = null;
-
-        for await (const chunk of agent.processUserMessageStream(
-          commitPrompt
-        )) {
-          if (chunk.type === "content" && chunk.content) {
-            if (!streamingEntry) {
-              const newEntry = {
-                type: "assistant" as const,
-                content: `Generating commit message...\n\n${chunk.content}`,
-                timestamp: new Date(),
-                isStreaming: true,
-              };
-              setChatHistory((prev) => [...prev, newEntry]);
-              streamingEntry = newEntry;
-              commitMessage = chunk.content;
-            } else {
-              commitMessage += chunk.content;
-              setChatHistory((prev) =>
-                prev.map((entry, idx) =>
-                  idx === prev.length - 1 && entry.isStreaming
-                    ? {
-                        ...entry,
-                        content: `Generating commit message...\n\n${commitMessage}`,
-                      }
-                    : entry
-                )
-              );
-            }
-          } else if (chunk.type === "done") {
-            if (streamingEntry) {
-              setChatHistory((prev) =>
-                prev.map((entry) =>
-                  entry.isStreaming
-                    ? {
-                        ...entry,
-                        content: `Generated commit message: "${commitMessage.trim()}"`,
-                        isStreaming: false,
-                      }
-                    : entry
-                )
-              );
-            }
-            break;
-          }
-        }
+        const generatingEntry: ChatEntry = {
+          type: "assistant",
+          content: "Generating commit message...",
+          timestamp: new Date(),
+        };
+        setChatHistory((prev) => [...prev, generatingEntry]);
+
+        const commitMessage = await agent.generateCommitMessage(commitPrompt);
+        setChatHistory((prev) =>
+          prev.map((entry) =>
+            entry === generatingEntry
+              ? { ...entry, content: `Generated commit message: "${commitMessage}"` }
+              : entry
+          )
+        );
 
         // Execute the commit
         const cleanCommitMessage = commitMessage
@@ -1267,13 +1600,188 @@ Respond with ONLY the commit message, no additional text.`;
       return true;
     }
 
+    // Custom commands (built-in commands take precedence)
+    if (trimmedInput.startsWith("/")) {
+      const commandName = trimmedInput.slice(1).split(/\s/, 1)[0];
+      const customCommand = loadCustomCommands().find((c) => c.name === commandName);
+      if (customCommand) {
+        await runCustomCommand(customCommand, trimmedInput.slice(commandName.length + 1), trimmedInput);
+        return true;
+      }
+    }
+
     return false;
   };
 
-  const processUserMessage = async (userInput: string) => {
+  /**
+   * Writes accepted conflicts (with their markers) and keeps rejected files as they are,
+   * reporting once every conflict has been reviewed and then deleting the task's branch
+   */
+  const resolveConflicts = async (indexes: number[], accept: boolean) => {
+    if (!mergeReview) {
+      return;
+    }
+
+    const resolved = indexes.map((index) => mergeReview.conflicts[index]);
+    const failed: string[] = [];
+    if (accept) {
+      for (const file of resolved) {
+        try {
+          writeMergedFile(file);
+        } catch {
+          failed.push(file.path);
+        }
+      }
+    }
+
+    const paths = resolved.map((file) => file.path).filter((filePath) => !failed.includes(filePath));
+    const remaining = (_: unknown, index: number) => !indexes.includes(index);
+    const review: MergeReview = {
+      ...mergeReview,
+      conflicts: mergeReview.conflicts.filter(remaining),
+      changes: mergeReview.changes.filter(remaining),
+      accepted: accept ? [...mergeReview.accepted, ...paths] : mergeReview.accepted,
+      kept: accept ? mergeReview.kept : [...mergeReview.kept, ...paths],
+    };
+    if (review.conflicts.length > 0 && failed.length === 0) {
+      setMergeReview(review);
+      return;
+    }
+
+    setMergeReview(null);
+    const lines = [`🔀 Finished reviewing conflicts from task ${review.taskId}`];
+    if (review.accepted.length > 0) {
+      lines.push(`  Merged with conflict markers: ${review.accepted.join(", ")}`);
+      lines.push("  Resolve the <<<<<<< markers in these files before committing");
+    }
+    if (review.kept.length > 0) lines.push(`  Kept your version: ${review.kept.join(", ")}`);
+    if (failed.length > 0) lines.push(`  ⚠️ Could not write: ${failed.join(", ")}`);
+    if (review.conflicts.length > 0) {
+      lines.push(`  Not reviewed: ${review.conflicts.map((file) => file.path).join(", ")}`);
+    }
+    if (review.conflicts.length > 0 || failed.length > 0) {
+      lines.push(`  Branch kept: /tasks apply ${review.taskId} merges again, /tasks discard ${review.taskId} drops it`);
+    } else {
+      try {
+        const { getTaskOrchestrator } = await import("../agents/task-orchestrator.js");
+        const orchestrator = getTaskOrchestrator();
+        const task = orchestrator.findTask(review.taskId);
+        if (task?.worktree) {
+          await orchestrator.discardTaskChanges(task.id);
+        }
+      } catch (error) {
+        lines.push(`  ⚠️ Could not delete the task branch: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    setChatHistory((prev) => [...prev, { type: "assistant", content: lines.join("\n"), timestamp: new Date() }]);
+  };
+
+  /**
+   * Rewinds files and conversation, then puts the rewound prompt back in the input
+   */
+  const rewindToCheckpoint = async (checkpointId: number) => {
+    const result = await agent.rewindToCheckpoint(checkpointId);
+    if (!result) {
+      return;
+    }
+
+    setChatHistory([
+      ...agent.getChatHistory(),
+      { type: "assistant", content: formatRewind(result).join("\n"), timestamp: new Date() },
+    ]);
+    setInput(result.checkpoint.prompt);
+    setCursorPosition(result.checkpoint.prompt.length);
+  };
+
+  /**
+   * Fork the session into a new branch, optionally from before an earlier checkpoint
+   */
+  const forkSession = async (checkpointId?: number) => {
+    try {
+      const result = await agent.forkSession(checkpointId);
+      const lines = [
+        `⑂ Forked ${result.parent.name} into ${result.branch.name}`,
+        "  The original branch is kept; switch between branches with /sessions",
+      ];
+      if (result.rewind) {
+        lines.push(...formatRewind(result.rewind));
+      }
+      setChatHistory([
+        ...agent.getChatHistory(),
+        { type: "assistant", content: lines.join("\n"), timestamp: new Date() },
+      ]);
+      if (result.rewind) {
+        setInput(result.rewind.checkpoint.prompt);
+        setCursorPosition(result.rewind.checkpoint.prompt.length);
+      }
+    } catch (error) {
+      setChatHistory((prev) => [
+        ...prev,
+        { type: "assistant", content: `❌ Cannot fork: ${error instanceof Error ? error.message : String(error)}`, timestamp: new Date() },
+      ]);
+    }
+  };
+
+  /**
+   * Switch to another branch of the current session tree, with its files
+   */
+  const switchBranch = async (sessionId: string) => {
+    if (sessionId === agent.getTranscript()?.id) {
+      return;
+    }
+    const sessionData = getSessionManager().loadSession(sessionId);
+    if (!sessionData) {
+      setChatHistory((prev) => [
+        ...prev,
+        { type: "assistant", content: `❌ Session not found: ${sessionId}`, timestamp: new Date() },
+      ]);
+      return;
+    }
+
+    try {
+      const files = await agent.switchBranch(sessionData);
+      const lines = [`⑂ Switched to ${sessionData.metadata.name}`, ...(files ? formatFileRestore(files) : [])];
+      setChatHistory([
+        ...agent.getChatHistory(),
+        { type: "assistant", content: lines.join("\n"), timestamp: new Date() },
+      ]);
+    } catch (error) {
+      setChatHistory((prev) => [
+        ...prev,
+        { type: "assistant", content: `❌ Cannot switch branch: ${error instanceof Error ? error.message : String(error)}`, timestamp: new Date() },
+      ]);
+    }
+  };
+
+  /**
+   * Runs a custom command's prompt, applying its model and tool overrides for this message only
+   */
+  const runCustomCommand = async (command: CustomCommand, args: string, displayInput: string) => {
+    const previousModel = agent.getCurrentModel();
+    const previousProvider = agent.getClient().getProvider().name;
+    const previousTools = agent.getAllowedTools();
+
+    try {
+      if (command.model) {
+        const option = findModelOption(availableModels, command.model);
+        agent.setModel(option?.model || command.model, option?.provider);
+      }
+      if (command.allowedTools) {
+        agent.setAllowedTools(command.allowedTools);
+      }
+      await processUserMessage(expandCommandTemplate(command.template, args), displayInput);
+    } finally {
+      if (command.model) {
+        agent.setModel(previousModel, previousProvider);
+      }
+      agent.setAllowedTools(previousTools);
+    }
+  };
+
+  const processUserMessage = async (userInput: string, displayInput: string = userInput) => {
     const userEntry: ChatEntry = {
       type: "user",
-      content: userInput,
+      content: displayInput,
       timestamp: new Date(),
     };
     setChatHistory((prev) => [...prev, userEntry]);
@@ -1302,6 +1810,14 @@ Respond with ONLY the commit message, no additional text.`;
             }
             break;
 
+          case "thinking_retract":
+            // The stream restarted; its reasoning will be sent again
+            if (chunk.content && setThinkingContent) {
+              accumulatedThinking = accumulatedThinking.slice(0, -chunk.content.length);
+              setThinkingContent(accumulatedThinking);
+            }
+            break;
+
           case "content":
             if (chunk.content) {
               if (!streamingEntry) {
@@ -1325,6 +1841,14 @@ Respond with ONLY the commit message, no additional text.`;
             }
             break;
 
+          case "content_retract":
+            // Provisional text turned out to precede a tool call - drop it
+            if (streamingEntry) {
+              setChatHistory((prev) => prev.filter((entry) => !entry.isStreaming));
+              streamingEntry = null;
+            }
+            break;
+
           case "token_count":
             if (chunk.tokenCount !== undefined) {
               setTokenCount(chunk.tokenCount);
@@ -1439,10 +1963,10 @@ Respond with ONLY the commit message, no additional text.`;
             break;
         }
       }
-    } catch (error: any) {
+    } catch (error) {
       const errorEntry: ChatEntry = {
         type: "assistant",
-        content: `Error: ${error.message}`,
+        content: `Error: ${error instanceof Error ? error.message : String(error)}`,
         timestamp: new Date(),
       };
       setChatHistory((prev) => [...prev, errorEntry]);
@@ -1461,6 +1985,13 @@ Respond with ONLY the commit message, no additional text.`;
     selectedCommandIndex,
     showModelSelection,
     selectedModelIndex,
+    rewindCheckpoints,
+    selectedCheckpointIndex,
+    sessionBranches,
+    selectedBranchIndex,
+    mergeChanges: mergeReview?.changes ?? [],
+    expandAgentTranscripts,
+    resolveConflicts,
     commandSuggestions,
     availableModels,
     agent,
@@ -14,7 +14,18 @@ import { getSettingsManager } from "./utils/settings-manager.js";
 import { ConfirmationService } from "./utils/confirmation-service.js";
 import { createMCPCommand } from "./commands/mcp.js";
 import { getMetricsCollector } from "./utils/metrics.js";
-import { getSessionManager } from "./utils/session-manager.js";
+import { getSessionManager, type SessionBranch, type SessionData } from "./utils/session-manager.js";
+import { CheckpointManager, getBranchSwitchStates } from "./agent/checkpoint-manager.js";
+import { EXPORT_FORMATS, isExportFormat } from "./utils/session-export.js";
+import enquirer from "enquirer";
+import { getBackgroundProcessManager } from "./tools/background-processes.js";
+import {
+  formatStreamEvent,
+  HeadlessResultCollector,
+  isOutputFormat,
+  OUTPUT_FORMATS,
+  type OutputFormat,
+} from "./utils/headless-output.js";
 import type { ChatCompletionMessageParam } from "openai/resources/chat";
 import { readFileSync } from "fs";
 import { fileURLToPath } from "url";
@@ -47,6 +58,14 @@ process.on("SIGTERM", () => {
   process.exit(0);
 });
 
+// Never leave background processes behind. Exit hooks don't run when a
+// signal kills the process, so turn SIGHUP (terminal closed) and SIGINT
+// outside Ink's raw mode into an exit
+process.once("exit", () => getBackgroundProcessManager().killAll());
+for (const signal of ["SIGHUP", "SIGINT"] as const) {
+  process.once(signal, () => process.exit(128 + os.constants.signals[signal]));
+}
+
 // Handle uncaught exceptions to prevent hanging
 process.on("uncaughtException", (error) => {
   console.error("Uncaught exception:", error);
@@ -131,6 +150,155 @@ function loadModel(): string | undefined {
   return model;
 }
 
+/**
+ * Create an agent that picks up a saved session where it left off
+ */
+function createResumedAgent(
+  sessionData: SessionData,
+  apiKey: string,
+  baseURL: string,
+  model?: string,
+  maxToolRounds?: number
+): ZaiAgent {
+  const agent = new ZaiAgent(apiKey, baseURL, model || sessionData.context.model, maxToolRounds);
+  if (sessionData.agentState) {
+    agent.restoreSession(sessionData.agentState, sessionData.chatHistory);
+  }
+  return agent;
+}
+
+/**
+ * Record the interactive session to an append-only transcript, unless disabled
+ */
+function startAutosave(agent: ZaiAgent, resumed?: SessionData): void {
+  if (getSettingsManager().getUserSetting("autosaveSessions") === false) {
+    return;
+  }
+  try {
+    const sessionManager = getSessionManager();
+    // A resumed autosaved session keeps its transcript, so its forks stay in the same tree
+    const transcript =
+      (resumed?.metadata.autosaved && sessionManager.openTranscript(resumed.metadata.id)) ||
+      sessionManager.createTranscript(process.cwd(), agent.getCurrentModel(), resumed?.metadata.name);
+    agent.setTranscript(transcript);
+  } catch (error: any) {
+    console.warn(`⚠️  Session autosave unavailable: ${error.message}`);
+  }
+}
+
+/**
+ * Open the chat UI on a saved session
+ */
+function launchResumedSession(sessionData: SessionData): void {
+  printResumedSession(sessionData);
+  console.log("\nStarting ZAI with loaded session...\n");
+
+  // Get API key from user settings
+  const apiKey = loadApiKey();
+  const baseURL = loadBaseURL();
+
+  if (!apiKey) {
+    console.error(
+      "❌ Error: API key required. Set ZAI_API_KEY environment variable or run 'zai config' to set it up."
+    );
+    process.exit(1);
+  }
+
+  // Start interactive mode with loaded session
+  const agent = createResumedAgent(sessionData, apiKey, baseURL);
+  startAutosave(agent, sessionData);
+
+  render(
+    React.createElement(ChatInterface, {
+      agent,
+      initialSession: sessionData,
+    })
+  );
+}
+
+/**
+ * Print sessions with forks nested under the session they branched from
+ */
+function printSessionTree(branches: SessionBranch[], options: { verbose?: boolean; all?: boolean }): void {
+  for (const { session, depth } of branches) {
+    const indent = "  ".repeat(depth + 1);
+    console.log(`${indent}${depth > 0 ? "⑂ " : ""}${session.name}${session.autosaved ? " (autosaved)" : ""}`);
+    console.log(`${indent}  ID: ${session.id}`);
+    if (session.parentId !== undefined && session.branchPoint !== undefined) {
+      console.log(`${indent}  Forked after message ${session.branchPoint}`);
+    }
+    console.log(`${indent}  Created: ${session.created.toLocaleString()}`);
+    console.log(`${indent}  Last active: ${session.lastModified.toLocaleString()}`);
+    if (options.all && session.workingDirectory) {
+      console.log(`${indent}  Directory: ${session.workingDirectory}`);
+    }
+    console.log(`${indent}  Messages: ${session.messageCount}`);
+    console.log(`${indent}  Model: ${session.model}`);
+    if (options.verbose && session.description) {
+      console.log(`${indent}  Description: ${session.description}`);
+    }
+    console.log("");
+  }
+}
+
+/**
+ * Let the user pick a branch of a session tree, switch the files to it and resume it
+ */
+async function selectBranch(tree: SessionBranch[]): Promise<void> {
+  let selected: string;
+  try {
+    const answer = await enquirer.prompt<{ branch: string }>({
+      type: "select",
+      name: "branch",
+      message: "Resume which branch?",
+      choices: tree.map(({ session, depth }) => ({
+        name: session.id,
+        message: `${"  ".repeat(depth)}${depth > 0 ? "⑂ " : ""}${session.name}`,
+      })),
+    });
+    selected = answer.branch;
+  } catch {
+    return; // Cancelled
+  }
+
+  const sessionManager = getSessionManager();
+  const target = sessionManager.loadSession(selected);
+  if (!target) {
+    console.log(`❌ Session not found: ${selected}`);
+    return;
+  }
+
+  // The working tree holds the files of the branch that was used last
+  const active = tree.reduce((latest, branch) =>
+    branch.session.lastModified > latest.session.lastModified ? branch : latest
+  ).session;
+  if (active.id !== target.metadata.id) {
+    const states = getBranchSwitchStates(sessionManager.loadSession(active.id)?.files, target.files);
+    const result = await new CheckpointManager().restoreStates(states);
+    if (result.restored.length + result.deleted.length > 0) {
+      console.log(`📁 Switched files from ${active.name}: ${result.restored.length} restored, ${result.deleted.length} deleted`);
+    }
+    for (const file of result.failed) {
+      console.log(`⚠️  Could not restore ${file}`);
+    }
+  }
+
+  launchResumedSession(target);
+}
+
+function printResumedSession(sessionData: SessionData): void {
+  console.log(`✅ Loaded session: ${sessionData.metadata.name}`);
+  console.log(`   Messages: ${sessionData.metadata.messageCount}`);
+  console.log(`   Model: ${sessionData.metadata.model}`);
+  if (!sessionData.agentState) {
+    console.log("   ⚠️  Saved without model context: the assistant won't remember this conversation");
+  }
+  const sessionDirectory = sessionData.context.workingDirectory;
+  if (sessionDirectory && sessionDirectory !== process.cwd()) {
+    console.log(`   ⚠️  Session was saved in ${sessionDirectory}`);
+  }
+}
+
 // Handle commit-and-push command in headless mode
 async function handleCommitAndPushHeadless(
   apiKey: string,
@@ -138,8 +306,9 @@ async function handleCommitAndPushHeadless(
   model?: string,
   maxToolRounds?: number
 ): Promise<void> {
+  let agent: ZaiAgent | undefined;
   try {
-    const agent = new ZaiAgent(apiKey, baseURL, model, maxToolRounds);
+    agent = new ZaiAgent(apiKey, baseURL, model, maxToolRounds);
 
     // Configure confirmation service for headless mode (auto-approve all operations)
     const confirmationService = ConfirmationService.getInstance();
@@ -189,16 +358,7 @@ Respond with ONLY the commit message, no additional text.`;
 
     console.log("🤖 Generating commit message...");
 
-    const commitMessageEntries = await agent.processUserMessage(commitPrompt);
-    let commitMessage = "";
-
-    // Extract the commit message from the AI response
-    for (const entry of commitMessageEntries) {
-      if (entry.type === "assistant" && entry.content.trim()) {
-        commitMessage = entry.content.trim();
-        break;
-      }
-    }
+    const commitMessage = await agent.generateCommitMessage(commitPrompt);
 
     if (!commitMessage) {
       console.log("❌ Failed to generate commit message");
@@ -249,6 +409,41 @@ Respond with ONLY the commit message, no additional text.`;
   } catch (error: any) {
     console.error("❌ Error during commit and push:", error.message);
     process.exit(1);
+  } finally {
+    // Stops the persistent shell so the process can exit
+    agent?.dispose();
+  }
+}
+
+// Headless mode processing with machine-readable output (json / stream-json)
+async function processPromptHeadlessJson(
+  agent: ZaiAgent,
+  prompt: string,
+  outputFormat: Exclude<OutputFormat, "text">
+): Promise<void> {
+  const collector = new HeadlessResultCollector(agent.getCurrentModel());
+  let failure: Error | undefined;
+
+  // Forward real deltas instead of the paced word-by-word replay
+  agent.setLiveStreaming(true);
+
+  try {
+    for await (const chunk of agent.processUserMessageStream(prompt)) {
+      collector.add(chunk);
+      if (outputFormat === "stream-json") {
+        console.log(formatStreamEvent(chunk));
+      }
+    }
+  } catch (error: any) {
+    failure = error instanceof Error ? error : new Error(String(error));
+  }
+
+  const result = collector.getResult(failure);
+  collector.dispose();
+  console.log(JSON.stringify(result));
+
+  if (result.status === "error") {
+    process.exit(1);
   }
 }
 
@@ -258,15 +453,22 @@ async function processPromptHeadless(
   apiKey: string,
   baseURL?: string,
   model?: string,
-  maxToolRounds?: number
+  maxToolRounds?: number,
+  outputFormat: OutputFormat = "text"
 ): Promise<void> {
+  let agent: ZaiAgent | undefined;
   try {
-    const agent = new ZaiAgent(apiKey, baseURL, model, maxToolRounds);
+    agent = new ZaiAgent(apiKey, baseURL, model, maxToolRounds);
 
     // Configure confirmation service for headless mode (auto-approve all operations)
     const confirmationService = ConfirmationService.getInstance();
     confirmationService.setSessionFlag("allOperations", true);
 
+    if (outputFormat !== "text") {
+      await processPromptHeadlessJson(agent, prompt, outputFormat);
+      return;
+    }
+
     // Process the user message
     const chatEntries = await agent.processUserMessage(prompt);
 
@@ -320,6 +522,11 @@ async function processPromptHeadless(
       console.log(JSON.stringify(message));
     }
   } catch (error: any) {
+    if (outputFormat !== "text") {
+      console.log(JSON.stringify(new HeadlessResultCollector(model).getResult(error)));
+      process.exit(1);
+    }
+
     // Output error in OpenAI compatible format
     console.log(
       JSON.stringify({
@@ -328,6 +535,8 @@ async function processPromptHeadless(
       })
     );
     process.exit(1);
+  } finally {
+    agent?.dispose();
   }
 }
 
@@ -357,6 +566,11 @@ program
     "maximum number of tool execution rounds (default: 400)",
     "400"
   )
+  .option(
+    "--output-format <format>",
+    `headless output format: ${OUTPUT_FORMATS.join(", ")} (default: text)`,
+    "text"
+  )
   .option(
     "-w, --watch",
     "watch for file changes and auto-reload context"
@@ -369,6 +583,14 @@ program
     "--debug",
     "enable debug mode with verbose logging"
   )
+  .option(
+    "-c, --continue",
+    "continue the most recent saved session in this directory"
+  )
+  .option(
+    "--resume <session>",
+    "resume a saved session by name or ID"
+  )
   .option(
     "--token-budget <tokens>",
     "set maximum token budget for session (e.g., 50000)"
@@ -453,18 +675,55 @@ program
 
       // Headless mode: process prompt and exit
       if (options.prompt) {
+        if (options.continue || options.resume) {
+          console.error("❌ --continue and --resume are only supported in interactive mode");
+          process.exit(1);
+        }
+
+        if (!isOutputFormat(options.outputFormat)) {
+          console.error(
+            `❌ Invalid output format '${options.outputFormat}'. Must be one of: ${OUTPUT_FORMATS.join(", ")}`
+          );
+          process.exit(1);
+        }
+
         await processPromptHeadless(
           options.prompt,
           apiKey,
           baseURL,
           model,
-          maxToolRounds
+          maxToolRounds,
+          options.outputFormat
         );
+        // Don't let background processes keep a headless run alive
+        getBackgroundProcessManager().killAll();
         return;
       }
 
+      // Resume a saved session with its model-facing history
+      let initialSession: SessionData | undefined;
+      if (options.continue || options.resume) {
+        const sessionManager = getSessionManager();
+        const sessionData = options.resume
+          ? sessionManager.loadSession(options.resume)
+          : sessionManager.getLatestSession(process.cwd());
+        if (!sessionData) {
+          console.error(
+            options.resume
+              ? `❌ Session not found: ${options.resume}`
+              : "❌ No saved session found for this directory. Save one with /save or Ctrl+S."
+          );
+          process.exit(1);
+        }
+        printResumedSession(sessionData);
+        initialSession = sessionData;
+      }
+
       // Interactive mode: launch UI
-      const agent = new ZaiAgent(apiKey, baseURL, model, maxToolRounds);
+      const agent = initialSession
+        ? createResumedAgent(initialSession, apiKey, baseURL, options.model, maxToolRounds)
+        : new ZaiAgent(apiKey, baseURL, model, maxToolRounds);
+      startAutosave(agent, initialSession);
       console.log("🤖 Starting ZAI CLI Conversational Assistant...\n");
 
       ensureUserSettingsDirectory();
@@ -474,7 +733,7 @@ program
         ? message.join(" ")
         : message;
 
-      render(React.createElement(ChatInterface, { agent, initialMessage, watchMode: options.watch || false }));
+      render(React.createElement(ChatInterface, { agent, initialMessage, initialSession, watchMode: options.watch || false }));
     } catch (error: any) {
       console.error("❌ Error initializing ZAI CLI:", error.message);
       process.exit(1);
@@ -672,10 +931,10 @@ gitCommand
     if (options.directory) {
       try {
         process.chdir(options.directory);
-      } catch (error: any) {
+      } catch (error) {
         console.error(
           `Error changing directory to ${options.directory}:`,
-          error.message
+          error instanceof Error ? error.message : String(error)
         );
         process.exit(1);
       }
@@ -701,8 +960,8 @@ gitCommand
       }
 
       await handleCommitAndPushHeadless(apiKey, baseURL, model, maxToolRounds);
-    } catch (error: any) {
-      console.error("❌ Error during git commit-and-push:", error.message);
+    } catch (error) {
+      console.error("❌ Error during git commit-and-push:", error instanceof Error ? error.message : String(error));
       process.exit(1);
     }
   });
@@ -713,29 +972,39 @@ program.addCommand(createMCPCommand());
 // Session list command
 program
   .command("sessions")
-  .description("List all saved sessions")
+  .description("List recent sessions in this directory")
   .option("-v, --verbose", "Show detailed information")
-  .action((options) => {
+  .option("-a, --all", "List sessions from every directory")
+  .option("-b, --branches <session>", "Show the branches of a session and pick one to resume")
+  .action(async (options) => {
     const sessionManager = getSessionManager();
-    const sessions = sessionManager.listSessions();
+
+    if (options.branches) {
+      const tree = sessionManager.getSessionTree(options.branches);
+      if (tree.length === 0) {
+        console.log(`❌ Session not found: ${options.branches}`);
+        return;
+      }
+      console.log(`\n🌳 Branches of ${tree[0].session.name} (${tree.length}):\n`);
+      printSessionTree(tree, { verbose: options.verbose, all: true });
+      if (process.stdin.isTTY) {
+        await selectBranch(tree);
+      }
+      return;
+    }
+
+    const sessions = sessionManager.listSessions(options.all ? undefined : process.cwd());
 
     if (sessions.length === 0) {
-      console.log("No saved sessions found.");
+      console.log(options.all ? "No saved sessions found." : "No sessions found in this directory. Use --all to list every session.");
       return;
     }
 
-    console.log(`\n📚 Saved Sessions (${sessions.length}):\n`);
+    console.log(`\n📚 ${options.all ? "Sessions" : "Recent sessions in this directory"} (${sessions.length}):\n`);
 
-    for (const session of sessions) {
-      console.log(`  ${session.name}`);
-      console.log(`    ID: ${session.id}`);
-      console.log(`    Created: ${session.created.toLocaleString()}`);
-      console.log(`    Messages: ${session.messageCount}`);
-      console.log(`    Model: ${session.model}`);
-      if (options.verbose && session.description) {
-        console.log(`    Description: ${session.description}`);
-      }
-      console.log("");
+    printSessionTree(sessionManager.buildSessionTree(sessions), options);
+    if (sessions.some((session) => session.parentId)) {
+      console.log("Use `zai sessions --branches <session>` to switch to a branch.");
     }
   });
 
@@ -763,31 +1032,7 @@ program
       return;
     }
 
-    console.log(`✅ Loaded session: ${sessionData.metadata.name}`);
-    console.log(`   Messages: ${sessionData.metadata.messageCount}`);
-    console.log(`   Model: ${sessionData.metadata.model}`);
-    console.log("\nStarting ZAI with loaded session...\n");
-
-    // Get API key from user settings
-    const apiKey = loadApiKey();
-    const baseURL = loadBaseURL();
-
-    if (!apiKey) {
-      console.error(
-        "❌ Error: API key required. Set ZAI_API_KEY environment variable or run 'zai config' to set it up."
-      );
-      process.exit(1);
-    }
-
-    // Start interactive mode with loaded session
-    const agent = new ZaiAgent(apiKey, baseURL, sessionData.context.model);
-
-    render(
-      React.createElement(ChatInterface, {
-        agent,
-        initialSession: sessionData,
-      })
-    );
+    launchResumedSession(sessionData);
   });
 
 // Session delete command
@@ -803,20 +1048,79 @@ program
     }
   });
 
+// Session rename command
+program
+  .command("rename-session <session> <name>")
+  .description("Rename a saved or autosaved session")
+  .action((session, name) => {
+    const sessionManager = getSessionManager();
+    if (sessionManager.updateSessionMetadata(session, { name })) {
+      console.log(`✅ Session renamed to: ${name}`);
+    } else {
+      console.log(`❌ Session not found: ${session}`);
+    }
+  });
+
+// Session prune command
+program
+  .command("prune-sessions")
+  .description("Delete old autosaved sessions (sessions saved with /save are kept)")
+  .option("--keep <count>", "keep this many of the newest autosaved sessions", "50")
+  .option("--older-than <days>", "also delete autosaved sessions inactive for this many days")
+  .option("--here", "only prune sessions from this directory")
+  .action((options) => {
+    const keep = parseInt(options.keep, 10);
+    const olderThanDays = options.olderThan !== undefined ? parseInt(options.olderThan, 10) : undefined;
+    if (isNaN(keep) || keep < 0 || (olderThanDays !== undefined && (isNaN(olderThanDays) || olderThanDays < 0))) {
+      console.error("❌ --keep and --older-than must be non-negative numbers");
+      process.exit(1);
+    }
+
+    const pruned = getSessionManager().pruneSessions({
+      keep,
+      olderThanDays,
+      workingDirectory: options.here ? process.cwd() : undefined,
+    });
+    console.log(`🧹 Deleted ${pruned.length} autosaved session${pruned.length === 1 ? "" : "s"}`);
+  });
+
 // Session export command
 program
   .command("export-session <name> [output]")
-  .description("Export session to markdown")
-  .action((name, output) => {
+  .description("Export session to Markdown, HTML or JSON")
+  .option("-f, --format <format>", `export format: ${EXPORT_FORMATS.join(", ")} (default: from the output file extension, or md)`)
+  .action((name, output, options) => {
+    const extension = output ? path.extname(output).slice(1).toLowerCase() : "";
+    const format = options.format || (extension === "htm" ? "html" : extension === "markdown" ? "md" : extension);
+    if (options.format && !isExportFormat(options.format)) {
+      console.error(`❌ Invalid format: ${options.format}. Use one of: ${EXPORT_FORMATS.join(", ")}`);
+      process.exit(1);
+    }
+    const exportFormat = isExportFormat(format) ? format : "md";
+
     const sessionManager = getSessionManager();
-    const outputPath = output || `${name}.md`;
-    const result = sessionManager.exportSessionToMarkdown(name, outputPath);
+    const outputPath = output || `${name}.${exportFormat}`;
+    const result = sessionManager.exportSession(name, exportFormat, outputPath);
 
     if (!result) {
       console.log(`❌ Session not found: ${name}`);
     }
   });
 
+// Session import command
+program
+  .command("import-session <file>")
+  .description("Import a session exported with `export-session --format json`")
+  .action((file) => {
+    try {
+      const metadata = getSessionManager().importSession(fs.readFileSync(file, "utf-8"));
+      console.log(`   Resume it with: zai --resume ${metadata.id}`);
+    } catch (error) {
+      console.error(`❌ Could not import ${file}: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
 // Completion command
 program
   .command("completion [shell]")
@@ -0,0 +1,205 @@
+import * as path from "path";
+import { existsSync } from "fs";
+import { mkdir, readFile, unlink, writeFile } from "fs/promises";
+import { ToolResult } from "../types/index.js";
+import { ConfirmationService } from "../utils/confirmation-service.js";
+import { BackupManager } from "../utils/backup-manager.js";
+import { DiffGenerator, type FileChange } from "../utils/diff-generator.js";
+import { addedContent, applyHunks, parsePatch, type FilePatch } from "../utils/patch.js";
+
+/**
+ * A file's change worked out before anything is written
+ */
+interface PlannedChange {
+  patch: FilePatch;
+  source: string; // Absolute path the patch reads
+  target: string; // Absolute path written (differs from source when moved)
+  oldContent: string;
+  newContent: string;
+  fuzzed: number;
+}
+
+const STATUS_LETTERS: Record<FilePatch["type"], string> = { add: "A", update: "M", delete: "D" };
+
+/**
+ * Applies unified diffs and multi-file patch envelopes
+ * Every file is patched in memory first; files with hunks that don't fit are
+ * left alone and reported, and the rest are reviewed together before writing.
+ */
+export class ApplyPatchTool {
+  private confirmationService = ConfirmationService.getInstance();
+  private backupManager = BackupManager.getInstance();
+
+  constructor(private workingDirectory?: string) {}
+
+  async apply(patchText: string): Promise<ToolResult> {
+    let patches: FilePatch[];
+    try {
+      patches = parsePatch(patchText);
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+    if (patches.length === 0) {
+      return { success: false, error: "The patch contains no file changes" };
+    }
+
+    // Sections are planned in order, each against the files as earlier ones left them
+    const planned: PlannedChange[] = [];
+    const problems: string[] = [];
+    const pending = new Map<string, string | null>(); // Planned content by path (null = removed)
+    for (const patch of patches) {
+      const result = await this.plan(patch, pending);
+      if (typeof result === "string") {
+        problems.push(result);
+        continue;
+      }
+      planned.push(result);
+      if (result.target !== result.source || patch.type === "delete") {
+        pending.set(result.source, null);
+      }
+      if (patch.type !== "delete") {
+        pending.set(result.target, result.newContent);
+      }
+    }
+    if (planned.length === 0) {
+      return { success: false, error: `Patch not applied:\n${problems.join("\n")}` };
+    }
+
+    const changes = planned.map((change) => this.toFileChange(change));
+    const confirmation = await this.confirmationService.requestConfirmation(
+      {
+        operation: `Apply patch (${planned.length} ${planned.length === 1 ? "file" : "files"})`,
+        filename: changes[0].filePath,
+        showVSCodeOpen: false,
+        content: planned.map((change) => this.describe(change)).join("\n"),
+        changes,
+      },
+      "file"
+    );
+    if (!confirmation.confirmed) {
+      return { success: false, error: confirmation.feedback || "Patch cancelled by user" };
+    }
+
+    const accepted = confirmation.acceptedFiles;
+    const applied: PlannedChange[] = [];
+    const rejected: string[] = [];
+    for (const [index, change] of planned.entries()) {
+      if (accepted && !accepted.includes(changes[index].filePath)) {
+        rejected.push(changes[index].filePath);
+        continue;
+      }
+      try {
+        await this.write(change);
+        applied.push(change);
+      } catch (error) {
+        problems.push(`  ${this.relative(change.source)}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const report: string[] = [];
+    if (applied.length > 0) {
+      report.push(`Applied patch to ${applied.length} ${applied.length === 1 ? "file" : "files"}:`);
+      report.push(...applied.map((change) => `  ${this.describe(change)}`));
+    }
+    if (rejected.length > 0) {
+      report.push(`Rejected by user:`, ...rejected.map((file) => `  ${file}`));
+    }
+    if (problems.length > 0) {
+      report.push(`Not applied:`, ...problems);
+    }
+
+    const files = applied.flatMap((change) =>
+      change.source === change.target ? [change.target] : [change.source, change.target]
+    );
+    const text = report.join("\n");
+    return problems.length === 0 && rejected.length === 0
+      ? { success: true, output: text, metadata: { files } }
+      : { success: false, error: text, metadata: { files } };
+  }
+
+  /**
+   * Work out one file's new content, or describe why it can't be patched
+   * `pending` holds what earlier sections of the patch will write.
+   */
+  private async plan(patch: FilePatch, pending: Map<string, string | null>): Promise<PlannedChange | string> {
+    const source = this.resolvePath(patch.path);
+    const target = patch.movePath ? this.resolvePath(patch.movePath) : source;
+    const fileExists = (filePath: string) =>
+      pending.has(filePath) ? pending.get(filePath) !== null : existsSync(filePath);
+    const exists = fileExists(source);
+
+    if (patch.type === "add") {
+      if (exists) {
+        return `  ${patch.path}: already exists`;
+      }
+      return { patch, source, target, oldContent: "", newContent: addedContent(patch), fuzzed: 0 };
+    }
+
+    if (!exists) {
+      return `  ${patch.path}: file not found`;
+    }
+    const oldContent = pending.get(source) ?? (await readFile(source, "utf-8"));
+    if (patch.type === "delete") {
+      return { patch, source, target, oldContent, newContent: "", fuzzed: 0 };
+    }
+
+    if (target !== source && fileExists(target)) {
+      return `  ${patch.path}: cannot move to ${patch.movePath}, which already exists`;
+    }
+    const { content, failures, fuzzed } = applyHunks(oldContent, patch.hunks);
+    if (failures.length > 0) {
+      const details = failures.map((failure) => `    hunk ${failure.hunk} (${failure.header}): ${failure.reason}`);
+      return `  ${patch.path}: ${failures.length} of ${patch.hunks.length} hunks failed, file left unchanged\n${details.join("\n")}`;
+    }
+    return { patch, source, target, oldContent, newContent: content, fuzzed };
+  }
+
+  /**
+   * Back up what is about to be overwritten or removed, then write
+   */
+  private async write(change: PlannedChange): Promise<void> {
+    if (change.patch.type !== "add") {
+      await this.backupManager.createBackup(change.source);
+    }
+
+    if (change.patch.type === "delete") {
+      await unlink(change.source);
+      return;
+    }
+
+    await mkdir(path.dirname(change.target), { recursive: true });
+    await writeFile(change.target, change.newContent, "utf-8");
+    if (change.target !== change.source) {
+      await unlink(change.source);
+    }
+  }
+
+  private toFileChange(change: PlannedChange): FileChange {
+    const filePath = this.relative(change.target);
+    return {
+      filePath,
+      oldContent: change.oldContent,
+      newContent: change.newContent,
+      diff: DiffGenerator.generateDiff(change.oldContent, change.newContent, filePath),
+    };
+  }
+
+  private describe(change: PlannedChange): string {
+    const diff = DiffGenerator.generateDiff(change.oldContent, change.newContent);
+    const counts = change.patch.type === "delete" ? "" : ` (+${diff.additions} -${diff.deletions})`;
+    const fuzz = change.fuzzed > 0 ? `, ${change.fuzzed} ${change.fuzzed === 1 ? "hunk" : "hunks"} matched loosely` : "";
+    const name =
+      change.target !== change.source
+        ? `R ${this.relative(change.source)} → ${this.relative(change.target)}`
+        : `${STATUS_LETTERS[change.patch.type]} ${this.relative(change.target)}`;
+    return `${name}${counts}${fuzz}`;
+  }
+
+  private relative(filePath: string): string {
+    return path.relative(this.workingDirectory || process.cwd(), filePath);
+  }
+
+  private resolvePath(filePath: string): string {
+    return path.resolve(this.workingDirectory || process.cwd(), filePath);
+  }
+}
@@ -0,0 +1,209 @@
+import { spawn, ChildProcess } from 'child_process';
+
+export type BackgroundProcessStatus = 'running' | 'exited' | 'killed';
+
+/**
+ * Public snapshot of a background process
+ */
+export interface BackgroundProcessInfo {
+  id: string;
+  command: string;
+  cwd: string;
+  pid?: number;
+  status: BackgroundProcessStatus;
+  exitCode: number | null;
+  startedAt: Date;
+  endedAt?: Date;
+}
+
+/**
+ * New output since the last read
+ */
+export interface BackgroundProcessOutput {
+  stdout: string;
+  stderr: string;
+  truncated: boolean; // Some output was dropped before it could be read
+}
+
+interface OutputStream {
+  buffer: string; // Output not read yet
+  dropped: number; // Unread characters dropped because the buffer was full
+}
+
+interface BackgroundProcess extends BackgroundProcessInfo {
+  child: ChildProcess;
+  stdout: OutputStream;
+  stderr: OutputStream;
+}
+
+// Keep at most this much unread output per stream
+const MAX_BUFFER_CHARS = 1024 * 1024;
+
+/**
+ * Tracks long-running shell commands (dev servers, watch-mode test runners)
+ * started in the background; the CLI calls killAll when it exits.
+ */
+export class BackgroundProcessManager {
+  private static instance: BackgroundProcessManager;
+  private processes = new Map<string, BackgroundProcess>();
+  private nextId = 1;
+
+  static getInstance(): BackgroundProcessManager {
+    if (!BackgroundProcessManager.instance) {
+      BackgroundProcessManager.instance = new BackgroundProcessManager();
+    }
+    return BackgroundProcessManager.instance;
+  }
+
+  /**
+   * Start a command in the background and return its handle
+   */
+  start(command: string, cwd: string): BackgroundProcessInfo {
+    const id = `bg-${this.nextId++}`;
+
+    // detached puts the command in its own process group so kill() reaches its children
+    const child = spawn('bash', ['-c', command], {
+      cwd,
+      detached: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    const entry: BackgroundProcess = {
+      id,
+      command,
+      cwd,
+      pid: child.pid,
+      status: 'running',
+      exitCode: null,
+      startedAt: new Date(),
+      child,
+      stdout: { buffer: '', dropped: 0 },
+      stderr: { buffer: '', dropped: 0 },
+    };
+
+    child.stdout?.on('data', (data) => this.append(entry.stdout, data.toString()));
+    child.stderr?.on('data', (data) => this.append(entry.stderr, data.toString()));
+    child.on('error', (error) => {
+      this.append(entry.stderr, `${error.message}\n`);
+      this.markEnded(entry, null);
+    });
+    child.on('exit', (code) => this.markEnded(entry, code));
+
+    this.processes.set(id, entry);
+    return this.toInfo(entry);
+  }
+
+  /**
+   * Read output produced since the previous read
+   */
+  readOutput(id: string): BackgroundProcessOutput | null {
+    const entry = this.processes.get(id);
+    if (!entry) {
+      return null;
+    }
+
+    const stdout = this.consume(entry.stdout);
+    const stderr = this.consume(entry.stderr);
+    return {
+      stdout: stdout.text,
+      stderr: stderr.text,
+      truncated: stdout.truncated || stderr.truncated,
+    };
+  }
+
+  /**
+   * Kill a background process (and its process group)
+   */
+  kill(id: string): boolean {
+    const entry = this.processes.get(id);
+    if (!entry || entry.status !== 'running') {
+      return false;
+    }
+
+    this.signal(entry, 'SIGTERM');
+    entry.status = 'killed';
+    entry.endedAt = new Date();
+    return true;
+  }
+
+  /**
+   * Kill every running background process
+   */
+  killAll(): void {
+    for (const entry of this.processes.values()) {
+      if (entry.status === 'running') {
+        this.signal(entry, 'SIGKILL');
+        entry.status = 'killed';
+        entry.endedAt = new Date();
+      }
+    }
+  }
+
+  get(id: string): BackgroundProcessInfo | null {
+    const entry = this.processes.get(id);
+    return entry ? this.toInfo(entry) : null;
+  }
+
+  list(): BackgroundProcessInfo[] {
+    return [...this.processes.values()].map((entry) => this.toInfo(entry));
+  }
+
+  getRunningCount(): number {
+    return [...this.processes.values()].filter((entry) => entry.status === 'running').length;
+  }
+
+  private signal(entry: BackgroundProcess, signal: 'SIGTERM' | 'SIGKILL'): void {
+    try {
+      if (entry.pid) {
+        process.kill(-entry.pid, signal);
+      } else {
+        entry.child.kill(signal);
+      }
+    } catch {
+      // Process group already gone
+    }
+  }
+
+  private append(stream: OutputStream, text: string): void {
+    stream.buffer += text;
+    // Drop the oldest unread output once the buffer is full
+    const excess = stream.buffer.length - MAX_BUFFER_CHARS;
+    if (excess > 0) {
+      stream.buffer = stream.buffer.slice(excess);
+      stream.dropped += excess;
+    }
+  }
+
+  private consume(stream: OutputStream): { text: string; truncated: boolean } {
+    const text = stream.buffer;
+    const truncated = stream.dropped > 0;
+    stream.buffer = '';
+    stream.dropped = 0;
+    return { text, truncated };
+  }
+
+  private markEnded(entry: BackgroundProcess, code: number | null): void {
+    if (entry.status === 'running') {
+      entry.status = 'exited';
+      entry.endedAt = new Date();
+    }
+    entry.exitCode = code;
+  }
+
+  private toInfo(entry: BackgroundProcess): BackgroundProcessInfo {
+    return {
+      id: entry.id,
+      command: entry.command,
+      cwd: entry.cwd,
+      pid: entry.pid,
+      status: entry.status,
+      exitCode: entry.exitCode,
+      startedAt: entry.startedAt,
+      endedAt: entry.endedAt,
+    };
+  }
+}
+
+export function getBackgroundProcessManager(): BackgroundProcessManager {
+  return BackgroundProcessManager.getInstance();
+}
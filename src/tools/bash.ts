@@ -1,16 +1,22 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import { ToolResult } from '../types/index.js';
 import { ConfirmationService } from '../utils/confirmation-service.js';
 import { BashCommandError, FilePermissionError, DirectoryNotFoundError } from '../errors/index.js';
 import { ErrorHandler } from '../utils/error-handler.js';
-
-const execAsync = promisify(exec);
+import { getBackgroundProcessManager } from './background-processes.js';
+import { ShellSession, ShellTimeoutError, ShellExitedError } from './shell-session.js';
 
 export class BashTool {
-  private currentDirectory: string = process.cwd();
+  private currentDirectory: string;
+  private shell: ShellSession;
+  private followsProcess: boolean; // False for agents isolated in their own worktree
   private confirmationService = ConfirmationService.getInstance();
 
+  constructor(workingDirectory?: string) {
+    this.currentDirectory = workingDirectory || process.cwd();
+    this.shell = new ShellSession(this.currentDirectory);
+    this.followsProcess = !workingDirectory;
+  }
+
   // Liste des commandes en lecture seule qui ne nécessitent pas de confirmation
   private readonly READ_ONLY_COMMANDS = [
     'ls', 'pwd', 'cat', 'head', 'tail', 'less', 'more', 'echo',
@@ -58,74 +64,75 @@ export class BashTool {
     return false; // Par défaut, pas de confirmation pour les autres commandes
   }
 
+  // Demande confirmation pour les commandes destructives; retourne une erreur si refusée
+  private async confirmCommand(command: string): Promise<ToolResult | null> {
+    // Vérifier si la commande est destructive et nécessite une confirmation
+    const isDestructive = this.isDestructiveCommand(command);
+
+    // Check if user has already accepted bash commands for this session
+    const sessionFlags = this.confirmationService.getSessionFlags();
+    if (isDestructive && !sessionFlags.bashCommands && !sessionFlags.allOperations) {
+      // Request confirmation showing the command
+      const confirmationResult = await this.confirmationService.requestConfirmation({
+        operation: 'Run bash command',
+        filename: command,
+        showVSCodeOpen: false,
+        content: `Command: ${command}\nWorking directory: ${this.currentDirectory}`
+      }, 'bash');
+
+      if (!confirmationResult.confirmed) {
+        return {
+          success: false,
+          error: confirmationResult.feedback || 'Command execution cancelled by user'
+        };
+      }
+    }
+
+    return null;
+  }
+
   async execute(command: string, timeout: number = 30000): Promise<ToolResult> {
     try {
-      // Vérifier si la commande est destructive et nécessite une confirmation
-      const isDestructive = this.isDestructiveCommand(command);
-
-      // Check if user has already accepted bash commands for this session
-      const sessionFlags = this.confirmationService.getSessionFlags();
-      if (isDestructive && !sessionFlags.bashCommands && !sessionFlags.allOperations) {
-        // Request confirmation showing the command
-        const confirmationResult = await this.confirmationService.requestConfirmation({
-          operation: 'Run bash command',
-          filename: command,
-          showVSCodeOpen: false,
-          content: `Command: ${command}\nWorking directory: ${this.currentDirectory}`
-        }, 'bash');
-
-        if (!confirmationResult.confirmed) {
-          return {
-            success: false,
-            error: confirmationResult.feedback || 'Command execution cancelled by user'
-          };
-        }
+      const rejection = await this.confirmCommand(command);
+      if (rejection) {
+        return rejection;
       }
 
-      if (command.startsWith('cd ')) {
-        const newDir = command.substring(3).trim();
-        try {
-          process.chdir(newDir);
-          this.currentDirectory = process.cwd();
-          return {
-            success: true,
-            output: `Changed directory to: ${this.currentDirectory}`
-          };
-        } catch (error: any) {
-          // Handle directory errors with typed errors
-          if (error.code === 'ENOENT') {
-            const dirError = new DirectoryNotFoundError(newDir, 'change to');
-            return {
-              success: false,
-              error: ErrorHandler.toSimpleMessage(dirError)
-            };
-          } else if (error.code === 'EACCES' || error.code === 'EPERM') {
-            const permError = new FilePermissionError(newDir, 'access directory');
-            return {
-              success: false,
-              error: ErrorHandler.toSimpleMessage(permError)
-            };
-          }
-          return {
-            success: false,
-            error: `Cannot change directory: ${error.message}`
-          };
-        }
-      }
+      const result = await this.shell.run(command, timeout);
+      this.syncDirectory(result.cwd);
 
-      const { stdout, stderr } = await execAsync(command, {
-        cwd: this.currentDirectory,
-        timeout,
-        maxBuffer: 1024 * 1024
-      });
+      if (result.exitCode !== 0) {
+        return this.commandFailed(command, result.exitCode, result.stderr || result.stdout);
+      }
 
-      const output = stdout + (stderr ? `\nSTDERR: ${stderr}` : '');
+      const output = result.stdout + (result.stderr ? `\nSTDERR: ${result.stderr}` : '');
+      if (!output.trim() && command.trim().startsWith('cd ')) {
+        return {
+          success: true,
+          output: `Changed directory to: ${this.currentDirectory}`
+        };
+      }
 
       return {
         success: true,
         output: output.trim() || 'Command executed successfully (no output)'
       };
     } catch (error: any) {
+      if (error instanceof ShellTimeoutError) {
+        return {
+          success: false,
+          error: `Command timed out after ${Math.round(timeout / 1000)}s: ${command}\nThe shell session was restarted, so environment variables set by earlier commands were reset. Use run_in_background for long-running commands.`
+        };
+      }
+
+      if (error instanceof ShellExitedError) {
+        const output = [error.stdout.trim(), error.stderr.trim()].filter(Boolean).join('\n');
+        return {
+          success: false,
+          error: `${error.message}. A new shell session will be started for the next command; environment variables were reset.${output ? `\n${output}` : ''}`
+        };
+      }
+
       // Handle execution errors with typed errors
       if (error.code === 'EACCES' || error.code === 'EPERM') {
         const permError = new FilePermissionError(command, 'execute');
@@ -135,32 +142,158 @@ export class BashTool {
         };
       }
 
-      // For command execution errors with exit codes
-      if (error.code && typeof error.code === 'number') {
-        const cmdError = new BashCommandError(
-          command,
-          error.code,
-          error.stderr || error.message,
-          { cwd: this.currentDirectory }
-        );
+      // Generic error fallback
+      return {
+        success: false,
+        error: `Command failed: ${error.message}`
+      };
+    }
+  }
+
+  // Convertit un code de sortie non nul en erreur typée
+  private commandFailed(command: string, exitCode: number, stderr: string): ToolResult {
+    const trimmedCommand = command.trim();
+    if (trimmedCommand.startsWith('cd ')) {
+      const newDir = trimmedCommand.substring(3).trim();
+      if (stderr.includes('No such file or directory')) {
+        const dirError = new DirectoryNotFoundError(newDir, 'change to');
+        return {
+          success: false,
+          error: ErrorHandler.toSimpleMessage(dirError)
+        };
+      }
+      if (stderr.includes('Permission denied')) {
+        const permError = new FilePermissionError(newDir, 'access directory');
         return {
           success: false,
-          error: ErrorHandler.toSimpleMessage(cmdError)
+          error: ErrorHandler.toSimpleMessage(permError)
         };
       }
+    }
 
-      // Generic error fallback
+    const cmdError = new BashCommandError(
+      command,
+      exitCode,
+      stderr,
+      { cwd: this.currentDirectory }
+    );
+    return {
+      success: false,
+      error: ErrorHandler.toSimpleMessage(cmdError)
+    };
+  }
+
+  // Keep the process cwd in sync with the shell so file tools resolve paths the same way
+  private syncDirectory(cwd: string): void {
+    if (cwd && cwd !== this.currentDirectory) {
+      try {
+        if (this.followsProcess) {
+          process.chdir(cwd);
+        }
+      } catch {
+        // Directory vanished; keep tracking the shell anyway
+      }
+      this.currentDirectory = cwd;
+    }
+  }
+
+  /**
+   * Start a long-running command (dev server, watcher) without waiting for it
+   */
+  async executeInBackground(command: string): Promise<ToolResult> {
+    try {
+      const rejection = await this.confirmCommand(command);
+      if (rejection) {
+        return rejection;
+      }
+
+      const info = getBackgroundProcessManager().start(command, this.currentDirectory);
+      return {
+        success: true,
+        output: `Started background process ${info.id} (pid ${info.pid ?? 'unknown'}): ${command}\nUse bash_output with id "${info.id}" to read its output and kill_bash to stop it.`,
+        metadata: { backgroundId: info.id }
+      };
+    } catch (error: any) {
       return {
         success: false,
-        error: `Command failed: ${error.message}`
+        error: `Failed to start background command: ${error.message}`
+      };
+    }
+  }
+
+  /**
+   * Read new output from a background process since the last read
+   */
+  readBackgroundOutput(id: string): ToolResult {
+    const manager = getBackgroundProcessManager();
+    const info = manager.get(id);
+    const output = manager.readOutput(id);
+    if (!info || !output) {
+      return {
+        success: false,
+        error: `No background process with id "${id}"`
       };
     }
+
+    const status = info.status === 'running'
+      ? 'running'
+      : `${info.status}${info.exitCode !== null ? ` (exit code ${info.exitCode})` : ''}`;
+    const parts = [`Status: ${status}`];
+    if (output.truncated) {
+      parts.push('[Earlier output was dropped because it was not read in time]');
+    }
+    if (output.stdout) {
+      parts.push(output.stdout.trimEnd());
+    }
+    if (output.stderr) {
+      parts.push(`STDERR: ${output.stderr.trimEnd()}`);
+    }
+    if (!output.stdout && !output.stderr) {
+      parts.push('(no new output)');
+    }
+
+    return {
+      success: true,
+      output: parts.join('\n'),
+      metadata: { status: info.status, exitCode: info.exitCode }
+    };
+  }
+
+  /**
+   * Kill a background process
+   */
+  killBackground(id: string): ToolResult {
+    const manager = getBackgroundProcessManager();
+    const info = manager.get(id);
+    if (!info) {
+      return {
+        success: false,
+        error: `No background process with id "${id}"`
+      };
+    }
+    if (!manager.kill(id)) {
+      return {
+        success: false,
+        error: `Background process ${id} is not running (status: ${info.status})`
+      };
+    }
+    return {
+      success: true,
+      output: `Killed background process ${id}: ${info.command}`
+    };
   }
 
   getCurrentDirectory(): string {
     return this.currentDirectory;
   }
 
+  /**
+   * Stop the persistent shell session
+   */
+  dispose(): void {
+    this.shell.dispose();
+  }
+
   async listFiles(directory: string = '.'): Promise<ToolResult> {
     return this.execute(`ls -la ${directory}`);
   }
@@ -6,6 +6,7 @@ import { TextEditorTool } from "./text-editor.js";
 import { SearchTool } from "./search.js";
 import { ConfirmationService } from "../utils/confirmation-service.js";
 import { BackupManager } from "../utils/backup-manager.js";
+import { isSourceFile, renameSymbol } from "./symbol-rename.js";
 
 export interface BatchEditOperation {
   type: "search-replace" | "insert" | "delete" | "rename-symbol";
@@ -36,6 +37,8 @@ export interface BatchEditParams {
   // For rename-symbol
   oldName?: string;
   newName?: string;
+  file?: string; // With line, picks one of several symbols sharing the name
+  line?: number; // 1-based
 }
 
 export interface BatchEditResult {
@@ -46,6 +49,16 @@ export interface BatchEditResult {
   preview?: string;
 }
 
+/**
+ * New file contents worked out before confirmation, for edits that can't be
+ * applied one file at a time (a language-aware rename touches importers too)
+ */
+interface PlannedEdit {
+  files: string[];
+  contents: Map<string, string>;
+  warning?: string;
+}
+
 export class BatchEditorTool {
   private textEditor: TextEditorTool;
   private search: SearchTool;
@@ -53,15 +66,15 @@ export class BatchEditorTool {
   private backupManager = BackupManager.getInstance();
   private maxConcurrency: number = 5; // Process 5 files at a time
 
-  constructor() {
-    this.textEditor = new TextEditorTool();
-    this.search = new SearchTool();
+  constructor(private workingDirectory?: string) {
+    this.textEditor = new TextEditorTool(workingDirectory);
+    this.search = new SearchTool(workingDirectory);
   }
 
   async batchEdit(operation: BatchEditOperation): Promise<ToolResult> {
     try {
       // Step 1: Resolve file list
-      const files = await this.resolveFiles(operation);
+      let files = await this.resolveFiles(operation);
 
       if (files.length === 0) {
         return {
@@ -70,14 +83,21 @@ export class BatchEditorTool {
         };
       }
 
+      let plan: PlannedEdit | undefined;
+      if (operation.type === "rename-symbol") {
+        plan = this.planRename(files, operation.params);
+        files = plan.files;
+      }
+
       // Step 2: Preview changes for user confirmation
-      const previewResults = await this.previewChanges(files, operation);
+      const previewResults = await this.previewChanges(files, operation, plan);
 
       // Step 3: Request user confirmation
       const shouldProceed = await this.requestConfirmation(
         files,
         previewResults,
-        operation
+        operation,
+        plan?.warning
       );
 
       if (!shouldProceed) {
@@ -88,10 +108,10 @@ export class BatchEditorTool {
       }
 
       // Step 4: Execute batch operation
-      const results = await this.executeBatchOperation(files, operation);
+      const results = await this.executeBatchOperation(files, operation, plan);
 
       // Step 5: Format results
-      return this.formatResults(results);
+      return this.formatResults(results, plan?.warning);
     } catch (error: any) {
       return {
         success: false,
@@ -106,7 +126,7 @@ export class BatchEditorTool {
     if (operation.files && operation.files.length > 0) {
       // Use explicit file list - resolve to absolute paths
       return operation.files
-        .map((file) => path.resolve(file))
+        .map((file) => path.resolve(this.workingDirectory || process.cwd(), file))
         .filter((file) => fs.existsSync(file));
     }
 
@@ -124,12 +144,60 @@ export class BatchEditorTool {
 
       // Parse search results to get file list
       const fileList = this.parseSearchResults(searchResult.output || "");
-      return fileList.map((file) => path.resolve(file));
+      return fileList.map((file) => path.resolve(this.workingDirectory || process.cwd(), file));
     }
 
     return [];
   }
 
+  /**
+   * Rename TS/JS symbols with the language service; other files get the
+   * word-boundary regex, with a warning
+   */
+  private planRename(files: string[], params: BatchEditParams): PlannedEdit {
+    if (!params.oldName || !params.newName) {
+      throw new Error("rename-symbol needs old_name and new_name");
+    }
+
+    const sourceFiles = files.filter(isSourceFile);
+    const otherFiles = files.filter((file) => !isSourceFile(file));
+    const warning = otherFiles.length > 0
+      ? `Warning: ${otherFiles.length} non-TypeScript/JavaScript file(s) were renamed by text match, which also changes comments, strings and unrelated symbols with the same name`
+      : undefined;
+
+    if (sourceFiles.length === 0) {
+      return { files, contents: new Map(), warning };
+    }
+
+    const rootDir = this.workingDirectory || process.cwd();
+    const contents = renameSymbol({
+      rootDir,
+      files: sourceFiles,
+      oldName: params.oldName,
+      newName: params.newName,
+      file: params.file ? path.resolve(rootDir, params.file) : undefined,
+      line: params.line,
+    });
+
+    // Importers outside the given files are renamed too
+    return { files: [...new Set([...files, ...contents.keys()])], contents, warning };
+  }
+
+  /**
+   * The file's content after the operation
+   */
+  private editedContent(
+    file: string,
+    content: string,
+    operation: BatchEditOperation,
+    plan?: PlannedEdit
+  ): string {
+    if (plan && isSourceFile(file)) {
+      return plan.contents.get(file) ?? content;
+    }
+    return this.applyOperation(content, operation);
+  }
+
   private parseSearchResults(output: string): string[] {
     const lines = output.split("\n");
     const files = new Set<string>();
@@ -166,7 +234,8 @@ export class BatchEditorTool {
 
   private async previewChanges(
     files: string[],
-    operation: BatchEditOperation
+    operation: BatchEditOperation,
+    plan?: PlannedEdit
   ): Promise<BatchEditResult[]> {
     const previews: BatchEditResult[] = [];
 
@@ -174,7 +243,7 @@ export class BatchEditorTool {
     for (const file of files.slice(0, 3)) {
       try {
         const content = await readFile(file, "utf-8");
-        const newContent = this.applyOperation(content, operation);
+        const newContent = this.editedContent(file, content, operation, plan);
         const changes = this.countChanges(content, newContent);
 
         previews.push({
@@ -198,7 +267,8 @@ export class BatchEditorTool {
   private async requestConfirmation(
     files: string[],
     previewResults: BatchEditResult[],
-    operation: BatchEditOperation
+    operation: BatchEditOperation,
+    warning?: string
   ): Promise<boolean> {
     // Check session flags
     const sessionFlags = this.confirmationService.getSessionFlags();
@@ -209,6 +279,9 @@ export class BatchEditorTool {
     // Build confirmation content
     let confirmContent = `Batch Edit: ${operation.type}\n\n`;
     confirmContent += `Files to modify: ${files.length}\n\n`;
+    if (warning) {
+      confirmContent += `${warning}\n\n`;
+    }
 
     // Show preview of changes
     confirmContent += `Preview (first ${Math.min(3, files.length)} files):\n`;
@@ -243,7 +316,8 @@ export class BatchEditorTool {
 
   private async executeBatchOperation(
     files: string[],
-    operation: BatchEditOperation
+    operation: BatchEditOperation,
+    plan?: PlannedEdit
   ): Promise<BatchEditResult[]> {
     const results: BatchEditResult[] = [];
 
@@ -252,7 +326,7 @@ export class BatchEditorTool {
 
     for (const chunk of chunks) {
       const chunkResults = await Promise.allSettled(
-        chunk.map((file) => this.processFile(file, operation))
+        chunk.map((file) => this.processFile(file, operation, plan))
       );
 
       for (let i = 0; i < chunk.length; i++) {
@@ -274,11 +348,12 @@ export class BatchEditorTool {
 
   private async processFile(
     file: string,
-    operation: BatchEditOperation
+    operation: BatchEditOperation,
+    plan?: PlannedEdit
   ): Promise<BatchEditResult> {
     try {
       const content = await readFile(file, "utf-8");
-      const newContent = this.applyOperation(content, operation);
+      const newContent = this.editedContent(file, content, operation, plan);
 
       if (content === newContent) {
         return {
@@ -411,7 +486,7 @@ export class BatchEditorTool {
   private applyRenameSymbol(content: string, params: BatchEditParams): string {
     if (!params.oldName || !params.newName) return content;
 
-    // Simple symbol rename (word boundaries)
+    // Text-only rename (word boundaries), for files the language service can't read
     const escaped = params.oldName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
     const pattern = new RegExp(`\\b${escaped}\\b`, "g");
     return content.replace(pattern, params.newName);
@@ -475,7 +550,7 @@ export class BatchEditorTool {
     return chunks;
   }
 
-  private formatResults(results: BatchEditResult[]): ToolResult {
+  private formatResults(results: BatchEditResult[], warning?: string): ToolResult {
     const successful = results.filter((r) => r.success);
     const failed = results.filter((r) => !r.success);
     const totalChanges = successful.reduce((sum, r) => sum + (r.changes || 0), 0);
@@ -487,6 +562,10 @@ export class BatchEditorTool {
     output += `  Files changed: ${filesChanged}\n`;
     output += `  Total line changes: ${totalChanges}\n\n`;
 
+    if (warning) {
+      output += `${warning}\n\n`;
+    }
+
     if (failed.length > 0) {
       output += `Failed files:\n`;
       failed.forEach((f) => {
@@ -508,6 +587,7 @@ export class BatchEditorTool {
     return {
       success: failed.length === 0,
       output,
+      metadata: { files: changedFiles.map((f) => f.file) },
     };
   }
 }
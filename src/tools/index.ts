@@ -5,3 +5,4 @@ export { TodoTool } from "./todo-tool.js";
 export { ConfirmationTool } from "./confirmation-tool.js";
 export { SearchTool } from "./search.js";
 export { BatchEditorTool } from "./batch-editor.js";
+export { ApplyPatchTool } from "./apply-patch.js";
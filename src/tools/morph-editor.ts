@@ -20,7 +20,7 @@ export class MorphEditorTool {
   private morphApiKey: string;
   private morphBaseUrl: string = "https://api.morphllm.com/v1";
 
-  constructor(apiKey?: string) {
+  constructor(apiKey?: string, private workingDirectory?: string) {
     this.morphApiKey = apiKey || process.env.MORPH_API_KEY || "";
     if (!this.morphApiKey) {
       console.warn("MORPH_API_KEY not found. Morph editor functionality will be limited.");
@@ -56,7 +56,7 @@ export class MorphEditorTool {
     codeEdit: string
   ): Promise<ToolResult> {
     try {
-      const resolvedPath = path.resolve(targetFile);
+      const resolvedPath = path.resolve(this.workingDirectory || process.cwd(), targetFile);
 
       if (!(await pathExists(resolvedPath))) {
         return {
@@ -339,7 +339,7 @@ export class MorphEditorTool {
     viewRange?: [number, number]
   ): Promise<ToolResult> {
     try {
-      const resolvedPath = path.resolve(filePath);
+      const resolvedPath = path.resolve(this.workingDirectory || process.cwd(), filePath);
 
       if (await pathExists(resolvedPath)) {
         const stats = await stat(resolvedPath);
@@ -31,7 +31,8 @@ export interface UnifiedSearchResult {
 
 export class SearchTool {
   private confirmationService = ConfirmationService.getInstance();
-  private currentDirectory: string = process.cwd();
+
+  constructor(private currentDirectory: string = process.cwd()) {}
 
   /**
    * Unified search method that can search for text content or find files
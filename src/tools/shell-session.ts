@@ -0,0 +1,286 @@
+import { spawn, ChildProcess } from 'child_process';
+import { randomBytes } from 'crypto';
+
+/**
+ * Result of a command run in the shell session
+ */
+export interface ShellCommandResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  cwd: string; // Working directory after the command
+}
+
+/**
+ * Raised when a command exceeds its timeout; the shell is restarted
+ */
+export class ShellTimeoutError extends Error {
+  constructor(public readonly timeout: number) {
+    super(`Command timed out after ${timeout}ms`);
+    this.name = 'ShellTimeoutError';
+  }
+}
+
+/**
+ * Raised when the shell process dies while running a command (e.g. `exit`)
+ */
+export class ShellExitedError extends Error {
+  constructor(public readonly code: number | null, public readonly stdout: string, public readonly stderr: string) {
+    super(`Shell exited${code !== null ? ` with code ${code}` : ''} while running the command`);
+    this.name = 'ShellExitedError';
+  }
+}
+
+interface PendingCommand {
+  resolve: (result: ShellCommandResult) => void;
+  reject: (error: Error) => void;
+  stdout: string;
+  stderr: string;
+  stdoutDone: boolean;
+  stderrDone: boolean;
+  exitCode: number;
+  cwd: string;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Cap output per command, like exec's maxBuffer
+const MAX_OUTPUT_CHARS = 1024 * 1024;
+
+// Sessions alive in this process, killed on exit
+const liveSessions = new Set<ShellSession>();
+let exitHandlerRegistered = false;
+
+/**
+ * Quote a string for bash using single quotes
+ */
+function shellQuote(text: string): string {
+  return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * One long-lived bash process. Commands run one at a time; the end of each
+ * command is detected with a random sentinel written to stdout and stderr,
+ * so exported variables, activated virtualenvs and the cwd carry over.
+ */
+export class ShellSession {
+  private shell: ChildProcess | null = null;
+  private sentinel = `__ZAI_DONE_${randomBytes(8).toString('hex')}__`;
+  private pending: PendingCommand | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private stdoutBuffer = '';
+  private stderrBuffer = '';
+
+  constructor(private cwd: string = process.cwd()) {}
+
+  /**
+   * Run a command in the session, waiting for it to finish
+   */
+  run(command: string, timeout: number = 30000): Promise<ShellCommandResult> {
+    const result = this.queue.then(() => this.execute(command, timeout));
+    // Keep the queue going even if this command fails
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  getCwd(): string {
+    return this.cwd;
+  }
+
+  isAlive(): boolean {
+    return this.shell !== null;
+  }
+
+  /**
+   * Kill the shell; the next command starts a fresh one
+   */
+  dispose(): void {
+    if (this.shell) {
+      const shell = this.shell;
+      this.shell = null;
+      try {
+        if (shell.pid) {
+          process.kill(-shell.pid, 'SIGKILL');
+        } else {
+          shell.kill('SIGKILL');
+        }
+      } catch {
+        // Already gone
+      }
+    }
+    liveSessions.delete(this);
+  }
+
+  private ensureShell(): ChildProcess {
+    if (this.shell) {
+      return this.shell;
+    }
+
+    // Own process group so a timed-out command and its children can be killed together
+    const shell = spawn('bash', ['--noprofile', '--norc'], {
+      cwd: this.cwd,
+      env: process.env,
+      detached: true,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    // An idle shell shouldn't keep the CLI running; a command in flight holds its timeout timer
+    shell.unref();
+    for (const stream of [shell.stdin, shell.stdout, shell.stderr]) {
+      (stream as { unref?: () => void } | null)?.unref?.();
+    }
+
+    this.stdoutBuffer = '';
+    this.stderrBuffer = '';
+    shell.stdout?.on('data', (data) => this.onOutput('stdout', data.toString()));
+    shell.stderr?.on('data', (data) => this.onOutput('stderr', data.toString()));
+    shell.on('exit', (code) => this.onExit(shell, code));
+    shell.on('error', () => this.onExit(shell, null));
+    // Writes to a dead shell are reported through onExit
+    shell.stdin?.on('error', () => undefined);
+
+    this.shell = shell;
+    liveSessions.add(this);
+    if (!exitHandlerRegistered) {
+      exitHandlerRegistered = true;
+      process.on('exit', () => {
+        for (const session of liveSessions) {
+          session.dispose();
+        }
+      });
+    }
+
+    return shell;
+  }
+
+  private execute(command: string, timeout: number): Promise<ShellCommandResult> {
+    return new Promise((resolve, reject) => {
+      const shell = this.ensureShell();
+      // Drop stray output (e.g. from jobs started with &) left over from earlier commands
+      this.stdoutBuffer = '';
+      this.stderrBuffer = '';
+
+      const timer = setTimeout(() => {
+        this.pending = null;
+        // The only reliable way to stop the command is to kill the whole shell
+        this.dispose();
+        reject(new ShellTimeoutError(timeout));
+      }, timeout);
+
+      this.pending = {
+        resolve,
+        reject,
+        stdout: '',
+        stderr: '',
+        stdoutDone: false,
+        stderrDone: false,
+        exitCode: 0,
+        cwd: this.cwd,
+        timer,
+      };
+
+      // eval keeps syntax errors from killing the shell; stdin is detached so
+      // commands can't swallow the protocol
+      const script = [
+        `eval ${shellQuote(command)} < /dev/null`,
+        `__zai_ec=$?`,
+        `printf '\\n%s %s %s\\n' '${this.sentinel}' "$__zai_ec" "$PWD"`,
+        `printf '\\n%s\\n' '${this.sentinel}' >&2`,
+        '',
+      ].join('\n');
+      shell.stdin?.write(script);
+    });
+  }
+
+  private onOutput(stream: 'stdout' | 'stderr', text: string): void {
+    if (stream === 'stdout') {
+      this.stdoutBuffer += text;
+    } else {
+      this.stderrBuffer += text;
+    }
+
+    const pending = this.pending;
+    if (!pending) {
+      return;
+    }
+
+    if (stream === 'stdout' && !pending.stdoutDone) {
+      const marker = `\n${this.sentinel} `;
+      const index = this.stdoutBuffer.indexOf(marker);
+      if (index === -1) {
+        this.stdoutBuffer = this.flush(pending, 'stdout', this.stdoutBuffer, marker.length);
+      } else {
+        const lineEnd = this.stdoutBuffer.indexOf('\n', index + marker.length);
+        if (lineEnd === -1) {
+          return; // Wait for the rest of the sentinel line
+        }
+        this.append(pending, 'stdout', this.stdoutBuffer.slice(0, index));
+        const [code, ...cwdParts] = this.stdoutBuffer.slice(index + marker.length, lineEnd).split(' ');
+        pending.exitCode = Number(code);
+        pending.cwd = cwdParts.join(' ') || pending.cwd;
+        pending.stdoutDone = true;
+        this.stdoutBuffer = this.stdoutBuffer.slice(lineEnd + 1);
+      }
+    }
+
+    if (stream === 'stderr' && !pending.stderrDone) {
+      const marker = `\n${this.sentinel}\n`;
+      const index = this.stderrBuffer.indexOf(marker);
+      if (index === -1) {
+        this.stderrBuffer = this.flush(pending, 'stderr', this.stderrBuffer, marker.length);
+      } else {
+        this.append(pending, 'stderr', this.stderrBuffer.slice(0, index));
+        pending.stderrDone = true;
+        this.stderrBuffer = this.stderrBuffer.slice(index + marker.length);
+      }
+    }
+
+    if (pending.stdoutDone && pending.stderrDone) {
+      clearTimeout(pending.timer);
+      this.pending = null;
+      this.cwd = pending.cwd;
+      pending.resolve({
+        stdout: pending.stdout,
+        stderr: pending.stderr,
+        exitCode: pending.exitCode,
+        cwd: pending.cwd,
+      });
+    }
+  }
+
+  /**
+   * Move buffered output into the pending command, keeping a tail that
+   * could be the start of a sentinel split across chunks
+   */
+  private flush(pending: PendingCommand, stream: 'stdout' | 'stderr', buffer: string, keep: number): string {
+    if (buffer.length <= keep) {
+      return buffer;
+    }
+    this.append(pending, stream, buffer.slice(0, buffer.length - keep));
+    return buffer.slice(buffer.length - keep);
+  }
+
+  private append(pending: PendingCommand, stream: 'stdout' | 'stderr', text: string): void {
+    if (pending[stream].length < MAX_OUTPUT_CHARS) {
+      pending[stream] = (pending[stream] + text).slice(0, MAX_OUTPUT_CHARS);
+    }
+  }
+
+  private onExit(shell: ChildProcess, code: number | null): void {
+    if (this.shell !== shell) {
+      return; // An old shell we already replaced
+    }
+    this.shell = null;
+    liveSessions.delete(this);
+
+    const pending = this.pending;
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pending = null;
+      pending.reject(new ShellExitedError(
+        code,
+        pending.stdout + this.stdoutBuffer,
+        pending.stderr + this.stderrBuffer
+      ));
+    }
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Symbol Rename
+ * Renames TypeScript/JavaScript symbols through the TypeScript language
+ * service: only real references change (not comments, strings or unrelated
+ * symbols that share the name), and imports and re-exports in other files
+ * follow along
+ */
+
+import ts from "typescript";
+import * as path from "path";
+import { existsSync, readFileSync } from "fs";
+
+const SOURCE_EXTENSIONS = new Set([".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"]);
+
+export interface SymbolRenameOptions {
+  rootDir: string; // Where to look for tsconfig.json
+  files: string[]; // Absolute paths of the files to look for the symbol in
+  oldName: string;
+  newName: string;
+  file?: string; // With line, picks one of several symbols sharing the name
+  line?: number; // 1-based
+}
+
+interface RenameTarget {
+  fileName: string;
+  position: number;
+  line: number;
+}
+
+export function isSourceFile(file: string): boolean {
+  return SOURCE_EXTENSIONS.has(path.extname(file).toLowerCase());
+}
+
+function createLanguageService(rootDir: string, files: string[]): ts.LanguageService {
+  let options: ts.CompilerOptions = {};
+  let projectFiles: string[] = [];
+
+  const configPath = ts.findConfigFile(rootDir, ts.sys.fileExists);
+  if (configPath) {
+    const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+    const parsed = ts.parseJsonConfigFileContent(config || {}, ts.sys, path.dirname(configPath));
+    options = parsed.options;
+    projectFiles = parsed.fileNames;
+  }
+
+  const scriptFileNames = [...new Set([...projectFiles, ...files])];
+  const host: ts.LanguageServiceHost = {
+    getScriptFileNames: () => scriptFileNames,
+    getScriptVersion: () => "0", // Nothing changes while a rename is planned
+    getScriptSnapshot: (fileName) =>
+      existsSync(fileName) ? ts.ScriptSnapshot.fromString(readFileSync(fileName, "utf-8")) : undefined,
+    getCurrentDirectory: () => rootDir,
+    getCompilationSettings: () => ({ ...options, allowJs: true, noEmit: true }),
+    getDefaultLibFileName: (compilerOptions) => ts.getDefaultLibFilePath(compilerOptions),
+    fileExists: ts.sys.fileExists,
+    readFile: ts.sys.readFile,
+    readDirectory: ts.sys.readDirectory,
+    directoryExists: ts.sys.directoryExists,
+    getDirectories: ts.sys.getDirectories,
+  };
+  return ts.createLanguageService(host, ts.createDocumentRegistry());
+}
+
+/**
+ * Whether an identifier names the thing a declaration declares
+ * Import and export specifiers don't count: they refer to a declaration elsewhere.
+ */
+function isDeclarationName(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  const declares =
+    ts.isFunctionDeclaration(parent) ||
+    ts.isClassDeclaration(parent) ||
+    ts.isInterfaceDeclaration(parent) ||
+    ts.isTypeAliasDeclaration(parent) ||
+    ts.isEnumDeclaration(parent) ||
+    ts.isModuleDeclaration(parent) ||
+    ts.isVariableDeclaration(parent) ||
+    ts.isMethodDeclaration(parent) ||
+    ts.isPropertyDeclaration(parent);
+  return declares && (parent as ts.NamedDeclaration).name === node;
+}
+
+function findIdentifiers(sourceFile: ts.SourceFile, name: string): ts.Identifier[] {
+  const found: ts.Identifier[] = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isIdentifier(node) && node.text === name) {
+      found.push(node);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return found;
+}
+
+/**
+ * Work out which symbol to rename: the one at file:line if given, otherwise
+ * the one symbol named oldName declared in the files (or referenced, if none
+ * declares it). Several candidates is an error rather than a guess.
+ */
+function findTarget(service: ts.LanguageService, options: SymbolRenameOptions): RenameTarget {
+  const program = service.getProgram();
+  const candidates: Array<RenameTarget & { declaration: boolean }> = [];
+
+  const searchFiles = options.file ? [options.file] : options.files;
+  for (const fileName of searchFiles) {
+    const sourceFile = program?.getSourceFile(fileName);
+    if (!sourceFile) continue;
+
+    for (const identifier of findIdentifiers(sourceFile, options.oldName)) {
+      const position = identifier.getStart(sourceFile);
+      const line = sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+      if (options.line === undefined || options.line === line) {
+        candidates.push({ fileName, position, line, declaration: isDeclarationName(identifier) });
+      }
+    }
+  }
+
+  if (candidates.length === 0) {
+    const where = options.line !== undefined ? ` on line ${options.line} of ${options.file}` : "";
+    throw new Error(`No symbol named ${options.oldName} found${where}`);
+  }
+
+  const declarations = candidates.filter((candidate) => candidate.declaration);
+  const pool = declarations.length > 0 ? declarations : candidates;
+
+  // Candidates that are references to the same symbol collapse into one
+  const symbols: RenameTarget[] = [];
+  const covered = new Set<string>();
+  for (const candidate of pool) {
+    if (covered.has(`${candidate.fileName}:${candidate.position}`)) continue;
+    symbols.push(candidate);
+    for (const location of service.findRenameLocations(candidate.fileName, candidate.position, false, false, {}) || []) {
+      covered.add(`${path.resolve(location.fileName)}:${location.textSpan.start}`);
+    }
+  }
+
+  if (symbols.length > 1) {
+    const list = symbols.map((symbol) => `  ${symbol.fileName}:${symbol.line}`).join("\n");
+    throw new Error(
+      `${symbols.length} different symbols are named ${options.oldName}; pass file and line to pick one:\n${list}`
+    );
+  }
+  return symbols[0];
+}
+
+/**
+ * Plan a rename, returning the new content of every file that changes
+ * Files outside `files` are included when they import or re-export the symbol.
+ */
+export function renameSymbol(options: SymbolRenameOptions): Map<string, string> {
+  if (!/^[A-Za-z_$][\w$]*$/.test(options.newName)) {
+    throw new Error(`${options.newName} is not a valid identifier`);
+  }
+
+  const files = options.file ? [...options.files, options.file] : options.files;
+  const service = createLanguageService(options.rootDir, files);
+  try {
+    const target = findTarget(service, options);
+
+    const info = service.getRenameInfo(target.fileName, target.position, {});
+    if (!info.canRename) {
+      throw new Error(`Cannot rename ${options.oldName}: ${(info as ts.RenameInfoFailure).localizedErrorMessage}`);
+    }
+
+    const locations = service.findRenameLocations(target.fileName, target.position, false, false, {}) || [];
+    const byFile = new Map<string, ts.RenameLocation[]>();
+    for (const location of locations) {
+      const fileName = path.resolve(location.fileName);
+      byFile.set(fileName, [...(byFile.get(fileName) || []), location]);
+    }
+
+    const contents = new Map<string, string>();
+    for (const [fileName, fileLocations] of byFile) {
+      let content = readFileSync(fileName, "utf-8");
+      // Apply from the end so earlier offsets stay valid
+      for (const location of fileLocations.sort((a, b) => b.textSpan.start - a.textSpan.start)) {
+        const replacement = `${location.prefixText || ""}${options.newName}${location.suffixText || ""}`;
+        content =
+          content.slice(0, location.textSpan.start) +
+          replacement +
+          content.slice(location.textSpan.start + location.textSpan.length);
+      }
+      contents.set(fileName, content);
+    }
+    return contents;
+  } finally {
+    service.dispose();
+  }
+}
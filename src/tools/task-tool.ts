@@ -6,13 +6,17 @@
 
 import { ToolResult } from '../types/index.js';
 import { getTaskOrchestrator } from '../agents/task-orchestrator.js';
-import { AgentType, AGENT_CAPABILITIES } from '../agents/agent-types.js';
+import { AgentType, AgentCapability, IsolationMode } from '../agents/agent-types.js';
+import { getAgentCapabilities, getAgentCapability } from '../agents/custom-agents.js';
 import { ZaiAgent } from '../agent/zai-agent.js';
+import { getAgentModel, resolveModelOption } from '../utils/model-config.js';
 
 export interface TaskToolParams {
   agent_type: AgentType;
   task_description: string;
   thoroughness?: 'quick' | 'medium' | 'thorough';
+  isolation?: IsolationMode;
+  tool_call_id?: string; // Set by the parent agent, not the model
 }
 
 export class TaskTool {
@@ -30,13 +34,14 @@ export class TaskTool {
    */
   async execute(params: TaskToolParams): Promise<ToolResult> {
     try {
-      const { agent_type, task_description, thoroughness = 'medium' } = params;
+      const { agent_type, task_description, thoroughness = 'medium', isolation = 'none', tool_call_id } = params;
 
       // Validate agent type
-      if (!AGENT_CAPABILITIES[agent_type]) {
+      const capability = getAgentCapability(agent_type);
+      if (!capability) {
         return {
           success: false,
-          error: `Unknown agent type: ${agent_type}. Available types: ${Object.keys(AGENT_CAPABILITIES).join(', ')}`,
+          error: `Unknown agent type: ${agent_type}. Available types: ${Object.keys(getAgentCapabilities()).join(', ')}`,
         };
       }
 
@@ -47,25 +52,31 @@ export class TaskTool {
         };
       }
 
-      const capability = AGENT_CAPABILITIES[agent_type];
-
       // Notify parent agent that we're starting the sub-agent
       this.parentAgent.addAgentActivity(agent_type, capability.name, 'starting');
 
-      // Create a new isolated agent for this task
-      const subAgent = new ZaiAgent(
-        this.parentAgent.getClient().apiKey,
-        this.parentAgent.getClient().baseURL,
-        this.parentAgent.getClient().model,
-        this.getThoroughnessRounds(thoroughness)
+      // Each task gets a new agent, rooted in its worktree when isolated
+      const client = this.parentAgent.getClient();
+      const rounds = Math.min(this.getThoroughnessRounds(thoroughness), capability.maxRounds || Infinity);
+      const route = resolveModelOption(
+        getAgentModel(agent_type) || capability.model || client.model,
+        client.getProvider().name
       );
+      const createSubAgent = (workingDirectory?: string) => {
+        const agent = new ZaiAgent(client.apiKey, client.baseURL, route.model, rounds, capability.tools, workingDirectory);
+        // The routed model may be served by another provider than the parent's
+        agent.setModel(route.model, route.provider);
+        return agent;
+      };
 
       // Create task
       const orchestrator = getTaskOrchestrator();
       const task = orchestrator.createTask(
         agent_type,
         task_description,
-        task_description
+        task_description,
+        undefined,
+        tool_call_id
       );
 
       // Notify parent that agent is now running
@@ -73,10 +84,13 @@ export class TaskTool {
 
       // Execute task with sub-agent
       const startTime = Date.now();
-      const result = await orchestrator.executeTask(task.id, subAgent, {
+      const result = await orchestrator.executeTask(task.id, createSubAgent, {
         type: agent_type,
         customSystemPrompt: this.buildSystemPrompt(capability, thoroughness),
-      });
+        isolation,
+        timeoutMs: capability.timeoutMs,
+        maxTokens: capability.maxTokens,
+      }, this.parentAgent.getAbortSignal());
       const duration = Date.now() - startTime;
 
       if (!result.success) {
@@ -95,7 +109,10 @@ export class TaskTool {
       this.parentAgent.addAgentActivity(agent_type, capability.name, 'completed', task.id, duration);
 
       // Return summarized result (not full context)
-      const summary = this.summarizeResult(result.output, task_description, capability.name);
+      let summary = this.summarizeResult(result.output, task_description, capability.name);
+      if (result.metadata?.branch) {
+        summary += `\n\nChanges were made in an isolated worktree on branch ${result.metadata.branch} (${result.metadata.filesModified.join(', ')}). They are not in the working directory yet; the user can merge them with /tasks apply ${task.id.substring(0, 8)}.`;
+      }
 
       return {
         success: true,
@@ -106,13 +123,14 @@ export class TaskTool {
           duration,
           tools_used: result.metadata?.toolsUsed,
           thoroughness,
+          branch: result.metadata?.branch,
         },
       };
     } catch (error: any) {
       // Notify parent that agent failed with error
       const errorMessage = `Task tool error: ${error.message}`;
       if (this.parentAgent) {
-        const capability = AGENT_CAPABILITIES[params.agent_type];
+        const capability = getAgentCapability(params.agent_type);
         if (capability) {
           this.parentAgent.addAgentActivity(params.agent_type, capability.name, 'failed', undefined, undefined, errorMessage);
         }
@@ -128,7 +146,7 @@ export class TaskTool {
   /**
    * Build system prompt based on thoroughness level
    */
-  private buildSystemPrompt(capability: typeof AGENT_CAPABILITIES[AgentType], thoroughness: string): string {
+  private buildSystemPrompt(capability: AgentCapability, thoroughness: string): string {
     const basePrompt = capability.systemPrompt;
 
     const thoroughnessInstructions: Record<string, string> = {
@@ -174,6 +192,11 @@ export class TaskTool {
    * Get tool definition for GLM
    */
   static getToolDefinition() {
+    const customAgents = Object.entries(getAgentCapabilities())
+      .filter(([, capability]) => capability.source)
+      .map(([type, capability]) => `- ${type}: ${capability.description}`)
+      .join('\n');
+
     return {
       type: 'function' as const,
       function: {
@@ -185,6 +208,7 @@ export class TaskTool {
 - You want to delegate work to an expert agent
 
 The agent will work independently and return only a summary, keeping the main conversation focused.
+To run independent agents in parallel, call launch_agent several times in the same response (up to 3 run at once; use isolation "worktree" for agents that edit files).
 
 Available agent types:
 - code-reviewer: Review code for quality, bugs, security, and best practices
@@ -196,14 +220,14 @@ Available agent types:
 - performance-optimizer: Analyze and optimize code performance
 - explore: Explore codebase to understand architecture and patterns
 - plan: Create detailed implementation plans for complex features
-
+${customAgents ? `\nCustom agents:\n${customAgents}\n` : ''}
 Example: If user asks "review the auth module", use code-reviewer agent.`,
         parameters: {
           type: 'object' as const,
           properties: {
             agent_type: {
               type: 'string',
-              enum: Object.keys(AGENT_CAPABILITIES),
+              enum: Object.keys(getAgentCapabilities()),
               description: 'Type of specialized agent to use',
             },
             task_description: {
@@ -216,6 +240,12 @@ Example: If user asks "review the auth module", use code-reviewer agent.`,
               description: 'Level of thoroughness: quick (2-3 key points), medium (balanced), thorough (comprehensive)',
               default: 'medium',
             },
+            isolation: {
+              type: 'string',
+              enum: ['none', 'worktree'],
+              description: 'worktree: run the agent in its own git worktree on a temporary branch, so agents launched in parallel don\'t overwrite each other\'s edits. Its changes are returned on a branch for the user to merge.',
+              default: 'none',
+            },
           },
           required: ['agent_type', 'task_description'],
         },
@@ -34,12 +34,14 @@ export class TextEditorTool {
   private confirmationService = ConfirmationService.getInstance();
   private backupManager = BackupManager.getInstance();
 
+  constructor(private workingDirectory?: string) {}
+
   async view(
     filePath: string,
     viewRange?: [number, number]
   ): Promise<ToolResult> {
     try {
-      const resolvedPath = path.resolve(filePath);
+      const resolvedPath = this.resolvePath(filePath);
 
       if (await pathExists(resolvedPath)) {
         const stats = await stat(resolvedPath);
@@ -109,7 +111,7 @@ export class TextEditorTool {
     replaceAll: boolean = false
   ): Promise<ToolResult> {
     try {
-      const resolvedPath = path.resolve(filePath);
+      const resolvedPath = this.resolvePath(filePath);
 
       if (!(await pathExists(resolvedPath))) {
         const notFoundError = new FileNotFoundError(filePath, 'edit');
@@ -213,7 +215,7 @@ export class TextEditorTool {
 
   async create(filePath: string, content: string): Promise<ToolResult> {
     try {
-      const resolvedPath = path.resolve(filePath);
+      const resolvedPath = this.resolvePath(filePath);
 
       // Check if file already exists
       if (await pathExists(resolvedPath)) {
@@ -304,7 +306,7 @@ export class TextEditorTool {
     newContent: string
   ): Promise<ToolResult> {
     try {
-      const resolvedPath = path.resolve(filePath);
+      const resolvedPath = this.resolvePath(filePath);
 
       if (!(await pathExists(resolvedPath))) {
         const notFoundError = new FileNotFoundError(filePath, 'edit lines');
@@ -406,7 +408,7 @@ export class TextEditorTool {
     content: string
   ): Promise<ToolResult> {
     try {
-      const resolvedPath = path.resolve(filePath);
+      const resolvedPath = this.resolvePath(filePath);
 
       if (!(await pathExists(resolvedPath))) {
         const notFoundError = new FileNotFoundError(filePath, 'insert into');
@@ -776,7 +778,7 @@ export class TextEditorTool {
 
   async restoreFromBackup(filePath: string): Promise<ToolResult> {
     try {
-      const resolvedPath = path.resolve(filePath);
+      const resolvedPath = this.resolvePath(filePath);
       const success = await this.backupManager.restoreBackup(resolvedPath);
 
       if (success) {
@@ -800,7 +802,7 @@ export class TextEditorTool {
 
   getBackupHistory(filePath: string): ToolResult {
     try {
-      const resolvedPath = path.resolve(filePath);
+      const resolvedPath = this.resolvePath(filePath);
       const history = this.backupManager.getBackupHistory(resolvedPath);
 
       if (history.length === 0) {
@@ -829,4 +831,9 @@ export class TextEditorTool {
       };
     }
   }
+
+  // Relative paths resolve against the agent's worktree when it has one
+  private resolvePath(filePath: string): string {
+    return path.resolve(this.workingDirectory || process.cwd(), filePath);
+  }
 }
@@ -1,6 +1,6 @@
 import { ToolResult } from '../types/index.js';
 
-interface TodoItem {
+export interface TodoItem {
   id: string;
   content: string;
   status: 'pending' | 'in_progress' | 'completed';
@@ -151,4 +151,12 @@ export class TodoTool {
       output: this.formatTodoList()
     };
   }
+
+  getTodos(): TodoItem[] {
+    return this.todos.map(todo => ({ ...todo }));
+  }
+
+  setTodos(todos: TodoItem[]): void {
+    this.todos = todos.map(todo => ({ ...todo }));
+  }
 }
\ No newline at end of file
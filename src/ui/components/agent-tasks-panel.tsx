@@ -0,0 +1,105 @@
+import React, { useState, useEffect } from "react";
+import { Box, Text } from "ink";
+import { getTaskOrchestrator } from "../../agents/task-orchestrator.js";
+import type { AgentTask } from "../../agents/agent-types.js";
+import type { RetryInfo } from "../../zai/retry.js";
+
+function formatElapsed(task: AgentTask, now: number): string {
+  const start = task.startedAt?.getTime() ?? now;
+  const end = task.completedAt?.getTime() ?? now;
+  return `${((end - start) / 1000).toFixed(task.completedAt ? 1 : 0)}s`;
+}
+
+const STATUS_ICONS: Record<AgentTask["status"], string> = {
+  pending: "○",
+  running: "●",
+  completed: "✓",
+  failed: "✗",
+};
+
+const STATUS_COLORS: Record<AgentTask["status"], string> = {
+  pending: "gray",
+  running: "yellow",
+  completed: "green",
+  failed: "red",
+};
+
+function isActive(task: AgentTask): boolean {
+  return task.status === "pending" || task.status === "running";
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.substring(0, max - 1)}…` : text;
+}
+
+const TASK_EVENTS = ["task:created", "task:started", "task:completed", "task:failed", "task:cancelled"];
+
+/**
+ * Live progress of sub-agents working in parallel
+ * Agents that finish stay listed until the whole group is done
+ */
+export function AgentTasksPanel() {
+  const [tasks, setTasks] = useState<AgentTask[]>(() =>
+    getTaskOrchestrator().getAllTasks().filter(isActive).map((task) => ({ ...task }))
+  );
+  const [now, setNow] = useState(Date.now());
+  const [retries, setRetries] = useState<Record<string, number>>({}); // Task ID -> time of next attempt
+  const running = tasks.filter((task) => task.status === "running").length;
+  const queued = tasks.filter((task) => task.status === "pending").length;
+  const active = running + queued;
+
+  useEffect(() => {
+    const orchestrator = getTaskOrchestrator();
+    const onUpdate = (task: AgentTask) => {
+      setNow(Date.now());
+      setTasks((prev) => {
+        // A new group starts once the previous one has finished
+        const group = prev.some(isActive) ? prev : [];
+        return group.some((t) => t.id === task.id)
+          ? group.map((t) => (t.id === task.id ? { ...task } : t))
+          : [...group, { ...task }];
+      });
+    };
+
+    const onRetry = (task: AgentTask, info: RetryInfo) => {
+      setRetries((prev) => ({ ...prev, [task.id]: Date.now() + info.delayMs }));
+    };
+
+    TASK_EVENTS.forEach((event) => orchestrator.on(event, onUpdate));
+    orchestrator.on("task:retry", onRetry);
+    return () => {
+      TASK_EVENTS.forEach((event) => orchestrator.off(event, onUpdate));
+      orchestrator.off("task:retry", onRetry);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (active === 0) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [active]);
+
+  if (active === 0) return null;
+
+  return (
+    <Box flexDirection="column" marginTop={1} borderStyle="round" borderColor="blue" paddingX={1}>
+      <Text color="blue">
+        🤖 Agents: {running} running{queued > 0 ? `, ${queued} queued` : ""}, {tasks.length - active} finished
+      </Text>
+      {tasks.map((task) => (
+        <Box key={task.id}>
+          <Text color={STATUS_COLORS[task.status]}>{STATUS_ICONS[task.status]} </Text>
+          <Text color="cyan">{task.type}</Text>
+          <Text color="gray"> {truncate(task.description, 60)} </Text>
+          <Text color="gray" dimColor>
+            {formatElapsed(task, now)}
+          </Text>
+          {task.status === "running" && (retries[task.id] ?? 0) > now && (
+            <Text color="yellow"> retrying in {Math.ceil((retries[task.id] - now) / 1000)}s</Text>
+          )}
+        </Box>
+      ))}
+    </Box>
+  );
+}
@@ -0,0 +1,94 @@
+import React, { useState, useEffect } from "react";
+import { Box, Text } from "ink";
+import { getTaskOrchestrator } from "../../agents/task-orchestrator.js";
+import type { AgentTask } from "../../agents/agent-types.js";
+import type { ChatEntry } from "../../agent/zai-agent.js";
+import { parseToolArguments } from "../../utils/session-export.js";
+
+interface AgentTranscriptProps {
+  toolCallId: string;
+  expanded?: boolean;
+}
+
+// Steps shown while the transcript is collapsed
+const COLLAPSED_STEPS = 3;
+
+const TASK_EVENTS = ["task:created", "task:progress", "task:completed", "task:failed", "task:cancelled"];
+
+function firstLine(text: string, max: number): string {
+  const line = text.trim().split("\n")[0] || "";
+  return line.length > max ? `${line.substring(0, max - 1)}…` : line;
+}
+
+function describeStep(entry: ChatEntry): { icon: string; color: string; text: string } {
+  if (entry.toolCall) {
+    const args = parseToolArguments(entry.toolCall) || {};
+    const target = args.path || args.query || args.command || args.agent_type || "";
+    const text = `${entry.toolCall.function.name}${target ? `(${firstLine(String(target), 60)})` : ""}`;
+    if (entry.type === "tool_call") {
+      return { icon: "○", color: "cyan", text };
+    }
+    return entry.toolResult?.success === false
+      ? { icon: "✗", color: "red", text: `${text} - ${firstLine(entry.content, 60)}` }
+      : { icon: "✓", color: "green", text };
+  }
+  return { icon: "⏺", color: "white", text: firstLine(entry.content, 100) };
+}
+
+/**
+ * Live view of what a sub-agent is doing, nested under its launch_agent call
+ * Collapsed it shows the latest steps; Ctrl+O expands every transcript
+ */
+export function AgentTranscript({ toolCallId, expanded = false }: AgentTranscriptProps) {
+  const [task, setTask] = useState<AgentTask | undefined>(() =>
+    getTaskOrchestrator().findTaskByToolCall(toolCallId)
+  );
+  const [, setVersion] = useState(0);
+
+  useEffect(() => {
+    const orchestrator = getTaskOrchestrator();
+    const onUpdate = (updated: AgentTask) => {
+      if (updated.toolCallId === toolCallId) {
+        setTask(updated);
+        setVersion((version) => version + 1); // The transcript is updated in place
+      }
+    };
+
+    TASK_EVENTS.forEach((event) => orchestrator.on(event, onUpdate));
+    return () => {
+      TASK_EVENTS.forEach((event) => orchestrator.off(event, onUpdate));
+    };
+  }, [toolCallId]);
+
+  // The first entry is the prompt the orchestrator sent
+  const steps = (task?.transcript || []).filter((entry) => entry.type !== "user");
+  if (!task || steps.length === 0) return null;
+
+  const visible = expanded ? steps : steps.slice(-COLLAPSED_STEPS);
+  const hidden = steps.length - visible.length;
+  const finished = task.status === "completed" || task.status === "failed";
+
+  return (
+    <Box marginLeft={4} flexDirection="column">
+      {hidden > 0 && (
+        <Text color="gray" dimColor>
+          … {hidden} earlier {hidden === 1 ? "step" : "steps"} (ctrl+o to expand)
+        </Text>
+      )}
+      {visible.map((entry, index) => {
+        const step = describeStep(entry);
+        return (
+          <Box key={index}>
+            <Text color={step.color}>{step.icon} </Text>
+            <Text color="gray">{step.text}</Text>
+          </Box>
+        );
+      })}
+      {finished && (
+        <Text color="gray" dimColor>
+          /tasks {task.id.substring(0, 8)} for the full transcript
+        </Text>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,45 @@
+import React from "react";
+import { Box, Text } from "ink";
+import type { SessionBranch } from "../../utils/session-manager.js";
+
+interface BranchSelectionProps {
+  branches: SessionBranch[];
+  selectedIndex: number;
+  currentSessionId?: string;
+  isVisible: boolean;
+}
+
+export function BranchSelection({
+  branches,
+  selectedIndex,
+  currentSessionId,
+  isVisible,
+}: BranchSelectionProps) {
+  if (!isVisible) return null;
+
+  return (
+    <Box marginTop={1} flexDirection="column">
+      <Box marginBottom={1}>
+        <Text color="cyan">Switch to branch:</Text>
+      </Box>
+      {branches.map(({ session, depth }, index) => (
+        <Box key={session.id} paddingLeft={1 + depth * 2}>
+          <Text
+            color={index === selectedIndex ? "black" : "white"}
+            backgroundColor={index === selectedIndex ? "cyan" : undefined}
+          >
+            {depth > 0 ? "⑂ " : ""}
+            {session.name} ({session.messageCount} messages
+            {session.branchPoint !== undefined ? `, forked after message ${session.branchPoint}` : ""})
+            {session.id === currentSessionId ? " (current)" : ""}
+          </Text>
+        </Box>
+      ))}
+      <Box marginTop={1}>
+        <Text color="gray" dimColor>
+          ↑↓ navigate • Enter switch • Esc cancel
+        </Text>
+      </Box>
+    </Box>
+  );
+}
@@ -3,10 +3,12 @@ import { Box, Text } from "ink";
 import { ChatEntry } from "../../agent/zai-agent.js";
 import { DiffRenderer } from "./diff-renderer.js";
 import { MarkdownRenderer } from "../utils/markdown-renderer.js";
+import { AgentTranscript } from "./agent-transcript.js";
 
 interface ChatHistoryProps {
   entries: ChatEntry[];
   isConfirmationActive?: boolean;
+  expandAgentTranscripts?: boolean;
 }
 
 // Blinking icon component for agent tools
@@ -123,7 +125,7 @@ const AgentActivityIndicator = ({ entry }: { entry: ChatEntry }) => {
 
 // Memoized ChatEntry component to prevent unnecessary re-renders
 const MemoizedChatEntry = React.memo(
-  ({ entry, index }: { entry: ChatEntry; index: number }) => {
+  ({ entry, index, expandAgentTranscripts }: { entry: ChatEntry; index: number; expandAgentTranscripts?: boolean }) => {
     const renderDiff = (diffContent: string, filename?: string) => {
       return (
         <DiffRenderer
@@ -213,6 +215,8 @@ const MemoizedChatEntry = React.memo(
               return "Update";
             case "create_file":
               return "Create";
+            case "apply_patch":
+              return "Patch";
             case "bash":
               return "Bash";
             case "search":
@@ -351,6 +355,9 @@ const MemoizedChatEntry = React.memo(
                 <Text color="gray">⎿ {formatToolContent(entry.content, toolName)}</Text>
               )}
             </Box>
+            {isAgentTool && entry.toolCall && (
+              <AgentTranscript toolCallId={entry.toolCall.id} expanded={expandAgentTranscripts} />
+            )}
             {shouldShowDiff && !isExecuting && (
               <Box marginLeft={4} flexDirection="column">
                 {renderDiff(entry.content, filePath)}
@@ -370,6 +377,7 @@ MemoizedChatEntry.displayName = "MemoizedChatEntry";
 export function ChatHistory({
   entries,
   isConfirmationActive = false,
+  expandAgentTranscripts = false,
 }: ChatHistoryProps) {
   // Filter out tool_call entries with "Executing..." when confirmation is active
   const filteredEntries = isConfirmationActive
@@ -402,6 +410,7 @@ export function ChatHistory({
           key={`${entry.timestamp.getTime()}-${index}`}
           entry={entry}
           index={index}
+          expandAgentTranscripts={expandAgentTranscripts}
         />
       ))}
     </Box>
@@ -1,11 +1,16 @@
 import React, { useState, useEffect, useRef } from "react";
 import { Box, Text } from "ink";
-import { ZaiAgent, ChatEntry } from "../../agent/zai-agent.js";
+import { ZaiAgent, ChatEntry, type ModelFallbackInfo } from "../../agent/zai-agent.js";
 import { useInputHandler } from "../../hooks/use-input-handler.js";
 import { useUIState } from "../../hooks/use-ui-state.js";
 import { LoadingSpinner } from "./loading-spinner.js";
 import { CommandSuggestions } from "./command-suggestions.js";
 import { ModelSelection } from "./model-selection.js";
+import { RewindSelection } from "./rewind-selection.js";
+import { BranchSelection } from "./branch-selection.js";
+import { InteractiveDiffViewer } from "./interactive-diff-viewer.js";
+import { AgentTasksPanel } from "./agent-tasks-panel.js";
+import { RetryStatus } from "./retry-status.js";
 import { ChatHistory } from "./chat-history.js";
 import { ChatInput } from "./chat-input.js";
 import { MCPStatus } from "./mcp-status.js";
@@ -16,6 +21,7 @@ import {
   ConfirmationService,
   ConfirmationOptions,
 } from "../../utils/confirmation-service.js";
+import type { FileChange } from "../../utils/diff-generator.js";
 import ApiKeyInput from "./api-key-input.js";
 import cfonts from "cfonts";
 import { SessionData } from "../../utils/session-manager.js";
@@ -53,6 +59,9 @@ function ChatInterfaceWithAgent({
 
   const confirmationService = ConfirmationService.getInstance();
 
+  // Files still to review (and those accepted) when a confirmation offers several
+  const [changeReview, setChangeReview] = useState<{ remaining: FileChange[]; accepted: string[] } | null>(null);
+
   // Fonction pour résumer les résultats des outils
   const summarizeToolResult = (toolCall: any, toolResult: any): string => {
     const toolName = toolCall?.function?.name;
@@ -203,6 +212,13 @@ function ChatInterfaceWithAgent({
     selectedCommandIndex,
     showModelSelection,
     selectedModelIndex,
+    rewindCheckpoints,
+    selectedCheckpointIndex,
+    sessionBranches,
+    selectedBranchIndex,
+    mergeChanges,
+    expandAgentTranscripts,
+    resolveConflicts,
     commandSuggestions,
     availableModels,
     autoEditEnabled,
@@ -313,7 +329,7 @@ function ChatInterfaceWithAgent({
         content: initialMessage,
         timestamp: new Date(),
       };
-      setChatHistory([userEntry]);
+      setChatHistory(initialSession ? [...initialSession.chatHistory, userEntry] : [userEntry]);
 
       const processInitialMessage = async () => {
         actions.startProcessing();
@@ -336,6 +352,12 @@ function ChatInterfaceWithAgent({
                   actions.updateThinkingContent(accumulatedThinking);
                 }
                 break;
+              case "thinking_retract":
+                if (chunk.content) {
+                  accumulatedThinking = accumulatedThinking.slice(0, -chunk.content.length);
+                  actions.updateThinkingContent(accumulatedThinking);
+                }
+                break;
               case "content":
                 if (chunk.content) {
                   if (!streamingEntry) {
@@ -358,6 +380,12 @@ function ChatInterfaceWithAgent({
                   }
                 }
                 break;
+              case "content_retract":
+                if (streamingEntry) {
+                  setChatHistory((prev) => prev.filter((entry) => !entry.isStreaming));
+                  streamingEntry = null;
+                }
+                break;
               case "token_count":
                 if (chunk.tokenCount !== undefined) {
                   actions.updateTokenCount(chunk.tokenCount);
@@ -536,6 +564,7 @@ function ChatInterfaceWithAgent({
 
   useEffect(() => {
     const handleConfirmationRequest = (options: ConfirmationOptions) => {
+      setChangeReview(options.changes ? { remaining: options.changes, accepted: [] } : null);
       actions.showConfirmation(options);
     };
 
@@ -549,6 +578,25 @@ function ChatInterfaceWithAgent({
     };
   }, [confirmationService, actions]);
 
+  // Say so when a request moves down the model fallback chain
+  useEffect(() => {
+    const handleModelFallback = ({ from, to, error, sessionWide }: ModelFallbackInfo) => {
+      const fallbackEntry: ChatEntry = {
+        type: "assistant",
+        content: `⚠️ ${from} is unavailable (${error.message.split("\n")[0]}) - ${
+          sessionWide ? "switched to" : "used"
+        } ${to}${sessionWide ? " for this session" : ""}`,
+        timestamp: new Date(),
+      };
+      setChatHistory((prev) => [...prev, fallbackEntry]);
+    };
+
+    agent.on("model_fallback", handleModelFallback);
+    return () => {
+      agent.off("model_fallback", handleModelFallback);
+    };
+  }, [agent]);
+
   useEffect(() => {
     if (!selectors.isProcessing && !selectors.isStreaming) {
       actions.updateProcessingTime(0);
@@ -581,6 +629,25 @@ function ChatInterfaceWithAgent({
     processingStartTime.current = 0;
   };
 
+  const reviewChanges = (indexes: number[], accept: boolean) => {
+    if (!changeReview) return;
+    const decided = changeReview.remaining.filter((_, index) => indexes.includes(index));
+    const remaining = changeReview.remaining.filter((_, index) => !indexes.includes(index));
+    const accepted = accept ? [...changeReview.accepted, ...decided.map((change) => change.filePath)] : changeReview.accepted;
+    if (remaining.length > 0) {
+      setChangeReview({ remaining, accepted });
+      return;
+    }
+
+    setChangeReview(null);
+    if (accepted.length > 0) {
+      confirmationService.confirmFiles(accepted);
+      actions.confirm();
+    } else {
+      handleRejection("All changes rejected by user");
+    }
+  };
+
   return (
     <Box flexDirection="column" paddingX={2}>
       {/* Show tips only when no chat history and no confirmation dialog */}
@@ -616,6 +683,7 @@ function ChatInterfaceWithAgent({
         <ChatHistory
           entries={chatHistory}
           isConfirmationActive={selectors.isConfirming}
+          expandAgentTranscripts={expandAgentTranscripts}
         />
       </Box>
 
@@ -628,8 +696,25 @@ function ChatInterfaceWithAgent({
       />
       {/* DEBUG: {JSON.stringify({ showThinkingFromHook, hasContent: !!uiState.thinkingContent, contentLength: uiState.thinkingContent.length })} */}
 
+      {/* Several files are reviewed one by one; remounts as files are decided */}
+      {selectors.confirmationOptions && changeReview && (
+        <Box flexDirection="column">
+          <Text color="yellow" bold>
+            {selectors.confirmationOptions.operation}
+          </Text>
+          <InteractiveDiffViewer
+            key={changeReview.remaining.length}
+            changes={changeReview.remaining}
+            onAccept={(index) => reviewChanges([index], true)}
+            onReject={(index) => reviewChanges([index], false)}
+            onAcceptAll={() => reviewChanges(changeReview.remaining.map((_, index) => index), true)}
+            onRejectAll={() => reviewChanges(changeReview.remaining.map((_, index) => index), false)}
+          />
+        </Box>
+      )}
+
       {/* Show confirmation dialog if one is pending */}
-      {selectors.confirmationOptions && (
+      {selectors.confirmationOptions && !changeReview && (
         <ConfirmationDialog
           operation={selectors.confirmationOptions.operation}
           filename={selectors.confirmationOptions.filename}
@@ -640,8 +725,24 @@ function ChatInterfaceWithAgent({
         />
       )}
 
-      {!selectors.isConfirming && (
+      {/* Review conflicts from applying an isolated agent task; remounts as files are resolved */}
+      {!selectors.isConfirming && mergeChanges.length > 0 && (
+        <InteractiveDiffViewer
+          key={mergeChanges.length}
+          changes={mergeChanges}
+          onAccept={(index) => resolveConflicts([index], true)}
+          onReject={(index) => resolveConflicts([index], false)}
+          onAcceptAll={() => resolveConflicts(mergeChanges.map((_, index) => index), true)}
+          onRejectAll={() => resolveConflicts(mergeChanges.map((_, index) => index), false)}
+        />
+      )}
+
+      {!selectors.isConfirming && mergeChanges.length === 0 && (
         <>
+          <AgentTasksPanel />
+
+          <RetryStatus agent={agent} />
+
           <LoadingSpinner
             isActive={selectors.isProcessing || selectors.isStreaming}
             processingTime={uiState.processingTime}
@@ -709,6 +810,19 @@ function ChatInterfaceWithAgent({
             isVisible={showModelSelection && !isHistorySearchActive}
             currentModel={agent.getCurrentModel()}
           />
+
+          <RewindSelection
+            checkpoints={rewindCheckpoints}
+            selectedIndex={selectedCheckpointIndex}
+            isVisible={rewindCheckpoints.length > 0 && !isHistorySearchActive}
+          />
+
+          <BranchSelection
+            branches={sessionBranches}
+            selectedIndex={selectedBranchIndex}
+            currentSessionId={agent.getTranscript()?.id}
+            isVisible={sessionBranches.length > 0 && !isHistorySearchActive}
+          />
         </>
       )}
     </Box>
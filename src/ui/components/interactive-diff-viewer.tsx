@@ -1,15 +1,10 @@
 import React, { useState, useEffect } from "react";
 import { Box, Text, useInput } from "ink";
-import { DiffResult } from "../../utils/diff-generator.js";
+import type { FileChange } from "../../utils/diff-generator.js";
 import { Colors } from "../utils/colors.js";
 import { MaxSizedBox } from "../shared/max-sized-box.js";
 
-export interface FileChange {
-  filePath: string;
-  oldContent: string;
-  newContent: string;
-  diff: DiffResult;
-}
+export type { FileChange };
 
 export interface InteractiveDiffViewerProps {
   changes: FileChange[];
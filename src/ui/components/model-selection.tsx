@@ -1,9 +1,6 @@
 import React from "react";
 import { Box, Text } from "ink";
-
-interface ModelOption {
-  model: string;
-}
+import { formatModelOption, type ModelOption } from "../../utils/model-config.js";
 
 interface ModelSelectionProps {
   models: ModelOption[];
@@ -31,7 +28,7 @@ export function ModelSelection({
             color={index === selectedIndex ? "black" : "white"}
             backgroundColor={index === selectedIndex ? "cyan" : undefined}
           >
-            {modelOption.model}
+            {formatModelOption(modelOption)}
           </Text>
         </Box>
       ))}
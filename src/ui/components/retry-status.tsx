@@ -0,0 +1,59 @@
+import React, { useState, useEffect } from "react";
+import { Box, Text } from "ink";
+import type { ZaiAgent } from "../../agent/zai-agent.js";
+import type { RetryInfo } from "../../zai/retry.js";
+
+interface RetryStatusProps {
+  agent: ZaiAgent;
+}
+
+interface PendingRetry {
+  info: RetryInfo;
+  until: number;
+}
+
+/**
+ * Countdown shown while a failed API request waits to be retried
+ */
+export function RetryStatus({ agent }: RetryStatusProps) {
+  const [retry, setRetry] = useState<PendingRetry | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const onRetry = (info: RetryInfo) => {
+      setNow(Date.now());
+      setRetry({ info, until: Date.now() + info.delayMs });
+    };
+    agent.on("retry", onRetry);
+    return () => {
+      agent.off("retry", onRetry);
+    };
+  }, [agent]);
+
+  useEffect(() => {
+    if (!retry) return;
+
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= retry.until) {
+        setRetry(null);
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [retry]);
+
+  if (!retry) return null;
+
+  const seconds = Math.max(0, Math.ceil((retry.until - now) / 1000));
+  const reason = retry.info.error.message.split("\n")[0];
+
+  return (
+    <Box marginTop={1}>
+      <Text color="yellow">
+        ⟳ {reason.length > 80 ? `${reason.substring(0, 79)}…` : reason} - retrying in {seconds}s
+        (attempt {retry.info.attempt}/{retry.info.maxRetries})
+      </Text>
+    </Box>
+  );
+}
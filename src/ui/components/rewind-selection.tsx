@@ -0,0 +1,52 @@
+import React from "react";
+import { Box, Text } from "ink";
+import type { CheckpointInfo } from "../../agent/checkpoint-manager.js";
+
+interface RewindSelectionProps {
+  checkpoints: CheckpointInfo[]; // Newest first
+  selectedIndex: number;
+  isVisible: boolean;
+}
+
+const MAX_PROMPT_LENGTH = 60;
+
+function formatPrompt(prompt: string): string {
+  const singleLine = prompt.replace(/\s+/g, " ").trim();
+  return singleLine.length > MAX_PROMPT_LENGTH
+    ? `${singleLine.substring(0, MAX_PROMPT_LENGTH - 3)}...`
+    : singleLine;
+}
+
+export function RewindSelection({
+  checkpoints,
+  selectedIndex,
+  isVisible,
+}: RewindSelectionProps) {
+  if (!isVisible) return null;
+
+  return (
+    <Box marginTop={1} flexDirection="column">
+      <Box marginBottom={1}>
+        <Text color="cyan">Rewind code and conversation to before:</Text>
+      </Box>
+      {checkpoints.map((checkpoint, index) => (
+        <Box key={checkpoint.id} paddingLeft={1}>
+          <Text
+            color={index === selectedIndex ? "black" : "white"}
+            backgroundColor={index === selectedIndex ? "cyan" : undefined}
+          >
+            #{checkpoint.id} {checkpoint.timestamp.toLocaleTimeString()} "{formatPrompt(checkpoint.prompt)}"
+            {checkpoint.files.length > 0
+              ? ` (${checkpoint.files.length} file${checkpoint.files.length === 1 ? "" : "s"} changed)`
+              : ""}
+          </Text>
+        </Box>
+      ))}
+      <Box marginTop={1}>
+        <Text color="gray" dimColor>
+          ↑↓ navigate • Enter rewind • Esc cancel
+        </Text>
+      </Box>
+    </Box>
+  );
+}
@@ -11,6 +11,15 @@ export interface BackupMetadata {
   timestamp: number;
   size: number;
   checksum: string;
+  branch?: string; // Session branch that made the backup
+}
+
+/**
+ * A session branch whose backups are visible, up to when a child forked from it
+ */
+export interface BackupLineage {
+  branch: string;
+  until?: number;
 }
 
 export class BackupManager {
@@ -18,6 +27,7 @@ export class BackupManager {
   private backupDir: string;
   private maxBackups: number = 50; // Keep only the last 50 backups
   private backupIndex: Map<string, BackupMetadata[]> = new Map();
+  private lineage: BackupLineage[] = []; // Active branch first, then its ancestors
 
   private constructor() {
     this.backupDir = path.join(os.homedir(), ".zai", "backups");
@@ -97,6 +107,7 @@ export class BackupManager {
         timestamp,
         size: stats.size,
         checksum: this.computeChecksum(content),
+        branch: this.lineage[0]?.branch,
       };
 
       // Update index
@@ -145,9 +156,11 @@ export class BackupManager {
   async restoreBackup(filePath: string, backupTimestamp?: number): Promise<boolean> {
     try {
       const resolvedPath = path.resolve(filePath);
-      const backups = this.backupIndex.get(resolvedPath);
+      const backups = (this.backupIndex.get(resolvedPath) || []).filter(
+        (b) => backupTimestamp !== undefined || this.isInLineage(b)
+      );
 
-      if (!backups || backups.length === 0) {
+      if (backups.length === 0) {
         console.error(`No backups found for ${filePath}`);
         return false;
       }
@@ -189,7 +202,7 @@ export class BackupManager {
 
   getBackupHistory(filePath: string): BackupMetadata[] {
     const resolvedPath = path.resolve(filePath);
-    const backups = this.backupIndex.get(resolvedPath) || [];
+    const backups = (this.backupIndex.get(resolvedPath) || []).filter((b) => this.isInLineage(b));
     // Sort by timestamp (most recent first)
     return backups.sort((a, b) => b.timestamp - a.timestamp);
   }
@@ -227,6 +240,27 @@ export class BackupManager {
     }
   }
 
+  /**
+   * Limit undo history to backups made by a session branch and its ancestors
+   * An empty lineage shows every backup
+   */
+  setLineage(lineage: BackupLineage[]): void {
+    this.lineage = lineage;
+  }
+
+  getLineage(): BackupLineage[] {
+    return this.lineage;
+  }
+
+  private isInLineage(backup: BackupMetadata): boolean {
+    // Backups made outside any session (or by older versions) belong to every branch
+    if (this.lineage.length === 0 || !backup.branch) {
+      return true;
+    }
+    const entry = this.lineage.find((l) => l.branch === backup.branch);
+    return !!entry && (entry.until === undefined || backup.timestamp <= entry.until);
+  }
+
   getBackupDir(): string {
     return this.backupDir;
   }
@@ -1,6 +1,8 @@
 import { exec } from "child_process";
 import { promisify } from "util";
 import { EventEmitter } from "events";
+import { AsyncLocalStorage } from "async_hooks";
+import type { FileChange } from "./diff-generator.js";
 
 const execAsync = promisify(exec);
 
@@ -12,6 +14,7 @@ export interface ConfirmationOptions {
   interactiveDiff?: boolean; // Enable interactive diff mode
   oldContent?: string; // Original content for diff
   newContent?: string; // New content for diff
+  changes?: FileChange[]; // Several files reviewed one by one; each can be accepted or rejected
 }
 
 export interface ConfirmationResult {
@@ -19,11 +22,15 @@ export interface ConfirmationResult {
   dontAskAgain?: boolean;
   feedback?: string;
   editManually?: boolean; // User wants to edit manually
+  acceptedFiles?: string[]; // With `changes`: the filePaths accepted (all of them if unset)
 }
 
 export class ConfirmationService extends EventEmitter {
   private static instance: ConfirmationService;
   private skipConfirmationThisSession = false;
+  // Marks the async call chain of an operation already approved by a permission
+  // rule; other agents and tools running at the same time are unaffected
+  private preApproved = new AsyncLocalStorage<boolean>();
   private pendingConfirmation: Promise<ConfirmationResult> | null = null;
   private resolveConfirmation: ((result: ConfirmationResult) => void) | null =
     null;
@@ -49,13 +56,16 @@ export class ConfirmationService extends EventEmitter {
 
   async requestConfirmation(
     options: ConfirmationOptions,
-    operationType: "file" | "bash" = "file"
+    operationType: "file" | "bash" = "file",
+    force: boolean = false
   ): Promise<ConfirmationResult> {
-    // Check session flags
+    // Check session flags (unless a permission rule demands a prompt)
     if (
-      this.sessionFlags.allOperations ||
-      (operationType === "file" && this.sessionFlags.fileOperations) ||
-      (operationType === "bash" && this.sessionFlags.bashCommands)
+      this.isPreApproved() ||
+      (!force &&
+        (this.sessionFlags.allOperations ||
+          (operationType === "file" && this.sessionFlags.fileOperations) ||
+          (operationType === "bash" && this.sessionFlags.bashCommands)))
     ) {
       return { confirmed: true };
     }
@@ -103,6 +113,17 @@ export class ConfirmationService extends EventEmitter {
     }
   }
 
+  /**
+   * Confirm only some of the files offered in `changes`
+   */
+  confirmFiles(acceptedFiles: string[]): void {
+    if (this.resolveConfirmation) {
+      this.resolveConfirmation({ confirmed: true, acceptedFiles });
+      this.resolveConfirmation = null;
+      this.pendingConfirmation = null;
+    }
+  }
+
   rejectOperation(feedback?: string): void {
     if (this.resolveConfirmation) {
       this.resolveConfirmation({ confirmed: false, feedback });
@@ -133,6 +154,25 @@ export class ConfirmationService extends EventEmitter {
     return this.pendingConfirmation !== null;
   }
 
+  /**
+   * Whether a UI is listening for confirmation requests (false in headless mode)
+   */
+  hasConfirmationHandler(): boolean {
+    return this.listenerCount("confirmation-requested") > 0;
+  }
+
+  /**
+   * Run an operation that was already approved, skipping confirmation prompts
+   * Only calls made by the operation itself are approved.
+   */
+  runPreApproved<T>(operation: () => Promise<T>): Promise<T> {
+    return this.preApproved.run(true, operation);
+  }
+
+  private isPreApproved(): boolean {
+    return this.preApproved.getStore() === true;
+  }
+
   resetSession(): void {
     this.sessionFlags = {
       fileOperations: false,
@@ -143,6 +183,9 @@ export class ConfirmationService extends EventEmitter {
   }
 
   getSessionFlags() {
+    if (this.isPreApproved()) {
+      return { ...this.sessionFlags, allOperations: true };
+    }
     return { ...this.sessionFlags };
   }
 
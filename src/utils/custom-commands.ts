@@ -0,0 +1,166 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * A slash command defined by a markdown prompt template, e.g.
+ * .zai/commands/review-pr.md becomes /review-pr
+ */
+export interface CustomCommand {
+  name: string; // Command name without the leading slash
+  description?: string;
+  argumentHint?: string; // Shown after the command name, e.g. "<pr-number>"
+  allowedTools?: string[]; // Restrict the agent's tools while the command runs
+  model?: string; // Model (or provider/model) to run the command with
+  template: string; // Prompt body; $ARGUMENTS is replaced with the command arguments
+  source: 'project' | 'user';
+  filePath: string;
+}
+
+export interface Frontmatter {
+  attributes: Record<string, string | string[]>;
+  body: string;
+}
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+// Command names that map to files; anything else is ignored
+const COMMAND_NAME_PATTERN = /^[a-zA-Z0-9][\w-]*$/;
+
+/**
+ * Directories searched for commands; project commands override user commands
+ */
+export function getCommandDirectories(
+  workingDirectory: string = process.cwd(),
+  homeDirectory: string = os.homedir()
+): { dir: string; source: CustomCommand['source'] }[] {
+  return [
+    { dir: path.join(homeDirectory, '.zai', 'commands'), source: 'user' },
+    { dir: path.join(workingDirectory, '.zai', 'commands'), source: 'project' },
+  ];
+}
+
+function unquote(value: string): string {
+  return value.replace(/^(['"])(.*)\1$/, '$2');
+}
+
+/**
+ * Parse simple YAML frontmatter: `key: value` and `key: [a, b]` lines
+ */
+export function parseFrontmatter(content: string): Frontmatter {
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return { attributes: {}, body: content };
+  }
+
+  const attributes: Record<string, string | string[]> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator === -1 || line.trimStart().startsWith('#')) {
+      continue;
+    }
+    const key = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+    if (!key) {
+      continue;
+    }
+
+    if (value.startsWith('[') && value.endsWith(']')) {
+      attributes[key] = value
+        .slice(1, -1)
+        .split(',')
+        .map((item) => unquote(item.trim()))
+        .filter(Boolean);
+    } else {
+      attributes[key] = unquote(value);
+    }
+  }
+
+  return { attributes, body: content.slice(match[0].length) };
+}
+
+export function toList(value: string | string[] | undefined): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const list = (Array.isArray(value) ? value : value.split(','))
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return list.length > 0 ? list : undefined;
+}
+
+export function toText(value: string | string[] | undefined): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return (Array.isArray(value) ? value.join(', ') : value) || undefined;
+}
+
+/**
+ * Build a command from a markdown file's contents
+ */
+export function parseCustomCommand(
+  name: string,
+  content: string,
+  source: CustomCommand['source'],
+  filePath: string
+): CustomCommand {
+  const { attributes, body } = parseFrontmatter(content);
+  return {
+    name,
+    description: toText(attributes['description']),
+    argumentHint: toText(attributes['argument-hint']),
+    allowedTools: toList(attributes['allowed-tools']),
+    model: toText(attributes['model']),
+    template: body.trim(),
+    source,
+    filePath,
+  };
+}
+
+/**
+ * Load custom commands from ~/.zai/commands and .zai/commands
+ */
+export function loadCustomCommands(
+  workingDirectory: string = process.cwd(),
+  homeDirectory: string = os.homedir()
+): CustomCommand[] {
+  const commands = new Map<string, CustomCommand>();
+
+  for (const { dir, source } of getCommandDirectories(workingDirectory, homeDirectory)) {
+    let files: string[];
+    try {
+      files = fs.readdirSync(dir);
+    } catch {
+      continue; // Directory doesn't exist
+    }
+
+    for (const file of files.sort()) {
+      const name = path.basename(file, '.md');
+      if (!file.endsWith('.md') || !COMMAND_NAME_PATTERN.test(name)) {
+        continue;
+      }
+      try {
+        const filePath = path.join(dir, file);
+        const content = fs.readFileSync(filePath, 'utf-8');
+        commands.set(name, parseCustomCommand(name, content, source, filePath));
+      } catch {
+        // Silently skip files that can't be read
+      }
+    }
+  }
+
+  return [...commands.values()];
+}
+
+/**
+ * Substitute the command arguments into its template
+ * Templates without $ARGUMENTS get the arguments appended
+ */
+export function expandCommandTemplate(template: string, args: string): string {
+  const trimmedArgs = args.trim();
+  if (template.includes('$ARGUMENTS')) {
+    return template.split('$ARGUMENTS').join(trimmedArgs);
+  }
+  return trimmedArgs ? `${template}\n\n${trimmedArgs}` : template;
+}
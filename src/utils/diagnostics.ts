@@ -0,0 +1,286 @@
+import { spawn } from "child_process";
+import { existsSync } from "fs";
+import * as path from "path";
+import { getSettingsManager } from "./settings-manager.js";
+import { LspClient } from "./lsp-client.js";
+
+/**
+ * Checker run after file edits so the model sees errors it introduced, e.g.
+ *   { "command": "npx tsc --noEmit" }
+ *   { "lsp": { "command": "typescript-language-server", "args": ["--stdio"] } }
+ */
+export interface DiagnosticsSettings {
+  command?: string; // Run with bash in the project directory; errors are parsed from its output
+  lsp?: { command: string; args?: string[] }; // Language server spoken to over stdio
+  timeout?: number; // Milliseconds (default: 60000 for a command, 10000 for a language server)
+}
+
+/**
+ * An error reported in a file
+ */
+export interface Diagnostic {
+  file: string; // Absolute path
+  line: number; // 1-based
+  column: number; // 1-based
+  message: string;
+  code?: string;
+}
+
+/**
+ * Something that can report the current errors in a set of files
+ * Files missing from the result are unknown, not error-free.
+ */
+export interface DiagnosticsProvider {
+  check(files: string[]): Promise<Map<string, Diagnostic[]>>;
+  dispose(): void;
+}
+
+const DEFAULT_COMMAND_TIMEOUT = 60000;
+const DEFAULT_LSP_TIMEOUT = 10000;
+const MAX_REPORTED = 20;
+
+// path(line,col): error TS2322: message
+const TSC_PATTERN = /^(.+?)\((\d+),(\d+)\): error (TS\d+): (.*)$/;
+// path:line[:col][:| -] [error:] message - eslint --format unix, gcc, mypy, pyright, ...
+const GENERIC_PATTERN = /^\s*([^\s:][^:]*?):(\d+)(?::(\d+))?(?::| -)\s*(.*)$/;
+
+/**
+ * Pull errors out of checker output; warnings and notes are skipped
+ */
+export function parseDiagnostics(output: string, cwd: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  for (const line of output.split("\n")) {
+    const tsc = TSC_PATTERN.exec(line);
+    if (tsc) {
+      diagnostics.push({
+        file: path.resolve(cwd, tsc[1]),
+        line: Number(tsc[2]),
+        column: Number(tsc[3]),
+        code: tsc[4],
+        message: tsc[5],
+      });
+      continue;
+    }
+
+    const generic = GENERIC_PATTERN.exec(line);
+    if (!generic || /^(warning|note|info|information|hint)\b/i.test(generic[4]) || generic[4].includes("[Warning/")) {
+      continue;
+    }
+    diagnostics.push({
+      file: path.resolve(cwd, generic[1]),
+      line: Number(generic[2]),
+      column: Number(generic[3] || 1),
+      message: generic[4].replace(/^error:\s*/i, ""),
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Runs a whole-project checker command and parses its output
+ */
+export class CommandDiagnosticsProvider implements DiagnosticsProvider {
+  constructor(
+    private command: string,
+    private cwd: string,
+    private timeout: number = DEFAULT_COMMAND_TIMEOUT
+  ) {}
+
+  check(files: string[]): Promise<Map<string, Diagnostic[]>> {
+    return new Promise((resolve) => {
+      const child = spawn("bash", ["-c", this.command], { cwd: this.cwd, stdio: ["ignore", "pipe", "pipe"] });
+
+      let output = "";
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill("SIGKILL");
+      }, this.timeout);
+
+      child.stdout?.on("data", (data) => (output += data.toString()));
+      child.stderr?.on("data", (data) => (output += data.toString()));
+      child.on("error", () => {
+        clearTimeout(timer);
+        resolve(new Map());
+      });
+      child.on("close", () => {
+        clearTimeout(timer);
+        if (timedOut) {
+          resolve(new Map());
+          return;
+        }
+
+        // The checker covers the whole project, so silence about a file means no errors
+        const found = parseDiagnostics(output, this.cwd);
+        const result = new Map<string, Diagnostic[]>();
+        for (const file of files) {
+          result.set(file, found.filter((diagnostic) => diagnostic.file === file));
+        }
+        resolve(result);
+      });
+    });
+  }
+
+  dispose(): void {}
+}
+
+/**
+ * Asks a language server for the errors in each file
+ */
+export class LspDiagnosticsProvider implements DiagnosticsProvider {
+  private client: LspClient;
+
+  constructor(
+    command: string,
+    args: string[],
+    cwd: string,
+    private timeout: number = DEFAULT_LSP_TIMEOUT
+  ) {
+    this.client = new LspClient(command, args, cwd);
+  }
+
+  async check(files: string[]): Promise<Map<string, Diagnostic[]>> {
+    const result = new Map<string, Diagnostic[]>();
+    try {
+      const published = await this.client.getDiagnostics(files, this.timeout);
+      for (const [file, items] of published) {
+        result.set(
+          file,
+          items
+            .filter((item) => (item.severity ?? 1) === 1)
+            .map((item) => ({
+              file: path.resolve(file),
+              line: item.range.start.line + 1,
+              column: item.range.start.character + 1,
+              message: item.message,
+              code: item.code !== undefined ? `${item.source ? `${item.source} ` : ""}${item.code}` : item.source,
+            }))
+        );
+      }
+    } catch {
+      // A server that fails to start or crashes just means no diagnostics
+    }
+    return result;
+  }
+
+  dispose(): void {
+    this.client.dispose();
+  }
+}
+
+function sameError(a: Diagnostic, b: Diagnostic): boolean {
+  return a.file === b.file && a.code === b.code && a.message === b.message;
+}
+
+/**
+ * Errors in `after` that weren't in `before`
+ * Matched by message and code rather than position, since edits move lines.
+ */
+export function diffDiagnostics(before: Diagnostic[], after: Diagnostic[]): Diagnostic[] {
+  const unmatched = [...before];
+  return after.filter((diagnostic) => {
+    const index = unmatched.findIndex((old) => sameError(old, diagnostic));
+    if (index === -1) {
+      return true;
+    }
+    unmatched.splice(index, 1);
+    return false;
+  });
+}
+
+/**
+ * Text appended to an edit's tool result, or null when nothing new broke
+ */
+export function formatDiagnostics(diagnostics: Diagnostic[], cwd: string): string | null {
+  if (diagnostics.length === 0) {
+    return null;
+  }
+
+  const lines = diagnostics.slice(0, MAX_REPORTED).map((diagnostic) => {
+    const code = diagnostic.code ? ` ${diagnostic.code}` : "";
+    return `  ${path.relative(cwd, diagnostic.file)}:${diagnostic.line}:${diagnostic.column}${code}: ${diagnostic.message}`;
+  });
+  if (diagnostics.length > MAX_REPORTED) {
+    lines.push(`  ... and ${diagnostics.length - MAX_REPORTED} more`);
+  }
+  const count = diagnostics.length === 1 ? "1 new error" : `${diagnostics.length} new errors`;
+  return `Diagnostics: ${count} in the edited files. Fix these before moving on:\n${lines.join("\n")}`;
+}
+
+/**
+ * Remembers the last known errors per file so each edit batch reports only
+ * the errors it introduced
+ */
+export class DiagnosticsMonitor {
+  private known = new Map<string, Diagnostic[]>();
+
+  constructor(
+    private provider: DiagnosticsProvider,
+    private cwd: string
+  ) {}
+
+  /**
+   * Record the errors in files about to be edited, if not already known
+   */
+  async baseline(files: string[]): Promise<void> {
+    const unknown = [...new Set(files.map((file) => path.resolve(this.cwd, file)))].filter(
+      (file) => !this.known.has(file)
+    );
+    // Files about to be created have no errors yet
+    const existing = unknown.filter((file) => existsSync(file));
+    for (const file of unknown.filter((file) => !existing.includes(file))) {
+      this.known.set(file, []);
+    }
+    if (existing.length === 0) {
+      return;
+    }
+    for (const [file, diagnostics] of await this.provider.check(existing)) {
+      this.known.set(file, diagnostics);
+    }
+  }
+
+  /**
+   * Check edited files, returning the report of new errors (null if none)
+   * The new state becomes the baseline for the next edit batch.
+   */
+  async report(files: string[]): Promise<string | null> {
+    const edited = [...new Set(files.map((file) => path.resolve(this.cwd, file)))];
+    if (edited.length === 0) {
+      return null;
+    }
+
+    const introduced: Diagnostic[] = [];
+    for (const [file, diagnostics] of await this.provider.check(edited)) {
+      introduced.push(...diffDiagnostics(this.known.get(file) || [], diagnostics));
+      this.known.set(file, diagnostics);
+    }
+    return formatDiagnostics(introduced, this.cwd);
+  }
+
+  dispose(): void {
+    this.provider.dispose();
+  }
+}
+
+/**
+ * Monitor for the configured diagnostics provider (project settings first),
+ * or null if none is configured
+ */
+export function createDiagnosticsMonitor(cwd: string): DiagnosticsMonitor | null {
+  const manager = getSettingsManager();
+  const settings: DiagnosticsSettings =
+    manager.getProjectSetting("diagnostics") || manager.getUserSetting("diagnostics") || {};
+
+  if (settings.lsp?.command) {
+    return new DiagnosticsMonitor(
+      new LspDiagnosticsProvider(settings.lsp.command, settings.lsp.args || [], cwd, settings.timeout),
+      cwd
+    );
+  }
+  if (settings.command) {
+    return new DiagnosticsMonitor(new CommandDiagnosticsProvider(settings.command, cwd, settings.timeout), cwd);
+  }
+  return null;
+}
@@ -6,6 +6,7 @@ export interface DiffHunk {
   newStart: number;
   newLines: number;
   lines: DiffLine[];
+  header?: string; // Text after the closing @@, e.g. the enclosing function
 }
 
 export interface DiffLine {
@@ -22,6 +23,16 @@ export interface DiffResult {
   summary: string;
 }
 
+/**
+ * A file's proposed change, as reviewed in the interactive diff viewer
+ */
+export interface FileChange {
+  filePath: string;
+  oldContent: string;
+  newContent: string;
+  diff: DiffResult;
+}
+
 export class DiffGenerator {
   private static readonly CONTEXT_LINES = 3;
 
@@ -0,0 +1,159 @@
+import type { StreamingChunk } from "../agent/zai-agent.js";
+import type { ZaiToolCall } from "../zai/client.js";
+import { createTokenCounter, TokenCounter } from "./token-counter.js";
+
+/**
+ * Output formats supported by headless mode (`zai -p`)
+ * - text: OpenAI-compatible message objects, one per line (legacy)
+ * - json: a single result document once the prompt completes
+ * - stream-json: every streaming chunk as an NDJSON event
+ */
+export type OutputFormat = "text" | "json" | "stream-json";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["text", "json", "stream-json"];
+
+export function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Tool call with its result, as reported in the final JSON document
+ */
+export interface HeadlessToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+  success?: boolean;
+  output?: string;
+  error?: string;
+}
+
+/**
+ * Final document emitted by `--output-format json`
+ */
+export interface HeadlessResult {
+  type: "result";
+  status: "success" | "error";
+  content: string;
+  toolCalls: HeadlessToolCall[];
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+  };
+  model?: string;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Convert a streaming chunk to a single NDJSON event line
+ */
+export function formatStreamEvent(chunk: StreamingChunk): string {
+  return JSON.stringify({ ...chunk, timestamp: new Date().toISOString() });
+}
+
+/**
+ * Collects streaming chunks into a HeadlessResult
+ */
+export class HeadlessResultCollector {
+  private content = "";
+  private segmentStart = 0; // Start of content that may still be retracted
+  private toolCalls: HeadlessToolCall[] = [];
+  private totalTokens = 0;
+  private failure: string | undefined; // From an error chunk: the agent caught the error itself
+  private startTime = Date.now();
+  private tokenCounter: TokenCounter;
+
+  constructor(private model?: string) {
+    this.tokenCounter = createTokenCounter(model);
+  }
+
+  /**
+   * Record a streaming chunk
+   */
+  add(chunk: StreamingChunk): void {
+    switch (chunk.type) {
+      case "content":
+        this.content += chunk.content || "";
+        break;
+
+      case "content_retract":
+        this.content = this.content.slice(0, this.segmentStart);
+        break;
+
+      case "tool_calls":
+        for (const toolCall of chunk.toolCalls || []) {
+          this.toolCalls.push(this.toHeadlessToolCall(toolCall));
+        }
+        this.segmentStart = this.content.length;
+        break;
+
+      case "tool_result":
+        if (chunk.toolCall && chunk.toolResult) {
+          const entry = this.toolCalls.find((tc) => tc.id === chunk.toolCall!.id);
+          if (entry) {
+            entry.success = chunk.toolResult.success;
+            entry.output = chunk.toolResult.output;
+            entry.error = chunk.toolResult.error;
+          }
+        }
+        this.segmentStart = this.content.length;
+        break;
+
+      case "token_count":
+        if (chunk.tokenCount !== undefined) {
+          this.totalTokens = chunk.tokenCount;
+        }
+        break;
+
+      case "error":
+        this.failure = chunk.content || "Unknown error";
+        break;
+    }
+  }
+
+  /**
+   * Build the final result document
+   */
+  getResult(error?: Error): HeadlessResult {
+    const failure = error?.message ?? this.failure;
+    const outputTokens = this.tokenCounter.countTokens(this.content);
+    const totalTokens = Math.max(this.totalTokens, outputTokens);
+
+    const result: HeadlessResult = {
+      type: "result",
+      status: failure !== undefined ? "error" : "success",
+      content: this.content,
+      toolCalls: this.toolCalls,
+      usage: {
+        inputTokens: totalTokens - outputTokens,
+        outputTokens,
+        totalTokens,
+      },
+      model: this.model,
+      durationMs: Date.now() - this.startTime,
+    };
+
+    if (failure !== undefined) {
+      result.error = failure;
+    }
+
+    return result;
+  }
+
+  /**
+   * Release tokenizer resources
+   */
+  dispose(): void {
+    this.tokenCounter.dispose();
+  }
+
+  private toHeadlessToolCall(toolCall: ZaiToolCall): HeadlessToolCall {
+    return {
+      id: toolCall.id,
+      name: toolCall.function.name,
+      arguments: toolCall.function.arguments,
+    };
+  }
+}
@@ -0,0 +1,219 @@
+import { spawn } from "child_process";
+import { getSettingsManager } from "./settings-manager.js";
+
+/**
+ * Lifecycle points where hooks run
+ * - PreToolUse: before a tool runs; can block it or rewrite its arguments
+ * - PostToolUse: after a tool runs; can add feedback for the model
+ * - UserPromptSubmit: before a prompt is sent; can block it or add context
+ * - Stop: when the agent is about to finish its turn; can make it continue
+ */
+export type HookEvent = "PreToolUse" | "PostToolUse" | "UserPromptSubmit" | "Stop";
+
+export const HOOK_EVENTS: HookEvent[] = ["PreToolUse", "PostToolUse", "UserPromptSubmit", "Stop"];
+
+/**
+ * A shell command run on a hook event, e.g.
+ *   { "matcher": "create_file|str_replace_editor", "command": "npx prettier --write \"$(jq -r .tool_input.path)\"" }
+ */
+export interface HookDefinition {
+  matcher?: string; // Tool name regex for tool events (default: every tool)
+  command: string; // Run with bash; receives the JSON payload on stdin
+  timeout?: number; // Milliseconds (default: 60000)
+}
+
+export type HookSettings = Partial<Record<HookEvent, HookDefinition[]>>;
+
+/**
+ * JSON payload written to the hook's stdin
+ */
+export interface HookPayload {
+  event: HookEvent;
+  cwd: string;
+  tool_name?: string;
+  tool_input?: Record<string, unknown>;
+  tool_result?: { success: boolean; output?: string; error?: string };
+  prompt?: string;
+  stop_hook_active?: boolean; // The agent is already continuing because of a Stop hook
+}
+
+/**
+ * Optional JSON a hook can print to stdout (exit code 0)
+ */
+export interface HookResponse {
+  decision?: "block" | "approve";
+  reason?: string;
+  tool_input?: Record<string, unknown>; // PreToolUse: replacement arguments
+  context?: string; // Extra text for the model
+}
+
+/**
+ * Combined result of all hooks run for an event
+ */
+export interface HookOutcome {
+  blocked: boolean;
+  reason?: string; // Why the hook blocked
+  toolInput?: Record<string, unknown>; // Rewritten tool arguments, if any hook changed them
+  context: string[]; // Text to pass on to the model
+}
+
+interface HookRun {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+}
+
+const DEFAULT_HOOK_TIMEOUT = 60000;
+
+// Exit code that blocks the operation, with stderr as the reason
+export const HOOK_BLOCK_EXIT_CODE = 2;
+
+/**
+ * Check whether a hook applies to a tool; matchers are anchored regexes
+ */
+export function matchesHook(hook: HookDefinition, toolName?: string): boolean {
+  if (!hook.matcher || hook.matcher === "*" || toolName === undefined) {
+    return true;
+  }
+  try {
+    return new RegExp(`^(?:${hook.matcher})$`).test(toolName);
+  } catch {
+    return hook.matcher === toolName;
+  }
+}
+
+/**
+ * Interpret a hook's exit code and output
+ *
+ * Exit 0: stdout is either a HookResponse JSON object or plain text context.
+ * Exit 2: the operation is blocked; stderr is the reason.
+ * Anything else: the hook failed, which is reported but doesn't block.
+ */
+export function parseHookResult(run: HookRun, command: string): HookResponse {
+  if (run.timedOut) {
+    return { context: `Hook '${command}' timed out` };
+  }
+
+  if (run.exitCode === HOOK_BLOCK_EXIT_CODE) {
+    return { decision: "block", reason: run.stderr.trim() || run.stdout.trim() || `Blocked by hook '${command}'` };
+  }
+
+  if (run.exitCode !== 0) {
+    const detail = run.stderr.trim() || run.stdout.trim();
+    return { context: `Hook '${command}' failed with exit code ${run.exitCode}${detail ? `: ${detail}` : ""}` };
+  }
+
+  const stdout = run.stdout.trim();
+  if (stdout.startsWith("{")) {
+    try {
+      return JSON.parse(stdout) as HookResponse;
+    } catch {
+      // Not JSON after all - treat as plain text
+    }
+  }
+  return stdout ? { context: stdout } : {};
+}
+
+/**
+ * Runs user-defined shell commands on agent lifecycle events
+ */
+export class HookManager {
+  private static instance: HookManager;
+
+  /**
+   * @param workingDirectory Where hooks run and the cwd they are told about,
+   * e.g. a sub-agent's worktree (defaults to the process cwd at run time)
+   */
+  constructor(private workingDirectory?: string) {}
+
+  static getInstance(): HookManager {
+    if (!HookManager.instance) {
+      HookManager.instance = new HookManager();
+    }
+    return HookManager.instance;
+  }
+
+  /**
+   * Hooks for an event from .zai/settings.json and ~/.zai/user-settings.json
+   * Project hooks run first
+   */
+  getHooks(event: HookEvent): HookDefinition[] {
+    const manager = getSettingsManager();
+    const project: HookSettings = manager.getProjectSetting("hooks") || {};
+    const user: HookSettings = manager.getUserSetting("hooks") || {};
+    return [...(project[event] || []), ...(user[event] || [])].filter(
+      (hook) => hook && typeof hook.command === "string" && hook.command.trim()
+    );
+  }
+
+  /**
+   * Run every matching hook for an event, in order
+   * A block stops the remaining hooks; rewritten tool input is passed to the next hook
+   */
+  async run(event: HookEvent, payload: Omit<HookPayload, "event" | "cwd">): Promise<HookOutcome> {
+    const outcome: HookOutcome = { blocked: false, context: [] };
+    const hooks = this.getHooks(event).filter((hook) => matchesHook(hook, payload.tool_name));
+    if (hooks.length === 0) {
+      return outcome;
+    }
+
+    let toolInput = payload.tool_input;
+    for (const hook of hooks) {
+      const run = await this.execute(hook, { ...payload, tool_input: toolInput, event, cwd: this.workingDirectory || process.cwd() });
+      const response = parseHookResult(run, hook.command);
+
+      if (response.context) {
+        outcome.context.push(response.context);
+      }
+      if (event === "PreToolUse" && response.tool_input && typeof response.tool_input === "object") {
+        toolInput = response.tool_input;
+        outcome.toolInput = toolInput;
+      }
+      if (response.decision === "block") {
+        outcome.blocked = true;
+        outcome.reason = response.reason || `Blocked by hook '${hook.command}'`;
+        break;
+      }
+    }
+
+    return outcome;
+  }
+
+  private execute(hook: HookDefinition, payload: HookPayload): Promise<HookRun> {
+    return new Promise((resolve) => {
+      const child = spawn("bash", ["-c", hook.command], {
+        cwd: payload.cwd,
+        env: { ...process.env, ZAI_HOOK_EVENT: payload.event, ZAI_PROJECT_DIR: payload.cwd },
+        stdio: ["pipe", "pipe", "pipe"],
+      });
+
+      let stdout = "";
+      let stderr = "";
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill("SIGKILL");
+      }, hook.timeout || DEFAULT_HOOK_TIMEOUT);
+
+      child.stdout?.on("data", (data) => (stdout += data.toString()));
+      child.stderr?.on("data", (data) => (stderr += data.toString()));
+      child.on("error", (error) => {
+        clearTimeout(timer);
+        resolve({ exitCode: null, stdout, stderr: stderr + error.message, timedOut });
+      });
+      child.on("close", (code) => {
+        clearTimeout(timer);
+        resolve({ exitCode: code, stdout, stderr, timedOut });
+      });
+
+      // Hooks that don't read stdin close it early
+      child.stdin?.on("error", () => undefined);
+      child.stdin?.end(JSON.stringify(payload));
+    });
+  }
+}
+
+export function getHookManager(): HookManager {
+  return HookManager.getInstance();
+}
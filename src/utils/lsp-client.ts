@@ -0,0 +1,282 @@
+import { spawn, type ChildProcess } from "child_process";
+import { readFile } from "fs/promises";
+import * as path from "path";
+import { pathToFileURL } from "url";
+
+/**
+ * A diagnostic as published by a language server (textDocument/publishDiagnostics)
+ */
+export interface LspDiagnostic {
+  range: { start: { line: number; character: number }; end: { line: number; character: number } };
+  severity?: 1 | 2 | 3 | 4; // Error, Warning, Information, Hint
+  code?: string | number;
+  source?: string;
+  message: string;
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * A JSON-RPC message from the server: a response, a request or a notification
+ */
+interface JsonRpcMessage {
+  id?: number | string;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+const LANGUAGE_IDS: Record<string, string> = {
+  ".ts": "typescript",
+  ".mts": "typescript",
+  ".cts": "typescript",
+  ".tsx": "typescriptreact",
+  ".js": "javascript",
+  ".mjs": "javascript",
+  ".cjs": "javascript",
+  ".jsx": "javascriptreact",
+  ".py": "python",
+  ".go": "go",
+  ".rs": "rust",
+};
+
+// How long diagnostics must stay unchanged before they count as final;
+// servers often publish an empty list first and the real one later
+const SETTLE_MS = 500;
+
+/**
+ * Minimal Language Server Protocol client over stdio
+ * Only what is needed to open documents and collect their diagnostics.
+ */
+export class LspClient {
+  private child: ChildProcess | null = null;
+  private buffer = Buffer.alloc(0);
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private versions = new Map<string, number>(); // Open documents by URI
+  private diagnostics = new Map<string, { items: LspDiagnostic[]; at: number }>();
+  private starting: Promise<void> | null = null;
+
+  constructor(
+    private command: string,
+    private args: string[],
+    private rootDir: string
+  ) {}
+
+  /**
+   * Diagnostics for files after their current content is sent to the server
+   * Files the server says nothing about within the timeout are left out.
+   */
+  async getDiagnostics(files: string[], timeoutMs: number): Promise<Map<string, LspDiagnostic[]>> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const startTimeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Language server ${this.command} did not start`)), timeoutMs);
+    });
+    try {
+      await Promise.race([this.start(), startTimeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const uris = new Map<string, string>();
+    const sentAt = Date.now();
+    for (const file of files) {
+      const uri = pathToFileURL(file).href;
+      if (await this.sync(uri, file)) {
+        uris.set(uri, file);
+      }
+    }
+
+    const deadline = sentAt + timeoutMs;
+    for (;;) {
+      const now = Date.now();
+      const settled = [...uris.keys()].every((uri) => {
+        const published = this.diagnostics.get(uri);
+        return published && published.at >= sentAt && now - published.at >= SETTLE_MS;
+      });
+      if (settled || now >= deadline) {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    const result = new Map<string, LspDiagnostic[]>();
+    for (const [uri, file] of uris) {
+      const published = this.diagnostics.get(uri);
+      if (published && published.at >= sentAt) {
+        result.set(file, published.items);
+      }
+    }
+    return result;
+  }
+
+  dispose(): void {
+    const child = this.child;
+    if (!child) {
+      return;
+    }
+    this.child = null;
+    this.starting = null;
+    this.send({ jsonrpc: "2.0", id: this.nextId++, method: "shutdown", params: null }, child);
+    this.notify("exit", null, child);
+    // Servers that ignore exit are stopped
+    setTimeout(() => child.kill(), 1000).unref();
+  }
+
+  private start(): Promise<void> {
+    if (!this.starting) {
+      this.starting = this.initialize().catch((error) => {
+        this.starting = null;
+        this.child?.kill();
+        this.child = null;
+        throw error;
+      });
+    }
+    return this.starting;
+  }
+
+  private async initialize(): Promise<void> {
+    const child = spawn(this.command, this.args, { cwd: this.rootDir, stdio: ["pipe", "pipe", "pipe"] });
+    this.child = child;
+
+    // The server shouldn't keep the CLI running, and shouldn't outlive it
+    child.unref();
+    for (const stream of [child.stdin, child.stdout, child.stderr]) {
+      (stream as { unref?: () => void } | null)?.unref?.();
+    }
+    const killOnExit = () => child.kill();
+    process.once("exit", killOnExit);
+    child.once("exit", () => process.off("exit", killOnExit));
+
+    child.stdout?.on("data", (data: Buffer) => this.receive(data));
+    child.stderr?.on("data", () => undefined);
+    child.stdin?.on("error", () => undefined);
+    const failAll = (error: Error) => {
+      for (const request of this.pending.values()) {
+        request.reject(error);
+      }
+      this.pending.clear();
+      this.starting = null;
+      this.versions.clear();
+      if (this.child === child) {
+        this.child = null;
+      }
+    };
+    child.on("error", failAll);
+    child.on("exit", (code) => failAll(new Error(`Language server ${this.command} exited with code ${code}`)));
+
+    const rootUri = pathToFileURL(this.rootDir).href;
+    await this.request("initialize", {
+      processId: process.pid,
+      rootUri,
+      workspaceFolders: [{ uri: rootUri, name: path.basename(this.rootDir) }],
+      capabilities: {
+        textDocument: {
+          synchronization: { didSave: false },
+          publishDiagnostics: { relatedInformation: false },
+        },
+        workspace: { configuration: true, workspaceFolders: true },
+      },
+    });
+    this.notify("initialized", {});
+  }
+
+  /**
+   * Send the file's current content, returning false if it can't be read
+   */
+  private async sync(uri: string, file: string): Promise<boolean> {
+    let text: string;
+    try {
+      text = await readFile(file, "utf-8");
+    } catch {
+      return false; // Deleted files have nothing to report
+    }
+
+    const version = (this.versions.get(uri) || 0) + 1;
+    if (version === 1) {
+      const languageId = LANGUAGE_IDS[path.extname(file).toLowerCase()] || "plaintext";
+      this.notify("textDocument/didOpen", { textDocument: { uri, languageId, version, text } });
+    } else {
+      this.notify("textDocument/didChange", {
+        textDocument: { uri, version },
+        contentChanges: [{ text }],
+      });
+    }
+    this.versions.set(uri, version);
+    return true;
+  }
+
+  private request(method: string, params: unknown): Promise<unknown> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.send({ jsonrpc: "2.0", id, method, params });
+    });
+  }
+
+  private notify(method: string, params: unknown, child: ChildProcess | null = this.child): void {
+    this.send({ jsonrpc: "2.0", method, params }, child);
+  }
+
+  private send(message: object, child: ChildProcess | null = this.child): void {
+    const body = Buffer.from(JSON.stringify(message), "utf-8");
+    child?.stdin?.write(`Content-Length: ${body.length}\r\n\r\n`);
+    child?.stdin?.write(body);
+  }
+
+  private receive(data: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, data]);
+
+    for (;;) {
+      const headerEnd = this.buffer.indexOf("\r\n\r\n");
+      if (headerEnd === -1) {
+        return;
+      }
+      const length = Number(/Content-Length: *(\d+)/i.exec(this.buffer.subarray(0, headerEnd).toString())?.[1]);
+      const bodyStart = headerEnd + 4;
+      if (!Number.isFinite(length) || this.buffer.length < bodyStart + length) {
+        return;
+      }
+
+      const body = this.buffer.subarray(bodyStart, bodyStart + length).toString("utf-8");
+      this.buffer = this.buffer.subarray(bodyStart + length);
+      try {
+        this.handle(JSON.parse(body));
+      } catch {
+        // Ignore malformed messages
+      }
+    }
+  }
+
+  private handle(message: JsonRpcMessage): void {
+    // Response to one of our requests
+    if (message.id !== undefined && message.method === undefined) {
+      const request = this.pending.get(Number(message.id));
+      this.pending.delete(Number(message.id));
+      if (message.error) {
+        request?.reject(new Error(message.error.message));
+      } else {
+        request?.resolve(message.result);
+      }
+      return;
+    }
+
+    // Requests from the server must be answered or some servers stall
+    if (message.id !== undefined) {
+      const result = message.method === "workspace/configuration"
+        ? ((message.params as { items?: unknown[] } | undefined)?.items || []).map(() => null)
+        : null;
+      this.send({ jsonrpc: "2.0", id: message.id, result });
+      return;
+    }
+
+    if (message.method === "textDocument/publishDiagnostics") {
+      const params = message.params as { uri: string; diagnostics?: LspDiagnostic[] };
+      this.diagnostics.set(params.uri, { items: params.diagnostics || [], at: Date.now() });
+    }
+  }
+}
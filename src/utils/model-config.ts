@@ -1,11 +1,27 @@
-import { getSettingsManager } from './settings-manager.js';
+import { getSettingsManager, type ModelRouting } from './settings-manager.js';
+import { DEFAULT_PROVIDER, getProviderProfiles } from '../zai/providers.js';
 
 export interface ModelOption {
   model: string;
+  provider?: string;
 }
 
 export type ModelConfig = string;
 
+/**
+ * Default context window sizes (tokens) for known models
+ */
+const DEFAULT_CONTEXT_WINDOWS: Record<string, number> = {
+  'glm-4.7': 200_000,
+  'glm-4.6': 200_000,
+  'glm-4.5': 128_000,
+  'glm-4.5-air': 128_000,
+};
+
+export const DEFAULT_CONTEXT_WINDOW = 128_000;
+
+export const DEFAULT_COMPACTION_THRESHOLD = 0.8;
+
 /**
  * Get the effective current model
  * Priority: project current model > user default model > system default
@@ -16,16 +32,36 @@ export function getCurrentModel(): string {
 }
 
 /**
- * Load model configuration
+ * Load model configuration across all provider profiles
  * Priority: user-settings.json models > default hardcoded
  */
 export function loadModelConfig(): ModelOption[] {
-  const manager = getSettingsManager();
-  const models = manager.getAvailableModels();
+  const options: ModelOption[] = [];
+
+  for (const [provider, profile] of Object.entries(getProviderProfiles())) {
+    for (const model of profile.models || []) {
+      options.push({ model: model.trim(), provider });
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Display label for a model option ("model" or "model (provider)")
+ */
+export function formatModelOption(option: ModelOption): string {
+  return option.provider && option.provider !== DEFAULT_PROVIDER
+    ? `${option.model} (${option.provider})`
+    : option.model;
+}
 
-  return models.map(model => ({
-    model: model.trim()
-  }));
+/**
+ * Find a model option from user input, accepting "provider/model" or a bare model name
+ */
+export function findModelOption(options: ModelOption[], input: string): ModelOption | undefined {
+  const qualified = options.find(o => o.provider && input === `${o.provider}/${o.model}`);
+  return qualified || options.find(o => o.model === input);
 }
 
 /**
@@ -37,11 +73,77 @@ export function getDefaultModels(): string[] {
 }
 
 /**
- * Update the current model in project settings
+ * Get the context window size for a model
+ * Priority: user-settings.json contextWindows > known defaults > DEFAULT_CONTEXT_WINDOW
+ */
+export function getModelContextWindow(model: string): number {
+  const configured = getSettingsManager().getUserSetting('contextWindows') || {};
+  return configured[model] || DEFAULT_CONTEXT_WINDOWS[model] || DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Get the context high-water mark as a fraction of the context window
+ */
+export function getCompactionThreshold(): number {
+  const threshold = getSettingsManager().getUserSetting('compactionThreshold');
+  return typeof threshold === 'number' && threshold > 0 && threshold <= 1
+    ? threshold
+    : DEFAULT_COMPACTION_THRESHOLD;
+}
+
+/**
+ * The provider serving a configured model name ("provider/model" or bare)
+ * A bare name is looked up in `provider` first; names no profile lists stay
+ * with `provider`.
+ */
+export function resolveModelOption(entry: string, provider?: string): ModelOption {
+  const options = loadModelConfig();
+  return (
+    (provider && findModelOption(options, `${provider}/${entry}`)) ||
+    findModelOption(options, entry) || { model: entry, provider }
+  );
+}
+
+/**
+ * Models to try, in order, when a request to `model` (served by `provider`)
+ * fails with an error that another model might not hit
+ * Starts below `model` in the modelFallbacks list, or at the top of the list
+ * if `model` isn't in it. Each entry comes with the provider that serves it.
+ */
+export function getFallbackModels(model: string, provider?: string): ModelOption[] {
+  const fallbacks: string[] = getSettingsManager().getUserSetting('modelFallbacks') || [];
+  const isCurrent = (entry: string) => entry === model || entry === `${provider}/${model}`;
+  const index = fallbacks.findIndex(isCurrent);
+  return (index === -1 ? fallbacks : fallbacks.slice(index + 1))
+    .filter((entry) => !isCurrent(entry))
+    .map((entry) => resolveModelOption(entry, provider));
+}
+
+/**
+ * Model configured in modelRouting for summarization or commit messages, if any
+ */
+export function getRoutedModel(job: 'summarize' | 'commit'): string | undefined {
+  const routing: ModelRouting = getSettingsManager().getUserSetting('modelRouting') || {};
+  return routing[job] || undefined;
+}
+
+/**
+ * Model configured in modelRouting for a sub-agent type, if any
+ */
+export function getAgentModel(agentType: string): string | undefined {
+  const agents = getSettingsManager().getUserSetting('modelRouting')?.agents || {};
+  return Object.prototype.hasOwnProperty.call(agents, agentType) ? agents[agentType] : undefined;
+}
+
+/**
+ * Update the current model (and optionally provider) in project settings
  */
-export function updateCurrentModel(modelName: string): void {
+export function updateCurrentModel(modelName: string, provider?: string): void {
   const manager = getSettingsManager();
   manager.setCurrentModel(modelName);
+  if (provider) {
+    manager.setCurrentProvider(provider);
+  }
 }
 
 /**
@@ -0,0 +1,443 @@
+/**
+ * Patch
+ * Parses unified diffs and multi-file patch envelopes into DiffHunks, and
+ * applies hunks to file content with fuzz tolerance so patches written
+ * against slightly stale or reformatted files still land
+ */
+
+import * as path from "path";
+import type { DiffHunk, DiffLine } from "./diff-generator.js";
+
+/**
+ * One file's changes from a patch
+ */
+export interface FilePatch {
+  type: "add" | "update" | "delete";
+  path: string; // As written in the patch, relative to the working directory
+  movePath?: string; // New path when an update also renames the file
+  hunks: DiffHunk[];
+}
+
+/**
+ * A hunk that could not be placed in the file
+ */
+export interface HunkFailure {
+  hunk: number; // 1-based
+  header: string; // e.g. "@@ -12,6 +12,7 @@"
+  reason: string;
+}
+
+export interface HunkApplyResult {
+  content: string;
+  failures: HunkFailure[];
+  fuzzed: number; // Hunks that only matched after loosening the comparison
+}
+
+// How many context lines may be dropped from each end of a hunk to make it fit
+const MAX_FUZZ = 2;
+
+const LINE_COMPARATORS: Array<(a: string, b: string) => boolean> = [
+  (a, b) => a === b,
+  (a, b) => a.trimEnd() === b.trimEnd(),
+  (a, b) => a.trim() === b.trim(),
+];
+
+const ENVELOPE_BEGIN = "*** Begin Patch";
+const ENVELOPE_END = "*** End Patch";
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+/**
+ * Parse a patch: either a unified diff (plain or git-style, one or more
+ * files) or an envelope of *** Add File / *** Update File / *** Delete File
+ * sections. Throws on malformed input, and when a file has more than one
+ * section (its changes belong together in one).
+ */
+export function parsePatch(text: string): FilePatch[] {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const patches = lines.some((line) => line.trim() === ENVELOPE_BEGIN) ? parseEnvelope(lines) : parseUnifiedDiff(lines);
+
+  const seen = new Set<string>();
+  for (const patch of patches) {
+    const normalized = path.posix.normalize(patch.path);
+    if (seen.has(normalized)) {
+      throw new Error(`Invalid patch: ${patch.path} has more than one section; combine its changes into one`);
+    }
+    seen.add(normalized);
+  }
+  return patches;
+}
+
+function hunkLine(raw: string): DiffLine | null {
+  switch (raw[0]) {
+    case "+":
+      return { type: "add", content: raw.slice(1) };
+    case "-":
+      return { type: "del", content: raw.slice(1) };
+    case " ":
+      return { type: "context", content: raw.slice(1) };
+    case undefined:
+      // Blank context lines often lose their leading space
+      return { type: "context", content: "" };
+    default:
+      return null;
+  }
+}
+
+function countLines(lines: DiffLine[]): { oldLines: number; newLines: number } {
+  return {
+    oldLines: lines.filter((line) => line.type !== "add").length,
+    newLines: lines.filter((line) => line.type !== "del").length,
+  };
+}
+
+function parseEnvelope(lines: string[]): FilePatch[] {
+  const patches: FilePatch[] = [];
+  let i = lines.findIndex((line) => line.trim() === ENVELOPE_BEGIN) + 1;
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid patch at line ${i + 1}: ${message}`);
+  };
+  const isSectionStart = (line: string) => line.startsWith("*** ") && line !== "*** End of File";
+
+  while (i < lines.length && lines[i].trim() !== ENVELOPE_END) {
+    const line = lines[i];
+    let match: RegExpExecArray | null;
+
+    if ((match = /^\*\*\* Add File: (.+)$/.exec(line))) {
+      const added: DiffLine[] = [];
+      for (i++; i < lines.length && !isSectionStart(lines[i]); i++) {
+        if (!lines[i].startsWith("+")) {
+          fail(`lines of an added file must start with "+"`);
+        }
+        added.push({ type: "add", content: lines[i].slice(1) });
+      }
+      patches.push({
+        type: "add",
+        path: match[1].trim(),
+        hunks: [{ oldStart: 0, oldLines: 0, newStart: 1, newLines: added.length, lines: added }],
+      });
+    } else if ((match = /^\*\*\* Delete File: (.+)$/.exec(line))) {
+      patches.push({ type: "delete", path: match[1].trim(), hunks: [] });
+      i++;
+    } else if ((match = /^\*\*\* Update File: (.+)$/.exec(line))) {
+      const patch: FilePatch = { type: "update", path: match[1].trim(), hunks: [] };
+      i++;
+      const move = /^\*\*\* Move to: (.+)$/.exec(lines[i] || "");
+      if (move) {
+        patch.movePath = move[1].trim();
+        i++;
+      }
+
+      let current: DiffHunk | null = null;
+      for (; i < lines.length && !isSectionStart(lines[i]); i++) {
+        const raw = lines[i];
+        if (raw === "*** End of File") {
+          continue;
+        }
+        if (raw.startsWith("@@")) {
+          // Either a bare anchor ("@@ class Foo") or a numbered unified header
+          const numbered = HUNK_HEADER.exec(raw);
+          current = numbered
+            ? { oldStart: Number(numbered[1]), oldLines: 0, newStart: Number(numbered[3]), newLines: 0, lines: [], header: numbered[5].trim() || undefined }
+            : { oldStart: 0, oldLines: 0, newStart: 0, newLines: 0, lines: [], header: raw.slice(2).trim() || undefined };
+          patch.hunks.push(current);
+          continue;
+        }
+        const parsed = hunkLine(raw);
+        if (!parsed) {
+          fail(`unexpected line in ${patch.path}: ${raw}`);
+        }
+        if (!current) {
+          current = { oldStart: 0, oldLines: 0, newStart: 0, newLines: 0, lines: [] };
+          patch.hunks.push(current);
+        }
+        current.lines.push(parsed);
+      }
+
+      // A blank line before the next section is spacing, not context
+      for (const hunk of patch.hunks) {
+        while (hunk.lines.length > 0 && hunk.lines[hunk.lines.length - 1].type === "context" && hunk.lines[hunk.lines.length - 1].content === "") {
+          hunk.lines.pop();
+        }
+        Object.assign(hunk, countLines(hunk.lines));
+      }
+      patch.hunks = patch.hunks.filter((hunk) => hunk.lines.length > 0);
+      if (patch.hunks.length === 0 && !patch.movePath) {
+        fail(`no changes for ${patch.path}`);
+      }
+      patches.push(patch);
+    } else if (line.trim() === "") {
+      i++;
+    } else {
+      fail(`expected a file section, got: ${line}`);
+    }
+  }
+
+  return patches;
+}
+
+/**
+ * Path from a ---/+++ or diff --git header, or null for /dev/null
+ */
+function diffPath(raw: string, gitStyle: boolean): string | null {
+  let file = raw.split("\t")[0].trim();
+  if (file.startsWith('"') && file.endsWith('"')) {
+    file = file.slice(1, -1);
+  }
+  if (file === "/dev/null") {
+    return null;
+  }
+  return gitStyle ? file.replace(/^[ab]\//, "") : file;
+}
+
+function parseUnifiedDiff(lines: string[]): FilePatch[] {
+  const patches: FilePatch[] = [];
+  let current: { oldPath: string | null; newPath: string | null; hunks: DiffHunk[]; git: boolean } | null = null;
+
+  const finish = () => {
+    if (!current) return;
+    const { oldPath, newPath, hunks, git } = current;
+    if (oldPath === null && newPath !== null) {
+      patches.push({ type: "add", path: newPath, hunks });
+    } else if (newPath === null && oldPath !== null) {
+      patches.push({ type: "delete", path: oldPath, hunks: [] });
+    } else if (oldPath !== null && newPath !== null) {
+      // Only git diffs express renames; plain diffs name a backup copy on the --- side
+      const moved = git && newPath !== oldPath;
+      patches.push({ type: "update", path: git ? oldPath : newPath, movePath: moved ? newPath : undefined, hunks });
+    }
+    current = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const git = /^diff --git a\/(.+) b\/(.+)$/.exec(line);
+    if (git) {
+      finish();
+      current = { oldPath: git[1], newPath: git[2], hunks: [], git: true };
+      continue;
+    }
+
+    if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      // A plain diff starts a new file here; a git diff already did
+      const gitStyle = current?.git === true && current.hunks.length === 0;
+      if (!gitStyle) {
+        finish();
+      }
+      const oldPath = diffPath(line.slice(4), gitStyle || /^a\//.test(line.slice(4)));
+      const newPath = diffPath(lines[i + 1].slice(4), gitStyle || /^b\//.test(lines[i + 1].slice(4)));
+      current = { oldPath, newPath, hunks: [], git: gitStyle };
+      i++;
+      continue;
+    }
+
+    if (current?.git && current.hunks.length === 0) {
+      const rename = /^rename (from|to) (.+)$/.exec(line);
+      if (rename) {
+        current[rename[1] === "from" ? "oldPath" : "newPath"] = rename[2];
+        continue;
+      }
+      if (line.startsWith("new file mode")) {
+        current.oldPath = null;
+        continue;
+      }
+      if (line.startsWith("deleted file mode")) {
+        current.newPath = null;
+        continue;
+      }
+    }
+
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      if (!current) {
+        throw new Error(`Invalid patch at line ${i + 1}: hunk before any file header`);
+      }
+      const hunkLines: DiffLine[] = [];
+      // Hunk line counts are often wrong in hand-written diffs, so the body
+      // runs until the next header rather than for the declared length
+      for (; i + 1 < lines.length; i++) {
+        const next = lines[i + 1];
+        if (next.startsWith("@@") || next.startsWith("diff --git ") || (next.startsWith("--- ") && lines[i + 2]?.startsWith("+++ "))) {
+          break;
+        }
+        if (next.startsWith("\\")) {
+          continue; // "\ No newline at end of file"
+        }
+        const parsed = hunkLine(next);
+        if (!parsed) {
+          break;
+        }
+        hunkLines.push(parsed);
+      }
+      while (hunkLines.length > 0 && hunkLines[hunkLines.length - 1].type === "context" && hunkLines[hunkLines.length - 1].content === "") {
+        hunkLines.pop();
+      }
+      current.hunks.push({
+        oldStart: Number(header[1]),
+        newStart: Number(header[3]),
+        ...countLines(hunkLines),
+        lines: hunkLines,
+        header: header[5].trim() || undefined,
+      });
+    }
+  }
+  finish();
+
+  if (patches.length === 0) {
+    throw new Error("Invalid patch: no file headers found");
+  }
+  return patches;
+}
+
+/**
+ * Content of an added file
+ */
+export function addedContent(patch: FilePatch): string {
+  const lines = patch.hunks.flatMap((hunk) => hunk.lines.filter((line) => line.type !== "del").map((line) => line.content));
+  return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+}
+
+export function formatHunkHeader(hunk: DiffHunk): string {
+  const header = hunk.header ? ` ${hunk.header}` : "";
+  return hunk.oldStart > 0 ? `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@${header}` : `@@${header}`;
+}
+
+function matchesAt(
+  fileLines: string[],
+  expected: string[],
+  position: number,
+  compare: (a: string, b: string) => boolean
+): boolean {
+  for (let j = 0; j < expected.length; j++) {
+    if (!compare(fileLines[position + j], expected[j])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Position of `expected` in the file at or after `from`, closest to `near`
+ */
+function findNearest(
+  fileLines: string[],
+  expected: string[],
+  from: number,
+  near: number,
+  compare: (a: string, b: string) => boolean
+): number {
+  let best = -1;
+  for (let position = from; position + expected.length <= fileLines.length; position++) {
+    if (matchesAt(fileLines, expected, position, compare) && (best === -1 || Math.abs(position - near) < Math.abs(best - near))) {
+      best = position;
+    }
+  }
+  return best;
+}
+
+/**
+ * The hunk with up to `fuzz` context lines dropped from each end
+ */
+function trimContext(lines: DiffLine[], fuzz: number): { lines: DiffLine[]; dropped: number } {
+  let start = 0;
+  let end = lines.length;
+  while (start < fuzz && start < end && lines[start].type === "context") start++;
+  while (lines.length - end < fuzz && end > start && lines[end - 1].type === "context") end--;
+  return { lines: lines.slice(start, end), dropped: start };
+}
+
+/**
+ * Apply hunks in order, each one searched for near its stated line (or its
+ * @@ anchor) and after the previous one. Hunks that can't be placed are
+ * reported and skipped; the rest still apply.
+ */
+export function applyHunks(content: string, hunks: DiffHunk[]): HunkApplyResult {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const fileLines = content === "" ? [] : content.split(/\r?\n/);
+  // A trailing newline shows up as a final empty element, which no hunk should match
+  const hasFinalNewline = fileLines.length > 1 && fileLines[fileLines.length - 1] === "";
+  if (hasFinalNewline) {
+    fileLines.pop();
+  }
+
+  const failures: HunkFailure[] = [];
+  let fuzzed = 0;
+  let offset = 0; // Lines added minus lines removed by the hunks applied so far
+  let searchFrom = 0;
+
+  hunks.forEach((hunk, index) => {
+    let near = hunk.oldStart > 0 ? hunk.oldStart - 1 + offset : searchFrom;
+    let from = searchFrom;
+    if (hunk.oldStart === 0 && hunk.header) {
+      const anchor = fileLines.findIndex((line, position) => position >= searchFrom && line.includes(hunk.header!));
+      if (anchor !== -1) {
+        near = from = anchor;
+      }
+    }
+
+    let placed: { position: number; lines: DiffLine[] } | null = null;
+    const oldCount = hunk.lines.filter((line) => line.type !== "add").length;
+    if (oldCount === 0) {
+      // Pure insertion: after the stated line, or at the end when unnumbered
+      const position = hunk.oldStart > 0 || hunk.newStart > 0 ? Math.min(hunk.oldStart + offset, fileLines.length) : fileLines.length;
+      placed = { position: Math.max(position, searchFrom), lines: hunk.lines };
+    }
+
+    for (let fuzz = 0; !placed && fuzz <= MAX_FUZZ; fuzz++) {
+      const trimmed = trimContext(hunk.lines, fuzz);
+      if (fuzz > 0 && trimmed.lines.length === hunk.lines.length) {
+        break; // Nothing left to drop
+      }
+      const expected = trimmed.lines.filter((line) => line.type !== "add").map((line) => line.content);
+      if (expected.length === 0) {
+        break;
+      }
+      for (let level = 0; !placed && level < LINE_COMPARATORS.length; level++) {
+        const position = findNearest(fileLines, expected, from, near + trimmed.dropped, LINE_COMPARATORS[level]);
+        if (position !== -1) {
+          placed = { position, lines: trimmed.lines };
+          if (fuzz > 0 || level > 0) {
+            fuzzed++;
+          }
+        }
+      }
+    }
+
+    if (!placed) {
+      failures.push({ hunk: index + 1, header: formatHunkHeader(hunk), reason: explainFailure(fileLines, hunk, near) });
+      return;
+    }
+
+    // Context keeps the file's own text, so whitespace-only differences survive
+    let cursor = placed.position;
+    const replacement: string[] = [];
+    for (const line of placed.lines) {
+      if (line.type === "context") {
+        replacement.push(fileLines[cursor++]);
+      } else if (line.type === "del") {
+        cursor++;
+      } else {
+        replacement.push(line.content);
+      }
+    }
+    const removed = cursor - placed.position;
+    fileLines.splice(placed.position, removed, ...replacement);
+    offset += replacement.length - removed;
+    searchFrom = placed.position + replacement.length;
+  });
+
+  const joined = fileLines.join(eol);
+  return { content: hasFinalNewline || (content === "" && joined !== "") ? joined + eol : joined, failures, fuzzed };
+}
+
+function explainFailure(fileLines: string[], hunk: DiffHunk, near: number): string {
+  const result = hunk.lines.filter((line) => line.type !== "del").map((line) => line.content);
+  if (result.length > 0 && findNearest(fileLines, result, 0, near, LINE_COMPARATORS[1]) !== -1) {
+    return "already applied";
+  }
+
+  const firstRemoved = hunk.lines.find((line) => line.type !== "add");
+  const where = hunk.oldStart > 0 ? ` near line ${hunk.oldStart}` : hunk.header ? ` after "${hunk.header}"` : "";
+  return `context not found${where}${firstRemoved ? `, expected: "${firstRemoved.content.trim()}"` : ""}`;
+}
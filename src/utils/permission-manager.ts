@@ -0,0 +1,266 @@
+import * as path from "path";
+import { getSettingsManager } from "./settings-manager.js";
+import { parsePatch } from "./patch.js";
+
+/**
+ * Declarative permission rules, e.g.
+ *   allow: ["bash(npm test*)", "edit(src/**)"]
+ *   deny:  ["bash(rm -rf*)", "edit(.env*)"]
+ *   ask:   ["bash(git push*)"]
+ */
+export interface PermissionRules {
+  allow?: string[];
+  deny?: string[];
+  ask?: string[];
+}
+
+export type PermissionAction = "allow" | "deny" | "ask";
+
+/**
+ * Kinds of operations rules can target
+ * - bash: shell commands
+ * - edit: file creation and modification
+ */
+export type PermissionKind = "bash" | "edit";
+
+export interface PermissionRequest {
+  kind: PermissionKind;
+  target: string; // Command line or file path
+}
+
+export interface PermissionDecision {
+  action: PermissionAction | "default"; // "default" = no rule matched
+  rule?: string; // The rule that decided
+  request?: PermissionRequest; // The request the rule matched
+}
+
+interface ParsedRule {
+  kind: PermissionKind;
+  pattern: string | null; // null = any target
+}
+
+const RULE_PATTERN = /^(bash|edit)(?:\((.*)\))?$/;
+
+// Tools that modify files, mapped to the argument holding the path
+const EDIT_TOOL_PATH_ARGS: Record<string, string> = {
+  create_file: "path",
+  str_replace_editor: "path",
+  edit_file: "target_file",
+};
+
+/**
+ * Parse a rule like "bash(npm test*)" or "edit" into kind and pattern
+ */
+export function parseRule(rule: string): ParsedRule | null {
+  const match = rule.trim().match(RULE_PATTERN);
+  if (!match) {
+    return null;
+  }
+  return { kind: match[1] as PermissionKind, pattern: match[2]?.trim() || null };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Convert a command pattern to a RegExp: "*" matches anything
+ */
+function commandPatternToRegExp(pattern: string): RegExp {
+  const source = pattern.split("*").map(escapeRegExp).join(".*");
+  return new RegExp(`^${source}$`, "s");
+}
+
+/**
+ * Convert a path glob to a RegExp: "**" crosses directories, "*" and "?" don't
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" also matches zero directories
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i++;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Command and process substitution, and subshells, which run commands of their own
+const NESTED_COMMAND_PATTERN = /[`()]/;
+
+/**
+ * Split a shell command into its simple commands (on &&, ||, ;, |, &, newlines,
+ * and the edges of $(...), `...`, <(...) and (...)); "&" in redirections like
+ * 2>&1 is kept
+ */
+export function splitCommand(command: string): string[] {
+  return command
+    .split(/&&|\|\||(?<![<>])&(?!>)|[$<>]?\(|[;|\n`)]/)
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+}
+
+function matchesCommand(pattern: string, command: string): boolean {
+  return commandPatternToRegExp(pattern).test(command.trim());
+}
+
+function matchesPath(pattern: string, filePath: string, cwd: string): boolean {
+  const relative = path.relative(cwd, path.resolve(cwd, filePath)).split(path.sep).join("/");
+  const regex = globToRegExp(pattern);
+  // Patterns without a directory part match the file name anywhere
+  if (!pattern.includes("/")) {
+    return regex.test(path.posix.basename(relative)) || regex.test(relative);
+  }
+  return regex.test(relative);
+}
+
+/**
+ * Check whether a rule matches a request
+ *
+ * For bash, deny/ask rules match if any simple command in a compound
+ * command matches; allow rules must match every simple command so that
+ * "npm test && rm -rf /" isn't allowed by "bash(npm test*)", and never
+ * match commands that nest others in substitutions or subshells.
+ */
+export function matchesRule(
+  rule: string,
+  request: PermissionRequest,
+  action: PermissionAction,
+  cwd: string = process.cwd()
+): boolean {
+  const parsed = parseRule(rule);
+  if (!parsed || parsed.kind !== request.kind) {
+    return false;
+  }
+  if (parsed.pattern === null) {
+    return true;
+  }
+
+  if (request.kind === "edit") {
+    return matchesPath(parsed.pattern, request.target, cwd);
+  }
+
+  const parts = splitCommand(request.target);
+  if (action === "allow") {
+    return (
+      !NESTED_COMMAND_PATTERN.test(request.target) &&
+      parts.length > 0 &&
+      parts.every((part) => matchesCommand(parsed.pattern!, part))
+    );
+  }
+  return (
+    matchesCommand(parsed.pattern, request.target) ||
+    parts.some((part) => matchesCommand(parsed.pattern!, part))
+  );
+}
+
+/**
+ * Map a tool call to the permission requests it implies
+ */
+export function getPermissionRequests(toolName: string, args: Record<string, unknown>): PermissionRequest[] {
+  if (toolName === "bash" && typeof args.command === "string") {
+    return [{ kind: "bash", target: args.command }];
+  }
+
+  const pathArg = EDIT_TOOL_PATH_ARGS[toolName];
+  if (pathArg && typeof args[pathArg] === "string") {
+    return [{ kind: "edit", target: args[pathArg] }];
+  }
+
+  if (toolName === "batch_edit" && Array.isArray(args.files)) {
+    return args.files
+      .filter((file: unknown) => typeof file === "string")
+      .map((file: string) => ({ kind: "edit" as const, target: file }));
+  }
+
+  if (toolName === "apply_patch" && typeof args.patch === "string") {
+    try {
+      return parsePatch(args.patch).flatMap((patch) =>
+        [patch.path, patch.movePath].filter(Boolean).map((file) => ({ kind: "edit" as const, target: file! }))
+      );
+    } catch {
+      return []; // The tool reports the malformed patch
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Evaluates permission rules from user and project settings
+ * Precedence: deny > ask > allow
+ */
+export class PermissionManager {
+  private static instance: PermissionManager;
+
+  static getInstance(): PermissionManager {
+    if (!PermissionManager.instance) {
+      PermissionManager.instance = new PermissionManager();
+    }
+    return PermissionManager.instance;
+  }
+
+  /**
+   * Merged rules from ~/.zai/user-settings.json and .zai/settings.json
+   */
+  getRules(): PermissionRules {
+    const manager = getSettingsManager();
+    const user = manager.getUserSetting("permissions") || {};
+    const project = manager.getProjectSetting("permissions") || {};
+    return {
+      allow: [...(project.allow || []), ...(user.allow || [])],
+      deny: [...(project.deny || []), ...(user.deny || [])],
+      ask: [...(project.ask || []), ...(user.ask || [])],
+    };
+  }
+
+  /**
+   * Evaluate a single request against the configured rules
+   */
+  evaluate(request: PermissionRequest, rules: PermissionRules = this.getRules()): PermissionDecision {
+    for (const action of ["deny", "ask", "allow"] as const) {
+      const rule = (rules[action] || []).find((r) => matchesRule(r, request, action));
+      if (rule) {
+        return { action, rule, request };
+      }
+    }
+    return { action: "default" };
+  }
+
+  /**
+   * Evaluate all requests of a tool call
+   * Any deny wins, then any ask; the call is allowed only if every request is
+   */
+  evaluateAll(requests: PermissionRequest[]): PermissionDecision {
+    if (requests.length === 0) {
+      return { action: "default" };
+    }
+
+    const rules = this.getRules();
+    const decisions = requests.map((request) => this.evaluate(request, rules));
+
+    return (
+      decisions.find((d) => d.action === "deny") ||
+      decisions.find((d) => d.action === "ask") ||
+      decisions.find((d) => d.action === "default") ||
+      decisions[0]
+    );
+  }
+}
+
+export function getPermissionManager(): PermissionManager {
+  return PermissionManager.getInstance();
+}
@@ -0,0 +1,81 @@
+/**
+ * Semaphore
+ * Limits how many operations run at once; waiters are served in FIFO order
+ */
+
+interface Waiter {
+  resolve: (release: () => void) => void;
+  reject: (reason: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+export class Semaphore {
+  private active = 0;
+  private waiters: Waiter[] = [];
+
+  constructor(private permits: number) {}
+
+  /**
+   * Wait for a permit; call the returned function to give it back
+   * Rejects with the signal's reason if it is aborted while waiting
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    if (this.active < this.permits) {
+      this.active++;
+      return Promise.resolve(this.createRelease());
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          this.waiters = this.waiters.filter((w) => w !== waiter);
+          reject(signal.reason);
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Change the number of permits; extra waiters start right away
+   */
+  setPermits(permits: number): void {
+    this.permits = permits;
+    this.dispatch();
+  }
+
+  get running(): number {
+    return this.active;
+  }
+
+  get waiting(): number {
+    return this.waiters.length;
+  }
+
+  private createRelease(): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      this.dispatch();
+    };
+  }
+
+  private dispatch(): void {
+    while (this.active < this.permits && this.waiters.length > 0) {
+      const waiter = this.waiters.shift()!;
+      if (waiter.signal && waiter.onAbort) {
+        waiter.signal.removeEventListener('abort', waiter.onAbort);
+      }
+      this.active++;
+      waiter.resolve(this.createRelease());
+    }
+  }
+}
@@ -0,0 +1,390 @@
+import type { ChatEntry } from '../agent/zai-agent.js';
+import type { ZaiToolCall } from '../zai/client.js';
+import { DiffGenerator, type DiffResult } from './diff-generator.js';
+import type { SessionData } from './session-manager.js';
+
+/**
+ * Formats supported by `zai export-session`
+ * - md: readable Markdown
+ * - html: a single self-contained page for sharing
+ * - json: the complete session, re-importable with `zai import-session`
+ */
+export type ExportFormat = 'md' | 'html' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'html', 'json'];
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Envelope written by the JSON export
+ */
+export interface SessionExport {
+  format: 'zai-session';
+  version: 1;
+  exportedAt: string;
+  session: SessionData;
+}
+
+const EXPORT_VERSION = 1;
+
+/**
+ * One user prompt and everything that happened until the next one
+ */
+interface Turn {
+  entries: ChatEntry[];
+  usage: { inputTokens: number; outputTokens: number } | null;
+}
+
+/**
+ * Parse tool call arguments, which may be malformed when a model emits broken JSON
+ */
+export function parseToolArguments(toolCall: ZaiToolCall): Record<string, unknown> | null {
+  try {
+    const args = JSON.parse(toolCall.function.arguments || '{}');
+    return args && typeof args === 'object' ? args : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Diff of the change a file editing tool call makes, if it is one
+ */
+export function getToolCallDiff(toolCall: ZaiToolCall): DiffResult | null {
+  const args = parseToolArguments(toolCall);
+  if (!args || typeof args.path !== 'string') {
+    return null;
+  }
+  if (toolCall.function.name === 'str_replace_editor' && typeof args.old_str === 'string') {
+    return DiffGenerator.generateDiff(args.old_str, typeof args.new_str === 'string' ? args.new_str : '', args.path);
+  }
+  if (toolCall.function.name === 'create_file' && typeof args.content === 'string') {
+    return DiffGenerator.generateDiff('', args.content, args.path);
+  }
+  return null;
+}
+
+function groupTurns(chatHistory: ChatEntry[]): Turn[] {
+  const turns: Turn[] = [];
+  for (const entry of chatHistory) {
+    if (entry.type === 'user' || turns.length === 0) {
+      turns.push({ entries: [], usage: null });
+    }
+    const turn = turns[turns.length - 1];
+    turn.entries.push(entry);
+    if (entry.usage) {
+      turn.usage = {
+        inputTokens: (turn.usage?.inputTokens || 0) + entry.usage.inputTokens,
+        outputTokens: (turn.usage?.outputTokens || 0) + entry.usage.outputTokens,
+      };
+    }
+  }
+  return turns;
+}
+
+function formatUsage(usage: { inputTokens: number; outputTokens: number }): string {
+  return `${usage.inputTokens.toLocaleString()} in / ${usage.outputTokens.toLocaleString()} out`;
+}
+
+function formatArguments(toolCall: ZaiToolCall): string {
+  const args = parseToolArguments(toolCall);
+  return args ? JSON.stringify(args, null, 2) : toolCall.function.arguments;
+}
+
+function formatAgentActivity(entry: ChatEntry): string {
+  const info = entry.agentInfo;
+  if (!info) {
+    return entry.content;
+  }
+  const duration = info.duration !== undefined ? ` in ${(info.duration / 1000).toFixed(1)}s` : '';
+  const error = info.error ? `: ${info.error}` : '';
+  return `${info.name} (${info.type}) ${info.status}${duration}${error}`;
+}
+
+/**
+ * Fenced code block that can't be closed early by backticks in the content
+ */
+function fence(content: string, language = ''): string {
+  const longestRun = Math.max(2, ...(content.match(/`+/g) || []).map((run) => run.length));
+  const marker = '`'.repeat(longestRun + 1);
+  return `${marker}${language}\n${content}\n${marker}`;
+}
+
+/**
+ * Export a session as Markdown, with complete tool results
+ */
+export function exportSessionToMarkdown(session: SessionData): string {
+  const { metadata, chatHistory } = session;
+
+  let markdown = `# ${metadata.name}\n\n`;
+  markdown += `**Created**: ${metadata.created.toLocaleString()}\n`;
+  markdown += `**Model**: ${metadata.model}\n`;
+  if (metadata.description) {
+    markdown += `**Description**: ${metadata.description}\n`;
+  }
+  markdown += `\n---\n\n`;
+
+  return markdown + exportEntriesToMarkdown(chatHistory);
+}
+
+/**
+ * Markdown for a list of chat entries, e.g. a sub-agent's transcript
+ */
+export function exportEntriesToMarkdown(chatHistory: ChatEntry[]): string {
+  let markdown = '';
+  for (const turn of groupTurns(chatHistory)) {
+    for (const entry of turn.entries) {
+      const timestamp = entry.timestamp.toLocaleTimeString();
+
+      switch (entry.type) {
+        case 'user':
+          markdown += `## 👤 User (${timestamp})\n\n${entry.content}\n\n`;
+          break;
+        case 'assistant':
+          markdown += `## 🤖 Assistant (${timestamp})\n\n`;
+          if (entry.thinking) {
+            markdown += `<details>\n<summary>Thinking</summary>\n\n${fence(entry.thinking)}\n\n</details>\n\n`;
+          }
+          markdown += `${entry.content}\n\n`;
+          break;
+        case 'tool_call':
+        case 'tool_result': {
+          if (entry.toolCall) {
+            markdown += `### 🔧 Tool: ${entry.toolCall.function.name}\n\n`;
+            markdown += `${fence(formatArguments(entry.toolCall), 'json')}\n\n`;
+          }
+          if (entry.type === 'tool_result') {
+            const failed = entry.toolResult?.success === false;
+            markdown += `### ${failed ? '❌ Error' : '✅ Result'}\n\n${fence(entry.content)}\n\n`;
+          }
+          break;
+        }
+        case 'agent_activity':
+          markdown += `> 🤖 ${formatAgentActivity(entry)}\n\n`;
+          break;
+      }
+    }
+    if (turn.usage) {
+      markdown += `_Tokens: ${formatUsage(turn.usage)}_\n\n`;
+    }
+  }
+
+  return markdown;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderDiff(diff: DiffResult): string {
+  const rows: string[] = [];
+  for (const hunk of diff.hunks) {
+    rows.push(
+      `<tr class="hunk"><td colspan="3">@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@</td></tr>`
+    );
+    for (const line of hunk.lines) {
+      const sign = line.type === 'add' ? '+' : line.type === 'del' ? '-' : ' ';
+      rows.push(
+        `<tr class="${line.type}"><td class="ln">${line.oldLineNumber ?? ''}</td><td class="ln">${line.newLineNumber ?? ''}</td>` +
+          `<td><span class="sign">${sign}</span>${escapeHtml(line.content)}</td></tr>`
+      );
+    }
+  }
+  return `<div class="diff-summary">${escapeHtml(diff.summary)}</div><table class="diff">${rows.join('')}</table>`;
+}
+
+function renderToolEntry(entry: ChatEntry): string {
+  const toolCall = entry.toolCall;
+  const name = toolCall ? toolCall.function.name : 'tool';
+  const status = entry.type === 'tool_call' ? 'pending' : entry.toolResult?.success === false ? 'error' : 'success';
+  const args = toolCall ? parseToolArguments(toolCall) : null;
+  const target = args && typeof args.path === 'string' ? args.path : args && typeof args.command === 'string' ? args.command : '';
+  const diff = toolCall ? getToolCallDiff(toolCall) : null;
+
+  let body = '';
+  if (toolCall) {
+    body += `<div class="label">Arguments</div><pre>${escapeHtml(formatArguments(toolCall))}</pre>`;
+  }
+  if (diff && diff.hunks.length > 0) {
+    body += `<div class="label">Changes</div>${renderDiff(diff)}`;
+  }
+  body +=
+    entry.type === 'tool_call'
+      ? `<div class="label">No result recorded</div>`
+      : `<div class="label">${status === 'error' ? 'Error' : 'Result'}</div><pre>${escapeHtml(entry.content)}</pre>`;
+
+  return (
+    `<details class="tool ${status}"><summary><span class="tool-name">🔧 ${escapeHtml(name)}</span>` +
+    `${target ? ` <code>${escapeHtml(target)}</code>` : ''}<span class="time">${entry.timestamp.toLocaleTimeString()}</span>` +
+    `</summary>${body}</details>`
+  );
+}
+
+function renderEntry(entry: ChatEntry): string {
+  const time = `<span class="time">${entry.timestamp.toLocaleTimeString()}</span>`;
+  switch (entry.type) {
+    case 'user':
+      return `<div class="message user"><div class="role">👤 User ${time}</div><div class="text">${escapeHtml(entry.content)}</div></div>`;
+    case 'assistant': {
+      const thinking = entry.thinking
+        ? `<details class="thinking"><summary>Thinking</summary><div class="text">${escapeHtml(entry.thinking)}</div></details>`
+        : '';
+      const usage = entry.usage ? `<span class="usage">${formatUsage(entry.usage)} tokens</span>` : '';
+      return (
+        `<div class="message assistant"><div class="role">🤖 Assistant ${time}${usage}</div>` +
+        `${thinking}<div class="text">${escapeHtml(entry.content)}</div></div>`
+      );
+    }
+    case 'tool_call':
+    case 'tool_result':
+      return renderToolEntry(entry);
+    case 'agent_activity':
+      return `<div class="activity">🤖 ${escapeHtml(formatAgentActivity(entry))} ${time}</div>`;
+  }
+  return '';
+}
+
+const HTML_STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; max-width: 960px; margin: 2em auto; padding: 0 1em; color: #1f2328; background: #fff; }
+header { border-bottom: 1px solid #d0d7de; margin-bottom: 1.5em; }
+header dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25em 1em; }
+header dt { font-weight: 600; }
+header dd { margin: 0; }
+.turn { border: 1px solid #d0d7de; border-radius: 6px; padding: 0.75em 1em; margin-bottom: 1.5em; }
+.turn-header { display: flex; justify-content: space-between; color: #59636e; font-size: 0.85em; margin-bottom: 0.5em; }
+.message { margin: 0.75em 0; }
+.role { font-weight: 600; margin-bottom: 0.25em; }
+.time, .usage { color: #59636e; font-weight: normal; font-size: 0.85em; margin-left: 0.75em; }
+.text { white-space: pre-wrap; overflow-wrap: anywhere; }
+.user .text { background: #f6f8fa; border-radius: 6px; padding: 0.5em 0.75em; }
+details { margin: 0.5em 0; border: 1px solid #d0d7de; border-radius: 6px; padding: 0.25em 0.75em; }
+details > summary { cursor: pointer; }
+.thinking { background: #fbf8ff; color: #59636e; font-style: italic; }
+.tool.success > summary .tool-name { color: #1a7f37; }
+.tool.error > summary .tool-name { color: #d1242f; }
+.tool.pending > summary .tool-name { color: #9a6700; }
+.label { font-weight: 600; font-size: 0.85em; margin-top: 0.75em; }
+pre { background: #f6f8fa; padding: 0.5em 0.75em; border-radius: 6px; overflow-x: auto; white-space: pre-wrap; overflow-wrap: anywhere; }
+.diff-summary { color: #59636e; font-size: 0.85em; }
+table.diff { width: 100%; border-collapse: collapse; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.85em; }
+table.diff td { padding: 0 0.5em; white-space: pre-wrap; overflow-wrap: anywhere; vertical-align: top; }
+table.diff td.ln { width: 1%; color: #59636e; text-align: right; user-select: none; }
+table.diff tr.add { background: #dafbe1; }
+table.diff tr.del { background: #ffebe9; }
+table.diff tr.hunk td { background: #ddf4ff; color: #59636e; }
+.sign { user-select: none; }
+.activity { color: #59636e; font-size: 0.9em; margin: 0.5em 0; }
+`;
+
+/**
+ * Export a session as a single HTML page with no external assets
+ */
+export function exportSessionToHtml(session: SessionData): string {
+  const { metadata, chatHistory } = session;
+  const turns = groupTurns(chatHistory);
+  const total = turns.reduce(
+    (sum, turn) => ({
+      inputTokens: sum.inputTokens + (turn.usage?.inputTokens || 0),
+      outputTokens: sum.outputTokens + (turn.usage?.outputTokens || 0),
+    }),
+    { inputTokens: 0, outputTokens: 0 }
+  );
+
+  const details: Array<[string, string]> = [
+    ['Created', metadata.created.toLocaleString()],
+    ['Model', metadata.model],
+  ];
+  if (metadata.workingDirectory) details.push(['Directory', metadata.workingDirectory]);
+  if (metadata.description) details.push(['Description', metadata.description]);
+  details.push(['Messages', String(metadata.messageCount)]);
+  if (total.inputTokens + total.outputTokens > 0) details.push(['Tokens', formatUsage(total)]);
+
+  const sections = turns.map((turn, index) => {
+    const usage = turn.usage ? `<span>${formatUsage(turn.usage)} tokens</span>` : '';
+    return (
+      `<section class="turn"><div class="turn-header"><span>Turn ${index + 1}</span>${usage}</div>` +
+      `${turn.entries.map(renderEntry).join('\n')}</section>`
+    );
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(metadata.name)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(metadata.name)}</h1>
+<dl>${details.map(([term, value]) => `<dt>${term}</dt><dd>${escapeHtml(value)}</dd>`).join('')}</dl>
+</header>
+<main>
+${sections.join('\n')}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Export a session as JSON, keeping everything needed to import and resume it
+ */
+export function exportSessionToJson(session: SessionData): string {
+  const document: SessionExport = {
+    format: 'zai-session',
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session,
+  };
+  return JSON.stringify(document, null, 2);
+}
+
+/**
+ * Read a session back from a JSON export
+ */
+export function parseSessionExport(content: string): SessionData {
+  let document: SessionExport;
+  try {
+    document = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Not valid JSON: ${(error as SyntaxError).message}`);
+  }
+  if (!document || document.format !== 'zai-session' || !document.session?.metadata) {
+    throw new Error('Not a ZAI session export');
+  }
+  if (document.version > EXPORT_VERSION) {
+    throw new Error(`Session export version ${document.version} is newer than this version of ZAI supports`);
+  }
+
+  const session = document.session;
+  session.metadata.created = new Date(session.metadata.created);
+  session.metadata.lastModified = new Date(session.metadata.lastModified);
+  session.chatHistory = (session.chatHistory || []).map((entry) => ({
+    ...entry,
+    timestamp: new Date(entry.timestamp),
+  }));
+  return session;
+}
+
+/**
+ * Render a session in an export format
+ */
+export function exportSession(session: SessionData, format: ExportFormat): string {
+  switch (format) {
+    case 'html':
+      return exportSessionToHtml(session);
+    case 'json':
+      return exportSessionToJson(session);
+    default:
+      return exportSessionToMarkdown(session);
+  }
+}
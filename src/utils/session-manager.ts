@@ -1,7 +1,17 @@
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
-import { ChatEntry } from '../agent/zai-agent.js';
+import type { AgentSessionState, ChatEntry } from '../agent/zai-agent.js';
+import type { BranchFiles } from '../agent/checkpoint-manager.js';
+import type { BackupLineage } from './backup-manager.js';
+import { exportSession, parseSessionExport, type ExportFormat } from './session-export.js';
+import {
+  SessionTranscript,
+  type TranscriptParent,
+  appendTranscriptRename,
+  readTranscript,
+  readTranscriptMetadata,
+} from './session-transcript.js';
 
 export interface SessionMetadata {
   id: string;
@@ -11,6 +21,10 @@ export interface SessionMetadata {
   messageCount: number;
   model: string;
   description?: string;
+  workingDirectory?: string;
+  autosaved?: boolean; // Recorded as a JSONL transcript rather than saved with /save
+  parentId?: string; // Session this one was forked from
+  branchPoint?: number; // Chat entries inherited from the parent
 }
 
 export interface SessionData {
@@ -21,10 +35,30 @@ export interface SessionData {
     model: string;
     customInstructions?: string;
   };
+  agentState?: AgentSessionState; // Model-facing history; missing in sessions saved by older versions
+  files?: BranchFiles; // File states for switching branches (autosaved sessions only)
+}
+
+/**
+ * A session placed in its fork tree
+ */
+export interface SessionBranch {
+  session: SessionMetadata;
+  depth: number; // 0 for sessions that weren't forked
+}
+
+/**
+ * Session metadata as last read from a file that hasn't changed since
+ */
+interface CachedMetadata {
+  mtimeMs: number;
+  size: number;
+  metadata: SessionMetadata | null;
 }
 
 export class SessionManager {
   private sessionsDir: string;
+  private metadataCache = new Map<string, CachedMetadata>(); // By file name
 
   constructor() {
     this.sessionsDir = path.join(os.homedir(), '.zai', 'sessions');
@@ -45,11 +79,58 @@ export class SessionManager {
     return path.join(this.sessionsDir, `${sessionId}.json`);
   }
 
+  private getTranscriptPath(sessionId: string): string {
+    return path.join(this.sessionsDir, `${sessionId}.jsonl`);
+  }
+
+  /**
+   * Start an autosaved session that records the conversation as it happens
+   */
+  createTranscript(
+    workingDirectory: string,
+    model: string,
+    name?: string,
+    parent?: TranscriptParent
+  ): SessionTranscript {
+    const sessionId = this.generateSessionId();
+    const sessionName = name || `${path.basename(workingDirectory)}-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    return SessionTranscript.create(
+      sessionId,
+      this.getTranscriptPath(sessionId),
+      sessionName,
+      workingDirectory,
+      model,
+      parent
+    );
+  }
+
+  /**
+   * Keep appending to an existing autosaved session
+   */
+  openTranscript(sessionId: string): SessionTranscript | null {
+    const transcriptPath = this.getTranscriptPath(sessionId);
+    return fs.existsSync(transcriptPath) ? new SessionTranscript(sessionId, transcriptPath) : null;
+  }
+
+  /**
+   * Start a new branch of an autosaved session that shares its first `branchPoint` chat entries
+   */
+  forkSession(parent: SessionMetadata, branchPoint: number, model: string): SessionTranscript {
+    const forks = this.listSessions().filter(s => s.parentId === parent.id).length;
+    return this.createTranscript(
+      parent.workingDirectory || process.cwd(),
+      model,
+      `${parent.name}-fork-${forks + 1}`,
+      { parentId: parent.id, branchPoint }
+    );
+  }
+
   saveSession(
     name: string,
     chatHistory: ChatEntry[],
     context: SessionData['context'],
-    description?: string
+    description?: string,
+    agentState?: AgentSessionState
   ): SessionMetadata {
     const sessionId = this.generateSessionId();
     const metadata: SessionMetadata = {
@@ -60,12 +141,14 @@ export class SessionManager {
       messageCount: chatHistory.length,
       model: context.model,
       description,
+      workingDirectory: context.workingDirectory,
     };
 
     const sessionData: SessionData = {
       metadata,
       chatHistory,
       context,
+      agentState,
     };
 
     const sessionPath = this.getSessionPath(sessionId);
@@ -78,19 +161,28 @@ export class SessionManager {
   loadSession(sessionIdOrName: string): SessionData | null {
     // Try to find by ID first
     let sessionPath = this.getSessionPath(sessionIdOrName);
+    let autosaved = false;
 
-    if (!fs.existsSync(sessionPath)) {
+    if (fs.existsSync(this.getTranscriptPath(sessionIdOrName))) {
+      sessionPath = this.getTranscriptPath(sessionIdOrName);
+      autosaved = true;
+    } else if (!fs.existsSync(sessionPath)) {
       // Try to find by name
       const sessions = this.listSessions();
       const session = sessions.find(s => s.name === sessionIdOrName);
       if (session) {
-        sessionPath = this.getSessionPath(session.id);
+        autosaved = !!session.autosaved;
+        sessionPath = autosaved ? this.getTranscriptPath(session.id) : this.getSessionPath(session.id);
       } else {
         return null;
       }
     }
 
     try {
+      if (autosaved) {
+        return readTranscript(sessionPath);
+      }
+
       const data = fs.readFileSync(sessionPath, 'utf-8');
       const sessionData = JSON.parse(data) as SessionData;
 
@@ -111,35 +203,149 @@ export class SessionManager {
     }
   }
 
-  listSessions(): SessionMetadata[] {
+  /**
+   * Saved and autosaved sessions, newest first, optionally for one working directory
+   */
+  listSessions(workingDirectory?: string): SessionMetadata[] {
     if (!fs.existsSync(this.sessionsDir)) {
       return [];
     }
 
-    const files = fs.readdirSync(this.sessionsDir);
+    const files = fs.readdirSync(this.sessionsDir).filter(file => file.endsWith('.jsonl') || file.endsWith('.json'));
     const sessions: SessionMetadata[] = [];
 
     for (const file of files) {
-      if (!file.endsWith('.json')) continue;
+      const metadata = this.readMetadata(file);
+      if (metadata) {
+        sessions.push({ ...metadata });
+      }
+    }
+    for (const file of this.metadataCache.keys()) {
+      if (!files.includes(file)) this.metadataCache.delete(file);
+    }
 
+    // Sort by last modified, newest first
+    return sessions
+      .filter(s => !workingDirectory || s.workingDirectory === workingDirectory)
+      .sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime());
+  }
+
+  /**
+   * Metadata of one session file, read again only when the file has changed
+   * (forks, branch switches and startup all list every session)
+   */
+  private readMetadata(file: string): SessionMetadata | null {
+    const filePath = path.join(this.sessionsDir, file);
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(filePath);
+    } catch {
+      return null; // Deleted since the directory was read
+    }
+    const cached = this.metadataCache.get(file);
+    if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+      return cached.metadata;
+    }
+
+    let metadata: SessionMetadata | null = null;
+    if (file.endsWith('.jsonl')) {
+      try {
+        metadata = readTranscriptMetadata(filePath);
+      } catch {
+        console.warn(`Skipping invalid session transcript: ${file}`);
+      }
+    } else {
       try {
-        const sessionPath = path.join(this.sessionsDir, file);
-        const data = fs.readFileSync(sessionPath, 'utf-8');
-        const sessionData = JSON.parse(data) as SessionData;
-        sessions.push({
+        const sessionData = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as SessionData;
+        metadata = {
           ...sessionData.metadata,
+          workingDirectory: sessionData.metadata.workingDirectory || sessionData.context?.workingDirectory,
           created: new Date(sessionData.metadata.created),
           lastModified: new Date(sessionData.metadata.lastModified),
-        });
+        };
       } catch (error) {
         console.warn(`Skipping invalid session file: ${file}`);
       }
     }
 
-    // Sort by last modified, newest first
-    return sessions.sort((a, b) =>
-      b.lastModified.getTime() - a.lastModified.getTime()
-    );
+    this.metadataCache.set(file, { mtimeMs: stats.mtimeMs, size: stats.size, metadata });
+    return metadata;
+  }
+
+  /**
+   * Order sessions as fork trees: each session is followed by its forks, oldest first
+   * Roots keep their order; forks whose parent isn't listed are treated as roots
+   */
+  buildSessionTree(sessions: SessionMetadata[]): SessionBranch[] {
+    const ids = new Set(sessions.map(s => s.id));
+    const children = new Map<string, SessionMetadata[]>();
+    for (const session of sessions) {
+      if (session.parentId && ids.has(session.parentId)) {
+        const siblings = children.get(session.parentId) || [];
+        siblings.push(session);
+        children.set(session.parentId, siblings);
+      }
+    }
+
+    const tree: SessionBranch[] = [];
+    const visit = (session: SessionMetadata, depth: number) => {
+      tree.push({ session, depth });
+      const forks = (children.get(session.id) || []).sort((a, b) => a.created.getTime() - b.created.getTime());
+      for (const fork of forks) {
+        visit(fork, depth + 1);
+      }
+    };
+    for (const session of sessions) {
+      if (!session.parentId || !ids.has(session.parentId)) {
+        visit(session, 0);
+      }
+    }
+    return tree;
+  }
+
+  /**
+   * Every branch in the fork tree a session belongs to
+   */
+  getSessionTree(sessionIdOrName: string): SessionBranch[] {
+    const sessions = this.listSessions();
+    const byId = new Map(sessions.map(s => [s.id, s]));
+    let root = sessions.find(s => s.id === sessionIdOrName || s.name === sessionIdOrName);
+    if (!root) {
+      return [];
+    }
+
+    const seen = new Set<string>();
+    while (root.parentId && byId.has(root.parentId) && !seen.has(root.id)) {
+      seen.add(root.id);
+      root = byId.get(root.parentId)!;
+    }
+    // The root is followed by its descendants, up to the next root
+    const tree = this.buildSessionTree(sessions);
+    const start = tree.findIndex(b => b.session.id === root!.id);
+    const end = tree.findIndex((b, i) => i > start && b.depth === 0);
+    return tree.slice(start, end === -1 ? undefined : end);
+  }
+
+  /**
+   * Backups visible to a branch: its own, plus each ancestor's up to the fork
+   */
+  getLineage(sessionId: string): BackupLineage[] {
+    const byId = new Map(this.listSessions().map(s => [s.id, s]));
+    const lineage: BackupLineage[] = [{ branch: sessionId }];
+    let session = byId.get(sessionId);
+    while (session?.parentId && !lineage.some(l => l.branch === session!.parentId)) {
+      lineage.push({ branch: session.parentId, until: session.created.getTime() });
+      session = byId.get(session.parentId);
+    }
+    return lineage;
+  }
+
+  /**
+   * Most recently modified session, optionally limited to one working directory
+   */
+  getLatestSession(workingDirectory?: string): SessionData | null {
+    const session = this.listSessions(workingDirectory)[0];
+    return session ? this.loadSession(session.id) : null;
   }
 
   deleteSession(sessionIdOrName: string): boolean {
@@ -152,7 +358,7 @@ export class SessionManager {
       return false;
     }
 
-    const sessionPath = this.getSessionPath(session.id);
+    const sessionPath = session.autosaved ? this.getTranscriptPath(session.id) : this.getSessionPath(session.id);
 
     try {
       fs.unlinkSync(sessionPath);
@@ -165,49 +371,48 @@ export class SessionManager {
   }
 
   exportSessionToMarkdown(sessionIdOrName: string, outputPath?: string): string | null {
+    return this.exportSession(sessionIdOrName, 'md', outputPath);
+  }
+
+  /**
+   * Render a session as Markdown, HTML or JSON, optionally writing it to a file
+   */
+  exportSession(sessionIdOrName: string, format: ExportFormat, outputPath?: string): string | null {
     const sessionData = this.loadSession(sessionIdOrName);
     if (!sessionData) {
       return null;
     }
 
-    const { metadata, chatHistory } = sessionData;
-
-    let markdown = `# ${metadata.name}\n\n`;
-    markdown += `**Created**: ${metadata.created.toLocaleString()}\n`;
-    markdown += `**Model**: ${metadata.model}\n`;
-    if (metadata.description) {
-      markdown += `**Description**: ${metadata.description}\n`;
-    }
-    markdown += `\n---\n\n`;
-
-    for (const entry of chatHistory) {
-      const timestamp = entry.timestamp.toLocaleTimeString();
-
-      switch (entry.type) {
-        case 'user':
-          markdown += `## 👤 User (${timestamp})\n\n${entry.content}\n\n`;
-          break;
-        case 'assistant':
-          markdown += `## 🤖 Assistant (${timestamp})\n\n${entry.content}\n\n`;
-          break;
-        case 'tool_call':
-          if (entry.toolCall) {
-            markdown += `### 🔧 Tool: ${entry.toolCall.function.name}\n\n`;
-            markdown += `\`\`\`json\n${JSON.stringify(JSON.parse(entry.toolCall.function.arguments), null, 2)}\n\`\`\`\n\n`;
-          }
-          break;
-        case 'tool_result':
-          markdown += `### ✅ Result\n\n\`\`\`\n${entry.content.substring(0, 500)}${entry.content.length > 500 ? '...' : ''}\n\`\`\`\n\n`;
-          break;
-      }
-    }
+    const content = exportSession(sessionData, format);
 
     if (outputPath) {
-      fs.writeFileSync(outputPath, markdown);
+      fs.writeFileSync(outputPath, content);
       console.log(`✅ Session exported to: ${outputPath}`);
     }
 
-    return markdown;
+    return content;
+  }
+
+  /**
+   * Save a session from a JSON export; it keeps its ID unless that is already taken
+   */
+  importSession(content: string): SessionMetadata {
+    const sessionData = parseSessionExport(content);
+    const { id } = sessionData.metadata;
+    const taken = !/^[\w-]+$/.test(id) ||
+      fs.existsSync(this.getSessionPath(id)) ||
+      fs.existsSync(this.getTranscriptPath(id));
+
+    // Imports are plain saved sessions, whatever they were recorded as
+    sessionData.metadata = {
+      ...sessionData.metadata,
+      id: taken ? this.generateSessionId() : id,
+      autosaved: undefined,
+    };
+    fs.writeFileSync(this.getSessionPath(sessionData.metadata.id), JSON.stringify(sessionData, null, 2));
+
+    console.log(`✅ Session imported: ${sessionData.metadata.name} (${sessionData.metadata.id})`);
+    return sessionData.metadata;
   }
 
   updateSessionMetadata(
@@ -219,6 +424,11 @@ export class SessionManager {
       return false;
     }
 
+    if (sessionData.metadata.autosaved) {
+      appendTranscriptRename(this.getTranscriptPath(sessionData.metadata.id), updates);
+      return true;
+    }
+
     sessionData.metadata = {
       ...sessionData.metadata,
       ...updates,
@@ -230,6 +440,31 @@ export class SessionManager {
 
     return true;
   }
+
+  /**
+   * Delete autosaved sessions beyond the newest `keep` or older than `olderThanDays`
+   * Sessions saved explicitly with /save are never pruned
+   */
+  pruneSessions(options: { keep?: number; olderThanDays?: number; workingDirectory?: string } = {}): SessionMetadata[] {
+    const autosaved = this.listSessions(options.workingDirectory).filter(s => s.autosaved);
+    const cutoff = options.olderThanDays !== undefined
+      ? Date.now() - options.olderThanDays * 24 * 60 * 60 * 1000
+      : null;
+
+    const pruned = autosaved.filter((session, index) =>
+      (options.keep !== undefined && index >= options.keep) ||
+      (cutoff !== null && session.lastModified.getTime() < cutoff)
+    );
+
+    for (const session of pruned) {
+      try {
+        fs.unlinkSync(this.getTranscriptPath(session.id));
+      } catch {
+        // Already gone
+      }
+    }
+    return pruned;
+  }
 }
 
 // Singleton
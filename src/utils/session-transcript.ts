@@ -0,0 +1,337 @@
+import fs from 'fs';
+import type { AgentSessionState, ChatEntry } from '../agent/zai-agent.js';
+import type { BranchFiles, FileState } from '../agent/checkpoint-manager.js';
+import type { ZaiMessage } from '../zai/client.js';
+import type { SessionData, SessionMetadata } from './session-manager.js';
+
+/**
+ * One line of an autosaved session transcript (~/.zai/sessions/<id>.jsonl)
+ *
+ * The file is append-only so a crash loses at most the line being written.
+ * Replaying the records in order rebuilds the session; `*_reset` records
+ * replace the whole list (after compaction or loading another session), and
+ * `chat_update` replaces an entry that changed after it was written (a tool
+ * call that got its result).
+ * A forked session names its parent in `meta`; `files` records track the
+ * branch's files so switching branches can restore them.
+ */
+export type TranscriptRecord =
+  | {
+      type: 'meta';
+      id: string;
+      name: string;
+      created: string;
+      workingDirectory: string;
+      model: string;
+      parentId?: string;
+      branchPoint?: number;
+    }
+  | { type: 'rename'; name?: string; description?: string }
+  | { type: 'chat'; entry: ChatEntry }
+  | { type: 'chat_update'; index: number; entry: ChatEntry }
+  | { type: 'chat_reset'; entries: ChatEntry[] }
+  | { type: 'message'; message: ZaiMessage }
+  | { type: 'messages_reset'; messages: ZaiMessage[] }
+  | { type: 'state'; model: string; contextSummary: string; todos: AgentSessionState['todos'] }
+  | { type: 'files'; base: FileState[]; head: FileState[] };
+
+/**
+ * Where a forked session branched off
+ */
+export interface TranscriptParent {
+  parentId: string;
+  branchPoint: number; // Chat entries inherited from the parent
+}
+
+/**
+ * What the agent hands the transcript on every sync
+ */
+export interface TranscriptSnapshot {
+  chatHistory: ChatEntry[];
+  messages: ZaiMessage[];
+  model: string;
+  contextSummary: string;
+  todos: AgentSessionState['todos'];
+}
+
+/**
+ * Appends a running session to its JSONL transcript
+ */
+export class SessionTranscript {
+  private chatRef: ChatEntry[] | null = null;
+  private chatWritten: ChatEntry[] = []; // Shallow copies of the entries as last written
+  private messagesRef: ZaiMessage[] | null = null;
+  private messageCount = 0;
+  private lastState = '';
+  private pendingMeta: Extract<TranscriptRecord, { type: 'meta' }> | null = null; // Written with the first real content
+
+  constructor(readonly id: string, readonly filePath: string) {}
+
+  /**
+   * Start a new transcript; the file is only created once there is a conversation to keep
+   */
+  static create(
+    id: string,
+    filePath: string,
+    name: string,
+    workingDirectory: string,
+    model: string,
+    parent?: TranscriptParent
+  ): SessionTranscript {
+    const transcript = new SessionTranscript(id, filePath);
+    transcript.pendingMeta = {
+      type: 'meta',
+      id,
+      name,
+      created: new Date().toISOString(),
+      workingDirectory,
+      model,
+      ...parent,
+    };
+    return transcript;
+  }
+
+  /**
+   * Record everything that changed since the last sync
+   */
+  sync(snapshot: TranscriptSnapshot): void {
+    // A fork is kept even when it branches off before the first message
+    if (this.pendingMeta && !this.pendingMeta.parentId && snapshot.chatHistory.length === 0) {
+      return;
+    }
+    const records: TranscriptRecord[] = [];
+
+    // The agent replaces its arrays when history is rewritten; diff by identity first
+    if (snapshot.chatHistory !== this.chatRef || snapshot.chatHistory.length < this.chatWritten.length) {
+      // Nothing to record for a fresh session's empty history
+      if (this.chatRef !== null || snapshot.chatHistory.length > 0) {
+        records.push({ type: 'chat_reset', entries: snapshot.chatHistory });
+      }
+    } else {
+      // Entries are replaced or updated in place as tool calls finish
+      for (const [index, written] of this.chatWritten.entries()) {
+        const entry = snapshot.chatHistory[index];
+        if (!sameEntry(entry, written)) {
+          records.push({ type: 'chat_update', index, entry });
+        }
+      }
+      for (const entry of snapshot.chatHistory.slice(this.chatWritten.length)) {
+        records.push({ type: 'chat', entry });
+      }
+    }
+
+    if (snapshot.messages !== this.messagesRef || snapshot.messages.length < this.messageCount) {
+      records.push({ type: 'messages_reset', messages: snapshot.messages });
+    } else {
+      for (const message of snapshot.messages.slice(this.messageCount)) {
+        records.push({ type: 'message', message });
+      }
+    }
+
+    const state = JSON.stringify([snapshot.model, snapshot.contextSummary, snapshot.todos]);
+    if (state !== this.lastState) {
+      records.push({
+        type: 'state',
+        model: snapshot.model,
+        contextSummary: snapshot.contextSummary,
+        todos: snapshot.todos,
+      });
+    }
+
+    this.append(records);
+
+    this.chatRef = snapshot.chatHistory;
+    this.chatWritten = snapshot.chatHistory.map((entry) => ({ ...entry }));
+    this.messagesRef = snapshot.messages;
+    this.messageCount = snapshot.messages.length;
+    this.lastState = state;
+  }
+
+  /**
+   * Record file states for branch switching; ignored until the transcript has a conversation
+   */
+  recordFiles(base: FileState[], head: FileState[]): void {
+    if (this.pendingMeta || (base.length === 0 && head.length === 0)) {
+      return;
+    }
+    this.append([{ type: 'files', base, head }]);
+  }
+
+  private append(records: TranscriptRecord[]): void {
+    if (records.length === 0) {
+      return;
+    }
+    if (this.pendingMeta) {
+      records.unshift(this.pendingMeta);
+      this.pendingMeta = null;
+    }
+    fs.appendFileSync(this.filePath, records.map((record) => `${JSON.stringify(record)}\n`).join(''));
+  }
+}
+
+/**
+ * Whether an entry still has the field values it was written with
+ */
+function sameEntry(entry: ChatEntry, written: ChatEntry): boolean {
+  const keys = new Set([...Object.keys(entry), ...Object.keys(written)]) as Set<keyof ChatEntry>;
+  return [...keys].every((key) => entry[key] === written[key]);
+}
+
+function parseRecords(content: string): TranscriptRecord[] {
+  const records: TranscriptRecord[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      records.push(JSON.parse(line) as TranscriptRecord);
+    } catch {
+      // A line cut short by a crash - everything before it is still good
+    }
+  }
+  return records;
+}
+
+/**
+ * Rebuild a session from its transcript
+ */
+export function readTranscript(filePath: string): SessionData | null {
+  const records = parseRecords(fs.readFileSync(filePath, 'utf-8'));
+  const meta = records[0];
+  if (!meta || meta.type !== 'meta') {
+    return null;
+  }
+
+  const metadata: SessionMetadata = {
+    id: meta.id,
+    name: meta.name,
+    created: new Date(meta.created),
+    lastModified: fs.statSync(filePath).mtime,
+    messageCount: 0,
+    model: meta.model,
+    workingDirectory: meta.workingDirectory,
+    autosaved: true,
+    parentId: meta.parentId,
+    branchPoint: meta.branchPoint,
+  };
+  let chatHistory: ChatEntry[] = [];
+  let messages: ZaiMessage[] = [];
+  let contextSummary = '';
+  let todos: AgentSessionState['todos'] = [];
+  const base = new Map<string, FileState>();
+  const head = new Map<string, FileState>();
+
+  for (const record of records.slice(1)) {
+    switch (record.type) {
+      case 'rename':
+        metadata.name = record.name ?? metadata.name;
+        metadata.description = record.description ?? metadata.description;
+        break;
+      case 'chat':
+        chatHistory.push(record.entry);
+        break;
+      case 'chat_update':
+        chatHistory[record.index] = record.entry;
+        break;
+      case 'chat_reset':
+        chatHistory = [...record.entries];
+        break;
+      case 'message':
+        messages.push(record.message);
+        break;
+      case 'messages_reset':
+        messages = [...record.messages];
+        break;
+      case 'state':
+        metadata.model = record.model;
+        contextSummary = record.contextSummary;
+        todos = record.todos;
+        break;
+      case 'files':
+        // The first state seen for a file is the one from before the branch changed it
+        for (const state of record.base) {
+          if (!base.has(state.path) && !head.has(state.path)) base.set(state.path, state);
+        }
+        for (const state of record.head) {
+          head.set(state.path, state);
+        }
+        break;
+    }
+  }
+
+  chatHistory = chatHistory.map((entry) => ({ ...entry, timestamp: new Date(entry.timestamp) }));
+  metadata.messageCount = chatHistory.length;
+  const files: BranchFiles | undefined =
+    base.size > 0 || head.size > 0 ? { base: [...base.values()], head: [...head.values()] } : undefined;
+
+  return {
+    metadata,
+    chatHistory,
+    context: {
+      workingDirectory: meta.workingDirectory,
+      model: metadata.model,
+    },
+    agentState: { messages, contextSummary, todos },
+    files,
+  };
+}
+
+/**
+ * Read just the metadata of a transcript, without rebuilding the conversation
+ */
+export function readTranscriptMetadata(filePath: string): SessionMetadata | null {
+  const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+  let metadata: SessionMetadata | null = null;
+
+  for (const line of lines) {
+    // Records are written with "type" first, so most lines can be classified without parsing
+    if (line.startsWith('{"type":"chat",')) {
+      // A line cut short by a crash doesn't end with the closing brace
+      if (metadata && line.endsWith('}')) metadata.messageCount++;
+      continue;
+    }
+    if (!line.startsWith('{"type":"meta"') && !line.startsWith('{"type":"rename"') &&
+        !line.startsWith('{"type":"chat_reset"') && !line.startsWith('{"type":"state"')) {
+      continue;
+    }
+
+    let record: TranscriptRecord;
+    try {
+      record = JSON.parse(line) as TranscriptRecord;
+    } catch {
+      continue;
+    }
+
+    if (record.type === 'meta') {
+      metadata = {
+        id: record.id,
+        name: record.name,
+        created: new Date(record.created),
+        lastModified: fs.statSync(filePath).mtime,
+        messageCount: 0,
+        model: record.model,
+        workingDirectory: record.workingDirectory,
+        autosaved: true,
+        parentId: record.parentId,
+        branchPoint: record.branchPoint,
+      };
+    } else if (metadata && record.type === 'rename') {
+      metadata.name = record.name ?? metadata.name;
+      metadata.description = record.description ?? metadata.description;
+    } else if (metadata && record.type === 'chat_reset') {
+      metadata.messageCount = record.entries.length;
+    } else if (metadata && record.type === 'state') {
+      metadata.model = record.model;
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Append a rename record to a transcript
+ */
+export function appendTranscriptRename(filePath: string, updates: { name?: string; description?: string }): void {
+  const record: TranscriptRecord = { type: 'rename', ...updates };
+  fs.appendFileSync(filePath, `${JSON.stringify(record)}\n`);
+}
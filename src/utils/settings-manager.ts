@@ -1,6 +1,10 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import type { ProviderProfile } from "../zai/providers.js";
+import type { PermissionRules } from "./permission-manager.js";
+import type { HookSettings } from "./hook-manager.js";
+import type { DiagnosticsSettings } from "./diagnostics.js";
 
 /**
  * User-level settings stored in ~/.zai/user-settings.json
@@ -15,6 +19,26 @@ export interface UserSettings {
   watchIgnorePatterns?: string[]; // Patterns to ignore when watching
   watchDebounceMs?: number; // Debounce delay for file changes
   enableHistory?: boolean; // Enable persistent command history (default: true)
+  liveStreaming?: boolean; // Stream response text as it arrives (default: false)
+  providers?: Record<string, ProviderProfile>; // Additional named provider profiles
+  defaultProvider?: string; // User's preferred default provider (default: zai)
+  contextWindows?: Record<string, number>; // Context window size (tokens) per model
+  compactionThreshold?: number; // Compact context at this fraction of the window (default: 0.8)
+  modelFallbacks?: string[]; // Models to move down to when one is unavailable, strongest first
+  modelRouting?: ModelRouting; // Models for specific jobs (default: the current model)
+  permissions?: PermissionRules; // Global allow/deny/ask rules for tools
+  hooks?: HookSettings; // Global lifecycle hooks (run after project hooks)
+  diagnostics?: DiagnosticsSettings; // Checker run after file edits (project setting wins)
+  autosaveSessions?: boolean; // Record every interactive session to ~/.zai/sessions (default: true)
+}
+
+/**
+ * Which model handles jobs that don't need the strongest one
+ */
+export interface ModelRouting {
+  summarize?: string; // Context summarization when compacting
+  commit?: string; // Commit message generation
+  agents?: Record<string, string>; // Sub-agent type -> model, e.g. { "explore": "glm-4.5-air" }
 }
 
 /**
@@ -23,6 +47,10 @@ export interface UserSettings {
  */
 export interface ProjectSettings {
   model?: string; // Current model for this project
+  provider?: string; // Current provider for this project
+  permissions?: PermissionRules; // Project allow/deny/ask rules (checked before user rules)
+  hooks?: HookSettings; // Project lifecycle hooks
+  diagnostics?: DiagnosticsSettings; // Checker run after file edits, e.g. { "command": "npx tsc --noEmit" }
   mcpServers?: Record<string, any>; // MCP server configurations
 }
 
@@ -47,6 +75,8 @@ const DEFAULT_USER_SETTINGS: Partial<UserSettings> = {
   ],
   watchDebounceMs: 300,
   enableHistory: true,
+  liveStreaming: false,
+  compactionThreshold: 0.8,
 };
 
 /**
@@ -297,6 +327,25 @@ export class SettingsManager {
     this.updateProjectSetting("model", model);
   }
 
+  /**
+   * Get the current provider name with the same fallback order as models:
+   * project provider, then user default provider, then "zai"
+   */
+  public getCurrentProvider(): string {
+    return (
+      this.getProjectSetting("provider") ||
+      this.getUserSetting("defaultProvider") ||
+      "zai"
+    );
+  }
+
+  /**
+   * Set the current provider for the project
+   */
+  public setCurrentProvider(provider: string): void {
+    this.updateProjectSetting("provider", provider);
+  }
+
   /**
    * Get available models list from user settings
    */
@@ -24,7 +24,7 @@ export class TokenCounter {
   /**
    * Count tokens in messages array (for chat completions)
    */
-  countMessageTokens(messages: Array<{ role: string; content: string | null; [key: string]: any }>): number {
+  countMessageTokens(messages: Array<{ role: string; content?: unknown; tool_calls?: unknown }>): number {
     let totalTokens = 0;
     
     for (const message of messages) {
@@ -1,5 +1,27 @@
 import OpenAI from "openai";
+import { EventEmitter } from "events";
 import type { ChatCompletionMessageParam } from "openai/resources/chat";
+import {
+  DEFAULT_PROVIDER,
+  DEFAULT_ZAI_BASE_URL,
+  ZaiProvider,
+  type ChatRequestPayload,
+  type ModelProvider,
+} from "./providers.js";
+import {
+  DEFAULT_RETRY_OPTIONS,
+  FALLBACK_RETRIES,
+  getMaxRetries,
+  getRetryDelay,
+  isAbortError,
+  sleep,
+  toApiError,
+  withRetry,
+  type RetryInfo,
+  type RetryOptions,
+} from "./retry.js";
+import { ZAIError } from "../errors/index.js";
+import { ErrorHandler } from "../utils/error-handler.js";
 
 export type ZaiMessage = ChatCompletionMessageParam;
 
@@ -34,27 +56,38 @@ export interface ZaiResponse {
     };
     finish_reason: string;
   }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
 }
 
-export class ZaiClient {
+/**
+ * Emits "retry" (RetryInfo) before waiting to retry a failed request
+ */
+export class ZaiClient extends EventEmitter {
   private client: OpenAI;
+  private provider: ModelProvider;
   private currentModel: string = "glm-4.7"; // Modèle par défaut avec support thinking
   private defaultMaxTokens: number;
   private defaultTemperature: number;
   private thinkingEnabled: boolean = false;
-  public readonly apiKey: string;
-  public readonly baseURL: string;
+  private retryOptions: RetryOptions;
+  private _apiKey: string;
+  private _baseURL: string;
 
-  constructor(apiKey: string, model?: string, baseURL?: string) {
-    this.apiKey = apiKey;
-    this.baseURL = baseURL || process.env.ZAI_BASE_URL || "https://api.z.ai/api/coding/paas/v4";
-    // OpenAI SDK automatically appends /chat/completions, so baseURL should be the root
-    this.client = new OpenAI({
-      apiKey,
-      baseURL: baseURL || process.env.ZAI_BASE_URL || "https://api.z.ai/api/coding/paas/v4",
-      timeout: 360000,
-      dangerouslyAllowBrowser: false,
+  constructor(apiKey: string, model?: string, baseURL?: string, provider?: ModelProvider) {
+    super();
+    this.provider = provider || new ZaiProvider(DEFAULT_PROVIDER, {
+      type: "zai",
+      baseURL: DEFAULT_ZAI_BASE_URL,
+      models: [],
     });
+    this.client = this.createClient(
+      apiKey,
+      baseURL || (provider ? provider.baseURL : process.env.ZAI_BASE_URL) || DEFAULT_ZAI_BASE_URL
+    );
     const envMax = Number(process.env.ZAI_MAX_TOKENS);
     // Increased default from 1536 to 4096 to allow for more complex reasoning
     this.defaultMaxTokens = Number.isFinite(envMax) && envMax > 0 ? envMax : 4096;
@@ -63,20 +96,56 @@ export class ZaiClient {
     const envTemp = Number(process.env.ZAI_TEMPERATURE);
     this.defaultTemperature = Number.isFinite(envTemp) && envTemp >= 0 && envTemp <= 1 ? envTemp : 0.4;
 
+    // Retries for transient failures, configurable via ZAI_MAX_RETRIES
+    const envRetries = Number(process.env.ZAI_MAX_RETRIES);
+    this.retryOptions = {
+      ...DEFAULT_RETRY_OPTIONS,
+      maxRetries: Number.isInteger(envRetries) && envRetries >= 0 ? envRetries : DEFAULT_RETRY_OPTIONS.maxRetries,
+    };
+
     if (model) {
       this.currentModel = model;
     }
 
     // Activer le thinking par défaut pour les modèles qui le supportent
-    if (this.supportsThinking(this.currentModel)) {
-      this.thinkingEnabled = true;
-    }
+    this.thinkingEnabled = this.provider.supportsThinking(this.currentModel);
   }
 
-  private supportsThinking(model: string): boolean {
-    // Liste des modèles qui supportent le thinking mode
-    const thinkingModels = ['glm-4.7', 'glm-4-7', 'glm-4.6', 'glm-4-6', 'glm-4.5', 'glm-4-5'];
-    return thinkingModels.some(m => model.toLowerCase().includes(m));
+  private createClient(apiKey: string, baseURL: string): OpenAI {
+    this._apiKey = apiKey;
+    this._baseURL = baseURL;
+    // OpenAI SDK automatically appends /chat/completions, so baseURL should be the root
+    return new OpenAI({
+      apiKey,
+      baseURL,
+      timeout: 360000,
+      maxRetries: 0, // Retried by withRetry so the UI can report it
+      dangerouslyAllowBrowser: false,
+    });
+  }
+
+  get apiKey(): string {
+    return this._apiKey;
+  }
+
+  get baseURL(): string {
+    return this._baseURL;
+  }
+
+  getProvider(): ModelProvider {
+    return this.provider;
+  }
+
+  /**
+   * Switch to another provider, reconnecting with its endpoint and key
+   */
+  setProvider(provider: ModelProvider, apiKey?: string): void {
+    this.provider = provider;
+    this.client = this.createClient(
+      provider.resolveApiKey() || apiKey || this._apiKey,
+      provider.baseURL
+    );
+    this.thinkingEnabled = provider.supportsThinking(this.currentModel);
   }
 
   setThinkingEnabled(enabled: boolean): void {
@@ -89,10 +158,8 @@ export class ZaiClient {
 
   setModel(model: string): void {
     this.currentModel = model;
-    // Re-enable thinking if the new model supports it
-    if (this.supportsThinking(model)) {
-      this.thinkingEnabled = true;
-    }
+    // Re-evaluate thinking for the new model
+    this.thinkingEnabled = this.provider.supportsThinking(model);
   }
 
   getCurrentModel(): string {
@@ -104,66 +171,146 @@ export class ZaiClient {
     return this.currentModel;
   }
 
+  private buildRequest(
+    messages: ZaiMessage[],
+    tools: ZaiTool[] | undefined,
+    model: string | undefined,
+    stream: boolean
+  ): ChatRequestPayload {
+    const requestPayload: ChatRequestPayload = {
+      model: model || this.currentModel,
+      messages,
+      tools: tools || [],
+      tool_choice: tools && tools.length > 0 ? "auto" : undefined,
+      temperature: this.defaultTemperature,
+      max_tokens: this.defaultMaxTokens,
+    };
+    if (stream) {
+      requestPayload.stream = true;
+    }
+
+    return this.provider.shapeRequest(requestPayload, {
+      thinking: this.thinkingEnabled,
+    });
+  }
+
+  /**
+   * canFallBack: the caller has another model to try, so errors that model
+   * might avoid are retried only FALLBACK_RETRIES times
+   */
   async chat(
     messages: ZaiMessage[],
     tools?: ZaiTool[],
-    model?: string
+    model?: string,
+    signal?: AbortSignal,
+    canFallBack = false
   ): Promise<ZaiResponse> {
-    try {
-      const requestPayload: any = {
-        model: model || this.currentModel,
-        messages,
-        tools: tools || [],
-        tool_choice: tools && tools.length > 0 ? "auto" : undefined,
-        temperature: this.defaultTemperature,
-        max_tokens: this.defaultMaxTokens,
-      };
-
-      // Add thinking parameter for GLM-4.7 and compatible models
-      // L'API Z.ai retourne le thinking dans "reasoning_content"
-      if (this.thinkingEnabled) {
-        requestPayload.thinking = { type: "enabled" };
-      }
-
-      const response =
-        await this.client.chat.completions.create(requestPayload);
-
-      return response as ZaiResponse;
-    } catch (error: any) {
-      throw new Error(`Z.ai API error: ${error.message}`);
-    }
+    const request = this.buildRequest(messages, tools, model, false);
+    return withRetry(
+      () => this.createCompletion(request, signal),
+      this.getRetryOptions(signal, canFallBack)
+    ) as Promise<ZaiResponse>;
   }
 
+  /**
+   * Stream a completion, retrying transient failures
+   *
+   * If the connection drops after chunks were yielded, the request is sent
+   * again and a `{ restart: true }` chunk is yielded first: everything
+   * received before it should be discarded. canFallBack is as for chat, up
+   * to the first chunk.
+   */
   async *chatStream(
     messages: ZaiMessage[],
     tools?: ZaiTool[],
-    model?: string
+    model?: string,
+    signal?: AbortSignal,
+    canFallBack = false
   ): AsyncGenerator<any, void, unknown> {
-    try {
-      const requestPayload: any = {
-        model: model || this.currentModel,
-        messages,
-        tools: tools || [],
-        tool_choice: tools && tools.length > 0 ? "auto" : undefined,
-        temperature: this.defaultTemperature,
-        max_tokens: this.defaultMaxTokens,
-        stream: true,
+    // Providers without streaming get a single synthesized chunk
+    if (!this.provider.capabilities.streaming) {
+      const response = await this.chat(messages, tools, model, signal, canFallBack);
+      const choice = response.choices[0];
+      yield {
+        choices: [
+          {
+            delta: {
+              role: choice?.message.role,
+              content: choice?.message.content || undefined,
+              reasoning_content: (choice?.message as { reasoning_content?: string } | undefined)?.reasoning_content,
+              tool_calls: choice?.message.tool_calls?.map((toolCall, index) => ({
+                index,
+                ...toolCall,
+              })),
+            },
+            finish_reason: choice?.finish_reason,
+          },
+        ],
       };
+      return;
+    }
 
-      // Add thinking parameter for GLM-4.7 and compatible models
-      if (this.thinkingEnabled) {
-        requestPayload.thinking = { type: "enabled" };
-      }
-
-      const stream = (await this.client.chat.completions.create(
-        requestPayload
-      )) as any;
+    const request = this.buildRequest(messages, tools, model, true);
+    let options = this.getRetryOptions(signal, canFallBack);
+    let restarts = 0;
+    let discarded = false; // A dropped attempt yielded chunks the consumer must throw away
+    while (true) {
+      const stream = (await withRetry(() => this.createCompletion(request, signal), options)) as AsyncIterable<unknown>;
+      let received = false;
+      try {
+        for await (const chunk of stream) {
+          if (discarded) {
+            yield { restart: true, choices: [] };
+            discarded = false;
+          }
+          received = true;
+          yield chunk;
+        }
+        return;
+      } catch (error) {
+        if (received) {
+          // Once chunks were yielded the caller can't fall back any more
+          options = { ...options, fallbackRetries: undefined };
+        }
+        discarded = discarded || received;
+        const apiError = toApiError(error, this.getErrorPrefix(), request.model);
+        const maxRetries = apiError instanceof ZAIError ? getMaxRetries(apiError, options) : 0;
+        if (
+          isAbortError(error, signal) ||
+          !(apiError instanceof ZAIError) ||
+          !ErrorHandler.shouldRetry(apiError) ||
+          restarts >= maxRetries
+        ) {
+          throw apiError;
+        }
 
-      for await (const chunk of stream) {
-        yield chunk;
+        restarts++;
+        // Cap the wait so a long Retry-After can't stall the stream
+        const delayMs = Math.min(getRetryDelay(apiError, restarts, options), options.maxDelayMs);
+        options.onRetry?.({ attempt: restarts, maxRetries, delayMs, error: apiError });
+        await sleep(delayMs, signal);
       }
-    } catch (error: any) {
-      throw new Error(`Z.ai API error: ${error.message}`);
     }
   }
+
+  private async createCompletion(request: ChatRequestPayload, signal?: AbortSignal): Promise<unknown> {
+    try {
+      return await this.client.chat.completions.create(request as OpenAI.Chat.ChatCompletionCreateParams, { signal });
+    } catch (error) {
+      throw toApiError(error, this.getErrorPrefix(), request.model);
+    }
+  }
+
+  private getRetryOptions(signal?: AbortSignal, canFallBack = false): RetryOptions {
+    return {
+      ...this.retryOptions,
+      ...(canFallBack && { fallbackRetries: FALLBACK_RETRIES }),
+      signal,
+      onRetry: (info: RetryInfo) => this.emit("retry", info),
+    };
+  }
+
+  private getErrorPrefix(): string {
+    return this.provider.type === "zai" ? "Z.ai" : this.provider.name;
+  }
 }
@@ -0,0 +1,234 @@
+import { getSettingsManager } from "../utils/settings-manager.js";
+
+/**
+ * Name of the built-in Z.ai provider profile
+ */
+export const DEFAULT_PROVIDER = "zai";
+
+export const DEFAULT_ZAI_BASE_URL = "https://api.z.ai/api/coding/paas/v4";
+
+/**
+ * Request shaping styles supported by ModelProvider implementations
+ */
+export type ProviderType = "zai" | "openai-compatible" | "anthropic";
+
+/**
+ * Features a provider endpoint supports
+ */
+export interface ProviderCapabilities {
+  thinking: boolean; // Extended reasoning / thinking payload
+  tools: boolean; // Function calling
+  streaming: boolean; // Server-sent event streaming
+}
+
+/**
+ * Provider profile as stored in ~/.zai/user-settings.json under "providers"
+ */
+export interface ProviderProfile {
+  type?: ProviderType; // Request shaping style (default: openai-compatible)
+  baseURL: string; // API base URL (OpenAI SDK appends /chat/completions)
+  apiKeyEnv?: string; // Environment variable holding the API key
+  apiKey?: string; // Inline API key (apiKeyEnv takes precedence)
+  models: string[]; // Models served by this provider
+  thinkingModels?: string[]; // Model name fragments that support thinking (default: all models)
+  capabilities?: Partial<ProviderCapabilities>;
+}
+
+/**
+ * OpenAI-style chat completion request body that providers shape
+ */
+export interface ChatRequestPayload {
+  model: string;
+  messages: unknown[];
+  tools?: unknown[];
+  tool_choice?: string;
+  temperature?: number;
+  max_tokens?: number;
+  stream?: boolean;
+  thinking?: { type: "enabled" | "disabled"; budget_tokens?: number };
+  chat_template_kwargs?: Record<string, unknown>;
+}
+
+/**
+ * Options that affect how a request is shaped
+ */
+export interface RequestOptions {
+  thinking: boolean;
+}
+
+/**
+ * A model provider knows how to shape chat completion requests
+ * for one family of endpoints.
+ */
+export interface ModelProvider {
+  readonly name: string;
+  readonly type: ProviderType;
+  readonly baseURL: string;
+  readonly models: string[];
+  readonly capabilities: ProviderCapabilities;
+
+  /**
+   * Resolve the API key from the profile's env var or inline key
+   */
+  resolveApiKey(): string | undefined;
+
+  /**
+   * Whether thinking should be enabled by default for a model
+   */
+  supportsThinking(model: string): boolean;
+
+  /**
+   * Apply provider-specific fields to an OpenAI-style request payload
+   */
+  shapeRequest(payload: ChatRequestPayload, options: RequestOptions): ChatRequestPayload;
+}
+
+/**
+ * Shared behaviour for OpenAI-compatible endpoints
+ */
+abstract class BaseProvider implements ModelProvider {
+  abstract readonly type: ProviderType;
+  readonly baseURL: string;
+  readonly models: string[];
+  readonly capabilities: ProviderCapabilities;
+  protected thinkingModels?: string[];
+
+  constructor(
+    readonly name: string,
+    protected profile: ProviderProfile,
+    defaultCapabilities: ProviderCapabilities,
+    defaultThinkingModels?: string[]
+  ) {
+    this.baseURL = profile.baseURL;
+    this.models = profile.models || [];
+    this.capabilities = { ...defaultCapabilities, ...profile.capabilities };
+    this.thinkingModels = profile.thinkingModels || defaultThinkingModels;
+  }
+
+  resolveApiKey(): string | undefined {
+    if (this.profile.apiKeyEnv && process.env[this.profile.apiKeyEnv]) {
+      return process.env[this.profile.apiKeyEnv];
+    }
+    return this.profile.apiKey;
+  }
+
+  supportsThinking(model: string): boolean {
+    if (!this.capabilities.thinking) {
+      return false;
+    }
+    return (
+      !this.thinkingModels ||
+      this.thinkingModels.some(m => model.toLowerCase().includes(m))
+    );
+  }
+
+  shapeRequest(payload: ChatRequestPayload, options: RequestOptions): ChatRequestPayload {
+    if (!this.capabilities.tools) {
+      delete payload.tools;
+      delete payload.tool_choice;
+    }
+    if (options.thinking && this.capabilities.thinking) {
+      this.applyThinking(payload);
+    }
+    return payload;
+  }
+
+  protected abstract applyThinking(payload: ChatRequestPayload): void;
+}
+
+/**
+ * Z.ai GLM endpoints
+ */
+export class ZaiProvider extends BaseProvider {
+  readonly type = "zai" as const;
+
+  // Models that support the thinking mode
+  private static readonly THINKING_MODELS = ['glm-4.7', 'glm-4-7', 'glm-4.6', 'glm-4-6', 'glm-4.5', 'glm-4-5'];
+
+  constructor(name: string, profile: ProviderProfile) {
+    super(name, profile, { thinking: true, tools: true, streaming: true }, ZaiProvider.THINKING_MODELS);
+  }
+
+  protected applyThinking(payload: ChatRequestPayload): void {
+    // The Z.ai API returns the thinking in "reasoning_content"
+    payload.thinking = { type: "enabled" };
+  }
+}
+
+/**
+ * Generic OpenAI-compatible servers (vLLM, Ollama, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider extends BaseProvider {
+  readonly type = "openai-compatible" as const;
+
+  constructor(name: string, profile: ProviderProfile) {
+    super(name, profile, { thinking: false, tools: true, streaming: true });
+  }
+
+  protected applyThinking(payload: ChatRequestPayload): void {
+    // vLLM / Qwen-style chat templates toggle reasoning through template kwargs
+    payload.chat_template_kwargs = { ...payload.chat_template_kwargs, enable_thinking: true };
+  }
+}
+
+/**
+ * Anthropic's OpenAI-compatible endpoint
+ */
+export class AnthropicProvider extends BaseProvider {
+  readonly type = "anthropic" as const;
+
+  constructor(name: string, profile: ProviderProfile) {
+    super(name, profile, { thinking: true, tools: true, streaming: true });
+  }
+
+  protected applyThinking(payload: ChatRequestPayload): void {
+    // Extended thinking needs an explicit budget below max_tokens
+    const budget = Math.max(1024, Math.floor((payload.max_tokens || 4096) / 2));
+    payload.thinking = { type: "enabled", budget_tokens: budget };
+  }
+}
+
+/**
+ * Create a provider instance for a profile
+ */
+export function createProvider(name: string, profile: ProviderProfile): ModelProvider {
+  switch (profile.type) {
+    case "zai":
+      return new ZaiProvider(name, profile);
+    case "anthropic":
+      return new AnthropicProvider(name, profile);
+    case "openai-compatible":
+    default:
+      return new OpenAICompatibleProvider(name, profile);
+  }
+}
+
+/**
+ * The built-in Z.ai profile, derived from the legacy top-level settings
+ */
+export function getDefaultProviderProfile(): ProviderProfile {
+  const manager = getSettingsManager();
+  return {
+    type: "zai",
+    baseURL: manager.getBaseURL(),
+    apiKey: manager.getApiKey(),
+    models: manager.getAvailableModels(),
+  };
+}
+
+/**
+ * All configured provider profiles, including the built-in Z.ai profile
+ */
+export function getProviderProfiles(): Record<string, ProviderProfile> {
+  const configured = getSettingsManager().getUserSetting("providers") || {};
+  return { [DEFAULT_PROVIDER]: getDefaultProviderProfile(), ...configured };
+}
+
+/**
+ * Resolve a provider by name, falling back to the built-in Z.ai provider
+ */
+export function getProvider(name?: string): ModelProvider {
+  const profiles = getProviderProfiles();
+  const providerName = name && profiles[name] ? name : DEFAULT_PROVIDER;
+  return createProvider(providerName, profiles[providerName]);
+}
@@ -0,0 +1,207 @@
+/**
+ * API Retry
+ * Maps provider SDK failures to the typed API errors and retries the
+ * transient ones with jittered exponential backoff
+ */
+
+import OpenAI from "openai";
+import {
+  APIError,
+  AuthenticationError,
+  ModelNotFoundError,
+  NetworkError,
+  RateLimitError,
+  ZAIError,
+} from "../errors/index.js";
+import { ErrorHandler } from "../utils/error-handler.js";
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number; // Cap on backoff; a longer Retry-After means giving up
+  fallbackRetries?: number; // Retries for isModelUnavailable errors when the caller can fall back to another model
+  signal?: AbortSignal;
+  onRetry?: (info: RetryInfo) => void;
+}
+
+/**
+ * Announced before waiting to retry a failed request
+ */
+export interface RetryInfo {
+  attempt: number; // Retry number, starting at 1
+  maxRetries: number;
+  delayMs: number;
+  error: ZAIError;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000,
+};
+
+// One retry is enough before moving on to a fallback model
+export const FALLBACK_RETRIES = 1;
+
+// Socket-level failures worth retrying, including streams cut off mid-response
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+function getErrorCode(error: unknown): string | undefined {
+  const { code, cause } = (error ?? {}) as { code?: string; cause?: { code?: string } };
+  return code || cause?.code;
+}
+
+/**
+ * Seconds to wait from a Retry-After (or retry-after-ms) header
+ */
+export function parseRetryAfter(headers: { get(name: string): string | null } | undefined | null): number | undefined {
+  const retryAfterMs = Number(headers?.get?.("retry-after-ms"));
+  if (Number.isFinite(retryAfterMs) && retryAfterMs > 0) {
+    return retryAfterMs / 1000;
+  }
+
+  const retryAfter = headers?.get?.("retry-after");
+  if (!retryAfter) {
+    return undefined;
+  }
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000);
+}
+
+/**
+ * Whether an error is the caller cancelling the request
+ */
+export function isAbortError(error: unknown, signal?: AbortSignal): boolean {
+  return !!signal?.aborted || error instanceof OpenAI.APIUserAbortError || (error instanceof Error && error.name === "AbortError");
+}
+
+/**
+ * Convert an SDK or network failure into a typed API error
+ * Errors that are already typed, and cancellations, are returned unchanged.
+ */
+export function toApiError(error: unknown, prefix: string, model: string): Error {
+  if (error instanceof ZAIError || (error instanceof Error && isAbortError(error))) {
+    return error;
+  }
+
+  const cause = error instanceof Error ? error : undefined;
+  const message = `${prefix} API error: ${cause?.message || error}`;
+  if (error instanceof OpenAI.APIConnectionError || NETWORK_ERROR_CODES.has(getErrorCode(error) || "")) {
+    return new NetworkError(message, cause);
+  }
+  if (error instanceof OpenAI.APIError && error.status) {
+    const retryAfter = parseRetryAfter(error.headers);
+    switch (error.status) {
+      case 401:
+      case 403:
+        return new AuthenticationError(message);
+      case 404:
+        return /model/i.test(error.message) ? new ModelNotFoundError(model) : new APIError(message, 404);
+      case 429:
+        return new RateLimitError(message, retryAfter);
+      default:
+        return new APIError(message, error.status, retryAfter !== undefined ? { retryAfter } : {});
+    }
+  }
+  // A stream that ends early surfaces as a bare "terminated" error
+  if (cause?.message === "terminated") {
+    return new NetworkError(`${prefix} connection closed mid-response`, cause);
+  }
+  return new Error(message);
+}
+
+/**
+ * Whether a different model might succeed where this one failed: the model
+ * doesn't exist, is rate limited, or timed out
+ */
+export function isModelUnavailable(error: unknown): error is ZAIError {
+  return (
+    error instanceof ModelNotFoundError ||
+    error instanceof RateLimitError ||
+    (error instanceof APIError && error.context.statusCode === 408) ||
+    (error instanceof NetworkError && error.cause instanceof OpenAI.APIConnectionTimeoutError)
+  );
+}
+
+/**
+ * How many times an error may be retried: fewer when another model might
+ * not hit it and the caller has one to fall back to
+ */
+export function getMaxRetries(error: ZAIError, options: RetryOptions): number {
+  return options.fallbackRetries !== undefined && isModelUnavailable(error)
+    ? Math.min(options.fallbackRetries, options.maxRetries)
+    : options.maxRetries;
+}
+
+/**
+ * Milliseconds to wait before retry number `attempt` (starting at 1)
+ * Honors Retry-After when the server sent one; otherwise backs off
+ * exponentially with jitter so parallel agents don't retry in lockstep
+ */
+export function getRetryDelay(error: ZAIError, attempt: number, options: RetryOptions): number {
+  const retryAfter = error.context.retryAfter;
+  if (typeof retryAfter === "number") {
+    return retryAfter * 1000;
+  }
+  const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+}
+
+/**
+ * Wait, rejecting with the signal's reason if it aborts first
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run a request, retrying typed errors that ErrorHandler.shouldRetry accepts
+ * The operation must throw errors already converted with toApiError.
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!(error instanceof ZAIError) || !ErrorHandler.shouldRetry(error)) {
+        throw error;
+      }
+      const maxRetries = getMaxRetries(error, options);
+      const delayMs = getRetryDelay(error, attempt, options);
+      if (attempt > maxRetries || delayMs > options.maxDelayMs || options.signal?.aborted) {
+        throw error;
+      }
+
+      options.onRetry?.({ attempt, maxRetries, delayMs, error });
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
@@ -139,6 +139,7 @@ DO NOT USE WHEN:
 - You haven't viewed the file yet (view_file first!)
 - You need to create a new file from scratch (use create_file)
 - Making the same change across multiple files (use batch_edit)
+- Making different coordinated changes across multiple files (use apply_patch)
 
 CRITICAL: You MUST use view_file before using this tool. Edits without viewing first often fail due to incorrect assumptions about whitespace, indentation, or exact content.
 
@@ -237,7 +238,8 @@ BEST PRACTICES:
 - Avoid interactive commands that require user input
 - Use appropriate error handling (e.g., "|| true" to ignore errors if needed)
 - Be cautious with destructive operations (rm, mv, overwriting files)
-- Quote paths with spaces properly (e.g., "cd 'My Documents'")`,
+- Quote paths with spaces properly (e.g., "cd 'My Documents'")
+- Use run_in_background for commands that don't exit on their own (dev servers, watch mode)`,
       parameters: {
         type: "object",
         properties: {
@@ -245,11 +247,60 @@ BEST PRACTICES:
             type: "string",
             description: "The bash command to execute",
           },
+          run_in_background: {
+            type: "boolean",
+            description: "Start the command in the background and return a process id instead of waiting for it (default: false)",
+          },
         },
         required: ["command"],
       },
     },
   },
+  {
+    type: "function",
+    function: {
+      name: "bash_output",
+      description: `Read new output from a background process started with bash run_in_background.
+
+USE WHEN:
+- You started a dev server, watcher or long build in the background and need to check on it
+
+RETURNS:
+- Process status (running, exited with code, killed)
+- stdout/stderr produced since the previous bash_output call for this id`,
+      parameters: {
+        type: "object",
+        properties: {
+          id: {
+            type: "string",
+            description: "Background process id returned by bash (e.g., \"bg-1\")",
+          },
+        },
+        required: ["id"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "kill_bash",
+      description: `Stop a background process started with bash run_in_background.
+
+USE WHEN:
+- A dev server or watcher is no longer needed
+- A background command hangs or misbehaves`,
+      parameters: {
+        type: "object",
+        properties: {
+          id: {
+            type: "string",
+            description: "Background process id returned by bash (e.g., \"bg-1\")",
+          },
+        },
+        required: ["id"],
+      },
+    },
+  },
   {
     type: "function",
     function: {
@@ -399,6 +450,10 @@ OPERATION TYPES:
 4. rename-symbol: Rename a symbol (function, variable, class)
    - old_name: Current name
    - new_name: New name
+   - file, line: Where the symbol is declared or used (1-based line), when several symbols share the name
+   In TypeScript/JavaScript files this finds real references with the TypeScript compiler, so
+   comments, strings and unrelated symbols are left alone and importing files are updated too.
+   Other files fall back to a whole-word text match.
 
 RETURNS:
 - Summary of files processed
@@ -469,6 +524,8 @@ BEST PRACTICES:
               end_line: { type: "number" },
               old_name: { type: "string" },
               new_name: { type: "string" },
+              file: { type: "string" },
+              line: { type: "number" },
             },
           },
         },
@@ -476,6 +533,63 @@ BEST PRACTICES:
       },
     },
   },
+  {
+    type: "function",
+    function: {
+      name: "apply_patch",
+      description: `Apply a patch that adds, updates, deletes or moves one or more files in one step.
+
+USE WHEN:
+- Making coordinated changes to several files at once
+- A change is easiest to express as a diff (several hunks in one file, or a file move)
+
+FORMATS:
+1. Unified diff (as produced by git diff or diff -u), one or more files:
+   --- a/src/app.ts
+   +++ b/src/app.ts
+   @@ -10,4 +10,5 @@
+    context line
+   -removed line
+   +added line
+   /dev/null on the --- side adds a file, on the +++ side deletes it.
+
+2. Patch envelope:
+   *** Begin Patch
+   *** Add File: src/new.ts
+   +every line of the new file, prefixed with +
+   *** Update File: src/app.ts
+   *** Move to: src/main.ts   (optional)
+   @@ function start
+    context line
+   -removed line
+   +added line
+   *** Delete File: src/old.ts
+   *** End Patch
+   "@@ text" anchors a hunk after the first line containing that text.
+
+HOW IT APPLIES:
+- Hunks are matched by their context and removed lines, tolerating shifted line numbers,
+  whitespace differences and a couple of stale context lines at the edges
+- A file with any hunk that can't be placed is left unchanged and its failed hunks are reported;
+  the other files in the patch are still applied
+- Existing files are backed up before they are changed
+
+BEST PRACTICES:
+- View files before patching them so the context lines are accurate
+- Include about 3 lines of context around each change
+- Use str_replace_editor for a single small edit`,
+      parameters: {
+        type: "object",
+        properties: {
+          patch: {
+            type: "string",
+            description: "The unified diff or patch envelope to apply",
+          },
+        },
+        required: ["patch"],
+      },
+    },
+  },
   {
     type: "function",
     function: {
@@ -787,5 +901,22 @@ export async function getAllZaiTools(): Promise<ZaiTool[]> {
   manager.ensureServersInitialized().catch(() => {
     // Ignore initialization errors to avoid blocking
   });
-  return addMCPToolsToZaiTools(ZAI_TOOLS);
+  // Rebuild launch_agent so custom agents added during the session are offered
+  const tools = ZAI_TOOLS.map((tool) =>
+    tool.function.name === "launch_agent" ? TaskTool.getToolDefinition() : tool
+  );
+  return addMCPToolsToZaiTools(tools);
+}
+
+/**
+ * Restrict a tool list to an allowlist of tool names.
+ * Returns the list unchanged when no allowlist is given.
+ */
+export function filterZaiTools(tools: ZaiTool[], allowedTools?: string[] | null): ZaiTool[] {
+  if (!allowedTools) {
+    return tools;
+  }
+
+  const allowed = new Set(allowedTools);
+  return tools.filter((tool) => allowed.has(tool.function.name));
 }
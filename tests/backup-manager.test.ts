@@ -38,6 +38,7 @@ describe("BackupManager", () => {
     const manager = BackupManager.getInstance();
     (manager as any).backupDir = originalBackupDir;
     (manager as any).backupIndex.clear();
+    manager.setLineage([]);
   });
 
   describe("Singleton Pattern", () => {
@@ -547,6 +548,62 @@ describe("BackupManager", () => {
     });
   });
 
+  describe("Branch Lineage", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should tag backups with the active branch", async () => {
+      const manager = BackupManager.getInstance();
+      const testFile = path.join(testFilesDir, "branch.txt");
+      fs.writeFileSync(testFile, "content");
+
+      manager.setLineage([{ branch: "session_a" }]);
+      const backup = await manager.createBackup(testFile);
+
+      expect(backup?.branch).toBe("session_a");
+    });
+
+    it("should only show backups from the branch and its ancestors before the fork", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      const manager = BackupManager.getInstance();
+      const testFile = path.join(testFilesDir, "branch.txt");
+      fs.writeFileSync(testFile, "parent before fork");
+
+      manager.setLineage([{ branch: "parent" }]);
+      vi.setSystemTime(1000);
+      await manager.createBackup(testFile);
+      fs.writeFileSync(testFile, "parent after fork");
+      vi.setSystemTime(3000);
+      await manager.createBackup(testFile);
+
+      manager.setLineage([{ branch: "sibling" }]);
+      fs.writeFileSync(testFile, "sibling");
+      vi.setSystemTime(4000);
+      await manager.createBackup(testFile);
+
+      manager.setLineage([{ branch: "fork" }, { branch: "parent", until: 2000 }]);
+      const history = manager.getBackupHistory(testFile);
+      expect(history.map((b) => b.timestamp)).toEqual([1000]);
+
+      fs.writeFileSync(testFile, "fork");
+      expect(await manager.restoreBackup(testFile)).toBe(true);
+      expect(fs.readFileSync(testFile, "utf-8")).toBe("parent before fork");
+    });
+
+    it("should show every backup when no branch is active", async () => {
+      const manager = BackupManager.getInstance();
+      const testFile = path.join(testFilesDir, "branch.txt");
+      fs.writeFileSync(testFile, "content");
+
+      manager.setLineage([{ branch: "session_a" }]);
+      await manager.createBackup(testFile);
+      manager.setLineage([]);
+
+      expect(manager.getBackupHistory(testFile)).toHaveLength(1);
+    });
+  });
+
   describe("Automatic Backup Pruning", () => {
     it("should keep only maxBackups (50) backups per file", async () => {
       const manager = BackupManager.getInstance();
@@ -3,6 +3,10 @@ import {
   extractCriticalInfo,
   findMostCommonTool,
   detectStuckPattern,
+  truncateToolResults,
+  findRecentWindowStart,
+  groupToolCalls,
+  type CompactableMessage,
   type ToolResult,
   type StuckDetectionConfig
 } from '../../../src/agent/agent-utils';
@@ -259,4 +263,84 @@ describe('agent-utils', () => {
       expect(detection.reason).not.toBe('loop_detected');
     });
   });
+
+  describe('truncateToolResults', () => {
+    const countTokens = (text: string) => Math.ceil(text.length / 4);
+
+    it('should truncate only large tool results in range', () => {
+      const big = 'a'.repeat(400) + 'MIDDLE' + 'z'.repeat(400);
+      const messages: CompactableMessage[] = [
+        { role: 'tool', content: big },
+        { role: 'assistant', content: big },
+        { role: 'tool', content: 'small' },
+        { role: 'tool', content: big },
+      ];
+
+      const truncated = truncateToolResults(messages, 0, 3, 50, countTokens);
+
+      expect(truncated).toBe(1);
+      expect(messages[0].content).toContain('tool output truncated');
+      expect(messages[0].content).not.toContain('MIDDLE');
+      expect((messages[0].content as string).startsWith('aaaa')).toBe(true);
+      expect((messages[0].content as string).endsWith('zzzz')).toBe(true);
+      expect(messages[1].content).toBe(big);
+      expect(messages[2].content).toBe('small');
+      expect(messages[3].content).toBe(big);
+    });
+  });
+
+  describe('findRecentWindowStart', () => {
+    const cost = () => 10;
+
+    it('should keep messages within the token budget', () => {
+      const messages: CompactableMessage[] = Array.from({ length: 10 }, () => ({ role: 'user', content: 'x' }));
+      expect(findRecentWindowStart(messages, 2, 50, cost, 1)).toBe(5);
+    });
+
+    it('should keep at least minKeep messages', () => {
+      const messages: CompactableMessage[] = Array.from({ length: 10 }, () => ({ role: 'user', content: 'x' }));
+      expect(findRecentWindowStart(messages, 2, 0, cost, 3)).toBe(7);
+    });
+
+    it('should not separate tool results from their tool call', () => {
+      const messages: CompactableMessage[] = [
+        { role: 'user', content: 'a' },
+        { role: 'assistant', content: '', tool_calls: [{}] },
+        { role: 'tool', content: 'r1' },
+        { role: 'tool', content: 'r2' },
+        { role: 'assistant', content: 'done' },
+      ];
+      expect(findRecentWindowStart(messages, 0, 20, cost, 1)).toBe(1);
+    });
+
+    it('should never go below minIndex', () => {
+      const messages: CompactableMessage[] = Array.from({ length: 5 }, () => ({ role: 'user', content: 'x' }));
+      expect(findRecentWindowStart(messages, 2, 1000, cost)).toBe(2);
+    });
+  });
+
+  describe('groupToolCalls', () => {
+    const call = (name: string) => ({ id: name, function: { name } });
+    const names = (batches: { id: string }[][]) => batches.map((batch) => batch.map((c) => c.id));
+
+    it('should batch consecutive read-only tools and agent launches', () => {
+      const calls = [call('view_file'), call('search'), call('launch_agent')];
+      expect(names(groupToolCalls(calls))).toEqual([['view_file', 'search', 'launch_agent']]);
+    });
+
+    it('should run edits and commands alone, in call order', () => {
+      const calls = [call('view_file'), call('str_replace_editor'), call('search'), call('bash'), call('mcp__fs__read')];
+      expect(names(groupToolCalls(calls))).toEqual([
+        ['view_file'],
+        ['str_replace_editor'],
+        ['search'],
+        ['bash'],
+        ['mcp__fs__read'],
+      ]);
+    });
+
+    it('should return no batches for no calls', () => {
+      expect(groupToolCalls([])).toEqual([]);
+    });
+  });
 });
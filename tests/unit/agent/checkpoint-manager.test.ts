@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { CheckpointManager, getBranchSwitchStates } from '../../../src/agent/checkpoint-manager';
+import type { BackupManager } from '../../../src/utils/backup-manager';
+import type { ChatEntry } from '../../../src/agent/zai-agent';
+import type { ZaiMessage } from '../../../src/zai/client';
+
+/**
+ * In-memory stand-in for BackupManager
+ */
+function createBackupStore() {
+  const backups = new Map<number, { filePath: string; content: string }>();
+  let nextTimestamp = 1;
+  return {
+    backups,
+    async createBackup(filePath: string) {
+      const timestamp = nextTimestamp++;
+      backups.set(timestamp, { filePath, content: fs.readFileSync(filePath, 'utf-8') });
+      return { timestamp };
+    },
+    async restoreBackup(filePath: string, timestamp?: number) {
+      const backup = timestamp !== undefined ? backups.get(timestamp) : undefined;
+      if (!backup || backup.filePath !== filePath) {
+        return false;
+      }
+      fs.writeFileSync(filePath, backup.content);
+      return true;
+    },
+  };
+}
+
+function turn(prompt: string): [string, ZaiMessage, ChatEntry] {
+  return [prompt, { role: 'user', content: prompt }, { type: 'user', content: prompt, timestamp: new Date() }];
+}
+
+describe('CheckpointManager', () => {
+  let tempDir: string;
+  let store: ReturnType<typeof createBackupStore>;
+  let manager: CheckpointManager;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'zai-checkpoint-test-'));
+    store = createBackupStore();
+    manager = new CheckpointManager(store as unknown as BackupManager);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('numbers checkpoints and lists the files changed in each turn', async () => {
+    const file = path.join(tempDir, 'a.ts');
+    fs.writeFileSync(file, 'one');
+
+    manager.create(...turn('first'));
+    await manager.recordFiles([file]);
+    manager.create(...turn('second'));
+
+    const checkpoints = manager.list();
+    expect(checkpoints.map((c) => c.id)).toEqual([1, 2]);
+    expect(checkpoints[0].files).toEqual([file]);
+    expect(checkpoints[1].files).toEqual([]);
+  });
+
+  it('backs up a file only on its first change in a turn', async () => {
+    const file = path.join(tempDir, 'a.ts');
+    fs.writeFileSync(file, 'one');
+
+    manager.create(...turn('edit twice'));
+    await manager.recordFiles([file]);
+    fs.writeFileSync(file, 'two');
+    await manager.recordFiles([file]);
+
+    expect(store.backups.size).toBe(1);
+  });
+
+  it('ignores changes made before the first checkpoint', async () => {
+    const file = path.join(tempDir, 'a.ts');
+    fs.writeFileSync(file, 'one');
+
+    await manager.recordFiles([file]);
+
+    expect(store.backups.size).toBe(0);
+    expect(manager.list()).toEqual([]);
+  });
+
+  it('restores files to their state at the checkpoint across later turns', async () => {
+    const file = path.join(tempDir, 'a.ts');
+    fs.writeFileSync(file, 'original');
+
+    manager.create(...turn('first'));
+    await manager.recordFiles([file]);
+    fs.writeFileSync(file, 'after first');
+
+    manager.create(...turn('second'));
+    await manager.recordFiles([file]);
+    fs.writeFileSync(file, 'after second');
+
+    const result = await manager.restoreFiles(1);
+
+    expect(result).toEqual({ restored: [file], deleted: [], failed: [] });
+    expect(fs.readFileSync(file, 'utf-8')).toBe('original');
+    expect(manager.list()).toEqual([]);
+  });
+
+  it('keeps earlier checkpoints when rewinding a later one', async () => {
+    const file = path.join(tempDir, 'a.ts');
+    fs.writeFileSync(file, 'original');
+
+    manager.create(...turn('first'));
+    await manager.recordFiles([file]);
+    fs.writeFileSync(file, 'after first');
+
+    manager.create(...turn('second'));
+    await manager.recordFiles([file]);
+    fs.writeFileSync(file, 'after second');
+
+    await manager.restoreFiles(2);
+
+    expect(fs.readFileSync(file, 'utf-8')).toBe('after first');
+    expect(manager.list().map((c) => c.id)).toEqual([1]);
+  });
+
+  it('deletes files created after the checkpoint', async () => {
+    const file = path.join(tempDir, 'new.ts');
+
+    manager.create(...turn('create a file'));
+    await manager.recordFiles([file]);
+    fs.writeFileSync(file, 'created');
+
+    const result = await manager.restoreFiles(1);
+
+    expect(result?.deleted).toEqual([file]);
+    expect(fs.existsSync(file)).toBe(false);
+  });
+
+  it('reports files whose backup is missing', async () => {
+    const file = path.join(tempDir, 'a.ts');
+    fs.writeFileSync(file, 'original');
+
+    manager.create(...turn('first'));
+    await manager.recordFiles([file]);
+    store.backups.clear();
+
+    const result = await manager.restoreFiles(1);
+
+    expect(result?.failed).toEqual([file]);
+  });
+
+  it('returns the conversation markers of a checkpoint', () => {
+    const [prompt, message, entry] = turn('first');
+    manager.create(prompt, message, entry);
+
+    const position = manager.getPosition(1);
+    expect(position?.userMessage).toBe(message);
+    expect(position?.userEntry).toBe(entry);
+    expect(manager.getPosition(99)).toBeNull();
+  });
+
+  it('returns null when rewinding an unknown checkpoint', async () => {
+    expect(await manager.restoreFiles(42)).toBeNull();
+  });
+
+  it('snapshots and restores file states for switching branches', async () => {
+    const file = path.join(tempDir, 'a.ts');
+    const created = path.join(tempDir, 'new.ts');
+    fs.writeFileSync(file, 'branch one');
+
+    const states = await manager.snapshotFiles([file, created]);
+    fs.writeFileSync(file, 'branch two');
+    fs.writeFileSync(created, 'only in branch two');
+
+    const result = await manager.restoreStates(states);
+
+    expect(result).toEqual({ restored: [file], deleted: [created], failed: [] });
+    expect(fs.readFileSync(file, 'utf-8')).toBe('branch one');
+    expect(fs.existsSync(created)).toBe(false);
+    expect(manager.getTouchedFiles().sort()).toEqual([file, created].sort());
+  });
+
+  it('remembers touched files after the checkpoints are cleared', async () => {
+    const file = path.join(tempDir, 'a.ts');
+    manager.create(...turn('first'));
+    await manager.recordFiles([file]);
+
+    manager.clear();
+
+    expect(manager.list()).toEqual([]);
+    expect(manager.getTouchedFiles()).toEqual([file]);
+  });
+});
+
+describe('getBranchSwitchStates', () => {
+  it('moves files to the target head and undoes files only the current branch changed', () => {
+    const current = {
+      base: [
+        { path: '/a.ts', existed: true, backupTimestamp: 1 },
+        { path: '/b.ts', existed: false },
+      ],
+      head: [],
+    };
+    const target = { base: [], head: [{ path: '/a.ts', existed: true, backupTimestamp: 2 }] };
+
+    expect(getBranchSwitchStates(current, target)).toEqual([
+      { path: '/a.ts', existed: true, backupTimestamp: 2 },
+      { path: '/b.ts', existed: false },
+    ]);
+  });
+
+  it('does nothing when neither branch recorded files', () => {
+    expect(getBranchSwitchStates(undefined, undefined)).toEqual([]);
+  });
+});
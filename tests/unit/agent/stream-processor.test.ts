@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { StreamProcessor, type ProcessorDelta, type StreamChunk } from '../../../src/agent/stream-processor';
+
+async function* fromChunks(chunks: StreamChunk[]) {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+}
+
+async function collect(processor: StreamProcessor, chunks: StreamChunk[]) {
+  const deltas: ProcessorDelta[] = [];
+  const iterator = processor.iterate(fromChunks(chunks));
+  let next = await iterator.next();
+  while (!next.done) {
+    deltas.push(next.value);
+    next = await iterator.next();
+  }
+  return { deltas, result: next.value };
+}
+
+describe('StreamProcessor', () => {
+  describe('iterate', () => {
+    it('should yield content deltas as they arrive', async () => {
+      const { deltas, result } = await collect(new StreamProcessor(), [
+        { choices: [{ delta: { reasoning_content: 'hmm' } }] },
+        { choices: [{ delta: { content: 'Hello' } }] },
+        { choices: [{ delta: { content: ' world' }, finish_reason: 'stop' }] },
+      ]);
+
+      expect(deltas).toEqual([
+        { type: 'thinking', content: 'hmm' },
+        { type: 'content', content: 'Hello' },
+        { type: 'content', content: ' world' },
+      ]);
+      expect(result.content).toBe('Hello world');
+      expect(result.thinking).toBe('hmm');
+      expect(result.finishReason).toBe('stop');
+    });
+
+    it('should signal the first tool call once', async () => {
+      const processor = new StreamProcessor();
+      const { deltas, result } = await collect(processor, [
+        { choices: [{ delta: { content: 'Let me check' } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'view_file', arguments: '{"pa' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'th":"a"}' } }] }, finish_reason: 'tool_calls' }] },
+      ]);
+
+      expect(deltas.filter(d => d.type === 'tool_call_start')).toHaveLength(1);
+      expect(deltas[deltas.length - 1].type).toBe('tool_call_start');
+      expect(result.toolCalls[0].function.arguments).toBe('{"path":"a"}');
+      expect(processor.hasToolCalls(result)).toBe(true);
+    });
+
+    it('should discard a dropped attempt when the stream restarts', async () => {
+      const { deltas, result } = await collect(new StreamProcessor(), [
+        { choices: [{ delta: { content: 'Half an ans' } }] },
+        { restart: true, choices: [] },
+        { choices: [{ delta: { content: 'Full answer' }, finish_reason: 'stop' }] },
+      ]);
+
+      expect(deltas.map((d) => d.type)).toEqual(['content', 'restart', 'content']);
+      expect(result.content).toBe('Full answer');
+    });
+  });
+
+  describe('process', () => {
+    it('should return the same result as iterate', async () => {
+      const result = await new StreamProcessor().process(fromChunks([
+        { choices: [{ delta: { content: 'Done' }, finish_reason: 'stop' }] },
+      ]));
+
+      expect(result.content).toBe('Done');
+      expect(result.toolCalls).toEqual([]);
+    });
+  });
+});
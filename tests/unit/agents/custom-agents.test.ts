@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getAgentCapabilities, loadCustomAgents, parseCustomAgent } from '../../../src/agents/custom-agents';
+import { AGENT_CAPABILITIES } from '../../../src/agents/agent-types';
+
+describe('custom-agents', () => {
+  describe('parseCustomAgent', () => {
+    it('should read name, description, tools, model and maxRounds', () => {
+      const agent = parseCustomAgent(
+        'migrations',
+        '---\nname: migration-writer\ndescription: Writes database migrations\ntools: [view_file, create_file]\nmodel: glm-4.6\nmaxRounds: 15\n---\n\nYou write reversible migrations.\n',
+        'project',
+        '/p/.zai/agents/migrations.md'
+      );
+
+      expect(agent).toEqual({
+        type: 'migration-writer',
+        capability: {
+          name: 'migration-writer',
+          description: 'Writes database migrations',
+          tools: ['view_file', 'create_file'],
+          model: 'glm-4.6',
+          systemPrompt: 'You write reversible migrations.',
+          maxRounds: 15,
+          source: 'project',
+          filePath: '/p/.zai/agents/migrations.md',
+        },
+        override: false,
+      });
+    });
+
+    it('should default the type to the file name and the tools to read-only ones', () => {
+      const agent = parseCustomAgent('api-contract-checker', 'Check the API contract.', 'user', '/h/a.md');
+
+      expect(agent?.type).toBe('api-contract-checker');
+      expect(agent?.capability.tools).toEqual(['view_file', 'search']);
+      expect(agent?.capability.maxRounds).toBeUndefined();
+    });
+
+    it('should reject names that are not valid agent types', () => {
+      expect(parseCustomAgent('x', '---\nname: has spaces\n---\nPrompt', 'project', '/p/x.md')).toBeNull();
+    });
+  });
+
+  describe('loading', () => {
+    let root: string;
+    let project: string;
+    let home: string;
+
+    const write = (dir: string, file: string, content: string) => {
+      fs.mkdirSync(path.join(dir, '.zai', 'agents'), { recursive: true });
+      fs.writeFileSync(path.join(dir, '.zai', 'agents', file), content);
+    };
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'zai-agents-'));
+      project = path.join(root, 'project');
+      home = path.join(root, 'home');
+    });
+
+    afterEach(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should load user and project agents, project overriding user', () => {
+      write(home, 'migration-writer.md', 'User prompt');
+      write(home, 'standup.md', 'Write my standup');
+      write(project, 'migration-writer.md', 'Project prompt');
+      write(project, 'notes.txt', 'ignored');
+
+      const agents = Object.fromEntries(loadCustomAgents(project, home).map((a) => [a.type, a.capability]));
+
+      expect(Object.keys(agents).sort()).toEqual(['migration-writer', 'standup']);
+      expect(agents['migration-writer']).toMatchObject({ systemPrompt: 'Project prompt', source: 'project' });
+      expect(agents.standup.source).toBe('user');
+    });
+
+    it('should merge custom agents with the built-in ones', () => {
+      write(project, 'migration-writer.md', 'Write migrations');
+
+      const capabilities = getAgentCapabilities(project, home);
+
+      expect(capabilities['migration-writer'].systemPrompt).toBe('Write migrations');
+      expect(capabilities['code-reviewer']).toBe(AGENT_CAPABILITIES['code-reviewer']);
+    });
+
+    it('should only replace built-in agents that opt in, with a warning', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      write(project, 'explore.md', 'Explore and fix things');
+      write(project, 'plan.md', '---\noverride: true\n---\nPlan in detail');
+
+      const capabilities = getAgentCapabilities(project, home);
+      const warnings = warn.mock.calls.map(([message]) => message);
+      warn.mockRestore();
+
+      expect(capabilities.explore).toBe(AGENT_CAPABILITIES.explore);
+      expect(capabilities.plan.systemPrompt).toBe('Plan in detail');
+      expect(warnings).toEqual([
+        expect.stringContaining('explore is a built-in agent'),
+        expect.stringContaining('replaces the built-in plan agent'),
+      ]);
+    });
+
+    it('should return only built-in agents when no agent directories exist', () => {
+      expect(loadCustomAgents(project, home)).toEqual([]);
+      expect(Object.keys(getAgentCapabilities(project, home))).toEqual(Object.keys(AGENT_CAPABILITIES));
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect } from 'vitest';
+import { EventEmitter } from 'events';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ChatEntry } from '../../../src/agent/zai-agent';
+import type { ZaiToolCall } from '../../../src/zai/client';
+import type { AgentTask } from '../../../src/agents/agent-types';
+import { getTaskOrchestrator } from '../../../src/agents/task-orchestrator';
+
+const toolCall: ZaiToolCall = { id: 'call-1', type: 'function', function: { name: 'view_file', arguments: '{"path":"a.ts"}' } };
+
+/**
+ * Stands in for a ZaiAgent: emits entries the way processUserMessage does
+ */
+class FakeAgent extends EventEmitter {
+  disposed = false;
+
+  constructor(private fail = false) {
+    super();
+  }
+
+  async processUserMessage(prompt: string): Promise<ChatEntry[]> {
+    const entries: ChatEntry[] = [];
+    const add = (entry: ChatEntry) => {
+      entries.push(entry);
+      this.emit('entry', entry);
+    };
+
+    add({ type: 'user', content: prompt, timestamp: new Date() });
+    add({ type: 'tool_call', content: 'Executing...', timestamp: new Date(), toolCall });
+    const result: ChatEntry = {
+      type: 'tool_result',
+      content: 'file contents',
+      timestamp: new Date(),
+      toolCall,
+      toolResult: { success: true, output: 'file contents' },
+    };
+    entries[1] = result;
+    this.emit('entry', result);
+    if (this.fail) {
+      throw new Error('model unavailable');
+    }
+    add({ type: 'assistant', content: 'Done', timestamp: new Date() });
+    return entries;
+  }
+
+  dispose(): void {
+    this.disposed = true;
+  }
+}
+
+/**
+ * Keeps calling the model (each call costing 1,000 tokens) until it is aborted
+ */
+class BusyAgent extends EventEmitter {
+  calls = 0;
+
+  async processUserMessage(prompt: string, signal?: AbortSignal): Promise<ChatEntry[]> {
+    this.emit('entry', { type: 'user', content: prompt, timestamp: new Date() });
+    while (!signal?.aborted) {
+      this.calls++;
+      this.emit('entry', {
+        type: 'assistant',
+        content: `Step ${this.calls}`,
+        timestamp: new Date(),
+        usage: { inputTokens: 900, outputTokens: 100 },
+      });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    return [];
+  }
+
+  dispose(): void {}
+}
+
+/**
+ * Rewrites a.ts in the directory it is rooted in, like an agent in a worktree
+ */
+class EditingAgent extends EventEmitter {
+  constructor(private workingDirectory: string) {
+    super();
+  }
+
+  async processUserMessage(): Promise<ChatEntry[]> {
+    fs.writeFileSync(path.join(this.workingDirectory, 'a.ts'), 'agent\n');
+    return [{ type: 'assistant', content: 'Edited a.ts', timestamp: new Date() }];
+  }
+
+  dispose(): void {}
+}
+
+describe('TaskOrchestrator', () => {
+  it('records the sub-agent transcript as it runs', async () => {
+    const orchestrator = getTaskOrchestrator();
+    const task = orchestrator.createTask('general-purpose', 'Read a file', 'Read a.ts', undefined, 'parent-call');
+    const agent = new FakeAgent();
+    const progress: string[] = [];
+    const onProgress = (updated: AgentTask, entry: ChatEntry) => {
+      if (updated.id === task.id) progress.push(entry.type);
+    };
+    orchestrator.on('task:progress', onProgress);
+
+    const result = await orchestrator.executeTask(task.id, () => agent);
+    orchestrator.off('task:progress', onProgress);
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBe('Done');
+    expect(progress).toEqual(['user', 'tool_call', 'tool_result', 'assistant']);
+    expect(task.transcript?.map((entry) => entry.type)).toEqual(['user', 'tool_result', 'assistant']);
+    expect(orchestrator.findTaskByToolCall('parent-call')).toBe(task);
+    expect(agent.disposed).toBe(true);
+    expect(agent.listenerCount('entry')).toBe(0);
+  });
+
+  it('keeps the transcript of a failed task', async () => {
+    const orchestrator = getTaskOrchestrator();
+    const task = orchestrator.createTask('general-purpose', 'Read a file', 'Read a.ts');
+
+    const result = await orchestrator.executeTask(task.id, () => new FakeAgent(true));
+
+    expect(result.success).toBe(false);
+    expect(task.status).toBe('failed');
+    expect(task.transcript?.map((entry) => entry.type)).toEqual(['user', 'tool_result']);
+  });
+
+  it('cancels a running task', async () => {
+    const orchestrator = getTaskOrchestrator();
+    const task = orchestrator.createTask('general-purpose', 'Loop', 'Loop forever');
+    const cancelled: string[] = [];
+    const onCancelled = (t: AgentTask) => cancelled.push(t.id);
+    orchestrator.on('task:cancelled', onCancelled);
+
+    const running = orchestrator.executeTask(task.id, () => new BusyAgent());
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(orchestrator.cancelTask(task.id)).toBe(true);
+    const result = await running;
+    orchestrator.off('task:cancelled', onCancelled);
+
+    expect(result.success).toBe(false);
+    expect(result.metadata?.stopReason).toBe('cancelled');
+    expect(task.error).toContain('was cancelled by user');
+    expect(cancelled).toEqual([task.id]);
+  });
+
+  it('stops a task when the signal from its parent aborts', async () => {
+    const orchestrator = getTaskOrchestrator();
+    const task = orchestrator.createTask('general-purpose', 'Loop', 'Loop forever');
+    const parent = new AbortController();
+
+    const running = orchestrator.executeTask(task.id, () => new BusyAgent(), undefined, parent.signal);
+    parent.abort();
+
+    expect((await running).metadata?.stopReason).toBe('cancelled');
+  });
+
+  it('stops a task at its wall-clock limit', async () => {
+    const orchestrator = getTaskOrchestrator();
+    const task = orchestrator.createTask('general-purpose', 'Loop', 'Loop forever');
+
+    const result = await orchestrator.executeTask(task.id, () => new BusyAgent(), { timeoutMs: 30 });
+
+    expect(result.metadata?.stopReason).toBe('timeout');
+    expect(task.status).toBe('failed');
+  });
+
+  it('stops a task once it exceeds its token limit', async () => {
+    const orchestrator = getTaskOrchestrator();
+    const task = orchestrator.createTask('general-purpose', 'Loop', 'Loop forever');
+    const agent = new BusyAgent();
+
+    const result = await orchestrator.executeTask(task.id, () => agent, { maxTokens: 2500 });
+
+    expect(result.metadata?.stopReason).toBe('token_limit');
+    expect(agent.calls).toBe(3);
+    expect(task.tokensUsed).toBe(3000);
+  });
+
+  it('keeps an isolated task branch until its conflicts are reviewed', async () => {
+    const repo = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'zai-orchestrator-test-')));
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf-8' });
+    git('init', '-q');
+    git('config', 'user.name', 'Test');
+    git('config', 'user.email', 'test@example.com');
+    fs.writeFileSync(path.join(repo, 'a.ts'), 'base\n');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'initial');
+    const cwd = process.cwd();
+    process.chdir(repo);
+
+    try {
+      const orchestrator = getTaskOrchestrator();
+      const task = orchestrator.createTask('general-purpose', 'Edit', 'Edit a.ts');
+      const result = await orchestrator.executeTask(
+        task.id,
+        (workingDirectory) => new EditingAgent(workingDirectory!),
+        { isolation: 'worktree' }
+      );
+      fs.writeFileSync(path.join(repo, 'a.ts'), 'user\n');
+
+      const merge = await orchestrator.applyTaskChanges(task.id);
+      expect(merge.conflicts).toHaveLength(1);
+      expect(task.worktree?.branch).toBe(result.metadata?.branch);
+      expect(git('branch', '--list', result.metadata?.branch)).toContain(result.metadata?.branch);
+
+      await orchestrator.discardTaskChanges(task.id);
+      expect(task.worktree).toBeUndefined();
+      expect(git('branch', '--list', result.metadata?.branch).trim()).toBe('');
+    } finally {
+      process.chdir(cwd);
+      fs.rmSync(repo, { recursive: true, force: true });
+    }
+  });
+
+  it('does not start a queued task that is cancelled', async () => {
+    const orchestrator = getTaskOrchestrator();
+    orchestrator.setMaxParallelTasks(1);
+    const first = orchestrator.createTask('general-purpose', 'Loop', 'Loop forever');
+    const queued = orchestrator.createTask('general-purpose', 'Queued', 'Never runs');
+    const queuedAgent = new BusyAgent();
+
+    const running = orchestrator.executeTask(first.id, () => new BusyAgent());
+    const waiting = orchestrator.executeTask(queued.id, () => queuedAgent);
+    orchestrator.cancelTask(queued.id);
+    orchestrator.cancelTask(first.id);
+
+    expect((await waiting).metadata?.stopReason).toBe('cancelled');
+    await running;
+    expect(queued.startedAt).toBeUndefined();
+    expect(queuedAgent.calls).toBe(0);
+    orchestrator.setMaxParallelTasks(3);
+  });
+});
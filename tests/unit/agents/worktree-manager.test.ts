@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { WorktreeManager, writeMergedFile } from '../../../src/agents/worktree-manager';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8' });
+}
+
+describe('WorktreeManager', () => {
+  let tempDir: string;
+  let repo: string;
+  let manager: WorktreeManager;
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'zai-worktree-test-')));
+    repo = path.join(tempDir, 'repo');
+    fs.mkdirSync(repo);
+    git(repo, 'init', '-q');
+    git(repo, 'config', 'user.name', 'Test');
+    git(repo, 'config', 'user.email', 'test@example.com');
+    fs.writeFileSync(path.join(repo, 'a.ts'), 'one\ntwo\nthree\n');
+    fs.writeFileSync(path.join(repo, 'b.ts'), 'keep\n');
+    git(repo, 'add', '-A');
+    git(repo, 'commit', '-q', '-m', 'initial');
+    manager = new WorktreeManager(path.join(tempDir, 'worktrees'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('checks out a separate worktree on a task branch', async () => {
+    const worktree = await manager.create('12345678-abcd', repo);
+
+    expect(worktree.branch).toBe('zai/task-12345678');
+    expect(worktree.repoRoot).toBe(repo);
+    expect(fs.readFileSync(path.join(worktree.path, 'a.ts'), 'utf-8')).toBe('one\ntwo\nthree\n');
+
+    fs.writeFileSync(path.join(worktree.path, 'a.ts'), 'changed\n');
+    expect(fs.readFileSync(path.join(repo, 'a.ts'), 'utf-8')).toBe('one\ntwo\nthree\n');
+  });
+
+  it('fails outside a git repository', async () => {
+    const plain = path.join(tempDir, 'plain');
+    fs.mkdirSync(plain);
+
+    await expect(manager.create('task', plain)).rejects.toThrow('not inside a git repository');
+  });
+
+  it('commits the task work to its branch and removes the worktree', async () => {
+    const worktree = await manager.create('task-1', repo);
+    fs.writeFileSync(path.join(worktree.path, 'a.ts'), 'one\nTWO\nthree\n');
+    fs.writeFileSync(path.join(worktree.path, 'new.ts'), 'created\n');
+
+    const changes = await manager.finish(worktree);
+
+    expect(changes?.files.sort()).toEqual(['a.ts', 'new.ts']);
+    expect(changes?.diff).toContain('+TWO');
+    expect(fs.existsSync(worktree.path)).toBe(false);
+    expect(git(repo, 'branch', '--list', worktree.branch)).toContain(worktree.branch);
+  });
+
+  it('deletes the branch when the task changed nothing', async () => {
+    const worktree = await manager.create('task-2', repo);
+
+    expect(await manager.finish(worktree)).toBeNull();
+    expect(git(repo, 'branch', '--list', worktree.branch).trim()).toBe('');
+  });
+
+  it('merges task changes while keeping uncommitted parent edits', async () => {
+    const worktree = await manager.create('task-3', repo);
+    fs.writeFileSync(path.join(worktree.path, 'a.ts'), 'one\ntwo\nthree\nfour\n');
+    fs.rmSync(path.join(worktree.path, 'b.ts'));
+    const changes = (await manager.finish(worktree))!;
+
+    fs.writeFileSync(path.join(repo, 'a.ts'), 'zero\none\ntwo\nthree\n');
+    const result = await manager.merge(changes);
+
+    expect(result.applied).toEqual([path.join(repo, 'a.ts')]);
+    expect(result.deleted).toEqual([path.join(repo, 'b.ts')]);
+    expect(result.conflicts).toEqual([]);
+    expect(fs.readFileSync(path.join(repo, 'a.ts'), 'utf-8')).toBe('zero\none\ntwo\nthree\nfour\n');
+    expect(fs.existsSync(path.join(repo, 'b.ts'))).toBe(false);
+  });
+
+  it('returns conflicting files without touching them', async () => {
+    const worktree = await manager.create('task-4', repo);
+    fs.writeFileSync(path.join(worktree.path, 'a.ts'), 'one\nagent\nthree\n');
+    const changes = (await manager.finish(worktree))!;
+
+    fs.writeFileSync(path.join(repo, 'a.ts'), 'one\nuser\nthree\n');
+    const result = await manager.merge(changes);
+
+    expect(result.applied).toEqual([]);
+    expect(result.conflicts).toHaveLength(1);
+    const [conflict] = result.conflicts;
+    expect(conflict.current).toBe('one\nuser\nthree\n');
+    expect(conflict.merged).toContain('<<<<<<< current');
+    expect(conflict.merged).toContain('>>>>>>> zai/task-task-4');
+    expect(fs.readFileSync(path.join(repo, 'a.ts'), 'utf-8')).toBe('one\nuser\nthree\n');
+
+    writeMergedFile(conflict);
+    expect(fs.readFileSync(path.join(repo, 'a.ts'), 'utf-8')).toBe(conflict.merged);
+  });
+
+  it('copies binary files whole and reports binary files both sides changed', async () => {
+    const image = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0xfe, 0x0a, 0x80]);
+    fs.writeFileSync(path.join(repo, 'logo.png'), image);
+    fs.writeFileSync(path.join(repo, 'icon.png'), image);
+    git(repo, 'add', '-A');
+    git(repo, 'commit', '-q', '-m', 'images');
+    const worktree = await manager.create('task-6', repo);
+    const taskImage = Buffer.from([0x00, 0xc3, 0x28, 0xa0, 0xa1, 0xff]);
+    fs.writeFileSync(path.join(worktree.path, 'logo.png'), taskImage);
+    fs.writeFileSync(path.join(worktree.path, 'icon.png'), taskImage);
+    const changes = (await manager.finish(worktree))!;
+
+    fs.writeFileSync(path.join(repo, 'icon.png'), Buffer.from([0x00, 0x01]));
+    const result = await manager.merge(changes);
+
+    expect(result.applied).toEqual([path.join(repo, 'logo.png')]);
+    expect(fs.readFileSync(path.join(repo, 'logo.png')).equals(taskImage)).toBe(true);
+    expect(result.conflicts.map((conflict) => conflict.path)).toEqual([path.join(repo, 'icon.png')]);
+    expect(Buffer.isBuffer(result.conflicts[0].merged)).toBe(true);
+  });
+
+  it('applies mode changes the task made', async () => {
+    const worktree = await manager.create('task-7', repo);
+    fs.chmodSync(path.join(worktree.path, 'b.ts'), 0o755);
+    fs.writeFileSync(path.join(worktree.path, 'run.sh'), '#!/bin/sh\n', { mode: 0o755 });
+    const changes = (await manager.finish(worktree))!;
+
+    const result = await manager.merge(changes);
+
+    expect(result.applied.sort()).toEqual([path.join(repo, 'b.ts'), path.join(repo, 'run.sh')]);
+    expect(fs.statSync(path.join(repo, 'b.ts')).mode & 0o777).toBe(0o755);
+    expect(fs.statSync(path.join(repo, 'run.sh')).mode & 0o777).toBe(0o755);
+    expect(fs.readFileSync(path.join(repo, 'b.ts'), 'utf-8')).toBe('keep\n');
+  });
+
+  it('discards a task branch', async () => {
+    const worktree = await manager.create('task-5', repo);
+    fs.writeFileSync(path.join(worktree.path, 'a.ts'), 'changed\n');
+    const changes = (await manager.finish(worktree))!;
+
+    await manager.discard(changes);
+
+    expect(git(repo, 'branch', '--list', changes.branch).trim()).toBe('');
+  });
+});
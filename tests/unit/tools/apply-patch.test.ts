@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApplyPatchTool } from '../../../src/tools/apply-patch';
+import { ConfirmationService } from '../../../src/utils/confirmation-service';
+import type { FileChange } from '../../../src/utils/diff-generator';
+
+describe('ApplyPatchTool', () => {
+  let dir: string;
+  const file = (name: string) => path.join(dir, name);
+  const confirmationService = ConfirmationService.getInstance();
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zai-patch-'));
+    fs.writeFileSync(file('keep.ts'), 'export const a = 1;\nexport const b = 2;\n');
+    fs.writeFileSync(file('old.ts'), 'unused\n');
+    fs.writeFileSync(file('broken.ts'), 'export const c = 3;\n');
+  });
+
+  afterEach(() => {
+    confirmationService.removeAllListeners('confirmation-requested');
+    confirmationService.resetSession();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const patch = [
+    '*** Begin Patch',
+    '*** Update File: keep.ts',
+    '*** Move to: lib/kept.ts',
+    ' export const a = 1;',
+    '-export const b = 2;',
+    '+export const b = 20;',
+    '*** Add File: added.ts',
+    '+export const d = 4;',
+    '*** Delete File: old.ts',
+    '*** Update File: broken.ts',
+    '-export const c = 30;',
+    '+export const c = 300;',
+    '*** End Patch',
+  ].join('\n');
+
+  it('should apply the files that fit and report the ones that do not', async () => {
+    confirmationService.setSessionFlag('allOperations', true);
+
+    const result = await new ApplyPatchTool(dir).apply(patch);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Applied patch to 3 files');
+    expect(result.error).toContain('broken.ts: 1 of 1 hunks failed, file left unchanged');
+    expect(fs.readFileSync(file('lib/kept.ts'), 'utf-8')).toBe('export const a = 1;\nexport const b = 20;\n');
+    expect(fs.existsSync(file('keep.ts'))).toBe(false);
+    expect(fs.readFileSync(file('added.ts'), 'utf-8')).toBe('export const d = 4;\n');
+    expect(fs.existsSync(file('old.ts'))).toBe(false);
+    expect(fs.readFileSync(file('broken.ts'), 'utf-8')).toBe('export const c = 3;\n');
+    expect(result.metadata?.files).toEqual([file('keep.ts'), file('lib/kept.ts'), file('added.ts'), file('old.ts')]);
+  });
+
+  it('should offer every file in one review and write only the accepted ones', async () => {
+    confirmationService.on('confirmation-requested', (options) => {
+      expect(options.changes.map((change: FileChange) => change.filePath)).toEqual([path.join('lib', 'kept.ts'), 'added.ts', 'old.ts']);
+      confirmationService.confirmFiles(['added.ts']);
+    });
+
+    const result = await new ApplyPatchTool(dir).apply(patch);
+
+    expect(result.error).toContain('Rejected by user:\n  lib/kept.ts\n  old.ts');
+    expect(fs.existsSync(file('added.ts'))).toBe(true);
+    expect(fs.existsSync(file('keep.ts'))).toBe(true);
+    expect(fs.existsSync(file('old.ts'))).toBe(true);
+  });
+
+  it('should plan each section against the files earlier sections leave behind', async () => {
+    confirmationService.setSessionFlag('allOperations', true);
+
+    const result = await new ApplyPatchTool(dir).apply([
+      '*** Begin Patch',
+      '*** Delete File: old.ts',
+      '*** Update File: keep.ts',
+      '*** Move to: old.ts',
+      ' export const a = 1;',
+      '*** Update File: broken.ts',
+      '*** Move to: added.ts',
+      ' export const c = 3;',
+      '*** Add File: added.ts',
+      '+export const d = 4;',
+      '*** End Patch',
+    ].join('\n'));
+
+    expect(result.error).toContain('Applied patch to 3 files');
+    expect(result.error).toContain('added.ts: already exists');
+    expect(fs.readFileSync(file('old.ts'), 'utf-8')).toBe('export const a = 1;\nexport const b = 2;\n');
+    expect(fs.existsSync(file('keep.ts'))).toBe(false);
+    expect(fs.readFileSync(file('added.ts'), 'utf-8')).toBe('export const c = 3;\n');
+  });
+});
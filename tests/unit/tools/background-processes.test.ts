@@ -0,0 +1,50 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { BackgroundProcessManager } from '../../../src/tools/background-processes';
+
+const waitFor = async (condition: () => boolean, timeoutMs = 5000) => {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+};
+
+describe('BackgroundProcessManager', () => {
+  const manager = new BackgroundProcessManager();
+
+  afterEach(() => {
+    manager.killAll();
+  });
+
+  it('should capture output incrementally', async () => {
+    const info = manager.start('echo first; sleep 0.2; echo second >&2', process.cwd());
+    expect(info.id).toMatch(/^bg-\d+$/);
+    expect(info.status).toBe('running');
+
+    await waitFor(() => manager.get(info.id)!.status === 'exited');
+
+    const output = manager.readOutput(info.id)!;
+    expect(output.stdout).toBe('first\n');
+    expect(output.stderr).toBe('second\n');
+    expect(manager.get(info.id)!.exitCode).toBe(0);
+
+    // Already-read output is not returned again
+    const again = manager.readOutput(info.id)!;
+    expect(again.stdout).toBe('');
+    expect(again.stderr).toBe('');
+  });
+
+  it('should kill running processes', async () => {
+    const info = manager.start('sleep 30', process.cwd());
+    expect(manager.getRunningCount()).toBeGreaterThan(0);
+
+    expect(manager.kill(info.id)).toBe(true);
+    expect(manager.get(info.id)!.status).toBe('killed');
+    expect(manager.kill(info.id)).toBe(false);
+  });
+
+  it('should return null for unknown ids', () => {
+    expect(manager.readOutput('bg-999')).toBeNull();
+    expect(manager.get('bg-999')).toBeNull();
+  });
+});
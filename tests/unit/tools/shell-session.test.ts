@@ -0,0 +1,60 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as os from 'os';
+import * as fs from 'fs';
+import { ShellSession, ShellTimeoutError, ShellExitedError } from '../../../src/tools/shell-session';
+
+describe('ShellSession', () => {
+  let session: ShellSession;
+
+  afterEach(() => {
+    session?.dispose();
+  });
+
+  it('should return output and exit codes', async () => {
+    session = new ShellSession(os.tmpdir());
+    const ok = await session.run('echo hello; echo oops >&2');
+    expect(ok).toMatchObject({ stdout: 'hello\n', stderr: 'oops\n', exitCode: 0 });
+
+    const failed = await session.run('false');
+    expect(failed.exitCode).toBe(1);
+  });
+
+  it('should keep environment variables and cwd between commands', async () => {
+    const dir = fs.realpathSync(os.tmpdir());
+    session = new ShellSession(process.cwd());
+
+    await session.run('export ZAI_TEST_VAR=persisted');
+    await session.run(`cd ${dir}`);
+    const result = await session.run('echo "$ZAI_TEST_VAR"; pwd');
+
+    expect(result.stdout).toBe(`persisted\n${dir}\n`);
+    expect(result.cwd).toBe(dir);
+  });
+
+  it('should survive syntax errors and commands reading stdin', async () => {
+    session = new ShellSession(os.tmpdir());
+    const syntax = await session.run('if then');
+    expect(syntax.exitCode).not.toBe(0);
+
+    await session.run('cat');
+    const after = await session.run('echo still-alive');
+    expect(after.stdout).toBe('still-alive\n');
+  });
+
+  it('should time out and restart the shell', async () => {
+    session = new ShellSession(os.tmpdir());
+    await session.run('export ZAI_TEST_VAR=lost');
+    await expect(session.run('sleep 5', 200)).rejects.toBeInstanceOf(ShellTimeoutError);
+
+    const result = await session.run('echo "[$ZAI_TEST_VAR]"');
+    expect(result.stdout).toBe('[]\n');
+  });
+
+  it('should recover when the shell exits', async () => {
+    session = new ShellSession(os.tmpdir());
+    await expect(session.run('exit 3')).rejects.toBeInstanceOf(ShellExitedError);
+
+    const result = await session.run('echo back');
+    expect(result.stdout).toBe('back\n');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { isSourceFile, renameSymbol } from '../../../src/tools/symbol-rename';
+
+describe('renameSymbol', () => {
+  let dir: string;
+  const file = (name: string) => path.join(dir, name);
+  const write = (name: string, content: string) => fs.writeFileSync(file(name), content);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zai-rename-'));
+    write('tsconfig.json', JSON.stringify({ compilerOptions: { strict: true }, include: ['*.ts'] }));
+    write('math.ts', [
+      '// total adds two numbers',
+      'export function total(a: number, b: number) {',
+      '  return a + b;',
+      '}',
+      'export const label = "total";',
+    ].join('\n'));
+    write('index.ts', [
+      "import { total } from './math';",
+      "export { total as sum } from './math';",
+      'const order = { total: 3 };',
+      'console.log(total(1, 2), order.total);',
+    ].join('\n'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should rename references, imports and re-exports but not comments, strings or other symbols', () => {
+    const contents = renameSymbol({ rootDir: dir, files: [file('math.ts')], oldName: 'total', newName: 'add' });
+
+    expect([...contents.keys()].sort()).toEqual([file('index.ts'), file('math.ts')]);
+    expect(contents.get(file('math.ts'))).toContain('// total adds two numbers');
+    expect(contents.get(file('math.ts'))).toContain('export function add(');
+    expect(contents.get(file('math.ts'))).toContain('"total"');
+    expect(contents.get(file('index.ts'))).toBe([
+      "import { add } from './math';",
+      "export { add as sum } from './math';",
+      'const order = { total: 3 };',
+      'console.log(add(1, 2), order.total);',
+    ].join('\n'));
+  });
+
+  it('should ask for a line when several symbols share the name', () => {
+    write('other.ts', 'export function total() {\n  return 0;\n}\n');
+    const files = [file('math.ts'), file('other.ts')];
+
+    expect(() => renameSymbol({ rootDir: dir, files, oldName: 'total', newName: 'add' }))
+      .toThrow(/2 different symbols are named total/);
+
+    const contents = renameSymbol({ rootDir: dir, files, oldName: 'total', newName: 'zero', file: file('other.ts'), line: 1 });
+    expect([...contents.keys()]).toEqual([file('other.ts')]);
+  });
+
+  it('should reject invalid names and unknown symbols', () => {
+    expect(() => renameSymbol({ rootDir: dir, files: [file('math.ts')], oldName: 'total', newName: 'not-valid' }))
+      .toThrow('not a valid identifier');
+    expect(() => renameSymbol({ rootDir: dir, files: [file('math.ts')], oldName: 'missing', newName: 'found' }))
+      .toThrow('No symbol named missing');
+  });
+
+  it('should only handle TypeScript and JavaScript files', () => {
+    expect(isSourceFile('src/app.tsx')).toBe(true);
+    expect(isSourceFile('lib/index.mjs')).toBe(true);
+    expect(isSourceFile('main.py')).toBe(false);
+  });
+});
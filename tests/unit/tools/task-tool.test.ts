@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const userSettings: Record<string, unknown> = {};
+const created: { apiKey: string; model: string; provider?: string }[] = [];
+
+vi.mock('../../../src/utils/settings-manager', () => ({
+  getSettingsManager: () => ({
+    getUserSetting: (key: string) => userSettings[key],
+    getBaseURL: () => 'https://api.z.ai/api/coding/paas/v4',
+    getApiKey: () => 'zai-key',
+    getAvailableModels: () => ['glm-4.7', 'glm-4.6'],
+  }),
+}));
+
+vi.mock('../../../src/agent/zai-agent', () => ({
+  ZaiAgent: class {
+    private entry: { apiKey: string; model: string; provider?: string };
+    constructor(apiKey: string, _baseURL: string, model: string) {
+      this.entry = { apiKey, model };
+      created.push(this.entry);
+    }
+    setModel(model: string, provider?: string) {
+      Object.assign(this.entry, { model, provider });
+    }
+  },
+}));
+
+vi.mock('../../../src/agents/task-orchestrator', () => ({
+  getTaskOrchestrator: () => ({
+    createTask: () => ({ id: 'task-1' }),
+    executeTask: async (_id: string, factory: () => unknown) => {
+      factory();
+      return { success: true, output: 'done' };
+    },
+  }),
+}));
+
+import { TaskTool } from '../../../src/tools/task-tool';
+import type { ZaiAgent } from '../../../src/agent/zai-agent';
+
+describe('TaskTool', () => {
+  const parent = {
+    addAgentActivity: () => undefined,
+    getAbortSignal: () => undefined,
+    getClient: () => ({
+      apiKey: 'zai-key',
+      baseURL: 'https://api.z.ai/api/coding/paas/v4',
+      model: 'glm-4.7',
+      getProvider: () => ({ name: 'zai' }),
+    }),
+  } as unknown as ZaiAgent;
+
+  beforeEach(() => {
+    created.length = 0;
+    for (const key of Object.keys(userSettings)) delete userSettings[key];
+  });
+
+  it('should build sub-agents against the provider serving their routed model', async () => {
+    userSettings.providers = { openai: { baseURL: 'https://api.openai.com/v1', models: ['gpt-4o-mini'] } };
+    userSettings.modelRouting = { agents: { explore: 'gpt-4o-mini' } };
+    const tool = new TaskTool();
+    tool.setParentAgent(parent);
+
+    const result = await tool.execute({ agent_type: 'explore', task_description: 'Find the entry point' });
+
+    expect(result.success).toBe(true);
+    expect(created).toEqual([{ apiKey: 'zai-key', model: 'gpt-4o-mini', provider: 'openai' }]);
+  });
+
+  it('should keep sub-agents on the parent provider without routing', async () => {
+    const tool = new TaskTool();
+    tool.setParentAgent(parent);
+
+    await tool.execute({ agent_type: 'explore', task_description: 'Find the entry point' });
+
+    expect(created).toEqual([{ apiKey: 'zai-key', model: 'glm-4.7', provider: 'zai' }]);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { ConfirmationService } from '../../../src/utils/confirmation-service';
+
+describe('ConfirmationService', () => {
+  const service = ConfirmationService.getInstance();
+
+  afterEach(() => {
+    service.removeAllListeners('confirmation-requested');
+    service.resetSession();
+  });
+
+  it('should only pre-approve confirmations requested by the approved operation', async () => {
+    const prompted: string[] = [];
+    service.on('confirmation-requested', (options) => {
+      prompted.push(options.filename);
+      service.confirmOperation(false);
+    });
+
+    let releaseApproved!: () => void;
+    const approved = service.runPreApproved(async () => {
+      await new Promise<void>((resolve) => (releaseApproved = resolve));
+      expect(service.getSessionFlags().allOperations).toBe(true);
+      return service.requestConfirmation({ operation: 'Edit file', filename: 'approved.ts' });
+    });
+
+    // Another agent asking while the approved operation is still running
+    expect(service.getSessionFlags().allOperations).toBe(false);
+    const other = await service.requestConfirmation({ operation: 'Edit file', filename: 'other.ts' });
+    releaseApproved();
+
+    expect(other.confirmed).toBe(false);
+    expect((await approved).confirmed).toBe(true);
+    expect(prompted).toEqual(['other.ts']);
+  });
+});
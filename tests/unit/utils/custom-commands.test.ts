@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  expandCommandTemplate,
+  loadCustomCommands,
+  parseCustomCommand,
+  parseFrontmatter,
+} from '../../../src/utils/custom-commands';
+
+describe('custom-commands', () => {
+  describe('parseFrontmatter', () => {
+    it('should split attributes from the body', () => {
+      const { attributes, body } = parseFrontmatter(
+        '---\ndescription: "Review a PR"\nallowed-tools: [view_file, search]\n---\nReview $ARGUMENTS\n'
+      );
+      expect(attributes).toEqual({ description: 'Review a PR', 'allowed-tools': ['view_file', 'search'] });
+      expect(body).toBe('Review $ARGUMENTS\n');
+    });
+
+    it('should return the content unchanged without frontmatter', () => {
+      expect(parseFrontmatter('Just a prompt')).toEqual({ attributes: {}, body: 'Just a prompt' });
+    });
+  });
+
+  describe('parseCustomCommand', () => {
+    it('should read description, tools and model', () => {
+      const command = parseCustomCommand(
+        'review-pr',
+        '---\ndescription: Review a PR\nargument-hint: <number>\nallowed-tools: bash, view_file\nmodel: glm-4.6\n---\n\nReview PR #$ARGUMENTS',
+        'project',
+        '/p/.zai/commands/review-pr.md'
+      );
+      expect(command).toMatchObject({
+        name: 'review-pr',
+        description: 'Review a PR',
+        argumentHint: '<number>',
+        allowedTools: ['bash', 'view_file'],
+        model: 'glm-4.6',
+        template: 'Review PR #$ARGUMENTS',
+      });
+    });
+  });
+
+  describe('expandCommandTemplate', () => {
+    it('should substitute every $ARGUMENTS', () => {
+      expect(expandCommandTemplate('Fix $ARGUMENTS, then test $ARGUMENTS', ' issue 42 ')).toBe(
+        'Fix issue 42, then test issue 42'
+      );
+    });
+
+    it('should append arguments when the template has no placeholder', () => {
+      expect(expandCommandTemplate('Summarize the diff', 'briefly')).toBe('Summarize the diff\n\nbriefly');
+      expect(expandCommandTemplate('Summarize the diff', '')).toBe('Summarize the diff');
+    });
+  });
+
+  describe('loadCustomCommands', () => {
+    let root: string;
+    let project: string;
+    let home: string;
+
+    const write = (dir: string, file: string, content: string) => {
+      fs.mkdirSync(path.join(dir, '.zai', 'commands'), { recursive: true });
+      fs.writeFileSync(path.join(dir, '.zai', 'commands', file), content);
+    };
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'zai-commands-'));
+      project = path.join(root, 'project');
+      home = path.join(root, 'home');
+    });
+
+    afterEach(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should load user and project commands, project overriding user', () => {
+      write(home, 'deploy.md', 'User deploy');
+      write(home, 'standup.md', 'Write my standup');
+      write(project, 'deploy.md', 'Project deploy');
+      write(project, 'notes.txt', 'ignored');
+
+      const commands = loadCustomCommands(project, home);
+      const byName = Object.fromEntries(commands.map((c) => [c.name, c]));
+
+      expect(Object.keys(byName).sort()).toEqual(['deploy', 'standup']);
+      expect(byName.deploy).toMatchObject({ template: 'Project deploy', source: 'project' });
+      expect(byName.standup.source).toBe('user');
+    });
+
+    it('should return nothing when no command directories exist', () => {
+      expect(loadCustomCommands(project, home)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  CommandDiagnosticsProvider,
+  DiagnosticsMonitor,
+  LspDiagnosticsProvider,
+  diffDiagnostics,
+  parseDiagnostics,
+  type Diagnostic,
+  type DiagnosticsProvider,
+} from '../../../src/utils/diagnostics';
+
+// Publishes one error per line containing "bad" whenever a document is opened or changed
+const FAKE_SERVER = `
+let buffer = Buffer.alloc(0);
+const send = (message) => {
+  const body = Buffer.from(JSON.stringify({ jsonrpc: '2.0', ...message }));
+  process.stdout.write('Content-Length: ' + body.length + '\\r\\n\\r\\n');
+  process.stdout.write(body);
+};
+const publish = (uri, text) => send({
+  method: 'textDocument/publishDiagnostics',
+  params: {
+    uri,
+    diagnostics: text.split('\\n').flatMap((line, index) => line.includes('bad')
+      ? [{ range: { start: { line: index, character: 0 }, end: { line: index, character: 3 } }, severity: 1, message: 'bad line', source: 'fake' }]
+      : []),
+  },
+});
+process.stdin.on('data', (data) => {
+  buffer = Buffer.concat([buffer, data]);
+  for (;;) {
+    const headerEnd = buffer.indexOf('\\r\\n\\r\\n');
+    if (headerEnd === -1) return;
+    const length = Number(/Content-Length: (\\d+)/.exec(buffer.subarray(0, headerEnd).toString())[1]);
+    if (buffer.length < headerEnd + 4 + length) return;
+    const message = JSON.parse(buffer.subarray(headerEnd + 4, headerEnd + 4 + length).toString());
+    buffer = buffer.subarray(headerEnd + 4 + length);
+    if (message.method === 'initialize') send({ id: message.id, result: { capabilities: {} } });
+    if (message.method === 'shutdown') send({ id: message.id, result: null });
+    if (message.method === 'exit') process.exit(0);
+    if (message.method === 'textDocument/didOpen') publish(message.params.textDocument.uri, message.params.textDocument.text);
+    if (message.method === 'textDocument/didChange') publish(message.params.textDocument.uri, message.params.contentChanges[0].text);
+  }
+});
+`;
+
+const error = (file: string, message: string, line = 1): Diagnostic => ({ file, line, column: 1, message });
+
+describe('diagnostics', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zai-diagnostics-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should parse tsc and file:line:col errors and skip warnings', () => {
+    const output = [
+      "src/a.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+      'src/b.ts:10:2: Unexpected console statement. [Error/no-console]',
+      'src/b.ts:11:2: Missing semicolon. [Warning/semi]',
+      'app.py:4: error: Name "x" is not defined',
+      'app.py:5: note: See docs',
+      'Found 3 errors.',
+    ].join('\n');
+
+    expect(parseDiagnostics(output, '/project')).toEqual([
+      { file: '/project/src/a.ts', line: 3, column: 7, code: 'TS2322', message: "Type 'string' is not assignable to type 'number'." },
+      { file: '/project/src/b.ts', line: 10, column: 2, message: 'Unexpected console statement. [Error/no-console]' },
+      { file: '/project/app.py', line: 4, column: 1, message: 'Name "x" is not defined' },
+    ]);
+  });
+
+  it('should only count errors that were not there before, wherever they moved', () => {
+    const before = [error('/a.ts', 'old', 3), error('/a.ts', 'twice', 4)];
+    const after = [error('/a.ts', 'old', 8), error('/a.ts', 'twice', 9), error('/a.ts', 'twice', 12), error('/a.ts', 'new')];
+
+    expect(diffDiagnostics(before, after).map((d) => `${d.message}:${d.line}`)).toEqual(['twice:12', 'new:1']);
+  });
+
+  it('should report only the errors an edit introduced', async () => {
+    const file = path.join(dir, 'a.ts');
+    fs.writeFileSync(file, 'x');
+    let current = [error(file, 'old')];
+    const provider: DiagnosticsProvider = {
+      check: async (files) => new Map(files.map((f) => [f, f === file ? current : []])),
+      dispose: () => {},
+    };
+    const monitor = new DiagnosticsMonitor(provider, dir);
+
+    await monitor.baseline(['a.ts', 'new.ts']);
+    current = [error(file, 'old'), error(file, 'Cannot find name y', 2)];
+    const report = await monitor.report(['a.ts', 'new.ts']);
+
+    expect(report).toContain('1 new error');
+    expect(report).toContain('a.ts:2:1: Cannot find name y');
+    expect(report).not.toContain('old');
+    // The new state is the baseline for the next edit
+    expect(await monitor.report(['a.ts'])).toBeNull();
+  });
+
+  it('should run a checker command', async () => {
+    const file = path.join(dir, 'a.ts');
+    const provider = new CommandDiagnosticsProvider(
+      `echo "a.ts(1,5): error TS1005: ';' expected."; exit 2`,
+      dir
+    );
+
+    const result = await provider.check([file, path.join(dir, 'b.ts')]);
+
+    expect(result.get(file)?.map((d) => d.code)).toEqual(['TS1005']);
+    expect(result.get(path.join(dir, 'b.ts'))).toEqual([]);
+  });
+
+  it('should collect errors from a language server', async () => {
+    const server = path.join(dir, 'server.cjs');
+    fs.writeFileSync(server, FAKE_SERVER);
+    const file = path.join(dir, 'a.ts');
+    fs.writeFileSync(file, 'good\nbad\n');
+    const provider = new LspDiagnosticsProvider(process.execPath, [server], dir, 5000);
+
+    try {
+      expect((await provider.check([file])).get(file)).toEqual([
+        { file, line: 2, column: 1, message: 'bad line', code: 'fake' },
+      ]);
+
+      fs.writeFileSync(file, 'good\n');
+      expect((await provider.check([file])).get(file)).toEqual([]);
+    } finally {
+      provider.dispose();
+    }
+  });
+});
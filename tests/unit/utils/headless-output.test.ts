@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatStreamEvent,
+  HeadlessResultCollector,
+  isOutputFormat,
+} from '../../../src/utils/headless-output';
+
+const toolCall = {
+  id: 'call_1',
+  type: 'function' as const,
+  function: { name: 'view_file', arguments: '{"path":"a.ts"}' },
+};
+
+describe('headless-output', () => {
+  describe('isOutputFormat', () => {
+    it('should accept known formats only', () => {
+      expect(isOutputFormat('text')).toBe(true);
+      expect(isOutputFormat('json')).toBe(true);
+      expect(isOutputFormat('stream-json')).toBe(true);
+      expect(isOutputFormat('yaml')).toBe(false);
+    });
+  });
+
+  describe('formatStreamEvent', () => {
+    it('should emit one JSON line per chunk', () => {
+      const line = formatStreamEvent({ type: 'content', content: 'hi\nthere' });
+      expect(line).not.toContain('\n');
+      expect(JSON.parse(line)).toMatchObject({ type: 'content', content: 'hi\nthere' });
+    });
+  });
+
+  describe('HeadlessResultCollector', () => {
+    it('should collect content, tool calls and usage', () => {
+      const collector = new HeadlessResultCollector('glm-4.7');
+      collector.add({ type: 'token_count', tokenCount: 100 });
+      collector.add({ type: 'tool_calls', toolCalls: [toolCall] });
+      collector.add({ type: 'tool_result', toolCall, toolResult: { success: true, output: 'file contents' } });
+      collector.add({ type: 'content', content: 'All done' });
+      collector.add({ type: 'token_count', tokenCount: 150 });
+      collector.add({ type: 'done' });
+
+      const result = collector.getResult();
+      collector.dispose();
+
+      expect(result.status).toBe('success');
+      expect(result.content).toBe('All done');
+      expect(result.toolCalls).toEqual([
+        { id: 'call_1', name: 'view_file', arguments: '{"path":"a.ts"}', success: true, output: 'file contents', error: undefined },
+      ]);
+      expect(result.usage.totalTokens).toBe(150);
+      expect(result.usage.inputTokens + result.usage.outputTokens).toBe(150);
+    });
+
+    it('should drop retracted content', () => {
+      const collector = new HeadlessResultCollector();
+      collector.add({ type: 'content', content: 'Let me look' });
+      collector.add({ type: 'content_retract' });
+      collector.add({ type: 'tool_calls', toolCalls: [toolCall] });
+      collector.add({ type: 'content', content: 'Answer' });
+
+      expect(collector.getResult().content).toBe('Answer');
+      collector.dispose();
+    });
+
+    it('should report errors', () => {
+      const collector = new HeadlessResultCollector();
+      const result = collector.getResult(new Error('boom'));
+      collector.dispose();
+
+      expect(result.status).toBe('error');
+      expect(result.error).toBe('boom');
+    });
+
+    it('should report errors the agent caught and streamed', () => {
+      const collector = new HeadlessResultCollector();
+      collector.add({ type: 'content', content: 'Sorry, I encountered an error:\n\nboom' });
+      collector.add({ type: 'error', content: 'boom' });
+      collector.add({ type: 'done' });
+      const result = collector.getResult();
+      collector.dispose();
+
+      expect(result.status).toBe('error');
+      expect(result.error).toBe('boom');
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import { HookManager, matchesHook, parseHookResult } from '../../../src/utils/hook-manager';
+import type { HookDefinition, HookEvent } from '../../../src/utils/hook-manager';
+
+const run = (exitCode: number | null, stdout = '', stderr = '', timedOut = false) => ({ exitCode, stdout, stderr, timedOut });
+
+function managerWith(hooks: Partial<Record<HookEvent, HookDefinition[]>>): HookManager {
+  const manager = new HookManager();
+  vi.spyOn(manager, 'getHooks').mockImplementation((event) => hooks[event] || []);
+  return manager;
+}
+
+describe('hook-manager', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('matchesHook', () => {
+    it('should match tool names with anchored regexes', () => {
+      const hook = { matcher: 'create_file|str_replace_editor', command: 'true' };
+      expect(matchesHook(hook, 'create_file')).toBe(true);
+      expect(matchesHook(hook, 'str_replace_editor')).toBe(true);
+      expect(matchesHook(hook, 'create_file_backup')).toBe(false);
+    });
+
+    it('should match everything without a matcher', () => {
+      expect(matchesHook({ command: 'true' }, 'bash')).toBe(true);
+      expect(matchesHook({ matcher: '*', command: 'true' }, 'bash')).toBe(true);
+    });
+  });
+
+  describe('parseHookResult', () => {
+    it('should block on exit code 2 with stderr as the reason', () => {
+      expect(parseHookResult(run(2, '', 'generated file\n'), 'check')).toEqual({
+        decision: 'block',
+        reason: 'generated file',
+      });
+    });
+
+    it('should read JSON responses and plain text context', () => {
+      expect(parseHookResult(run(0, '{"tool_input":{"command":"ls"}}'), 'x')).toEqual({ tool_input: { command: 'ls' } });
+      expect(parseHookResult(run(0, 'formatted a.ts\n'), 'x')).toEqual({ context: 'formatted a.ts' });
+      expect(parseHookResult(run(0), 'x')).toEqual({});
+    });
+
+    it('should report failures without blocking', () => {
+      const result = parseHookResult(run(1, '', 'boom'), 'lint');
+      expect(result.decision).toBeUndefined();
+      expect(result.context).toContain('boom');
+    });
+  });
+
+  describe('run', () => {
+    it('should pass the payload on stdin and collect context', async () => {
+      const manager = managerWith({
+        PostToolUse: [{ command: 'printf "payload: "; cat' }],
+      });
+
+      const outcome = await manager.run('PostToolUse', { tool_name: 'bash', tool_input: { command: 'ls' } });
+      const payload = JSON.parse(outcome.context[0].replace('payload: ', ''));
+
+      expect(outcome.blocked).toBe(false);
+      expect(payload).toMatchObject({ event: 'PostToolUse', tool_name: 'bash', tool_input: { command: 'ls' } });
+    });
+
+    it('should run hooks in the agent working directory', async () => {
+      const dir = fs.realpathSync(os.tmpdir());
+      const manager = new HookManager(dir);
+      vi.spyOn(manager, 'getHooks').mockReturnValue([{ command: 'pwd; cat' }]);
+
+      const outcome = await manager.run('Stop', {});
+      const [cwd, payload] = outcome.context[0].split('\n');
+
+      expect(cwd).toBe(dir);
+      expect(JSON.parse(payload).cwd).toBe(dir);
+    });
+
+    it('should only run hooks whose matcher fits the tool', async () => {
+      const manager = managerWith({
+        PreToolUse: [{ matcher: 'bash', command: 'echo "no bash" >&2; exit 2' }],
+      });
+
+      expect((await manager.run('PreToolUse', { tool_name: 'view_file', tool_input: {} })).blocked).toBe(false);
+      const outcome = await manager.run('PreToolUse', { tool_name: 'bash', tool_input: {} });
+      expect(outcome).toMatchObject({ blocked: true, reason: 'no bash' });
+    });
+
+    it('should chain rewritten tool input and stop at the first block', async () => {
+      const manager = managerWith({
+        PreToolUse: [
+          { command: `echo '{"tool_input":{"command":"npm test -- --run"}}'` },
+          { command: 'cat >&2; exit 2' },
+          { command: 'echo never' },
+        ],
+      });
+
+      const outcome = await manager.run('PreToolUse', { tool_name: 'bash', tool_input: { command: 'npm test' } });
+
+      expect(outcome.toolInput).toEqual({ command: 'npm test -- --run' });
+      expect(outcome.blocked).toBe(true);
+      expect(outcome.reason).toContain('npm test -- --run');
+      expect(outcome.context).not.toContain('never');
+    });
+
+    it('should treat timeouts as non-blocking failures', async () => {
+      const manager = managerWith({
+        Stop: [{ command: 'sleep 5', timeout: 100 }],
+      });
+
+      const outcome = await manager.run('Stop', {});
+      expect(outcome.blocked).toBe(false);
+      expect(outcome.context[0]).toContain('timed out');
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const userSettings: Record<string, unknown> = {};
+
+vi.mock('../../../src/utils/settings-manager', () => ({
+  getSettingsManager: () => ({
+    getUserSetting: (key: string) => userSettings[key],
+    getBaseURL: () => 'https://api.z.ai/api/coding/paas/v4',
+    getApiKey: () => 'key',
+    getAvailableModels: () => ['glm-4.7', 'glm-4.6', 'glm-4.5-air'],
+  }),
+}));
+
+import { getAgentModel, getFallbackModels, getRoutedModel } from '../../../src/utils/model-config';
+
+describe('model-config', () => {
+  beforeEach(() => {
+    for (const key of Object.keys(userSettings)) delete userSettings[key];
+  });
+
+  it('should fall back to the models below the current one', () => {
+    userSettings.modelFallbacks = ['glm-4.7', 'glm-4.6', 'glm-4.5-air'];
+
+    const models = (model: string) => getFallbackModels(model, 'zai').map((option) => option.model);
+    expect(models('glm-4.7')).toEqual(['glm-4.6', 'glm-4.5-air']);
+    expect(models('glm-4.5-air')).toEqual([]);
+    expect(models('custom-model')).toEqual(['glm-4.7', 'glm-4.6', 'glm-4.5-air']);
+  });
+
+  it('should resolve the provider serving each fallback model', () => {
+    userSettings.providers = {
+      openai: { baseURL: 'https://api.openai.com/v1', models: ['gpt-4o', 'glm-4.6'] },
+    };
+    userSettings.modelFallbacks = ['glm-4.7', 'gpt-4o', 'openai/glm-4.6', 'local-model'];
+
+    expect(getFallbackModels('glm-4.7', 'zai')).toEqual([
+      { model: 'gpt-4o', provider: 'openai' },
+      { model: 'glm-4.6', provider: 'openai' },
+      { model: 'local-model', provider: 'zai' },
+    ]);
+  });
+
+  it('should have no fallbacks unless configured', () => {
+    expect(getFallbackModels('glm-4.7')).toEqual([]);
+  });
+
+  it('should route jobs and agent types to their configured models', () => {
+    userSettings.modelRouting = {
+      summarize: 'glm-4.5-air',
+      agents: { explore: 'glm-4.5-air' },
+    };
+
+    expect(getRoutedModel('summarize')).toBe('glm-4.5-air');
+    expect(getRoutedModel('commit')).toBeUndefined();
+    expect(getAgentModel('explore')).toBe('glm-4.5-air');
+    expect(getAgentModel('general-purpose')).toBeUndefined();
+    expect(getAgentModel('constructor')).toBeUndefined();
+  });
+});
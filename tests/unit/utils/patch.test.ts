@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import { addedContent, applyHunks, parsePatch } from '../../../src/utils/patch';
+
+const original = [
+  'import { a } from "./a";',
+  '',
+  'function start() {',
+  '  const x = 1;',
+  '  return x;',
+  '}',
+  '',
+  'function stop() {',
+  '  return 0;',
+  '}',
+  '',
+].join('\n');
+
+describe('parsePatch', () => {
+  it('should parse git diffs with adds, deletes, renames and several hunks', () => {
+    const patches = parsePatch([
+      'diff --git a/src/app.ts b/src/app.ts',
+      'index 123..456 100644',
+      '--- a/src/app.ts',
+      '+++ b/src/app.ts',
+      '@@ -3,3 +3,3 @@ function start() {',
+      ' function start() {',
+      '-  const x = 1;',
+      '+  const x = 2;',
+      '@@ -9,1 +9,1 @@',
+      '-  return 0;',
+      '+  return 1;',
+      'diff --git a/new.ts b/new.ts',
+      'new file mode 100644',
+      '--- /dev/null',
+      '+++ b/new.ts',
+      '@@ -0,0 +1,2 @@',
+      '+one',
+      '+two',
+      'diff --git a/old.ts b/old.ts',
+      'deleted file mode 100644',
+      '--- a/old.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-gone',
+      'diff --git a/from.ts b/to.ts',
+      'similarity index 100%',
+      'rename from from.ts',
+      'rename to to.ts',
+    ].join('\n'));
+
+    expect(patches.map((patch) => [patch.type, patch.path, patch.movePath])).toEqual([
+      ['update', 'src/app.ts', undefined],
+      ['add', 'new.ts', undefined],
+      ['delete', 'old.ts', undefined],
+      ['update', 'from.ts', 'to.ts'],
+    ]);
+    expect(patches[0].hunks).toHaveLength(2);
+    expect(patches[0].hunks[0]).toMatchObject({ oldStart: 3, oldLines: 2, newStart: 3, newLines: 2, header: 'function start() {' });
+    expect(addedContent(patches[1])).toBe('one\ntwo\n');
+  });
+
+  it('should parse patch envelopes', () => {
+    const patches = parsePatch([
+      '*** Begin Patch',
+      '*** Add File: docs/notes.md',
+      '+# Notes',
+      '*** Update File: src/app.ts',
+      '*** Move to: src/main.ts',
+      '@@ function stop',
+      '-  return 0;',
+      '+  return 1;',
+      '*** Delete File: src/old.ts',
+      '*** End Patch',
+    ].join('\n'));
+
+    expect(patches.map((patch) => [patch.type, patch.path, patch.movePath])).toEqual([
+      ['add', 'docs/notes.md', undefined],
+      ['update', 'src/app.ts', 'src/main.ts'],
+      ['delete', 'src/old.ts', undefined],
+    ]);
+    expect(patches[1].hunks[0]).toMatchObject({ oldStart: 0, header: 'function stop' });
+    expect(() => parsePatch('*** Begin Patch\nnonsense\n*** End Patch')).toThrow(/line 2/);
+  });
+
+  it('should reject a file with more than one section', () => {
+    expect(() => parsePatch([
+      '*** Begin Patch',
+      '*** Update File: src/app.ts',
+      '-  return 0;',
+      '+  return 1;',
+      '*** Update File: ./src/app.ts',
+      '-  return 2;',
+      '+  return 3;',
+      '*** End Patch',
+    ].join('\n'))).toThrow(/\.\/src\/app\.ts has more than one section/);
+  });
+});
+
+describe('applyHunks', () => {
+  it('should place hunks despite shifted line numbers and whitespace differences', () => {
+    const [patch] = parsePatch([
+      '--- a/app.ts',
+      '+++ b/app.ts',
+      '@@ -20,3 +20,3 @@',
+      ' function start() {',
+      '-  const x = 1;   ',
+      '+  const x = 2;',
+      '   return x;',
+    ].join('\n'));
+
+    const result = applyHunks(original, patch.hunks);
+    expect(result.failures).toEqual([]);
+    expect(result.fuzzed).toBe(1);
+    expect(result.content).toBe(original.replace('const x = 1', 'const x = 2'));
+  });
+
+  it('should drop stale context lines at the edges of a hunk', () => {
+    const [patch] = parsePatch([
+      '*** Begin Patch',
+      '*** Update File: app.ts',
+      '@@',
+      ' function stop() { // stale',
+      '-  return 0;',
+      '+  return -1;',
+      ' }',
+      '*** End Patch',
+    ].join('\n'));
+
+    const result = applyHunks(original, patch.hunks);
+    expect(result.failures).toEqual([]);
+    expect(result.content).toContain('function stop() {\n  return -1;\n}');
+  });
+
+  it('should report each hunk that does not fit and still apply the others', () => {
+    const [patch] = parsePatch([
+      '--- a/app.ts',
+      '+++ b/app.ts',
+      '@@ -1,1 +1,1 @@',
+      '-import { a } from "./a";',
+      '+import { b } from "./b";',
+      '@@ -8,2 +8,2 @@',
+      ' function missing() {',
+      '-  return 42;',
+      '+  return 43;',
+      '@@ -4,1 +4,1 @@',
+      '-  const x = 1;',
+      '+  const x = 2;',
+    ].join('\n'));
+
+    const result = applyHunks(original.replace(/\n/g, '\r\n'), patch.hunks);
+    expect(result.failures).toHaveLength(1);
+    expect(result.failures[0]).toMatchObject({ hunk: 2, header: '@@ -8,2 +8,2 @@' });
+    expect(result.failures[0].reason).toContain('context not found near line 8');
+    expect(result.content).toContain('import { b } from "./b";\r\n');
+    expect(result.content).toContain('const x = 2;');
+  });
+
+  it('should recognise hunks that were already applied', () => {
+    const [patch] = parsePatch('--- a/app.ts\n+++ b/app.ts\n@@ -9 +9 @@\n-  return 1;\n+  return 0;');
+
+    expect(applyHunks(original, patch.hunks).failures[0].reason).toBe('already applied');
+  });
+});
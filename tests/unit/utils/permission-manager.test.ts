@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PermissionManager,
+  getPermissionRequests,
+  matchesRule,
+  parseRule,
+  splitCommand,
+} from '../../../src/utils/permission-manager';
+
+const cwd = '/project';
+
+describe('permission-manager', () => {
+  describe('parseRule', () => {
+    it('should parse kind and pattern', () => {
+      expect(parseRule('bash(npm test*)')).toEqual({ kind: 'bash', pattern: 'npm test*' });
+      expect(parseRule('edit')).toEqual({ kind: 'edit', pattern: null });
+      expect(parseRule('write(foo)')).toBeNull();
+    });
+  });
+
+  describe('splitCommand', () => {
+    it('should split compound commands', () => {
+      expect(splitCommand('npm test && rm -rf / ; echo hi | cat')).toEqual(['npm test', 'rm -rf /', 'echo hi', 'cat']);
+    });
+
+    it('should split background commands but keep redirections', () => {
+      expect(splitCommand('npm test & rm -rf ~')).toEqual(['npm test', 'rm -rf ~']);
+      expect(splitCommand('npm test 2>&1 &> log.txt')).toEqual(['npm test 2>&1 &> log.txt']);
+    });
+
+    it('should split out substituted commands and subshells', () => {
+      expect(splitCommand('echo $(rm -rf ~) `id` <(ls) (cd a)')).toEqual(['echo', 'rm -rf ~', 'id', 'ls', 'cd a']);
+    });
+  });
+
+  describe('matchesRule', () => {
+    it('should match bash commands with wildcards', () => {
+      expect(matchesRule('bash(npm test*)', { kind: 'bash', target: 'npm test -- --run' }, 'allow', cwd)).toBe(true);
+      expect(matchesRule('bash(npm test*)', { kind: 'bash', target: 'npm run build' }, 'allow', cwd)).toBe(false);
+    });
+
+    it('should not allow compound commands with unmatched parts', () => {
+      const request = { kind: 'bash' as const, target: 'npm test && rm -rf /' };
+      expect(matchesRule('bash(npm test*)', request, 'allow', cwd)).toBe(false);
+      expect(matchesRule('bash(rm -rf*)', request, 'deny', cwd)).toBe(true);
+    });
+
+    it('should not allow background commands with unmatched parts', () => {
+      const request = { kind: 'bash' as const, target: 'npm test & rm -rf ~' };
+      expect(matchesRule('bash(npm test*)', request, 'allow', cwd)).toBe(false);
+      expect(matchesRule('bash(rm -rf*)', { kind: 'bash', target: 'ls & rm -rf ~' }, 'deny', cwd)).toBe(true);
+    });
+
+    it('should never allow substitutions or subshells', () => {
+      for (const target of ['npm test $(rm -rf ~)', 'npm test `rm -rf ~`', 'npm test <(rm -rf ~)', '(npm test)']) {
+        expect(matchesRule('bash(npm test*)', { kind: 'bash', target }, 'allow', cwd)).toBe(false);
+      }
+    });
+
+    it('should deny and ask on commands nested in substitutions', () => {
+      expect(matchesRule('bash(rm -rf*)', { kind: 'bash', target: 'echo $(rm -rf ~)' }, 'deny', cwd)).toBe(true);
+      expect(matchesRule('bash(rm -rf*)', { kind: 'bash', target: 'echo `rm -rf ~`' }, 'deny', cwd)).toBe(true);
+      expect(matchesRule('bash(git push*)', { kind: 'bash', target: '(cd repo; git push)' }, 'ask', cwd)).toBe(true);
+    });
+
+    it('should match file globs relative to cwd', () => {
+      expect(matchesRule('edit(src/**)', { kind: 'edit', target: 'src/a/b.ts' }, 'allow', cwd)).toBe(true);
+      expect(matchesRule('edit(src/**)', { kind: 'edit', target: '/project/src/index.ts' }, 'allow', cwd)).toBe(true);
+      expect(matchesRule('edit(src/*.ts)', { kind: 'edit', target: 'src/a/b.ts' }, 'allow', cwd)).toBe(false);
+      expect(matchesRule('edit(src/**)', { kind: 'edit', target: 'tests/a.ts' }, 'allow', cwd)).toBe(false);
+    });
+
+    it('should match name-only globs in any directory', () => {
+      expect(matchesRule('edit(.env*)', { kind: 'edit', target: '.env.local' }, 'deny', cwd)).toBe(true);
+      expect(matchesRule('edit(.env*)', { kind: 'edit', target: 'config/.env' }, 'deny', cwd)).toBe(true);
+    });
+
+    it('should not match other kinds', () => {
+      expect(matchesRule('bash', { kind: 'edit', target: 'a.ts' }, 'allow', cwd)).toBe(false);
+    });
+  });
+
+  describe('getPermissionRequests', () => {
+    it('should map tool calls to requests', () => {
+      expect(getPermissionRequests('bash', { command: 'ls' })).toEqual([{ kind: 'bash', target: 'ls' }]);
+      expect(getPermissionRequests('create_file', { path: 'a.ts' })).toEqual([{ kind: 'edit', target: 'a.ts' }]);
+      expect(getPermissionRequests('edit_file', { target_file: 'b.ts' })).toEqual([{ kind: 'edit', target: 'b.ts' }]);
+      expect(getPermissionRequests('batch_edit', { files: ['a.ts', 'b.ts'] })).toHaveLength(2);
+      const patch = '*** Begin Patch\n*** Update File: a.ts\n*** Move to: c.ts\n-x\n+y\n*** End Patch';
+      expect(getPermissionRequests('apply_patch', { patch }).map((request) => request.target)).toEqual(['a.ts', 'c.ts']);
+      expect(getPermissionRequests('view_file', { path: 'a.ts' })).toEqual([]);
+    });
+  });
+
+  describe('PermissionManager.evaluate', () => {
+    const manager = new PermissionManager();
+    const rules = {
+      allow: ['bash(git*)', 'edit(src/**)'],
+      deny: ['bash(rm -rf*)', 'edit(src/secrets/**)'],
+      ask: ['bash(git push*)'],
+    };
+
+    it('should give deny precedence over ask and allow', () => {
+      expect(manager.evaluate({ kind: 'edit', target: 'src/secrets/key.ts' }, rules).action).toBe('deny');
+    });
+
+    it('should give ask precedence over allow', () => {
+      const decision = manager.evaluate({ kind: 'bash', target: 'git push origin main' }, rules);
+      expect(decision.action).toBe('ask');
+      expect(decision.rule).toBe('bash(git push*)');
+    });
+
+    it('should fall back to default when no rule matches', () => {
+      expect(manager.evaluate({ kind: 'bash', target: 'ls' }, rules).action).toBe('default');
+      expect(manager.evaluate({ kind: 'bash', target: 'git status' }, rules).action).toBe('allow');
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { Semaphore } from '../../../src/utils/semaphore';
+
+describe('Semaphore', () => {
+  it('hands out permits up to the limit and queues the rest in order', async () => {
+    const semaphore = new Semaphore(2);
+    const order: number[] = [];
+
+    const first = await semaphore.acquire();
+    await semaphore.acquire();
+    const third = semaphore.acquire().then((release) => {
+      order.push(3);
+      return release;
+    });
+    const fourth = semaphore.acquire().then((release) => {
+      order.push(4);
+      return release;
+    });
+
+    expect(semaphore.running).toBe(2);
+    expect(semaphore.waiting).toBe(2);
+
+    first();
+    first(); // Releasing twice frees only one permit
+    (await third)();
+    await fourth;
+
+    expect(order).toEqual([3, 4]);
+    expect(semaphore.running).toBe(2);
+  });
+
+  it('rejects waiters whose signal aborts and skips them', async () => {
+    const semaphore = new Semaphore(1);
+    const release = await semaphore.acquire();
+    const controller = new AbortController();
+
+    const cancelled = semaphore.acquire(controller.signal);
+    const next = semaphore.acquire();
+    controller.abort(new Error('stop'));
+
+    await expect(cancelled).rejects.toThrow('stop');
+    expect(semaphore.waiting).toBe(1);
+
+    release();
+    await next;
+    expect(semaphore.running).toBe(1);
+  });
+
+  it('starts waiters when permits are raised', async () => {
+    const semaphore = new Semaphore(1);
+    await semaphore.acquire();
+    const waiting = semaphore.acquire();
+
+    semaphore.setPermits(2);
+
+    await waiting;
+    expect(semaphore.running).toBe(2);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+  exportSessionToHtml,
+  exportSessionToJson,
+  exportSessionToMarkdown,
+  getToolCallDiff,
+  parseSessionExport,
+  parseToolArguments,
+} from '../../../src/utils/session-export';
+import type { SessionData } from '../../../src/utils/session-manager';
+import type { ZaiToolCall } from '../../../src/zai/client';
+
+const toolCall = (name: string, args: string): ZaiToolCall => ({
+  id: `call_${name}`,
+  type: 'function',
+  function: { name, arguments: args },
+});
+
+const editCall = toolCall(
+  'str_replace_editor',
+  JSON.stringify({ path: 'src/app.ts', old_str: 'const a = 1;', new_str: 'const a = 2;' })
+);
+const longOutput = 'x'.repeat(2000);
+
+const createSession = (): SessionData => ({
+  metadata: {
+    id: 'session_1',
+    name: 'fix <login>',
+    created: new Date('2026-01-01T10:00:00Z'),
+    lastModified: new Date('2026-01-01T10:05:00Z'),
+    messageCount: 6,
+    model: 'glm-4.7',
+    workingDirectory: '/work/app',
+  },
+  chatHistory: [
+    { type: 'user', content: 'fix the <script> bug', timestamp: new Date('2026-01-01T10:00:00Z') },
+    {
+      type: 'assistant',
+      content: 'Editing',
+      timestamp: new Date('2026-01-01T10:00:01Z'),
+      toolCalls: [editCall],
+      thinking: 'The constant is wrong',
+      usage: { inputTokens: 100, outputTokens: 20 },
+    },
+    {
+      type: 'tool_result',
+      content: longOutput,
+      timestamp: new Date('2026-01-01T10:00:02Z'),
+      toolCall: editCall,
+      toolResult: { success: true, output: longOutput },
+    },
+    {
+      type: 'tool_result',
+      content: 'Invalid arguments',
+      timestamp: new Date('2026-01-01T10:00:03Z'),
+      toolCall: toolCall('bash', '{"command": "ls'),
+      toolResult: { success: false, error: 'Invalid arguments' },
+    },
+    {
+      type: 'agent_activity',
+      content: 'Agent finished',
+      timestamp: new Date('2026-01-01T10:00:04Z'),
+      agentInfo: { type: 'explore', name: 'Explorer', status: 'completed', duration: 1500 },
+    },
+    {
+      type: 'assistant',
+      content: 'Done',
+      timestamp: new Date('2026-01-01T10:00:05Z'),
+      usage: { inputTokens: 150, outputTokens: 5 },
+    },
+  ],
+  context: { workingDirectory: '/work/app', model: 'glm-4.7' },
+  agentState: { messages: [{ role: 'user', content: 'fix the <script> bug' }], contextSummary: '', todos: [] },
+});
+
+describe('parseToolArguments', () => {
+  it('should return null for malformed arguments', () => {
+    expect(parseToolArguments(toolCall('bash', '{"command": "ls'))).toBeNull();
+    expect(parseToolArguments(toolCall('bash', '{"command": "ls"}'))).toEqual({ command: 'ls' });
+  });
+});
+
+describe('getToolCallDiff', () => {
+  it('should diff str_replace_editor and create_file calls', () => {
+    expect(getToolCallDiff(editCall)).toMatchObject({ additions: 1, deletions: 1 });
+    const create = toolCall('create_file', JSON.stringify({ path: 'a.ts', content: 'one\ntwo\n' }));
+    expect(getToolCallDiff(create)).toMatchObject({ additions: 2, deletions: 0 });
+  });
+
+  it('should ignore other tools', () => {
+    expect(getToolCallDiff(toolCall('view_file', '{"path": "a.ts"}'))).toBeNull();
+  });
+});
+
+describe('exportSessionToMarkdown', () => {
+  it('should keep complete tool results, thinking and agent activity', () => {
+    const markdown = exportSessionToMarkdown(createSession());
+
+    expect(markdown).toContain(longOutput);
+    expect(markdown).toContain('The constant is wrong');
+    expect(markdown).toContain('Explorer (explore) completed in 1.5s');
+    expect(markdown).toContain('{"command": "ls');
+    expect(markdown).toContain('_Tokens: 250 in / 25 out_');
+  });
+
+  it('should not let backticks in output close the code block', () => {
+    const session = createSession();
+    session.chatHistory[2].content = 'before\n```\nafter';
+
+    expect(exportSessionToMarkdown(session)).toContain('````\nbefore\n```\nafter\n````');
+  });
+});
+
+describe('exportSessionToHtml', () => {
+  it('should produce a self-contained page with escaped content', () => {
+    const html = exportSessionToHtml(createSession());
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<style>');
+    expect(html).not.toMatch(/<(script|link)\b/);
+    expect(html).toContain('fix the &lt;script&gt; bug');
+    expect(html).toContain('<title>fix &lt;login&gt;</title>');
+  });
+
+  it('should render tool calls as collapsible blocks with diffs', () => {
+    const html = exportSessionToHtml(createSession());
+
+    expect(html).toContain('<details class="tool success">');
+    expect(html).toContain('<details class="tool error">');
+    expect(html).toContain('<tr class="del">');
+    expect(html).toContain('<tr class="add">');
+    expect(html).toContain(longOutput);
+  });
+
+  it('should show thinking and token usage per turn', () => {
+    const html = exportSessionToHtml(createSession());
+
+    expect(html).toContain('<details class="thinking">');
+    expect(html).toContain('250 in / 25 out tokens');
+  });
+});
+
+describe('JSON export', () => {
+  it('should round-trip the whole session', () => {
+    const session = createSession();
+
+    expect(parseSessionExport(exportSessionToJson(session))).toEqual(session);
+  });
+
+  it('should reject documents that are not session exports', () => {
+    expect(() => parseSessionExport('not json')).toThrow('Not valid JSON');
+    expect(() => parseSessionExport('{"messages": []}')).toThrow('Not a ZAI session export');
+    expect(() =>
+      parseSessionExport(JSON.stringify({ format: 'zai-session', version: 99, session: createSession() }))
+    ).toThrow('newer');
+  });
+});
@@ -0,0 +1,263 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+let mockHomeDir: string = os.tmpdir();
+
+vi.mock('os', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('os')>();
+  const mocked = { ...actual, homedir: () => mockHomeDir };
+  return { ...mocked, default: mocked };
+});
+
+import { SessionManager } from '../../../src/utils/session-manager';
+import type { AgentSessionState, ChatEntry } from '../../../src/agent/zai-agent';
+
+const chatHistory: ChatEntry[] = [
+  { type: 'user', content: 'fix the bug', timestamp: new Date('2026-01-01T10:00:00Z') },
+  { type: 'assistant', content: 'Done', timestamp: new Date('2026-01-01T10:00:05Z') },
+];
+
+const agentState: AgentSessionState = {
+  messages: [
+    { role: 'user', content: 'fix the bug' },
+    {
+      role: 'assistant',
+      content: '',
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'view_file', arguments: '{"path":"a.ts"}' } }],
+    },
+    { role: 'tool', content: 'file contents', tool_call_id: 'call_1' },
+    { role: 'assistant', content: 'Done' },
+  ],
+  contextSummary: 'Earlier we set up the project',
+  todos: [{ id: '1', content: 'Write tests', status: 'in_progress', priority: 'high' }],
+};
+
+describe('SessionManager', () => {
+  let manager: SessionManager;
+
+  beforeEach(() => {
+    mockHomeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'zai-sessions-'));
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    manager = new SessionManager();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(mockHomeDir, { recursive: true, force: true });
+  });
+
+  it('should persist and restore the agent state', () => {
+    manager.saveSession('bugfix', chatHistory, { workingDirectory: '/work/app', model: 'glm-4.7' }, undefined, agentState);
+
+    const loaded = manager.loadSession('bugfix');
+
+    expect(loaded?.agentState).toEqual(agentState);
+    expect(loaded?.chatHistory[0].timestamp).toBeInstanceOf(Date);
+    expect(loaded?.metadata.workingDirectory).toBe('/work/app');
+  });
+
+  it('should load sessions saved without agent state', () => {
+    manager.saveSession('legacy', chatHistory, { workingDirectory: '/work/app', model: 'glm-4.7' });
+
+    expect(manager.loadSession('legacy')?.agentState).toBeUndefined();
+  });
+
+  it('should find the latest session for a working directory', () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(new Date('2026-01-01T10:00:00Z'));
+      manager.saveSession('older-here', chatHistory, { workingDirectory: '/work/app', model: 'glm-4.7' });
+      vi.setSystemTime(new Date('2026-01-01T11:00:00Z'));
+      manager.saveSession('newer-here', chatHistory, { workingDirectory: '/work/app', model: 'glm-4.7' });
+      vi.setSystemTime(new Date('2026-01-01T12:00:00Z'));
+      manager.saveSession('elsewhere', chatHistory, { workingDirectory: '/work/other', model: 'glm-4.7' });
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(manager.getLatestSession('/work/app')?.metadata.name).toBe('newer-here');
+    expect(manager.getLatestSession()?.metadata.name).toBe('elsewhere');
+    expect(manager.getLatestSession('/work/none')).toBeNull();
+  });
+
+  it('should import a JSON export as a saved session', () => {
+    const saved = manager.saveSession('bugfix', chatHistory, { workingDirectory: '/work/app', model: 'glm-4.7' }, undefined, agentState);
+    const exported = manager.exportSession(saved.id, 'json')!;
+
+    const copy = manager.importSession(exported);
+    expect(copy.id).not.toBe(saved.id);
+    expect(manager.loadSession(copy.id)?.agentState).toEqual(agentState);
+
+    manager.deleteSession(saved.id);
+    manager.deleteSession(copy.id);
+    expect(manager.importSession(exported).id).toBe(saved.id);
+  });
+});
+
+describe('SessionManager autosave', () => {
+  let manager: SessionManager;
+
+  beforeEach(() => {
+    mockHomeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'zai-sessions-'));
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    manager = new SessionManager();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(mockHomeDir, { recursive: true, force: true });
+  });
+
+  const autosave = (name: string, workingDirectory = '/work/app') => {
+    const transcript = manager.createTranscript(workingDirectory, 'glm-4.7', name);
+    transcript.sync({ chatHistory, messages: agentState.messages, model: 'glm-4.7', contextSummary: '', todos: [] });
+    return transcript;
+  };
+
+  it('should list and load autosaved transcripts', () => {
+    const transcript = autosave('auto');
+    manager.saveSession('manual', chatHistory, { workingDirectory: '/work/app', model: 'glm-4.7' });
+
+    const sessions = manager.listSessions('/work/app');
+    expect(sessions.map((s) => s.name).sort()).toEqual(['auto', 'manual']);
+    expect(sessions.find((s) => s.name === 'auto')).toMatchObject({ autosaved: true, messageCount: 2 });
+
+    const loaded = manager.loadSession(transcript.id);
+    expect(loaded?.agentState?.messages).toEqual(agentState.messages);
+    expect(manager.loadSession('auto')?.metadata.id).toBe(transcript.id);
+  });
+
+  it('should only read session files again once they change', () => {
+    const transcript = autosave('auto');
+    autosave('other');
+    manager.saveSession('manual', chatHistory, { workingDirectory: '/work/app', model: 'glm-4.7' });
+    manager.listSessions();
+    const read = vi.spyOn(fs, 'readFileSync');
+
+    manager.listSessions();
+    expect(read).not.toHaveBeenCalled();
+
+    transcript.sync({ chatHistory: [...chatHistory, chatHistory[0]], messages: agentState.messages, model: 'glm-4.7', contextSummary: '', todos: [] });
+    const sessions = manager.listSessions();
+    expect(read.mock.calls.map(([file]) => path.basename(String(file)))).toEqual([path.basename(transcript.filePath)]);
+    expect(sessions.find((s) => s.name === 'auto')?.messageCount).toBe(3);
+  });
+
+  it('should rename autosaved sessions', () => {
+    const transcript = autosave('auto');
+
+    expect(manager.updateSessionMetadata(transcript.id, { name: 'login-bug' })).toBe(true);
+    expect(manager.loadSession('login-bug')?.metadata.id).toBe(transcript.id);
+  });
+
+  it('should prune only autosaved sessions beyond the limit', () => {
+    const older = autosave('older');
+    fs.utimesSync(older.filePath, new Date('2025-01-01'), new Date('2025-01-01'));
+    autosave('newer');
+    manager.saveSession('manual', chatHistory, { workingDirectory: '/work/app', model: 'glm-4.7' });
+
+    const pruned = manager.pruneSessions({ keep: 1 });
+
+    expect(pruned.map((s) => s.name)).toEqual(['older']);
+    expect(manager.listSessions().map((s) => s.name).sort()).toEqual(['manual', 'newer']);
+  });
+});
+
+describe('SessionManager branches', () => {
+  let manager: SessionManager;
+
+  beforeEach(() => {
+    mockHomeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'zai-sessions-'));
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    manager = new SessionManager();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(mockHomeDir, { recursive: true, force: true });
+  });
+
+  const snapshot = { chatHistory, messages: agentState.messages, model: 'glm-4.7', contextSummary: '', todos: [] };
+
+  const fork = (parentId: string, branchPoint: number) => {
+    const parent = manager.listSessions().find((s) => s.id === parentId)!;
+    const transcript = manager.forkSession(parent, branchPoint, 'glm-4.7');
+    transcript.sync({ ...snapshot, chatHistory: chatHistory.slice(0, branchPoint) });
+    return transcript;
+  };
+
+  it('should record the parent and branch point of a fork', () => {
+    const root = manager.createTranscript('/work/app', 'glm-4.7', 'feature');
+    root.sync(snapshot);
+
+    const branch = fork(root.id, 1);
+
+    expect(manager.loadSession(branch.id)?.metadata).toMatchObject({
+      name: 'feature-fork-1',
+      parentId: root.id,
+      branchPoint: 1,
+      messageCount: 1,
+    });
+  });
+
+  it('should keep forks that branch off before the first message', () => {
+    const root = manager.createTranscript('/work/app', 'glm-4.7', 'feature');
+    root.sync(snapshot);
+
+    const branch = fork(root.id, 0);
+
+    expect(manager.loadSession(branch.id)?.metadata.messageCount).toBe(0);
+  });
+
+  it('should nest forks under their parent', () => {
+    const root = manager.createTranscript('/work/app', 'glm-4.7', 'feature');
+    root.sync(snapshot);
+    const first = fork(root.id, 1);
+    const nested = fork(first.id, 1);
+    const other = manager.createTranscript('/work/app', 'glm-4.7', 'other');
+    other.sync(snapshot);
+
+    const tree = manager.getSessionTree(nested.id);
+
+    expect(tree.map((b) => [b.session.name, b.depth])).toEqual([
+      ['feature', 0],
+      ['feature-fork-1', 1],
+      ['feature-fork-1-fork-1', 2],
+    ]);
+    expect(manager.buildSessionTree(manager.listSessions())).toHaveLength(4);
+  });
+
+  it('should treat forks of deleted sessions as roots', () => {
+    const root = manager.createTranscript('/work/app', 'glm-4.7', 'feature');
+    root.sync(snapshot);
+    const branch = fork(root.id, 1);
+    manager.deleteSession(root.id);
+
+    expect(manager.getSessionTree(branch.id).map((b) => [b.session.id, b.depth])).toEqual([[branch.id, 0]]);
+  });
+
+  it('should limit the backup lineage of a fork to its ancestors up to the fork', () => {
+    const root = manager.createTranscript('/work/app', 'glm-4.7', 'feature');
+    root.sync(snapshot);
+    const branch = fork(root.id, 1);
+    const forked = manager.loadSession(branch.id)!.metadata;
+
+    expect(manager.getLineage(branch.id)).toEqual([
+      { branch: branch.id },
+      { branch: root.id, until: forked.created.getTime() },
+    ]);
+  });
+
+  it('should reopen an autosaved session for appending', () => {
+    const root = manager.createTranscript('/work/app', 'glm-4.7', 'feature');
+    root.sync(snapshot);
+
+    const reopened = manager.openTranscript(root.id);
+    reopened?.sync({ ...snapshot, chatHistory: [...chatHistory, ...chatHistory] });
+
+    expect(manager.loadSession(root.id)?.chatHistory).toHaveLength(4);
+    expect(manager.openTranscript('session_missing')).toBeNull();
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  SessionTranscript,
+  readTranscript,
+  readTranscriptMetadata,
+  type TranscriptSnapshot,
+} from '../../../src/utils/session-transcript';
+import type { ChatEntry } from '../../../src/agent/zai-agent';
+
+const entry = (content: string): ChatEntry => ({ type: 'user', content, timestamp: new Date() });
+
+describe('SessionTranscript', () => {
+  let dir: string;
+  let filePath: string;
+  let snapshot: TranscriptSnapshot;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zai-transcript-'));
+    filePath = path.join(dir, 'session_1.jsonl');
+    snapshot = { chatHistory: [], messages: [], model: 'glm-4.7', contextSummary: '', todos: [] };
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const lines = () => fs.readFileSync(filePath, 'utf-8').trim().split('\n').map((line) => JSON.parse(line));
+
+  it('should append only what changed since the last sync', () => {
+    const transcript = SessionTranscript.create('session_1', filePath, 'demo', '/work/app', 'glm-4.7');
+    snapshot.chatHistory.push(entry('hello'));
+    snapshot.messages.push({ role: 'user', content: 'hello' });
+    transcript.sync(snapshot);
+
+    snapshot.messages.push({ role: 'assistant', content: 'hi' });
+    transcript.sync(snapshot);
+    transcript.sync(snapshot);
+
+    expect(lines().map((record) => record.type)).toEqual([
+      'meta',
+      'chat_reset',
+      'messages_reset',
+      'state',
+      'message',
+    ]);
+  });
+
+  it('should record entries that change after they were written', () => {
+    const transcript = SessionTranscript.create('session_1', filePath, 'demo', '/work/app', 'glm-4.7');
+    const toolCall = { id: 'call-1', type: 'function' as const, function: { name: 'bash', arguments: '{"command":"ls"}' } };
+    snapshot.chatHistory.push(entry('list files'), { type: 'tool_call', content: 'Executing...', timestamp: new Date(), toolCall });
+    transcript.sync(snapshot);
+
+    snapshot.chatHistory[1] = {
+      ...snapshot.chatHistory[1],
+      type: 'tool_result',
+      content: 'a.ts',
+      toolResult: { success: true, output: 'a.ts' },
+    };
+    snapshot.chatHistory[0].content = 'list the files';
+    transcript.sync(snapshot);
+    transcript.sync(snapshot);
+
+    expect(lines().map((record) => record.type)).toEqual(['meta', 'chat_reset', 'messages_reset', 'state', 'chat_update', 'chat_update']);
+    const restored = readTranscript(filePath)!;
+    expect(restored.chatHistory.map((e) => e.content)).toEqual(['list the files', 'a.ts']);
+    expect(restored.chatHistory[1].toolResult).toEqual({ success: true, output: 'a.ts' });
+    expect(readTranscriptMetadata(filePath)?.messageCount).toBe(2);
+  });
+
+  it('should not create a file until there is a conversation', () => {
+    const transcript = SessionTranscript.create('session_1', filePath, 'demo', '/work/app', 'glm-4.7');
+    snapshot.messages.push({ role: 'user', content: 'preconversation' });
+    transcript.sync(snapshot);
+
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+
+  it('should rebuild the session, including resets and state', () => {
+    const transcript = SessionTranscript.create('session_1', filePath, 'demo', '/work/app', 'glm-4.7');
+    snapshot.messages.push({ role: 'user', content: 'one' }, { role: 'assistant', content: 'two' });
+    snapshot.chatHistory.push(entry('one'));
+    transcript.sync(snapshot);
+
+    // Compaction replaces the message array
+    snapshot.messages = [{ role: 'system', content: 'summary' }];
+    snapshot.contextSummary = 'summary';
+    snapshot.todos = [{ id: '1', content: 'test', status: 'pending', priority: 'low' }];
+    snapshot.chatHistory.push(entry('three'));
+    transcript.sync(snapshot);
+
+    const session = readTranscript(filePath);
+
+    expect(session?.metadata).toMatchObject({ id: 'session_1', name: 'demo', workingDirectory: '/work/app', autosaved: true });
+    expect(session?.chatHistory.map((e) => e.content)).toEqual(['one', 'three']);
+    expect(session?.chatHistory[0].timestamp).toBeInstanceOf(Date);
+    expect(session?.agentState).toEqual({
+      messages: [{ role: 'system', content: 'summary' }],
+      contextSummary: 'summary',
+      todos: snapshot.todos,
+    });
+  });
+
+  it('should survive a line cut short by a crash', () => {
+    const transcript = SessionTranscript.create('session_1', filePath, 'demo', '/work/app', 'glm-4.7');
+    snapshot.chatHistory.push(entry('saved'));
+    transcript.sync(snapshot);
+    fs.appendFileSync(filePath, '{"type":"chat","entry":{"type":"user","con');
+
+    expect(readTranscript(filePath)?.chatHistory.map((e) => e.content)).toEqual(['saved']);
+    expect(readTranscriptMetadata(filePath)).toMatchObject({ name: 'demo', messageCount: 1 });
+  });
+
+  it('should keep the first base state and the last head state of each file', () => {
+    const transcript = SessionTranscript.create('session_1', filePath, 'demo', '/work/app', 'glm-4.7');
+    snapshot.chatHistory.push(entry('hello'));
+    transcript.sync(snapshot);
+
+    transcript.recordFiles([], [{ path: '/work/app/a.ts', existed: true, backupTimestamp: 1 }]);
+    transcript.recordFiles(
+      [
+        { path: '/work/app/a.ts', existed: true, backupTimestamp: 2 },
+        { path: '/work/app/b.ts', existed: false },
+      ],
+      [
+        { path: '/work/app/a.ts', existed: true, backupTimestamp: 3 },
+        { path: '/work/app/b.ts', existed: true, backupTimestamp: 4 },
+      ]
+    );
+    transcript.recordFiles([{ path: '/work/app/b.ts', existed: true, backupTimestamp: 4 }], []);
+
+    expect(readTranscript(filePath)?.files).toEqual({
+      base: [{ path: '/work/app/b.ts', existed: false }],
+      head: [
+        { path: '/work/app/a.ts', existed: true, backupTimestamp: 3 },
+        { path: '/work/app/b.ts', existed: true, backupTimestamp: 4 },
+      ],
+    });
+  });
+
+  it('should record the parent of a fork', () => {
+    const transcript = SessionTranscript.create('session_2', filePath, 'demo-fork-1', '/work/app', 'glm-4.7', {
+      parentId: 'session_1',
+      branchPoint: 0,
+    });
+    transcript.sync(snapshot);
+
+    expect(readTranscriptMetadata(filePath)).toMatchObject({ parentId: 'session_1', branchPoint: 0 });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createProvider,
+  AnthropicProvider,
+  OpenAICompatibleProvider,
+  ZaiProvider,
+} from '../../../src/zai/providers';
+
+const basePayload = () => ({
+  model: 'm',
+  messages: [],
+  tools: [{ type: 'function' }],
+  tool_choice: 'auto',
+  max_tokens: 4096,
+});
+
+describe('providers', () => {
+  it('should pick the implementation from the profile type', () => {
+    expect(createProvider('zai', { type: 'zai', baseURL: 'u', models: [] })).toBeInstanceOf(ZaiProvider);
+    expect(createProvider('claude', { type: 'anthropic', baseURL: 'u', models: [] })).toBeInstanceOf(AnthropicProvider);
+    expect(createProvider('ollama', { baseURL: 'u', models: [] })).toBeInstanceOf(OpenAICompatibleProvider);
+  });
+
+  it('should only enable thinking for GLM models on Z.ai', () => {
+    const provider = createProvider('zai', { type: 'zai', baseURL: 'u', models: [] });
+    expect(provider.supportsThinking('glm-4.7')).toBe(true);
+    expect(provider.supportsThinking('gpt-4o')).toBe(false);
+    expect(provider.shapeRequest(basePayload(), { thinking: true }).thinking).toEqual({ type: 'enabled' });
+  });
+
+  it('should send an explicit thinking budget to Anthropic', () => {
+    const provider = createProvider('claude', { type: 'anthropic', baseURL: 'u', models: [] });
+    const payload = provider.shapeRequest(basePayload(), { thinking: true });
+    expect(payload.thinking).toEqual({ type: 'enabled', budget_tokens: 2048 });
+  });
+
+  it('should respect capability flags', () => {
+    const provider = createProvider('ollama', {
+      baseURL: 'http://localhost:11434/v1',
+      models: ['llama3'],
+      capabilities: { tools: false },
+    });
+    const payload = provider.shapeRequest(basePayload(), { thinking: true });
+    expect(provider.supportsThinking('llama3')).toBe(false);
+    expect(payload.tools).toBeUndefined();
+    expect(payload.tool_choice).toBeUndefined();
+    expect(payload.chat_template_kwargs).toBeUndefined();
+  });
+
+  it('should read the API key from the configured env var', () => {
+    process.env.TEST_PROVIDER_KEY = 'from-env';
+    const provider = createProvider('vllm', { baseURL: 'u', models: [], apiKeyEnv: 'TEST_PROVIDER_KEY', apiKey: 'inline' });
+    expect(provider.resolveApiKey()).toBe('from-env');
+    delete process.env.TEST_PROVIDER_KEY;
+    expect(provider.resolveApiKey()).toBe('inline');
+  });
+});
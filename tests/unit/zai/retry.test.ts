@@ -0,0 +1,189 @@
+import { describe, it, expect, vi } from 'vitest';
+import OpenAI from 'openai';
+import {
+  getRetryDelay,
+  isModelUnavailable,
+  parseRetryAfter,
+  toApiError,
+  withRetry,
+  DEFAULT_RETRY_OPTIONS,
+  type RetryInfo,
+} from '../../../src/zai/retry';
+import { ZaiClient } from '../../../src/zai/client';
+import {
+  APIError,
+  AuthenticationError,
+  ModelNotFoundError,
+  NetworkError,
+  RateLimitError,
+} from '../../../src/errors';
+
+const fast = { ...DEFAULT_RETRY_OPTIONS, baseDelayMs: 1, maxDelayMs: 50 };
+
+type SdkHeaders = NonNullable<Parameters<typeof OpenAI.APIError.generate>[3]>;
+
+// Just the part of the fetch Headers API that the retry code reads
+function headersOf(values: Record<string, string> = {}): SdkHeaders {
+  return { get: (name: string) => values[name] ?? null } as SdkHeaders;
+}
+
+// A client whose SDK calls go to `create`, retrying without long waits
+function clientWith(create: ReturnType<typeof vi.fn>): ZaiClient {
+  const client = new ZaiClient('key', 'glm-4.7', 'http://localhost');
+  Object.assign(client, { retryOptions: fast, client: { chat: { completions: { create } } } });
+  return client;
+}
+
+function httpError(status: number, message: string, headers: Record<string, string> = {}) {
+  return OpenAI.APIError.generate(status, { message }, message, headersOf(headers));
+}
+
+describe('retry', () => {
+  describe('toApiError', () => {
+    it('should map HTTP statuses to typed errors', () => {
+      expect(toApiError(httpError(401, 'bad key'), 'Z.ai', 'glm-4.7')).toBeInstanceOf(AuthenticationError);
+      expect(toApiError(httpError(404, 'model not found'), 'Z.ai', 'glm-9')).toBeInstanceOf(ModelNotFoundError);
+
+      const rateLimited = toApiError(httpError(429, 'slow down', { 'retry-after': '7' }), 'Z.ai', 'glm-4.7');
+      expect(rateLimited).toBeInstanceOf(RateLimitError);
+      expect((rateLimited as RateLimitError).context.retryAfter).toBe(7);
+      expect(rateLimited.message).toContain('Z.ai API error');
+
+      const serverError = toApiError(httpError(503, 'overloaded'), 'Z.ai', 'glm-4.7') as APIError;
+      expect(serverError).toBeInstanceOf(APIError);
+      expect(serverError.recoverable).toBe(true);
+      expect((toApiError(httpError(400, 'bad request'), 'Z.ai', 'glm-4.7') as APIError).recoverable).toBe(false);
+    });
+
+    it('should map connection failures to NetworkError', () => {
+      const reset = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+      expect(toApiError(reset, 'Z.ai', 'glm-4.7')).toBeInstanceOf(NetworkError);
+      expect(toApiError(new OpenAI.APIConnectionError({ message: 'offline' }), 'Z.ai', 'glm-4.7')).toBeInstanceOf(NetworkError);
+    });
+
+    it('should leave cancellations alone', () => {
+      const abort = new OpenAI.APIUserAbortError();
+      expect(toApiError(abort, 'Z.ai', 'glm-4.7')).toBe(abort);
+    });
+  });
+
+  it('should only treat missing, rate-limited or timed-out models as unavailable', () => {
+    expect(isModelUnavailable(new ModelNotFoundError('glm-9'))).toBe(true);
+    expect(isModelUnavailable(new RateLimitError('slow'))).toBe(true);
+    expect(isModelUnavailable(new APIError('timeout', 408))).toBe(true);
+    expect(isModelUnavailable(toApiError(new OpenAI.APIConnectionTimeoutError(), 'Z.ai', 'glm-4.7'))).toBe(true);
+
+    expect(isModelUnavailable(new NetworkError('reset'))).toBe(false);
+    expect(isModelUnavailable(new AuthenticationError('bad key'))).toBe(false);
+    expect(isModelUnavailable(new APIError('overloaded', 503))).toBe(false);
+  });
+
+  it('should read Retry-After as seconds or a date', () => {
+    expect(parseRetryAfter(headersOf({ 'retry-after': '3' }))).toBe(3);
+    expect(parseRetryAfter(headersOf({ 'retry-after-ms': '1500' }))).toBe(1.5);
+    const date = new Date(Date.now() + 10000).toUTCString();
+    expect(parseRetryAfter(headersOf({ 'retry-after': date }))).toBeGreaterThan(8);
+    expect(parseRetryAfter(headersOf())).toBeUndefined();
+  });
+
+  it('should back off exponentially with jitter unless Retry-After is given', () => {
+    const options = { ...DEFAULT_RETRY_OPTIONS, baseDelayMs: 1000 };
+    const network = new NetworkError('reset');
+    for (let i = 0; i < 20; i++) {
+      const delay = getRetryDelay(network, 3, options);
+      expect(delay).toBeGreaterThanOrEqual(2000);
+      expect(delay).toBeLessThanOrEqual(4000);
+    }
+    expect(getRetryDelay(new RateLimitError('slow', 12), 1, options)).toBe(12000);
+  });
+
+  describe('withRetry', () => {
+    it('should retry transient errors and report each retry', async () => {
+      const retries: RetryInfo[] = [];
+      const operation = vi.fn()
+        .mockRejectedValueOnce(new NetworkError('reset'))
+        .mockRejectedValueOnce(new RateLimitError('slow', 0))
+        .mockResolvedValue('ok');
+
+      await expect(withRetry(operation, { ...fast, onRetry: (info) => retries.push(info) })).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(3);
+      expect(retries.map((r) => r.attempt)).toEqual([1, 2]);
+    });
+
+    it('should not retry errors that are not transient', async () => {
+      const operation = vi.fn().mockRejectedValue(new AuthenticationError('bad key'));
+
+      await expect(withRetry(operation, fast)).rejects.toBeInstanceOf(AuthenticationError);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up after maxRetries or when Retry-After is too long', async () => {
+      const failing = vi.fn().mockRejectedValue(new NetworkError('reset'));
+      await expect(withRetry(failing, { ...fast, maxRetries: 2 })).rejects.toBeInstanceOf(NetworkError);
+      expect(failing).toHaveBeenCalledTimes(3);
+
+      const limited = vi.fn().mockRejectedValue(new RateLimitError('slow', 3600));
+      await expect(withRetry(limited, fast)).rejects.toBeInstanceOf(RateLimitError);
+      expect(limited).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('fallbackRetries', () => {
+    it('should give up early on errors another model might avoid', async () => {
+      const limited = vi.fn().mockRejectedValue(new RateLimitError('slow', 0));
+      await expect(withRetry(limited, { ...fast, fallbackRetries: 1 })).rejects.toBeInstanceOf(RateLimitError);
+      expect(limited).toHaveBeenCalledTimes(2);
+
+      const failing = vi.fn().mockRejectedValue(new NetworkError('reset'));
+      await expect(withRetry(failing, { ...fast, maxRetries: 3, fallbackRetries: 1 })).rejects.toBeInstanceOf(NetworkError);
+      expect(failing).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('ZaiClient.chatStream', () => {
+    it('should restart a stream that drops mid-response', async () => {
+      const chunk = (content: string) => ({ choices: [{ delta: { content } }] });
+      const create = vi.fn()
+        .mockResolvedValueOnce((async function* () {
+          yield chunk('Half');
+          throw Object.assign(new TypeError('terminated'), { cause: { code: 'UND_ERR_SOCKET' } });
+        })())
+        .mockResolvedValueOnce((async function* () {
+          yield chunk('Full');
+        })());
+      const client = clientWith(create);
+      const retries: RetryInfo[] = [];
+      client.on('retry', (info) => retries.push(info));
+
+      const chunks: unknown[] = [];
+      for await (const received of client.chatStream([], [])) {
+        chunks.push(received);
+      }
+
+      expect(chunks).toEqual([chunk('Half'), { restart: true, choices: [] }, chunk('Full')]);
+      expect(retries).toHaveLength(1);
+      expect(retries[0].error).toBeInstanceOf(NetworkError);
+    });
+
+    it('should cap a restart wait taken from Retry-After', async () => {
+      const create = vi.fn()
+        .mockResolvedValueOnce({
+          [Symbol.asyncIterator]: () => ({ next: () => Promise.reject(new RateLimitError('slow', 3600)) }),
+        })
+        .mockResolvedValueOnce((async function* () {
+          yield { choices: [{ delta: { content: 'ok' } }] };
+        })());
+      const client = clientWith(create);
+      const retries: RetryInfo[] = [];
+      client.on('retry', (info) => retries.push(info));
+
+      const chunks: unknown[] = [];
+      for await (const received of client.chatStream([], [])) {
+        chunks.push(received);
+      }
+
+      expect(chunks).toHaveLength(1);
+      expect(retries.map((r) => r.delayMs)).toEqual([fast.maxDelayMs]);
+    });
+  });
+});
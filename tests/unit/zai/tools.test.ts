@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { ZAI_TOOLS, filterZaiTools } from '../../../src/zai/tools';
+import { AGENT_CAPABILITIES } from '../../../src/agents/agent-types';
+
+describe('filterZaiTools', () => {
+  it('should return all tools when no allowlist is given', () => {
+    expect(filterZaiTools(ZAI_TOOLS)).toBe(ZAI_TOOLS);
+    expect(filterZaiTools(ZAI_TOOLS, null)).toBe(ZAI_TOOLS);
+  });
+
+  it('should keep only allowlisted tools', () => {
+    const names = filterZaiTools(ZAI_TOOLS, ['view_file', 'search']).map(t => t.function.name);
+    expect(names.sort()).toEqual(['search', 'view_file']);
+  });
+
+  it('should ignore allowlisted names that do not exist', () => {
+    const names = filterZaiTools(ZAI_TOOLS, ['view_file', 'no_such_tool']).map(t => t.function.name);
+    expect(names).toEqual(['view_file']);
+  });
+
+  it('should not give read-only agents any editing tools', () => {
+    for (const type of ['code-reviewer', 'explore', 'security-audit'] as const) {
+      const capability = AGENT_CAPABILITIES[type];
+      const names = filterZaiTools(ZAI_TOOLS, capability.tools).map(t => t.function.name);
+      expect(names, `Failed for agent: ${type}`).not.toContain('create_file');
+      expect(names, `Failed for agent: ${type}`).not.toContain('str_replace_editor');
+      expect(names, `Failed for agent: ${type}`).not.toContain('batch_edit');
+      expect(names, `Failed for agent: ${type}`).not.toContain('apply_patch');
+    }
+  });
+
+  it('should not give the explore and security-audit agents a shell', () => {
+    for (const type of ['explore', 'security-audit'] as const) {
+      const names = filterZaiTools(ZAI_TOOLS, AGENT_CAPABILITIES[type].tools).map(t => t.function.name);
+      expect(names, `Failed for agent: ${type}`).not.toContain('bash');
+    }
+  });
+});